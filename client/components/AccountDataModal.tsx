@@ -0,0 +1,298 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView, ActivityIndicator, TextInput } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/context/AuthContext";
+import { useAlert } from "@/context/AlertContext";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+}
+
+export function AccountDataModal({ visible, onClose }: Props) {
+  const { theme } = useTheme();
+  const { exportAccountData, deleteAccount, getEmailStatus, sendReauthCode } = useAuth();
+  const { showAlert } = useAlert();
+  const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [needsCode, setNeedsCode] = useState(false);
+  // Accounts made with Google/Apple have no password and confirm with a code emailed to them instead.
+  const [hasPassword, setHasPassword] = useState(true);
+  const [emailCode, setEmailCode] = useState("");
+  const [emailCodeSentTo, setEmailCodeSentTo] = useState<string | null>(null);
+  const [busyAction, setBusyAction] = useState<"export" | "delete" | "send-code" | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (visible) {
+      setPassword("");
+      setCode("");
+      setNeedsCode(false);
+      setEmailCode("");
+      setEmailCodeSentTo(null);
+      setError(null);
+      getEmailStatus().then((status) => setHasPassword(status?.hasPassword !== false));
+    }
+  }, [visible]);
+
+  const fail = (message: string) => {
+    setError(message);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+  };
+
+  const handleExport = async () => {
+    setBusyAction("export");
+    setError(null);
+    const result = await exportAccountData();
+    setBusyAction(null);
+    if (!result.success) {
+      fail(result.error || "Could not export your data. Please try again.");
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+  };
+
+  const handleSendEmailCode = async () => {
+    setBusyAction("send-code");
+    setError(null);
+    const result = await sendReauthCode();
+    setBusyAction(null);
+    if (!result.success) {
+      fail(result.error || "Could not send the code. Please try again.");
+      return;
+    }
+    setEmailCodeSentTo(result.email || "your email");
+  };
+
+  const runDelete = async () => {
+    setBusyAction("delete");
+    setError(null);
+    const proof = hasPassword ? { password } : { emailCode };
+    const result = await deleteAccount(proof, needsCode ? code : undefined);
+    setBusyAction(null);
+    if (!result.success) {
+      if (result.twoFactorRequired) setNeedsCode(true);
+      fail(result.error || "Could not delete your account. Please try again.");
+      return;
+    }
+    onClose();
+    showAlert({
+      type: "info",
+      title: "Account Deleted",
+      message: result.scheduledFor
+        ? `Your account will be permanently removed on ${new Date(result.scheduledFor).toLocaleDateString()}. Log in before then to keep it.`
+        : "Your account will be permanently removed in 30 days. Log in before then to keep it.",
+    });
+  };
+
+  const handleDelete = () => {
+    if (hasPassword && !password) {
+      fail("Enter your password to delete your account");
+      return;
+    }
+    if (!hasPassword && !emailCode.trim()) {
+      fail("Enter the code we emailed you");
+      return;
+    }
+    if (needsCode && !code.trim()) {
+      fail("Enter a code from your authenticator app or a recovery code");
+      return;
+    }
+    showAlert({
+      type: "confirm",
+      title: "Delete Account",
+      message:
+        "You will be signed out everywhere and your profile hidden straight away. After 30 days your profile, photos, matches and messages are permanently deleted. Logging in before then cancels the deletion.",
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        { text: "Delete", style: "destructive", onPress: runDelete },
+      ],
+    });
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+        <View style={styles.header}>
+          <ThemedText type="h3">Your Data & Account</ThemedText>
+          <Pressable onPress={onClose} hitSlop={8} testID="button-close-account-data">
+            <Icon name="x" size={24} color={theme.text} />
+          </Pressable>
+        </View>
+
+        <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.content}>
+          {error ? <ThemedText style={[styles.error, { color: theme.danger }]}>{error}</ThemedText> : null}
+
+          <ThemedText type="body" style={styles.sectionTitle}>
+            Download Your Data
+          </ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            A zip file with your profile, photos, swipes, matches, messages, activities, AI chats, journey entries and
+            SOS alerts.
+          </ThemedText>
+          <Pressable
+            style={[styles.secondaryButton, { borderColor: AppColors.primary }]}
+            onPress={handleExport}
+            disabled={busyAction !== null}
+            testID="button-export-account-data"
+          >
+            {busyAction === "export" ? (
+              <ActivityIndicator color={AppColors.primary} />
+            ) : (
+              <View style={styles.buttonContent}>
+                <Icon name="download" size={18} color={AppColors.primary} />
+                <ThemedText style={[styles.secondaryButtonText, { color: AppColors.primary }]}>Download</ThemedText>
+              </View>
+            )}
+          </Pressable>
+
+          <View style={[styles.divider, { backgroundColor: theme.border }]} />
+
+          <ThemedText type="body" style={styles.sectionTitle}>
+            Delete Account
+          </ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            Your account is kept for 30 days in case you change your mind, then permanently deleted. Posts and group chat
+            messages stay, credited to a deleted user.
+          </ThemedText>
+          {hasPassword ? (
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+              placeholder="Password"
+              placeholderTextColor={theme.textSecondary}
+              value={password}
+              onChangeText={setPassword}
+              secureTextEntry
+              autoCapitalize="none"
+              autoCorrect={false}
+              testID="input-delete-account-password"
+            />
+          ) : (
+            <>
+              <Pressable
+                style={[styles.secondaryButton, { borderColor: AppColors.primary }]}
+                onPress={handleSendEmailCode}
+                disabled={busyAction !== null}
+                testID="button-send-delete-account-code"
+              >
+                {busyAction === "send-code" ? (
+                  <ActivityIndicator color={AppColors.primary} />
+                ) : (
+                  <ThemedText style={[styles.secondaryButtonText, { color: AppColors.primary }]}>
+                    {emailCodeSentTo ? "Send Another Code" : "Email Me a Code"}
+                  </ThemedText>
+                )}
+              </Pressable>
+              {emailCodeSentTo ? (
+                <>
+                  <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                    Enter the code we sent to {emailCodeSentTo}.
+                  </ThemedText>
+                  <TextInput
+                    style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+                    placeholder="Emailed code"
+                    placeholderTextColor={theme.textSecondary}
+                    value={emailCode}
+                    onChangeText={setEmailCode}
+                    keyboardType="number-pad"
+                    maxLength={6}
+                    testID="input-delete-account-email-code"
+                  />
+                </>
+              ) : null}
+            </>
+          )}
+          {needsCode ? (
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+              placeholder="Authenticator or recovery code"
+              placeholderTextColor={theme.textSecondary}
+              value={code}
+              onChangeText={setCode}
+              autoCapitalize="none"
+              autoCorrect={false}
+              maxLength={11}
+              testID="input-delete-account-code"
+            />
+          ) : null}
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: theme.danger }]}
+            onPress={handleDelete}
+            disabled={busyAction !== null}
+            testID="button-delete-account"
+          >
+            {busyAction === "delete" ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>Delete My Account</ThemedText>
+            )}
+          </Pressable>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: Spacing["2xl"],
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(0,0,0,0.1)",
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  sectionTitle: {
+    fontWeight: "600",
+  },
+  divider: {
+    height: 1,
+    marginVertical: Spacing.sm,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    fontSize: 16,
+  },
+  primaryButton: {
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+  },
+  buttonContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  secondaryButtonText: {
+    fontWeight: "600",
+  },
+  error: {
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,190 @@
+import React from "react";
+import { StyleSheet, View, Pressable } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { useTheme } from "@/hooks/useTheme";
+import { ActivityPoll } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Props {
+  poll: ActivityPoll;
+  isOwnMessage: boolean;
+  canClose: boolean;
+  onVote: (optionIds: string[]) => void;
+  onClosePoll: () => void;
+  resolveName?: (userId: string) => string | undefined;
+}
+
+export function isActivityPollClosed(poll: ActivityPoll): boolean {
+  return poll.isClosed || (!!poll.closesAt && new Date(poll.closesAt).getTime() <= Date.now());
+}
+
+function formatCloseTime(closesAt: string): string {
+  const diffMins = Math.ceil((new Date(closesAt).getTime() - Date.now()) / 60000);
+  if (diffMins < 60) return `Closes in ${diffMins}m`;
+  const diffHours = Math.round(diffMins / 60);
+  if (diffHours < 48) return `Closes in ${diffHours}h`;
+  return `Closes ${new Date(closesAt).toLocaleDateString([], { month: "short", day: "numeric" })}`;
+}
+
+export function ActivityPollCard({ poll, isOwnMessage, canClose, onVote, onClosePoll, resolveName }: Props) {
+  const { theme } = useTheme();
+  const isClosed = isActivityPollClosed(poll);
+  const textColor = isOwnMessage ? "#FFFFFF" : theme.text;
+  const mutedColor = isOwnMessage ? "rgba(255,255,255,0.75)" : theme.textSecondary;
+  const totalVotes = poll.options.reduce((sum, option) => sum + option.voteCount, 0);
+
+  const handleOptionPress = (optionId: string) => {
+    if (isClosed) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const selected = poll.myOptionIds.includes(optionId);
+    if (poll.allowMultiple) {
+      onVote(selected ? poll.myOptionIds.filter((id) => id !== optionId) : [...poll.myOptionIds, optionId]);
+    } else {
+      onVote(selected ? [] : [optionId]);
+    }
+  };
+
+  const details = [
+    poll.allowMultiple ? "Multiple answers" : "One answer",
+    poll.isAnonymous ? "Anonymous" : null,
+    isClosed ? "Closed" : poll.closesAt ? formatCloseTime(poll.closesAt) : null,
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.questionRow}>
+        <Icon name="bar-chart-2" size={16} color={textColor} />
+        <ThemedText style={[styles.question, { color: textColor }]}>{poll.question}</ThemedText>
+      </View>
+      <ThemedText style={[styles.details, { color: mutedColor }]}>{details}</ThemedText>
+
+      {poll.options.map((option) => {
+        const selected = poll.myOptionIds.includes(option.id);
+        const share = totalVotes > 0 ? option.voteCount / totalVotes : 0;
+        const voterNames = (option.voterIds || [])
+          .map((id) => resolveName?.(id))
+          .filter(Boolean)
+          .slice(0, 3)
+          .join(", ");
+        return (
+          <Pressable
+            key={option.id}
+            style={[
+              styles.option,
+              {
+                borderColor: selected ? (isOwnMessage ? "#FFFFFF" : AppColors.primary) : isOwnMessage ? "rgba(255,255,255,0.35)" : theme.border,
+              },
+            ]}
+            onPress={() => handleOptionPress(option.id)}
+            disabled={isClosed}
+            testID={`button-poll-option-${option.id}`}
+          >
+            <View
+              style={[
+                styles.optionFill,
+                {
+                  width: `${Math.round(share * 100)}%`,
+                  backgroundColor: isOwnMessage ? "rgba(255,255,255,0.2)" : `${AppColors.primary}20`,
+                },
+              ]}
+            />
+            <View style={styles.optionContent}>
+              <Icon
+                name={selected ? "check-circle" : poll.allowMultiple ? "plus" : "check"}
+                size={14}
+                color={selected ? textColor : mutedColor}
+              />
+              <View style={styles.optionText}>
+                <ThemedText style={[styles.optionLabel, { color: textColor }]}>{option.text}</ThemedText>
+                {voterNames ? (
+                  <ThemedText style={[styles.voterNames, { color: mutedColor }]} numberOfLines={1}>
+                    {voterNames}
+                    {(option.voterIds?.length || 0) > 3 ? ` +${(option.voterIds?.length || 0) - 3}` : ""}
+                  </ThemedText>
+                ) : null}
+              </View>
+              <ThemedText style={[styles.optionCount, { color: textColor }]}>{option.voteCount}</ThemedText>
+            </View>
+          </Pressable>
+        );
+      })}
+
+      <View style={styles.footer}>
+        <ThemedText style={[styles.details, { color: mutedColor }]}>
+          {poll.totalVoters === 1 ? "1 voter" : `${poll.totalVoters} voters`}
+        </ThemedText>
+        {canClose && !isClosed ? (
+          <Pressable onPress={onClosePoll} hitSlop={8} testID="button-close-poll-voting">
+            <ThemedText style={[styles.closeText, { color: textColor }]}>Close poll</ThemedText>
+          </Pressable>
+        ) : null}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    minWidth: 220,
+    gap: Spacing.xs,
+  },
+  questionRow: {
+    flexDirection: "row",
+    alignItems: "flex-start",
+    gap: Spacing.xs,
+  },
+  question: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: "700",
+    lineHeight: 21,
+  },
+  details: {
+    fontSize: 12,
+  },
+  option: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.sm,
+    overflow: "hidden",
+    marginTop: Spacing.xs,
+  },
+  optionFill: {
+    position: "absolute",
+    top: 0,
+    bottom: 0,
+    left: 0,
+  },
+  optionContent: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.xs,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontSize: 14,
+  },
+  voterNames: {
+    fontSize: 11,
+  },
+  optionCount: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  footer: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginTop: Spacing.xs,
+  },
+  closeText: {
+    fontSize: 12,
+    fontWeight: "700",
+  },
+});
@@ -24,6 +24,7 @@ interface ChatAttachmentModalProps {
   onSelectPhoto: () => void;
   onSelectLocation: () => void;
   onSelectFile: () => void;
+  onSelectPoll?: () => void;
 }
 
 export function ChatAttachmentModal({
@@ -32,6 +33,7 @@ export function ChatAttachmentModal({
   onSelectPhoto,
   onSelectLocation,
   onSelectFile,
+  onSelectPoll,
 }: ChatAttachmentModalProps) {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
@@ -61,6 +63,18 @@ export function ChatAttachmentModal({
       onPress: onSelectFile,
       gradient: ["#3B82F6", "#60A5FA"] as [string, string],
     },
+    ...(onSelectPoll
+      ? [
+          {
+            id: "poll",
+            icon: "bar-chart-2",
+            title: "Poll",
+            subtitle: "Ask the group to vote on something",
+            onPress: onSelectPoll,
+            gradient: [AppColors.sunsetGold, "#FCD34D"] as [string, string],
+          },
+        ]
+      : []),
   ];
 
   return (
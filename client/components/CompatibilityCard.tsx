@@ -26,7 +26,6 @@ import * as Haptics from "expo-haptics";
 import { ThemedText } from "@/components/ThemedText";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/context/AuthContext";
-import { useSubscription } from "@/context/SubscriptionContext";
 import { getApiUrl } from "@/lib/query-client";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 
@@ -62,8 +61,7 @@ export function CompatibilityCard({
   onClose,
 }: CompatibilityCardProps) {
   const { theme, isDark } = useTheme();
-  const { user } = useAuth();
-  const { tier } = useSubscription();
+  const { user, session } = useAuth();
   const navigation = useNavigation<any>();
   const [result, setResult] = useState<CompatibilityResult | null>(null);
   const [loading, setLoading] = useState(false);
@@ -119,9 +117,11 @@ export function CompatibilityCard({
 
     try {
       const baseUrl = getApiUrl();
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
       const response = await fetch(new URL("/api/compatibility/check", baseUrl).toString(), {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers,
         body: JSON.stringify({
           userAId: user.id,
           userBId: matchedUserId,
@@ -134,7 +134,6 @@ export function CompatibilityCard({
             photos: user.photos,
           },
           userBProfile: matchedUserProfile,
-          tier,
         }),
       });
 
@@ -0,0 +1,281 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  TextInput,
+  ScrollView,
+} from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+export interface NewPoll {
+  question: string;
+  options: string[];
+  allowMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt?: string;
+}
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+  onSubmit: (poll: NewPoll) => void;
+}
+
+const MAX_OPTIONS = 10;
+
+const CLOSE_AFTER_CHOICES = [
+  { label: "No limit", hours: 0 },
+  { label: "1 hour", hours: 1 },
+  { label: "1 day", hours: 24 },
+  { label: "3 days", hours: 72 },
+];
+
+export function CreatePollModal({ visible, onClose, onSubmit }: Props) {
+  const { theme } = useTheme();
+  const [question, setQuestion] = useState("");
+  const [options, setOptions] = useState(["", ""]);
+  const [allowMultiple, setAllowMultiple] = useState(false);
+  const [isAnonymous, setIsAnonymous] = useState(false);
+  const [closeAfterHours, setCloseAfterHours] = useState(0);
+
+  const filledOptions = options.map((o) => o.trim()).filter(Boolean);
+  const canSubmit = question.trim().length > 0 && new Set(filledOptions).size >= 2;
+
+  const reset = () => {
+    setQuestion("");
+    setOptions(["", ""]);
+    setAllowMultiple(false);
+    setIsAnonymous(false);
+    setCloseAfterHours(0);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleSubmit = () => {
+    if (!canSubmit) return;
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onSubmit({
+      question: question.trim(),
+      options: Array.from(new Set(filledOptions)),
+      allowMultiple,
+      isAnonymous,
+      closesAt: closeAfterHours ? new Date(Date.now() + closeAfterHours * 3600000).toISOString() : undefined,
+    });
+    handleClose();
+  };
+
+  const renderCheckbox = (label: string, checked: boolean, onToggle: () => void, testId: string) => (
+    <Pressable
+      style={[styles.checkboxRow, { backgroundColor: checked ? `${AppColors.primary}15` : theme.backgroundSecondary }]}
+      onPress={() => {
+        Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+        onToggle();
+      }}
+      testID={testId}
+    >
+      <View
+        style={[
+          styles.checkbox,
+          {
+            backgroundColor: checked ? AppColors.primary : "transparent",
+            borderColor: checked ? AppColors.primary : theme.border,
+          },
+        ]}
+      >
+        {checked ? <Icon name="check" size={14} color="#FFFFFF" /> : null}
+      </View>
+      <ThemedText type="body" style={styles.checkboxLabel}>
+        {label}
+      </ThemedText>
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <ThemedText type="h3">Create Poll</ThemedText>
+            <Pressable onPress={handleClose} hitSlop={8} testID="button-close-poll">
+              <Icon name="x" size={24} color={theme.textSecondary} />
+            </Pressable>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.content}>
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+              placeholder="Ask a question..."
+              placeholderTextColor={theme.textSecondary}
+              value={question}
+              onChangeText={setQuestion}
+              maxLength={300}
+              multiline
+              testID="input-poll-question"
+            />
+
+            {options.map((option, index) => (
+              <View key={index} style={styles.optionRow}>
+                <TextInput
+                  style={[styles.input, styles.optionInput, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+                  placeholder={`Option ${index + 1}`}
+                  placeholderTextColor={theme.textSecondary}
+                  value={option}
+                  onChangeText={(text) => setOptions((prev) => prev.map((o, i) => (i === index ? text : o)))}
+                  maxLength={100}
+                  testID={`input-poll-option-${index}`}
+                />
+                {options.length > 2 ? (
+                  <Pressable
+                    onPress={() => setOptions((prev) => prev.filter((_, i) => i !== index))}
+                    hitSlop={8}
+                    testID={`button-remove-poll-option-${index}`}
+                  >
+                    <Icon name="x-circle" size={20} color={theme.textSecondary} />
+                  </Pressable>
+                ) : null}
+              </View>
+            ))}
+
+            {options.length < MAX_OPTIONS ? (
+              <Pressable
+                style={styles.addOption}
+                onPress={() => setOptions((prev) => [...prev, ""])}
+                testID="button-add-poll-option"
+              >
+                <Icon name="plus" size={16} color={AppColors.primary} />
+                <ThemedText style={{ color: AppColors.primary, fontWeight: "600" }}>Add option</ThemedText>
+              </Pressable>
+            ) : null}
+
+            <View style={styles.checkboxSection}>
+              {renderCheckbox("Allow multiple answers", allowMultiple, () => setAllowMultiple(!allowMultiple), "checkbox-poll-multiple")}
+              {renderCheckbox("Anonymous votes", isAnonymous, () => setIsAnonymous(!isAnonymous), "checkbox-poll-anonymous")}
+            </View>
+
+            <ThemedText type="small" style={[styles.sectionLabel, { color: theme.textSecondary }]}>
+              Close poll after
+            </ThemedText>
+            <View style={styles.chipRow}>
+              {CLOSE_AFTER_CHOICES.map((choice) => {
+                const selected = closeAfterHours === choice.hours;
+                return (
+                  <Pressable
+                    key={choice.hours}
+                    style={[styles.chip, { backgroundColor: selected ? AppColors.primary : theme.backgroundSecondary }]}
+                    onPress={() => setCloseAfterHours(choice.hours)}
+                    testID={`chip-poll-close-${choice.hours}`}
+                  >
+                    <ThemedText style={[styles.chipText, { color: selected ? "#FFFFFF" : theme.text }]}>
+                      {choice.label}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+          </ScrollView>
+
+          <GradientButton onPress={handleSubmit} disabled={!canSubmit}>
+            Send Poll
+          </GradientButton>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    maxHeight: "85%",
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.lg,
+  },
+  content: {
+    gap: Spacing.sm,
+    paddingBottom: Spacing.lg,
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 15,
+  },
+  optionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+  },
+  optionInput: {
+    flex: 1,
+  },
+  addOption: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingVertical: Spacing.xs,
+  },
+  checkboxSection: {
+    gap: Spacing.sm,
+    marginTop: Spacing.sm,
+  },
+  checkboxRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  checkboxLabel: {
+    flex: 1,
+  },
+  sectionLabel: {
+    marginTop: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+});
@@ -0,0 +1,238 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView, ActivityIndicator } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/context/AuthContext";
+import { useAlert } from "@/context/AlertContext";
+import { DeviceSession } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+}
+
+const PLATFORM_ICONS: Record<string, string> = {
+  ios: "smartphone",
+  android: "smartphone",
+  web: "monitor",
+};
+
+const formatLastActive = (value: string) => {
+  const diffMins = Math.floor((Date.now() - new Date(value).getTime()) / 60000);
+  if (diffMins < 2) return "Active now";
+  if (diffMins < 60) return `Active ${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `Active ${diffHours}h ago`;
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `Active ${diffDays}d ago`;
+  return `Active ${new Date(value).toLocaleDateString()}`;
+};
+
+export function DeviceSessionsModal({ visible, onClose }: Props) {
+  const { theme } = useTheme();
+  const { listSessions, revokeSession, revokeOtherSessions } = useAuth();
+  const { showAlert } = useAlert();
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+
+  const loadSessions = useCallback(async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await listSessions();
+    if (result) {
+      setSessions(result);
+    } else {
+      setError("Could not load your devices. Please try again.");
+    }
+    setIsLoading(false);
+  }, [listSessions]);
+
+  useEffect(() => {
+    if (visible) loadSessions();
+  }, [visible]);
+
+  const handleRevoke = (session: DeviceSession) => {
+    showAlert({
+      type: "confirm",
+      title: "Sign Out Device",
+      message: `Sign out of ${session.deviceName}? It will need to log in again.`,
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Sign Out",
+          style: "destructive",
+          onPress: async () => {
+            setRevokingId(session.id);
+            const ok = await revokeSession(session.id);
+            setRevokingId(null);
+            if (!ok) {
+              showAlert({ type: "error", title: "Error", message: "Could not sign out that device. Please try again." });
+              return;
+            }
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            setSessions((prev) => prev.filter((s) => s.id !== session.id));
+          },
+        },
+      ],
+    });
+  };
+
+  const handleRevokeOthers = () => {
+    showAlert({
+      type: "confirm",
+      title: "Sign Out Everywhere Else",
+      message: "Every other device will need to log in again. This device stays signed in.",
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Sign Out",
+          style: "destructive",
+          onPress: async () => {
+            setRevokingId("others");
+            const ok = await revokeOtherSessions();
+            setRevokingId(null);
+            if (!ok) {
+              showAlert({ type: "error", title: "Error", message: "Could not sign out your other devices. Please try again." });
+              return;
+            }
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            setSessions((prev) => prev.filter((s) => s.current));
+          },
+        },
+      ],
+    });
+  };
+
+  const otherSessions = sessions.filter((s) => !s.current);
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+        <View style={styles.header}>
+          <ThemedText type="h3">Signed-in Devices</ThemedText>
+          <Pressable onPress={onClose} hitSlop={8} testID="button-close-devices">
+            <Icon name="x" size={24} color={theme.text} />
+          </Pressable>
+        </View>
+
+        {isLoading && sessions.length === 0 ? (
+          <View style={styles.centered}>
+            <ActivityIndicator color={AppColors.primary} />
+          </View>
+        ) : (
+          <ScrollView contentContainerStyle={styles.content}>
+            {error ? <ThemedText style={[styles.error, { color: theme.danger }]}>{error}</ThemedText> : null}
+
+            {sessions.map((session) => (
+              <View
+                key={session.id}
+                style={[styles.sessionRow, { backgroundColor: theme.cardBackground }]}
+                testID={`row-session-${session.id}`}
+              >
+                <Icon name={PLATFORM_ICONS[session.platform] || "monitor"} size={22} color={theme.text} />
+                <View style={styles.sessionInfo}>
+                  <ThemedText type="body" style={styles.deviceName}>
+                    {session.deviceName}
+                  </ThemedText>
+                  <ThemedText type="small" style={{ color: session.current ? AppColors.success : theme.textSecondary }}>
+                    {session.current ? "This device" : formatLastActive(session.lastUsedAt)}
+                    {session.ipAddress ? ` · ${session.ipAddress}` : ""}
+                  </ThemedText>
+                </View>
+                {session.current ? null : revokingId === session.id ? (
+                  <ActivityIndicator color={theme.danger} />
+                ) : (
+                  <Pressable onPress={() => handleRevoke(session)} hitSlop={8} testID={`button-revoke-${session.id}`}>
+                    <Icon name="log-out" size={20} color={theme.danger} />
+                  </Pressable>
+                )}
+              </View>
+            ))}
+
+            {otherSessions.length > 0 ? (
+              <Pressable
+                style={[styles.revokeAll, { borderColor: theme.danger }]}
+                onPress={handleRevokeOthers}
+                disabled={revokingId !== null}
+                testID="button-revoke-other-sessions"
+              >
+                {revokingId === "others" ? (
+                  <ActivityIndicator color={theme.danger} />
+                ) : (
+                  <ThemedText style={[styles.revokeAllText, { color: theme.danger }]}>
+                    Sign Out All Other Devices
+                  </ThemedText>
+                )}
+              </Pressable>
+            ) : !isLoading && !error ? (
+              <ThemedText type="small" style={[styles.hint, { color: theme.textSecondary }]}>
+                You are not signed in anywhere else.
+              </ThemedText>
+            ) : null}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: Spacing["2xl"],
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(0,0,0,0.1)",
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.sm,
+  },
+  sessionRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  sessionInfo: {
+    flex: 1,
+  },
+  deviceName: {
+    fontWeight: "600",
+  },
+  revokeAll: {
+    marginTop: Spacing.lg,
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+  },
+  revokeAllText: {
+    fontWeight: "600",
+  },
+  hint: {
+    marginTop: Spacing.md,
+    textAlign: "center",
+  },
+  error: {
+    fontSize: 13,
+  },
+});
@@ -0,0 +1,344 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, Modal, Pressable, ScrollView, ActivityIndicator, TextInput } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/context/AuthContext";
+import { useAlert } from "@/context/AlertContext";
+import { EmailStatus } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type Step = "status" | "change" | "confirm-change";
+
+export function EmailSettingsModal({ visible, onClose }: Props) {
+  const { theme } = useTheme();
+  const { getEmailStatus, sendEmailVerification, verifyEmail, requestEmailChange, confirmEmailChange } = useAuth();
+  const { showAlert } = useAlert();
+  const [step, setStep] = useState<Step>("status");
+  const [status, setStatus] = useState<EmailStatus | null>(null);
+  const [code, setCode] = useState("");
+  const [newEmail, setNewEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [currentEmailCode, setCurrentEmailCode] = useState("");
+  const [newEmailCode, setNewEmailCode] = useState("");
+  const [confirmCurrentEmail, setConfirmCurrentEmail] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const loadStatus = async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await getEmailStatus();
+    if (result) {
+      setStatus(result);
+      if (result.pendingEmail) {
+        setNewEmail(result.pendingEmail);
+        setConfirmCurrentEmail(result.verified || !result.hasPassword);
+        setStep("confirm-change");
+      }
+    } else {
+      setError("Could not load your email settings. Please try again.");
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setStep("status");
+      setCode("");
+      setNewEmail("");
+      setPassword("");
+      setCurrentEmailCode("");
+      setNewEmailCode("");
+      setNotice(null);
+      loadStatus();
+    }
+  }, [visible]);
+
+  const fail = (message: string) => {
+    setError(message);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+  };
+
+  const handleSendCode = async () => {
+    setBusyAction("send");
+    setError(null);
+    const result = await sendEmailVerification();
+    setBusyAction(null);
+    if (!result.success) {
+      fail(result.error || "Could not send the code. Please try again.");
+      return;
+    }
+    setNotice(`We sent a code to ${status?.email}. You can also tap the link in that email.`);
+  };
+
+  const handleVerify = async () => {
+    if (!code.trim()) {
+      fail("Enter the 6-digit code from the email");
+      return;
+    }
+    setBusyAction("verify");
+    setError(null);
+    const result = await verifyEmail(code);
+    setBusyAction(null);
+    if (!result.success) {
+      fail(result.error || "That code did not work. Please try again.");
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setStatus((prev) => (prev ? { ...prev, verified: true } : prev));
+    setCode("");
+    setNotice(null);
+  };
+
+  // Accounts without a password skip it; their current address always confirms the change instead.
+  const needsPassword = status?.hasPassword !== false;
+
+  const handleRequestChange = async () => {
+    if (!newEmail.trim() || (needsPassword && !password)) {
+      fail(needsPassword ? "Enter your new email and your password" : "Enter your new email");
+      return;
+    }
+    setBusyAction("change");
+    setError(null);
+    const result = await requestEmailChange(newEmail, needsPassword ? password : undefined);
+    setBusyAction(null);
+    if (!result.pendingEmail) {
+      fail(result.error || "Could not change your email. Please try again.");
+      return;
+    }
+    setPassword("");
+    setNewEmail(result.pendingEmail);
+    setConfirmCurrentEmail(!!result.confirmCurrentEmail);
+    setStatus((prev) => (prev ? { ...prev, pendingEmail: result.pendingEmail || null } : prev));
+    setStep("confirm-change");
+  };
+
+  const handleConfirmChange = async () => {
+    if (!newEmailCode.trim() && !currentEmailCode.trim()) {
+      fail("Enter the codes we emailed you");
+      return;
+    }
+    setBusyAction("confirm");
+    setError(null);
+    const result = await confirmEmailChange({ currentEmailCode, newEmailCode });
+    setBusyAction(null);
+    if (result.error) {
+      fail(result.error);
+      return;
+    }
+    if (!result.completed) {
+      setNotice("Thanks! Now enter the code sent to your other address.");
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    onClose();
+    showAlert({ type: "success", title: "Email Changed", message: `Your account now uses ${newEmail}.` });
+  };
+
+  const renderInput = (
+    value: string,
+    onChangeText: (text: string) => void,
+    placeholder: string,
+    testID: string,
+    options: { secure?: boolean; email?: boolean } = {}
+  ) => (
+    <TextInput
+      style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+      placeholder={placeholder}
+      placeholderTextColor={theme.textSecondary}
+      value={value}
+      onChangeText={onChangeText}
+      secureTextEntry={options.secure}
+      keyboardType={options.email ? "email-address" : options.secure ? "default" : "number-pad"}
+      autoCapitalize="none"
+      autoCorrect={false}
+      maxLength={options.email || options.secure ? undefined : 6}
+      testID={testID}
+    />
+  );
+
+  const renderButton = (label: string, action: string, onPress: () => void, testID: string, primary = true) => (
+    <Pressable
+      style={
+        primary
+          ? [styles.primaryButton, { backgroundColor: AppColors.primary }]
+          : [styles.secondaryButton, { borderColor: AppColors.primary }]
+      }
+      onPress={onPress}
+      disabled={busyAction !== null}
+      testID={testID}
+    >
+      {busyAction === action ? (
+        <ActivityIndicator color={primary ? "#fff" : AppColors.primary} />
+      ) : (
+        <ThemedText style={primary ? styles.primaryButtonText : [styles.secondaryButtonText, { color: AppColors.primary }]}>
+          {label}
+        </ThemedText>
+      )}
+    </Pressable>
+  );
+
+  const renderStatus = () => {
+    if (!status) return null;
+    return (
+      <>
+        <View style={[styles.statusRow, { backgroundColor: theme.cardBackground }]}>
+          <Icon name="mail" size={22} color={status.verified ? AppColors.success : theme.textSecondary} />
+          <View style={styles.statusInfo}>
+            <ThemedText type="body" style={styles.statusTitle}>
+              {status.email}
+            </ThemedText>
+            <ThemedText type="small" style={{ color: status.verified ? AppColors.success : theme.danger }}>
+              {status.verified ? "Verified" : "Not verified"}
+            </ThemedText>
+          </View>
+        </View>
+
+        {status.verified ? null : (
+          <>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Confirm your email to send messages and use the radar.
+            </ThemedText>
+            {renderButton("Send Code", "send", handleSendCode, "button-send-email-code", false)}
+            {renderInput(code, setCode, "123456", "input-email-code")}
+            {renderButton("Verify Email", "verify", handleVerify, "button-verify-email")}
+          </>
+        )}
+
+        {renderButton("Change Email", "open-change", () => setStep("change"), "button-open-change-email", false)}
+      </>
+    );
+  };
+
+  const renderChange = () => (
+    <>
+      <ThemedText type="body" style={{ color: theme.textSecondary }}>
+        We will send a code to your new address
+        {status?.verified || !needsPassword ? ` and one to ${status?.email} to make sure the change is yours` : ""}.
+      </ThemedText>
+      {renderInput(newEmail, setNewEmail, "New email", "input-new-email", { email: true })}
+      {needsPassword
+        ? renderInput(password, setPassword, "Password", "input-change-email-password", { secure: true })
+        : null}
+      {renderButton("Send Codes", "change", handleRequestChange, "button-request-email-change")}
+      {renderButton("Cancel", "cancel", () => setStep("status"), "button-cancel-email-change", false)}
+    </>
+  );
+
+  const renderConfirmChange = () => (
+    <>
+      <ThemedText type="body" style={{ color: theme.textSecondary }}>
+        Enter the code{confirmCurrentEmail ? "s" : ""} we sent to finish moving your account to {newEmail}.
+      </ThemedText>
+      {confirmCurrentEmail
+        ? renderInput(currentEmailCode, setCurrentEmailCode, `Code sent to ${status?.email}`, "input-current-email-code")
+        : null}
+      {renderInput(newEmailCode, setNewEmailCode, `Code sent to ${newEmail}`, "input-new-email-code")}
+      {renderButton("Confirm Change", "confirm", handleConfirmChange, "button-confirm-email-change")}
+      {renderButton("Start Over", "restart", () => setStep("change"), "button-restart-email-change", false)}
+    </>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+        <View style={styles.header}>
+          <ThemedText type="h3">Email Address</ThemedText>
+          <Pressable onPress={onClose} hitSlop={8} testID="button-close-email-settings">
+            <Icon name="x" size={24} color={theme.text} />
+          </Pressable>
+        </View>
+
+        {isLoading && !status ? (
+          <View style={styles.centered}>
+            <ActivityIndicator color={AppColors.primary} />
+          </View>
+        ) : (
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.content}>
+            {error ? <ThemedText style={[styles.error, { color: theme.danger }]}>{error}</ThemedText> : null}
+            {notice ? <ThemedText style={[styles.notice, { color: theme.textSecondary }]}>{notice}</ThemedText> : null}
+            {step === "change" ? renderChange() : step === "confirm-change" ? renderConfirmChange() : renderStatus()}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: Spacing["2xl"],
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(0,0,0,0.1)",
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  statusInfo: {
+    flex: 1,
+  },
+  statusTitle: {
+    fontWeight: "600",
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    fontSize: 16,
+  },
+  primaryButton: {
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    fontWeight: "600",
+  },
+  error: {
+    fontSize: 13,
+  },
+  notice: {
+    fontSize: 13,
+  },
+});
@@ -9,19 +9,21 @@ import Animated, {
 } from "react-native-reanimated";
 
 import { ThemedText } from "@/components/ThemedText";
-import { ForumPost } from "@/types";
+import { ForumPost, ForumVote } from "@/types";
 import { BorderRadius, Spacing, AppColors, Shadows } from "@/constants/theme";
 import { useTheme } from "@/hooks/useTheme";
 
 interface ForumPostCardProps {
   post: ForumPost;
   onPress: () => void;
-  onUpvote: () => void;
+  // Called with the vote to set; tapping the current vote again clears it.
+  onVote: (value: ForumVote) => void;
+  onTagPress?: (tag: string) => void;
 }
 
 const AnimatedPressable = Animated.createAnimatedComponent(Pressable);
 
-const CATEGORY_COLORS: Record<ForumPost["category"], string> = {
+export const CATEGORY_COLORS: Record<ForumPost["category"], string> = {
   builds: "#4CAF50",
   electrical: "#FFC107",
   plumbing: "#2196F3",
@@ -30,7 +32,7 @@ const CATEGORY_COLORS: Record<ForumPost["category"], string> = {
   general: "#607D8B",
 };
 
-const CATEGORY_LABELS: Record<ForumPost["category"], string> = {
+export const CATEGORY_LABELS: Record<ForumPost["category"], string> = {
   builds: "Builds",
   electrical: "Electrical",
   plumbing: "Plumbing",
@@ -39,7 +41,7 @@ const CATEGORY_LABELS: Record<ForumPost["category"], string> = {
   general: "General",
 };
 
-export function ForumPostCard({ post, onPress, onUpvote }: ForumPostCardProps) {
+export function ForumPostCard({ post, onPress, onVote, onTagPress }: ForumPostCardProps) {
   const { theme } = useTheme();
   const scale = useSharedValue(1);
 
@@ -110,6 +112,27 @@ export function ForumPostCard({ post, onPress, onUpvote }: ForumPostCardProps) {
         {post.content}
       </ThemedText>
 
+      {post.tags && post.tags.length > 0 ? (
+        <View style={styles.tagRow}>
+          {post.tags.map((tag) => (
+            <Pressable
+              key={tag}
+              onPress={(e) => {
+                e.stopPropagation();
+                onTagPress?.(tag);
+              }}
+              disabled={!onTagPress}
+              style={[styles.tag, { backgroundColor: theme.backgroundSecondary }]}
+              testID={`tag-${post.id}-${tag}`}
+            >
+              <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                #{tag}
+              </ThemedText>
+            </Pressable>
+          ))}
+        </View>
+      ) : null}
+
       <View style={styles.footer}>
         <View style={styles.authorInfo}>
           <Image
@@ -123,22 +146,34 @@ export function ForumPostCard({ post, onPress, onUpvote }: ForumPostCardProps) {
         </View>
 
         <View style={styles.stats}>
-          <Pressable
-            onPress={(e) => {
-              e.stopPropagation();
-              onUpvote();
-            }}
-            style={styles.statItem}
-            testID={`upvote-${post.id}`}
-          >
-            <Icon name="arrow-up" size={16} color={AppColors.primary} />
+          <View style={styles.statItem}>
+            <Pressable
+              onPress={(e) => {
+                e.stopPropagation();
+                onVote(post.myVote === 1 ? 0 : 1);
+              }}
+              hitSlop={6}
+              testID={`upvote-${post.id}`}
+            >
+              <Icon name="arrow-up" size={16} color={post.myVote === 1 ? AppColors.primary : theme.textSecondary} />
+            </Pressable>
             <ThemedText
               type="small"
-              style={[styles.statText, { color: AppColors.primary }]}
+              style={[styles.statText, styles.scoreText, { color: post.myVote !== 0 ? AppColors.primary : theme.textSecondary }]}
             >
-              {post.upvotes}
+              {post.score}
             </ThemedText>
-          </Pressable>
+            <Pressable
+              onPress={(e) => {
+                e.stopPropagation();
+                onVote(post.myVote === -1 ? 0 : -1);
+              }}
+              hitSlop={6}
+              testID={`downvote-${post.id}`}
+            >
+              <Icon name="arrow-down" size={16} color={post.myVote === -1 ? AppColors.primary : theme.textSecondary} />
+            </Pressable>
+          </View>
 
           <View style={styles.statItem}>
             <Icon name="message-circle" size={16} color={theme.textSecondary} />
@@ -187,6 +222,17 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: Spacing.md,
   },
+  tagRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.xs,
+    marginBottom: Spacing.md,
+  },
+  tag: {
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+  },
   footer: {
     flexDirection: "row",
     justifyContent: "space-between",
@@ -215,4 +261,7 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     fontWeight: "500",
   },
+  scoreText: {
+    marginRight: 4,
+  },
 });
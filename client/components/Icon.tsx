@@ -388,6 +388,14 @@ export function Icon({ name, size = 24, color = "#000" }: IconProps) {
           <Line x1="12" y1="18" x2="12.01" y2="18" />
         </Svg>
       );
+    case "monitor":
+      return (
+        <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round">
+          <Rect x="2" y="3" width="20" height="14" rx="2" ry="2" />
+          <Line x1="8" y1="21" x2="16" y2="21" />
+          <Line x1="12" y1="17" x2="12" y2="21" />
+        </Svg>
+      );
     case "palette":
       return (
         <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round">
@@ -405,6 +413,16 @@ export function Icon({ name, size = 24, color = "#000" }: IconProps) {
           <Path d="M13.73 21a2 2 0 0 1-3.46 0" />
         </Svg>
       );
+    case "bell-off":
+      return (
+        <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round">
+          <Path d="M13.73 21a2 2 0 0 1-3.46 0" />
+          <Path d="M18.63 13A17.89 17.89 0 0 1 18 8" />
+          <Path d="M6.26 6.26A5.86 5.86 0 0 0 6 8c0 7-3 9-3 9h14" />
+          <Path d="M18 8a6 6 0 0 0-9.33-5" />
+          <Line x1="1" y1="1" x2="23" y2="23" />
+        </Svg>
+      );
     case "shield":
       return (
         <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round">
@@ -663,6 +681,14 @@ export function Icon({ name, size = 24, color = "#000" }: IconProps) {
           <Line x1="3" y1="18" x2="3.01" y2="18" />
         </Svg>
       );
+    case "bar-chart-2":
+      return (
+        <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round">
+          <Line x1="18" y1="20" x2="18" y2="10" />
+          <Line x1="12" y1="20" x2="12" y2="4" />
+          <Line x1="6" y1="20" x2="6" y2="14" />
+        </Svg>
+      );
     case "sparkles":
       return (
         <Svg width={size} height={size} viewBox="0 0 24 24" fill="none" stroke={color} strokeWidth={strokeWidth} strokeLinecap="round" strokeLinejoin="round">
@@ -0,0 +1,291 @@
+import React, { useEffect, useRef, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  TextInput,
+  FlatList,
+  ActivityIndicator,
+} from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/context/AuthContext";
+import { getApiUrl } from "@/lib/query-client";
+import { MessageSearchResult } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface MessageSearchModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSelect: (result: MessageSearchResult) => void;
+  matchId?: string;
+  activityId?: string;
+  placeholder?: string;
+}
+
+const SEARCH_DEBOUNCE_MS = 300;
+
+function formatResultDate(dateString: string) {
+  const date = new Date(dateString);
+  const diffDays = Math.floor((Date.now() - date.getTime()) / 86400000);
+  if (diffDays < 1) return date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  if (diffDays < 7) return date.toLocaleDateString([], { weekday: "short" });
+  return date.toLocaleDateString([], { month: "short", day: "numeric" });
+}
+
+// Across conversations the row title is the chat, so the sender moves into the snippet.
+function withSenderPrefix(result: MessageSearchResult): MessageSearchResult {
+  const prefix = `${result.senderName}: `;
+  return {
+    ...result,
+    snippet: prefix + result.snippet,
+    highlights: result.highlights.map((range) => ({ ...range, start: range.start + prefix.length })),
+  };
+}
+
+function HighlightedSnippet({ result, color }: { result: MessageSearchResult; color: string }) {
+  const parts: { text: string; highlighted: boolean }[] = [];
+  let cursor = 0;
+  for (const range of result.highlights) {
+    if (range.start > cursor) parts.push({ text: result.snippet.slice(cursor, range.start), highlighted: false });
+    parts.push({ text: result.snippet.slice(range.start, range.start + range.length), highlighted: true });
+    cursor = range.start + range.length;
+  }
+  if (cursor < result.snippet.length) parts.push({ text: result.snippet.slice(cursor), highlighted: false });
+
+  return (
+    <ThemedText style={[styles.snippet, { color }]} numberOfLines={2}>
+      {parts.map((part, index) => (
+        <ThemedText
+          key={index}
+          style={part.highlighted ? styles.snippetHighlight : undefined}
+        >
+          {part.text}
+        </ThemedText>
+      ))}
+    </ThemedText>
+  );
+}
+
+export function MessageSearchModal({
+  visible,
+  onClose,
+  onSelect,
+  matchId,
+  activityId,
+  placeholder = "Search messages",
+}: MessageSearchModalProps) {
+  const { theme } = useTheme();
+  const insets = useSafeAreaInsets();
+  const { user, session } = useAuth();
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<MessageSearchResult[]>([]);
+  const [isSearching, setIsSearching] = useState(false);
+  const [hasSearched, setHasSearched] = useState(false);
+  const requestRef = useRef(0);
+
+  useEffect(() => {
+    if (!visible) {
+      setQuery("");
+      setResults([]);
+      setHasSearched(false);
+    }
+  }, [visible]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!user?.id || trimmed.length < 2) {
+      setResults([]);
+      setIsSearching(false);
+      setHasSearched(false);
+      return;
+    }
+
+    const requestId = ++requestRef.current;
+    setIsSearching(true);
+    const timer = setTimeout(async () => {
+      try {
+        const searchUrl = new URL("/api/search/messages", getApiUrl());
+        searchUrl.searchParams.set("userId", user.id);
+        searchUrl.searchParams.set("q", trimmed);
+        if (matchId) searchUrl.searchParams.set("matchId", matchId);
+        if (activityId) searchUrl.searchParams.set("activityId", activityId);
+        const headers: Record<string, string> = {};
+        if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
+
+        const response = await fetch(searchUrl.toString(), { headers });
+        const data = response.ok ? await response.json() : { results: [] };
+        if (requestId !== requestRef.current) return;
+        setResults(data.results || []);
+      } catch (error) {
+        console.error("Message search failed:", error);
+        if (requestId === requestRef.current) setResults([]);
+      } finally {
+        if (requestId === requestRef.current) {
+          setIsSearching(false);
+          setHasSearched(true);
+        }
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [query, user?.id, session?.sessionToken, matchId, activityId]);
+
+  const isScoped = !!(matchId || activityId);
+
+  const renderResult = ({ item }: { item: MessageSearchResult }) => (
+    <Pressable
+      style={({ pressed }) => [
+        styles.resultRow,
+        { backgroundColor: pressed ? theme.backgroundSecondary : "transparent" },
+      ]}
+      onPress={() => {
+        onSelect(item);
+        onClose();
+      }}
+      testID={`search-result-${item.messageId}`}
+    >
+      <View style={[styles.resultIcon, { backgroundColor: theme.backgroundSecondary }]}>
+        <Icon name={item.kind === "activity" ? "users" : "message-circle"} size={18} color={AppColors.primary} />
+      </View>
+      <View style={styles.resultContent}>
+        <View style={styles.resultTopRow}>
+          <ThemedText style={styles.resultTitle} numberOfLines={1}>
+            {isScoped ? item.senderName : item.conversationTitle}
+          </ThemedText>
+          <ThemedText style={[styles.resultDate, { color: theme.textSecondary }]}>
+            {formatResultDate(item.createdAt)}
+          </ThemedText>
+        </View>
+        <HighlightedSnippet result={isScoped ? item : withSenderPrefix(item)} color={theme.textSecondary} />
+      </View>
+    </Pressable>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: theme.backgroundRoot, paddingTop: insets.top + Spacing.sm }]}>
+        <View style={styles.searchRow}>
+          <View style={[styles.searchInputWrapper, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder }]}>
+            <Icon name="search" size={18} color={theme.textSecondary} />
+            <TextInput
+              style={[styles.searchInput, { color: theme.text }]}
+              placeholder={placeholder}
+              placeholderTextColor={theme.textSecondary}
+              value={query}
+              onChangeText={setQuery}
+              autoFocus
+              autoCorrect={false}
+              returnKeyType="search"
+              testID="input-message-search"
+            />
+            {query ? (
+              <Pressable onPress={() => setQuery("")} hitSlop={8}>
+                <Icon name="x-circle" size={18} color={theme.textSecondary} />
+              </Pressable>
+            ) : null}
+          </View>
+          <Pressable onPress={onClose} hitSlop={8} testID="button-close-search">
+            <ThemedText style={{ color: AppColors.primary, fontWeight: "600" }}>Cancel</ThemedText>
+          </Pressable>
+        </View>
+
+        {isSearching && results.length === 0 ? (
+          <ActivityIndicator style={styles.statusIndicator} color={AppColors.primary} />
+        ) : (
+          <FlatList
+            data={results}
+            keyExtractor={(item) => `${item.kind}-${item.messageId}`}
+            renderItem={renderResult}
+            keyboardShouldPersistTaps="handled"
+            contentContainerStyle={{ paddingBottom: insets.bottom + Spacing.lg }}
+            ListEmptyComponent={
+              hasSearched ? (
+                <ThemedText style={[styles.emptyText, { color: theme.textSecondary }]}>
+                  No messages found
+                </ThemedText>
+              ) : null
+            }
+          />
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  searchRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.md,
+  },
+  searchInputWrapper: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    borderWidth: 1,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    height: 40,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+  },
+  resultRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    paddingVertical: Spacing.md,
+  },
+  resultIcon: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  resultContent: {
+    flex: 1,
+  },
+  resultTopRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: 2,
+  },
+  resultTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: "600",
+    marginRight: Spacing.sm,
+  },
+  resultDate: {
+    fontSize: 12,
+  },
+  snippet: {
+    fontSize: 14,
+  },
+  snippetHighlight: {
+    fontWeight: "700",
+    color: AppColors.primary,
+  },
+  statusIndicator: {
+    marginTop: Spacing.xl,
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: Spacing.xl,
+  },
+});
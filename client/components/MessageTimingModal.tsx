@@ -0,0 +1,218 @@
+import React, { useState, useEffect } from "react";
+import { StyleSheet, View, Modal, Pressable } from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { MessageTiming } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Props {
+  visible: boolean;
+  timing: MessageTiming | null;
+  onClose: () => void;
+  onApply: (timing: MessageTiming | null) => void;
+}
+
+type SendChoice = "now" | "in_1h" | "tonight" | "tomorrow";
+
+const SEND_CHOICES: { key: SendChoice; label: string }[] = [
+  { key: "now", label: "Now" },
+  { key: "in_1h", label: "In 1 hour" },
+  { key: "tonight", label: "Tonight 8 PM" },
+  { key: "tomorrow", label: "Tomorrow 9 AM" },
+];
+
+const DISAPPEAR_CHOICES = [
+  { label: "Off", hours: 0 },
+  { label: "1 hour", hours: 1 },
+  { label: "24 hours", hours: 24 },
+  { label: "7 days", hours: 168 },
+];
+
+function resolveSendAt(choice: SendChoice): Date | null {
+  const now = new Date();
+  if (choice === "in_1h") return new Date(now.getTime() + 3600000);
+  if (choice === "tonight") {
+    const tonight = new Date(now);
+    tonight.setHours(20, 0, 0, 0);
+    // Past 8 PM "tonight" rolls over to the same time tomorrow.
+    if (tonight.getTime() <= now.getTime()) tonight.setDate(tonight.getDate() + 1);
+    return tonight;
+  }
+  if (choice === "tomorrow") {
+    const tomorrow = new Date(now);
+    tomorrow.setDate(tomorrow.getDate() + 1);
+    tomorrow.setHours(9, 0, 0, 0);
+    return tomorrow;
+  }
+  return null;
+}
+
+function formatDuration(ms: number): string {
+  const hours = Math.round(ms / 3600000);
+  if (hours < 1) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+export function formatScheduledTime(sendAt: string): string {
+  const date = new Date(sendAt);
+  const time = date.toLocaleTimeString([], { hour: "numeric", minute: "2-digit" });
+  if (date.toDateString() === new Date().toDateString()) return time;
+  return `${date.toLocaleDateString([], { weekday: "short", month: "short", day: "numeric" })} ${time}`;
+}
+
+export function formatExpiresIn(expiresAt: string): string {
+  return formatDuration(Math.max(0, new Date(expiresAt).getTime() - Date.now()));
+}
+
+export function describeMessageTiming(timing: MessageTiming): string {
+  const parts: string[] = [];
+  if (timing.sendAt) parts.push(`Sends ${formatScheduledTime(timing.sendAt)}`);
+  if (timing.expiresAt) {
+    const start = timing.sendAt ? new Date(timing.sendAt).getTime() : Date.now();
+    parts.push(`disappears after ${formatDuration(new Date(timing.expiresAt).getTime() - start)}`);
+  }
+  const label = parts.join(" · ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+export function MessageTimingModal({ visible, timing, onClose, onApply }: Props) {
+  const { theme } = useTheme();
+  const [sendChoice, setSendChoice] = useState<SendChoice>("now");
+  const [disappearHours, setDisappearHours] = useState(0);
+
+  useEffect(() => {
+    if (visible && !timing) {
+      setSendChoice("now");
+      setDisappearHours(0);
+    }
+  }, [visible, timing]);
+
+  const handleApply = () => {
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const sendAt = resolveSendAt(sendChoice);
+    if (!sendAt && !disappearHours) {
+      onApply(null);
+      onClose();
+      return;
+    }
+    // The disappearing timer starts when the message is actually delivered.
+    const start = sendAt ? sendAt.getTime() : Date.now();
+    onApply({
+      sendAt: sendAt ? sendAt.toISOString() : undefined,
+      expiresAt: disappearHours ? new Date(start + disappearHours * 3600000).toISOString() : undefined,
+    });
+    onClose();
+  };
+
+  const renderChips = <T extends string | number>(
+    choices: { value: T; label: string }[],
+    selectedValue: T,
+    onSelect: (value: T) => void,
+    testPrefix: string
+  ) => (
+    <View style={styles.chipRow}>
+      {choices.map((choice) => {
+        const selected = selectedValue === choice.value;
+        return (
+          <Pressable
+            key={String(choice.value)}
+            style={[styles.chip, { backgroundColor: selected ? AppColors.primary : theme.backgroundSecondary }]}
+            onPress={() => onSelect(choice.value)}
+            testID={`${testPrefix}-${choice.value}`}
+          >
+            <ThemedText style={[styles.chipText, { color: selected ? "#FFFFFF" : theme.text }]}>
+              {choice.label}
+            </ThemedText>
+          </Pressable>
+        );
+      })}
+    </View>
+  );
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <ThemedText type="h3">Message Options</ThemedText>
+            <Pressable onPress={onClose} hitSlop={8} testID="button-close-message-timing">
+              <Icon name="x" size={24} color={theme.textSecondary} />
+            </Pressable>
+          </View>
+
+          <ThemedText type="small" style={[styles.sectionLabel, { color: theme.textSecondary }]}>
+            Send
+          </ThemedText>
+          {renderChips(
+            SEND_CHOICES.map((choice) => ({ value: choice.key, label: choice.label })),
+            sendChoice,
+            setSendChoice,
+            "chip-send-at"
+          )}
+
+          <ThemedText type="small" style={[styles.sectionLabel, { color: theme.textSecondary }]}>
+            Disappear after
+          </ThemedText>
+          {renderChips(
+            DISAPPEAR_CHOICES.map((choice) => ({ value: choice.hours, label: choice.label })),
+            disappearHours,
+            setDisappearHours,
+            "chip-disappear"
+          )}
+
+          <View style={styles.footer}>
+            <GradientButton onPress={handleApply}>Apply</GradientButton>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.sm,
+  },
+  sectionLabel: {
+    marginTop: Spacing.md,
+    marginBottom: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  footer: {
+    marginTop: Spacing.xl,
+  },
+});
@@ -0,0 +1,325 @@
+import React, { useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  TextInput,
+  ScrollView,
+  Image,
+  ActivityIndicator,
+} from "react-native";
+import * as Haptics from "expo-haptics";
+import * as ImagePicker from "expo-image-picker";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { GradientButton } from "@/components/GradientButton";
+import { useTheme } from "@/hooks/useTheme";
+import { uploadPhoto } from "@/lib/upload";
+import { ReportReason, UserReportInput } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Props {
+  visible: boolean;
+  reportedUserId: string;
+  reportedUserName: string;
+  // Messages the report was started from; they are sent as evidence.
+  messageIds?: string[];
+  onClose: () => void;
+  onSubmit: (report: UserReportInput) => Promise<boolean>;
+}
+
+const MAX_SCREENSHOTS = 5;
+
+const REASONS: { key: ReportReason; label: string }[] = [
+  { key: "harassment", label: "Harassment" },
+  { key: "spam", label: "Spam" },
+  { key: "scam", label: "Scam or fraud" },
+  { key: "fake_profile", label: "Fake profile" },
+  { key: "inappropriate_content", label: "Inappropriate content" },
+  { key: "underage", label: "Underage" },
+  { key: "safety_concern", label: "Safety concern" },
+  { key: "other", label: "Other" },
+];
+
+export function ReportUserModal({ visible, reportedUserId, reportedUserName, messageIds, onClose, onSubmit }: Props) {
+  const { theme } = useTheme();
+  const [reason, setReason] = useState<ReportReason | null>(null);
+  const [details, setDetails] = useState("");
+  const [screenshotUrls, setScreenshotUrls] = useState<string[]>([]);
+  const [alsoBlock, setAlsoBlock] = useState(true);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setReason(null);
+    setDetails("");
+    setScreenshotUrls([]);
+    setAlsoBlock(true);
+    setError(null);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleAddScreenshot = async () => {
+    const result = await ImagePicker.launchImageLibraryAsync({
+      mediaTypes: ["images"],
+      quality: 0.8,
+    });
+    if (result.canceled || !result.assets[0]) return;
+
+    setIsUploading(true);
+    setError(null);
+    try {
+      const uploaded = await uploadPhoto(result.assets[0].uri);
+      setScreenshotUrls((prev) => [...prev, uploaded.url]);
+    } catch {
+      setError("Could not upload screenshot. Please try again.");
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!reason || isSubmitting) return;
+    setIsSubmitting(true);
+    setError(null);
+    const ok = await onSubmit({
+      reportedUserId,
+      reason,
+      details: details.trim() || undefined,
+      messageIds,
+      screenshotUrls,
+      block: alsoBlock,
+    });
+    setIsSubmitting(false);
+    if (!ok) {
+      setError("Could not send your report. Please try again.");
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    handleClose();
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+      <View style={styles.overlay}>
+        <View style={[styles.container, { backgroundColor: theme.cardBackground }]}>
+          <View style={styles.header}>
+            <ThemedText type="h3">Report {reportedUserName}</ThemedText>
+            <Pressable onPress={handleClose} hitSlop={8} testID="button-close-report">
+              <Icon name="x" size={24} color={theme.textSecondary} />
+            </Pressable>
+          </View>
+
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.content}>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              Reports are private. {reportedUserName} will not know who reported them.
+            </ThemedText>
+
+            <ThemedText type="small" style={[styles.sectionLabel, { color: theme.textSecondary }]}>
+              What happened?
+            </ThemedText>
+            <View style={styles.chipRow}>
+              {REASONS.map((choice) => {
+                const selected = reason === choice.key;
+                return (
+                  <Pressable
+                    key={choice.key}
+                    style={[styles.chip, { backgroundColor: selected ? AppColors.primary : theme.backgroundSecondary }]}
+                    onPress={() => setReason(choice.key)}
+                    testID={`chip-report-reason-${choice.key}`}
+                  >
+                    <ThemedText style={[styles.chipText, { color: selected ? "#FFFFFF" : theme.text }]}>
+                      {choice.label}
+                    </ThemedText>
+                  </Pressable>
+                );
+              })}
+            </View>
+
+            <TextInput
+              style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+              placeholder="Add details (optional)"
+              placeholderTextColor={theme.textSecondary}
+              value={details}
+              onChangeText={setDetails}
+              maxLength={2000}
+              multiline
+              testID="input-report-details"
+            />
+
+            {messageIds && messageIds.length > 0 ? (
+              <View style={styles.evidenceRow}>
+                <Icon name="message-square" size={16} color={theme.textSecondary} />
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  {messageIds.length === 1 ? "1 message attached" : `${messageIds.length} messages attached`}
+                </ThemedText>
+              </View>
+            ) : null}
+
+            <View style={styles.screenshotRow}>
+              {screenshotUrls.map((url) => (
+                <View key={url}>
+                  <Image source={{ uri: url }} style={styles.screenshot} />
+                  <Pressable
+                    style={styles.removeScreenshot}
+                    onPress={() => setScreenshotUrls((prev) => prev.filter((u) => u !== url))}
+                    hitSlop={8}
+                  >
+                    <Icon name="x-circle" size={18} color="#FFFFFF" />
+                  </Pressable>
+                </View>
+              ))}
+              {screenshotUrls.length < MAX_SCREENSHOTS ? (
+                <Pressable
+                  style={[styles.screenshot, styles.addScreenshot, { borderColor: theme.border }]}
+                  onPress={handleAddScreenshot}
+                  disabled={isUploading}
+                  testID="button-add-report-screenshot"
+                >
+                  {isUploading ? (
+                    <ActivityIndicator color={AppColors.primary} />
+                  ) : (
+                    <Icon name="image" size={20} color={theme.textSecondary} />
+                  )}
+                </Pressable>
+              ) : null}
+            </View>
+
+            <Pressable
+              style={[styles.checkboxRow, { backgroundColor: alsoBlock ? `${AppColors.primary}15` : theme.backgroundSecondary }]}
+              onPress={() => setAlsoBlock(!alsoBlock)}
+              testID="checkbox-report-block"
+            >
+              <View
+                style={[
+                  styles.checkbox,
+                  {
+                    backgroundColor: alsoBlock ? AppColors.primary : "transparent",
+                    borderColor: alsoBlock ? AppColors.primary : theme.border,
+                  },
+                ]}
+              >
+                {alsoBlock ? <Icon name="check" size={14} color="#FFFFFF" /> : null}
+              </View>
+              <ThemedText type="body" style={styles.checkboxLabel}>
+                Also block {reportedUserName}
+              </ThemedText>
+            </Pressable>
+
+            {error ? <ThemedText style={[styles.error, { color: theme.danger }]}>{error}</ThemedText> : null}
+          </ScrollView>
+
+          <GradientButton onPress={handleSubmit} disabled={!reason || isSubmitting || isUploading}>
+            {isSubmitting ? "Sending..." : "Send Report"}
+          </GradientButton>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: "rgba(0,0,0,0.6)",
+    justifyContent: "center",
+    alignItems: "center",
+    padding: Spacing.lg,
+  },
+  container: {
+    width: "100%",
+    maxWidth: 400,
+    maxHeight: "85%",
+    borderRadius: BorderRadius.xl,
+    padding: Spacing.xl,
+  },
+  header: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "space-between",
+    marginBottom: Spacing.lg,
+  },
+  content: {
+    gap: Spacing.sm,
+    paddingBottom: Spacing.lg,
+  },
+  sectionLabel: {
+    marginTop: Spacing.sm,
+  },
+  chipRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  chip: {
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    fontSize: 15,
+    minHeight: 80,
+    textAlignVertical: "top",
+  },
+  evidenceRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+  },
+  screenshotRow: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    gap: Spacing.sm,
+  },
+  screenshot: {
+    width: 56,
+    height: 56,
+    borderRadius: BorderRadius.sm,
+  },
+  addScreenshot: {
+    borderWidth: 1,
+    borderStyle: "dashed",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  removeScreenshot: {
+    position: "absolute",
+    top: 2,
+    right: 2,
+  },
+  checkboxRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  checkbox: {
+    width: 24,
+    height: 24,
+    borderRadius: BorderRadius.sm,
+    borderWidth: 2,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  checkboxLabel: {
+    flex: 1,
+  },
+  error: {
+    fontSize: 13,
+  },
+});
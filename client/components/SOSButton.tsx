@@ -42,7 +42,7 @@ interface SOSButtonProps {
 
 export function SOSButton({ visible = true }: SOSButtonProps) {
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { showAlert } = useAlert();
   const insets = useSafeAreaInsets();
   const [showConfirmModal, setShowConfirmModal] = useState(false);
@@ -152,7 +152,7 @@ export function SOSButton({ visible = true }: SOSButtonProps) {
         timestamp: new Date().toISOString(),
         emergencyContact: user?.emergencyContact,
         message,
-      });
+      }, session?.sessionToken);
     } catch (error) {
       console.log("Failed to log incident:", error);
     }
@@ -0,0 +1,175 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, TouchableOpacity, Platform } from "react-native";
+import * as Google from "expo-auth-session/providers/google";
+import * as AppleAuthentication from "expo-apple-authentication";
+import * as WebBrowser from "expo-web-browser";
+
+import { ThemedText } from "@/components/ThemedText";
+import { useAuth, type OAuthProvider, type SignInResult } from "@/context/AuthContext";
+
+// Lets the Google popup hand its result back to the page on web.
+WebBrowser.maybeCompleteAuthSession();
+
+const GOOGLE_CLIENT_IDS = {
+  webClientId: process.env.EXPO_PUBLIC_GOOGLE_WEB_CLIENT_ID,
+  iosClientId: process.env.EXPO_PUBLIC_GOOGLE_IOS_CLIENT_ID,
+  androidClientId: process.env.EXPO_PUBLIC_GOOGLE_ANDROID_CLIENT_ID,
+};
+
+// The Google hook throws without a client id for the current platform, so the button is left out instead.
+const hasGoogleClientId = !!Platform.select({
+  ios: GOOGLE_CLIENT_IDS.iosClientId,
+  android: GOOGLE_CLIENT_IDS.androidClientId,
+  default: GOOGLE_CLIENT_IDS.webClientId,
+});
+
+interface Props {
+  disabled: boolean;
+  onStart: () => void;
+  onResult: (result: SignInResult) => void;
+}
+
+interface ProviderButtonProps {
+  disabled: boolean;
+  onResult: (result: SignInResult) => void;
+  signIn: (provider: OAuthProvider, idToken: string, name?: string) => Promise<void>;
+}
+
+function GoogleButton({ disabled, onResult, signIn }: ProviderButtonProps) {
+  const [request, response, promptAsync] = Google.useIdTokenAuthRequest(GOOGLE_CLIENT_IDS);
+
+  useEffect(() => {
+    if (response?.type === "success" && response.params.id_token) {
+      signIn("google", response.params.id_token);
+    } else if (response?.type === "error") {
+      onResult({ success: false, error: "Google sign-in failed. Please try again." });
+    }
+  }, [response]);
+
+  return (
+    <TouchableOpacity
+      style={styles.googleButton}
+      onPress={() => promptAsync()}
+      disabled={disabled || !request}
+      activeOpacity={0.8}
+      testID="button-google-sign-in"
+    >
+      <ThemedText style={styles.googleMark}>G</ThemedText>
+      <ThemedText style={styles.googleText}>Continue with Google</ThemedText>
+    </TouchableOpacity>
+  );
+}
+
+function AppleButton({ disabled, onResult, signIn }: ProviderButtonProps) {
+  const handlePress = async () => {
+    if (disabled) return;
+    try {
+      const credential = await AppleAuthentication.signInAsync({
+        requestedScopes: [
+          AppleAuthentication.AppleAuthenticationScope.FULL_NAME,
+          AppleAuthentication.AppleAuthenticationScope.EMAIL,
+        ],
+      });
+      if (!credential.identityToken) {
+        onResult({ success: false, error: "Apple sign-in failed. Please try again." });
+        return;
+      }
+      // Apple only shares the name on the very first sign-in; the server keeps it for a new account.
+      const name = credential.fullName ? AppleAuthentication.formatFullName(credential.fullName) : undefined;
+      await signIn("apple", credential.identityToken, name || undefined);
+    } catch (error: any) {
+      if (error?.code === "ERR_REQUEST_CANCELED") return;
+      onResult({ success: false, error: "Apple sign-in failed. Please try again." });
+    }
+  };
+
+  return (
+    <AppleAuthentication.AppleAuthenticationButton
+      buttonType={AppleAuthentication.AppleAuthenticationButtonType.CONTINUE}
+      buttonStyle={AppleAuthentication.AppleAuthenticationButtonStyle.WHITE}
+      cornerRadius={12}
+      style={styles.appleButton}
+      onPress={handlePress}
+    />
+  );
+}
+
+// Google and Apple sign-in for AuthScreen. Renders nothing when neither is set up for this platform.
+export function SocialSignInButtons({ disabled, onStart, onResult }: Props) {
+  const { loginWithOAuth } = useAuth();
+  const [appleAvailable, setAppleAvailable] = useState(false);
+
+  useEffect(() => {
+    if (Platform.OS !== "ios") return;
+    AppleAuthentication.isAvailableAsync()
+      .then(setAppleAvailable)
+      .catch(() => setAppleAvailable(false));
+  }, []);
+
+  if (!hasGoogleClientId && !appleAvailable) return null;
+
+  const signIn = async (provider: OAuthProvider, idToken: string, name?: string) => {
+    onStart();
+    onResult(await loginWithOAuth(provider, idToken, name));
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.dividerRow}>
+        <View style={styles.dividerLine} />
+        <ThemedText style={styles.dividerText}>or</ThemedText>
+        <View style={styles.dividerLine} />
+      </View>
+      {appleAvailable ? (
+        <AppleButton disabled={disabled} onResult={onResult} signIn={signIn} />
+      ) : null}
+      {hasGoogleClientId ? (
+        <GoogleButton disabled={disabled} onResult={onResult} signIn={signIn} />
+      ) : null}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 20,
+    gap: 12,
+  },
+  dividerRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 12,
+  },
+  dividerLine: {
+    flex: 1,
+    height: 1,
+    backgroundColor: "rgba(255,255,255,0.18)",
+  },
+  dividerText: {
+    fontSize: 13,
+    color: "rgba(255,255,255,0.6)",
+  },
+  appleButton: {
+    height: 50,
+    width: "100%",
+  },
+  googleButton: {
+    height: 50,
+    borderRadius: 12,
+    backgroundColor: "#FFFFFF",
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 10,
+  },
+  googleMark: {
+    fontSize: 18,
+    fontWeight: "700",
+    color: "#4285F4",
+  },
+  googleText: {
+    fontSize: 16,
+    fontWeight: "600",
+    color: "#1F1F1F",
+  },
+});
@@ -0,0 +1,434 @@
+import React, { useEffect, useState } from "react";
+import {
+  StyleSheet,
+  View,
+  Modal,
+  Pressable,
+  ScrollView,
+  ActivityIndicator,
+  Image,
+  TextInput,
+  Share,
+} from "react-native";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/context/AuthContext";
+import { useAlert } from "@/context/AlertContext";
+import { TwoFactorSetup, TwoFactorStatus } from "@/types";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Props {
+  visible: boolean;
+  onClose: () => void;
+}
+
+type Step = "status" | "setup" | "codes";
+
+export function TwoFactorModal({ visible, onClose }: Props) {
+  const { theme } = useTheme();
+  const { getTwoFactorStatus, startTwoFactorSetup, enableTwoFactor, disableTwoFactor, regenerateRecoveryCodes } =
+    useAuth();
+  const { showAlert } = useAlert();
+  const [step, setStep] = useState<Step>("status");
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [setup, setSetup] = useState<TwoFactorSetup | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[]>([]);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [busyAction, setBusyAction] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadStatus = async () => {
+    setIsLoading(true);
+    setError(null);
+    const result = await getTwoFactorStatus();
+    if (result) {
+      setStatus(result);
+    } else {
+      setError("Could not load your two-factor settings. Please try again.");
+    }
+    setIsLoading(false);
+  };
+
+  useEffect(() => {
+    if (visible) {
+      setStep("status");
+      setSetup(null);
+      setRecoveryCodes([]);
+      setCode("");
+      loadStatus();
+    }
+  }, [visible]);
+
+  const fail = (message: string) => {
+    setError(message);
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+  };
+
+  const handleStartSetup = async () => {
+    setBusyAction("setup");
+    setError(null);
+    const result = await startTwoFactorSetup();
+    setBusyAction(null);
+    if (!result.setup) {
+      fail(result.error || "Could not start setup. Please try again.");
+      return;
+    }
+    setSetup(result.setup);
+    setCode("");
+    setStep("setup");
+  };
+
+  const handleEnable = async () => {
+    if (!code.trim()) {
+      fail("Enter the 6-digit code from your authenticator app");
+      return;
+    }
+    setBusyAction("enable");
+    setError(null);
+    const result = await enableTwoFactor(code);
+    setBusyAction(null);
+    if (!result.recoveryCodes) {
+      fail(result.error || "That code did not work. Please try again.");
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setStatus({ enabled: true, recoveryCodesRemaining: result.recoveryCodes.length });
+    setRecoveryCodes(result.recoveryCodes);
+    setSetup(null);
+    setCode("");
+    setStep("codes");
+  };
+
+  const handleRegenerate = async () => {
+    if (!code.trim()) {
+      fail("Enter a code from your authenticator app first");
+      return;
+    }
+    setBusyAction("regenerate");
+    setError(null);
+    const result = await regenerateRecoveryCodes(code);
+    setBusyAction(null);
+    if (!result.recoveryCodes) {
+      fail(result.error || "That code did not work. Please try again.");
+      return;
+    }
+    Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    setStatus({ enabled: true, recoveryCodesRemaining: result.recoveryCodes.length });
+    setRecoveryCodes(result.recoveryCodes);
+    setCode("");
+    setStep("codes");
+  };
+
+  const handleDisable = () => {
+    if (!code.trim()) {
+      fail("Enter a code from your authenticator app or a recovery code first");
+      return;
+    }
+    showAlert({
+      type: "confirm",
+      title: "Turn Off Two-Factor",
+      message: "Your account will only be protected by your password. You can turn it back on at any time.",
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Turn Off",
+          style: "destructive",
+          onPress: async () => {
+            setBusyAction("disable");
+            setError(null);
+            const result = await disableTwoFactor(code);
+            setBusyAction(null);
+            if (!result.success) {
+              fail(result.error || "That code did not work. Please try again.");
+              return;
+            }
+            Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+            setStatus({ enabled: false, recoveryCodesRemaining: 0 });
+            setCode("");
+          },
+        },
+      ],
+    });
+  };
+
+  const handleShareCodes = async () => {
+    try {
+      await Share.share({ message: `ExploreX recovery codes\n\n${recoveryCodes.join("\n")}` });
+    } catch {}
+  };
+
+  const renderCodeInput = (placeholder: string) => (
+    <TextInput
+      style={[styles.input, { backgroundColor: theme.backgroundSecondary, color: theme.text }]}
+      placeholder={placeholder}
+      placeholderTextColor={theme.textSecondary}
+      value={code}
+      onChangeText={setCode}
+      autoCapitalize="none"
+      autoCorrect={false}
+      maxLength={11}
+      testID="input-two-factor-code"
+    />
+  );
+
+  const renderStatus = () => {
+    if (!status) return null;
+
+    if (!status.enabled) {
+      return (
+        <>
+          <ThemedText type="body" style={{ color: theme.textSecondary }}>
+            Protect your account with a second step at sign in. After your password, you will enter a code from an
+            authenticator app such as Google Authenticator, 1Password or Authy.
+          </ThemedText>
+          <Pressable
+            style={[styles.primaryButton, { backgroundColor: AppColors.primary }]}
+            onPress={handleStartSetup}
+            disabled={busyAction !== null}
+            testID="button-start-two-factor-setup"
+          >
+            {busyAction === "setup" ? (
+              <ActivityIndicator color="#fff" />
+            ) : (
+              <ThemedText style={styles.primaryButtonText}>Set Up Two-Factor</ThemedText>
+            )}
+          </Pressable>
+        </>
+      );
+    }
+
+    return (
+      <>
+        <View style={[styles.statusRow, { backgroundColor: theme.cardBackground }]}>
+          <Icon name="shield" size={22} color={AppColors.success} />
+          <View style={styles.statusInfo}>
+            <ThemedText type="body" style={styles.statusTitle}>
+              Two-factor is on
+            </ThemedText>
+            <ThemedText type="small" style={{ color: theme.textSecondary }}>
+              {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} left
+            </ThemedText>
+          </View>
+        </View>
+
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          Enter a current code to make changes.
+        </ThemedText>
+        {renderCodeInput("Authenticator or recovery code")}
+
+        <Pressable
+          style={[styles.secondaryButton, { borderColor: AppColors.primary }]}
+          onPress={handleRegenerate}
+          disabled={busyAction !== null}
+          testID="button-regenerate-recovery-codes"
+        >
+          {busyAction === "regenerate" ? (
+            <ActivityIndicator color={AppColors.primary} />
+          ) : (
+            <ThemedText style={[styles.secondaryButtonText, { color: AppColors.primary }]}>New Recovery Codes</ThemedText>
+          )}
+        </Pressable>
+
+        <Pressable
+          style={[styles.secondaryButton, { borderColor: theme.danger }]}
+          onPress={handleDisable}
+          disabled={busyAction !== null}
+          testID="button-disable-two-factor"
+        >
+          {busyAction === "disable" ? (
+            <ActivityIndicator color={theme.danger} />
+          ) : (
+            <ThemedText style={[styles.secondaryButtonText, { color: theme.danger }]}>Turn Off Two-Factor</ThemedText>
+          )}
+        </Pressable>
+      </>
+    );
+  };
+
+  const renderSetup = () => {
+    if (!setup) return null;
+    return (
+      <>
+        <ThemedText type="body" style={{ color: theme.textSecondary }}>
+          Scan this QR code with your authenticator app, then enter the 6-digit code it shows.
+        </ThemedText>
+        <View style={styles.qrWrapper}>
+          <Image source={{ uri: setup.qrCodeDataUrl }} style={styles.qrCode} testID="image-two-factor-qr" />
+        </View>
+        <ThemedText type="small" style={{ color: theme.textSecondary }}>
+          Cannot scan it? Enter this key instead:
+        </ThemedText>
+        <ThemedText type="body" selectable style={styles.secret} testID="text-two-factor-secret">
+          {setup.secret.match(/.{1,4}/g)?.join(" ")}
+        </ThemedText>
+
+        {renderCodeInput("123456")}
+
+        <Pressable
+          style={[styles.primaryButton, { backgroundColor: AppColors.primary }]}
+          onPress={handleEnable}
+          disabled={busyAction !== null}
+          testID="button-enable-two-factor"
+        >
+          {busyAction === "enable" ? (
+            <ActivityIndicator color="#fff" />
+          ) : (
+            <ThemedText style={styles.primaryButtonText}>Turn On</ThemedText>
+          )}
+        </Pressable>
+      </>
+    );
+  };
+
+  const renderCodes = () => (
+    <>
+      <ThemedText type="body" style={{ color: theme.textSecondary }}>
+        Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They will not be
+        shown again.
+      </ThemedText>
+      <View style={[styles.codesGrid, { backgroundColor: theme.cardBackground }]}>
+        {recoveryCodes.map((recoveryCode) => (
+          <ThemedText key={recoveryCode} type="body" selectable style={styles.recoveryCode}>
+            {recoveryCode}
+          </ThemedText>
+        ))}
+      </View>
+      <Pressable
+        style={[styles.secondaryButton, { borderColor: AppColors.primary }]}
+        onPress={handleShareCodes}
+        testID="button-share-recovery-codes"
+      >
+        <ThemedText style={[styles.secondaryButtonText, { color: AppColors.primary }]}>Save Codes</ThemedText>
+      </Pressable>
+      <Pressable
+        style={[styles.primaryButton, { backgroundColor: AppColors.primary }]}
+        onPress={() => setStep("status")}
+        testID="button-done-recovery-codes"
+      >
+        <ThemedText style={styles.primaryButtonText}>Done</ThemedText>
+      </Pressable>
+    </>
+  );
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={[styles.container, { backgroundColor: theme.backgroundRoot }]}>
+        <View style={styles.header}>
+          <ThemedText type="h3">Two-Factor Authentication</ThemedText>
+          <Pressable onPress={onClose} hitSlop={8} testID="button-close-two-factor">
+            <Icon name="x" size={24} color={theme.text} />
+          </Pressable>
+        </View>
+
+        {isLoading && !status ? (
+          <View style={styles.centered}>
+            <ActivityIndicator color={AppColors.primary} />
+          </View>
+        ) : (
+          <ScrollView keyboardShouldPersistTaps="handled" contentContainerStyle={styles.content}>
+            {error ? <ThemedText style={[styles.error, { color: theme.danger }]}>{error}</ThemedText> : null}
+            {step === "setup" ? renderSetup() : step === "codes" ? renderCodes() : renderStatus()}
+          </ScrollView>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    paddingTop: Spacing["2xl"],
+  },
+  header: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    alignItems: "center",
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.lg,
+    borderBottomWidth: 1,
+    borderBottomColor: "rgba(0,0,0,0.1)",
+  },
+  centered: {
+    flex: 1,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  content: {
+    padding: Spacing.lg,
+    gap: Spacing.md,
+  },
+  statusRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    gap: Spacing.md,
+  },
+  statusInfo: {
+    flex: 1,
+  },
+  statusTitle: {
+    fontWeight: "600",
+  },
+  input: {
+    borderRadius: BorderRadius.md,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.md,
+    fontSize: 16,
+    letterSpacing: 1,
+  },
+  primaryButton: {
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+  },
+  primaryButtonText: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  secondaryButton: {
+    borderWidth: 1,
+    borderRadius: BorderRadius.md,
+    paddingVertical: Spacing.md,
+    alignItems: "center",
+  },
+  secondaryButtonText: {
+    fontWeight: "600",
+  },
+  qrWrapper: {
+    alignSelf: "center",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    backgroundColor: "#fff",
+  },
+  qrCode: {
+    width: 200,
+    height: 200,
+  },
+  secret: {
+    fontFamily: "monospace",
+    letterSpacing: 1,
+    textAlign: "center",
+  },
+  codesGrid: {
+    flexDirection: "row",
+    flexWrap: "wrap",
+    justifyContent: "space-between",
+    padding: Spacing.md,
+    borderRadius: BorderRadius.md,
+    rowGap: Spacing.sm,
+  },
+  recoveryCode: {
+    width: "48%",
+    fontFamily: "monospace",
+    textAlign: "center",
+  },
+  error: {
+    fontSize: 13,
+  },
+});
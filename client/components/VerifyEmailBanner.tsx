@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from "react";
+import { StyleSheet, View, Pressable } from "react-native";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { EmailSettingsModal } from "@/components/EmailSettingsModal";
+import { useAuth } from "@/context/AuthContext";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+interface Props {
+  // What the unverified user is missing out on, e.g. "send messages".
+  action: string;
+}
+
+// Shown where messaging and the radar are refused to accounts that have not confirmed their email.
+export function VerifyEmailBanner({ action }: Props) {
+  const { emailVerified, getEmailStatus } = useAuth();
+  const [showModal, setShowModal] = useState(false);
+
+  // The link in the email may have been opened in a browser since the app last checked.
+  useEffect(() => {
+    if (!emailVerified) getEmailStatus();
+  }, []);
+
+  if (emailVerified) return null;
+
+  return (
+    <>
+      <Pressable style={styles.banner} onPress={() => setShowModal(true)} testID="button-verify-email-banner">
+        <Icon name="mail" size={18} color="#fff" />
+        <View style={styles.text}>
+          <ThemedText type="small" style={styles.title}>
+            Verify your email to {action}
+          </ThemedText>
+        </View>
+        <ThemedText type="small" style={styles.cta}>
+          Verify
+        </ThemedText>
+      </Pressable>
+      <EmailSettingsModal visible={showModal} onClose={() => setShowModal(false)} />
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginHorizontal: Spacing.md,
+    marginVertical: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.sm,
+    borderRadius: BorderRadius.md,
+    backgroundColor: AppColors.primary,
+  },
+  text: {
+    flex: 1,
+  },
+  title: {
+    color: "#fff",
+    fontWeight: "600",
+  },
+  cta: {
+    color: "#fff",
+    fontWeight: "700",
+    textDecorationLine: "underline",
+  },
+});
@@ -1,20 +1,42 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode, useRef } from "react";
 import Constants from "expo-constants";
-import { Platform } from "react-native";
+import { AppState, Platform } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { User } from "@/types";
+import { DeviceSession, EmailStatus, TwoFactorSetup, TwoFactorStatus, User } from "@/types";
 
 interface LocalSession {
-  user: { id: string; email: string; name?: string };
+  // emailVerified is missing from sessions saved before verification existed until the status is next loaded.
+  user: { id: string; email: string; name?: string; emailVerified?: boolean };
+  // Short-lived access token sent as the Bearer token; replaced from refreshToken before expiresAt.
   sessionToken?: string;
+  refreshToken?: string;
+  expiresAt?: string;
 }
 
+// A twoFactorChallenge means the first step was right and completeTwoFactorLogin must follow with a code.
+// accountRestored means the sign-in cancelled a pending account deletion.
+export type SignInResult = { success: boolean; error?: string; twoFactorChallenge?: string; accountRestored?: boolean };
+
+export type OAuthProvider = "google" | "apple";
+
 interface AuthContextType {
   user: User | null;
   session: LocalSession | null;
   isLoading: boolean;
   isAuthenticated: boolean;
-  login: (email: string, password: string) => Promise<{ success: boolean; error?: string }>;
+  // False until the account's email is confirmed; messaging and the radar are closed until then.
+  emailVerified: boolean;
+  login: (email: string, password: string) => Promise<SignInResult>;
+  // Emails a single-use sign-in link and code; succeeds whether or not the address has an account.
+  sendMagicLink: (email: string) => Promise<{ success: boolean; error?: string }>;
+  // Signs in with the token from the link (via the explorex://magic-link deep link) or the typed code.
+  loginWithMagicLink: (proof: { token: string } | { email: string; code: string }) => Promise<SignInResult>;
+  // name is only known on Apple's first sign-in and is used when the account is created.
+  loginWithOAuth: (provider: OAuthProvider, idToken: string, name?: string) => Promise<SignInResult>;
+  completeTwoFactorLogin: (
+    challengeToken: string,
+    code: string
+  ) => Promise<{ success: boolean; error?: string; recoveryCodesRemaining?: number; accountRestored?: boolean }>;
   signup: (email: string, password: string, name: string) => Promise<{ success: boolean; error?: string }>;
   logout: () => Promise<void>;
   updateProfile: (updates: Partial<User>) => Promise<void>;
@@ -23,17 +45,52 @@ interface AuthContextType {
   sendPasswordResetOTP: (email: string) => Promise<{ success: boolean; error?: string }>;
   verifyOTP: (email: string, otp: string) => Promise<{ success: boolean; error?: string }>;
   updatePassword: (email: string, newPassword: string) => Promise<{ success: boolean; error?: string }>;
+  listSessions: () => Promise<DeviceSession[] | null>;
+  revokeSession: (sessionId: string) => Promise<boolean>;
+  revokeOtherSessions: () => Promise<boolean>;
+  getTwoFactorStatus: () => Promise<TwoFactorStatus | null>;
+  startTwoFactorSetup: () => Promise<{ setup?: TwoFactorSetup; error?: string }>;
+  enableTwoFactor: (code: string) => Promise<{ recoveryCodes?: string[]; error?: string }>;
+  disableTwoFactor: (code: string) => Promise<{ success: boolean; error?: string }>;
+  regenerateRecoveryCodes: (code: string) => Promise<{ recoveryCodes?: string[]; error?: string }>;
+  getEmailStatus: () => Promise<EmailStatus | null>;
+  sendEmailVerification: () => Promise<{ success: boolean; error?: string }>;
+  verifyEmail: (code: string) => Promise<{ success: boolean; error?: string }>;
+  // password is left out for accounts without one; the current address then confirms the change by code.
+  requestEmailChange: (
+    newEmail: string,
+    password?: string
+  ) => Promise<{ pendingEmail?: string; confirmCurrentEmail?: boolean; error?: string }>;
+  // completed is false while the other address still has to confirm.
+  confirmEmailChange: (codes: {
+    currentEmailCode?: string;
+    newEmailCode?: string;
+  }) => Promise<{ completed?: boolean; error?: string }>;
+  exportAccountData: () => Promise<{ success: boolean; error?: string }>;
+  // Emails the code that accounts without a password use in place of it.
+  sendReauthCode: () => Promise<{ success: boolean; email?: string; error?: string }>;
+  // Signs out on success; the account is purged after the grace period unless the user logs in again.
+  // proof is the password, or for accounts without one the code from sendReauthCode.
+  deleteAccount: (
+    proof: { password?: string; emailCode?: string },
+    code?: string
+  ) => Promise<{ success: boolean; error?: string; twoFactorRequired?: boolean; scheduledFor?: string }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 const PROFILE_KEY = "@nomad_profile";
 const SESSION_KEY = "@nomad_local_session";
+// Refresh this long before the access token expires so requests in flight do not race the expiry.
+const REFRESH_AHEAD_MS = 60_000;
+const REFRESH_RETRY_MS = 30_000;
+const ACCOUNT_EXPORT_TIMEOUT_MS = 120_000;
 
 type AuthUserLike = {
   id: string;
   email?: string;
   name?: string;
+  emailVerified?: boolean;
 };
 
 export function AuthProvider({ children }: { children: ReactNode }) {
@@ -41,6 +98,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const [session, setSession] = useState<LocalSession | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const loadRequestRef = useRef(0);
+  const sessionRef = useRef<LocalSession | null>(null);
+  const refreshRequestRef = useRef<Promise<LocalSession | null> | null>(null);
+  sessionRef.current = session;
 
   const getHostFromUri = (uri?: string): string | null => {
     if (!uri) return null;
@@ -84,6 +144,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   const isAbortError = (error: unknown): boolean =>
     error instanceof Error && error.name === "AbortError";
 
+  // Names this device in the user's session list.
+  const getDeviceDetails = () => ({
+    deviceName: Constants.deviceName || undefined,
+    platform: Platform.OS,
+  });
+
   const getAuthHeaders = (sessionToken?: string) => {
     const headers: Record<string, string> = { "Content-Type": "application/json" };
     if (sessionToken) {
@@ -138,12 +204,23 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           return;
         }
 
+        // Sessions saved before refresh tokens existed cannot be renewed; sign in again.
+        if (!parsed.refreshToken) {
+          await AsyncStorage.removeItem(SESSION_KEY);
+          setIsLoading(false);
+          return;
+        }
+
+        sessionRef.current = parsed;
         setSession(parsed);
-        await loadProfile(parsed.user.id, {
-          id: parsed.user.id,
-          email: parsed.user.email,
-          name: parsed.user.name,
-        }, parsed.sessionToken);
+        const restored = isAccessTokenExpiring(parsed) ? await refreshSession(parsed) : parsed;
+        if (!restored) return;
+
+        await loadProfile(restored.user.id, {
+          id: restored.user.id,
+          email: restored.user.email,
+          name: restored.user.name,
+        }, restored.sessionToken);
       } catch (error) {
         console.error("Session restore error:", error);
       } finally {
@@ -152,6 +229,136 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     })();
   }, []);
 
+  useEffect(() => {
+    if (!session?.refreshToken || !session.expiresAt) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const run = async () => {
+      const current = sessionRef.current;
+      if (!current || cancelled) return;
+      const next = await refreshSession(current);
+      // A failed network call leaves the session untouched; try again shortly.
+      if (!cancelled && next === current) timer = setTimeout(run, REFRESH_RETRY_MS);
+    };
+
+    const delay = Math.max(0, new Date(session.expiresAt).getTime() - Date.now() - REFRESH_AHEAD_MS);
+    timer = setTimeout(run, delay);
+    // Timers do not fire while the app is suspended, so check again when it comes back.
+    const subscription = AppState.addEventListener("change", (state) => {
+      if (state === "active" && sessionRef.current && isAccessTokenExpiring(sessionRef.current)) {
+        if (timer) clearTimeout(timer);
+        run();
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+      subscription.remove();
+    };
+  }, [session?.refreshToken, session?.expiresAt]);
+
+  // Sessions restored from before email verification do not know the status yet.
+  useEffect(() => {
+    if (session?.sessionToken && session.user.emailVerified === undefined) getEmailStatus();
+  }, [session?.sessionToken]);
+
+  const isAccessTokenExpiring = (current: LocalSession): boolean =>
+    !current.expiresAt || new Date(current.expiresAt).getTime() - Date.now() < REFRESH_AHEAD_MS;
+
+  const buildLocalSession = (authUser: AuthUserLike, email: string, data: any, name?: string): LocalSession => ({
+    user: {
+      id: authUser.id,
+      email: authUser.email || email,
+      name: authUser.name || name,
+      emailVerified: typeof authUser.emailVerified === "boolean" ? authUser.emailVerified : undefined,
+    },
+    sessionToken: typeof data?.sessionToken === "string" ? data.sessionToken : undefined,
+    refreshToken: typeof data?.refreshToken === "string" ? data.refreshToken : undefined,
+    expiresAt: typeof data?.expiresAt === "string" ? data.expiresAt : undefined,
+  });
+
+  const storeSession = async (next: LocalSession) => {
+    sessionRef.current = next;
+    setSession(next);
+    await AsyncStorage.setItem(SESSION_KEY, JSON.stringify(next));
+  };
+
+  const clearLocalSession = async () => {
+    sessionRef.current = null;
+    await AsyncStorage.removeItem(SESSION_KEY);
+    try {
+      const { logoutUser } = await import("@/services/revenuecat");
+      await logoutUser();
+    } catch {}
+    setUser(null);
+    setSession(null);
+  };
+
+  // Swaps the refresh token for a new pair. A refresh token works once, so concurrent callers share one request.
+  // Resolves to the new session, the unchanged one after a network failure, or null once the server has ended it.
+  const refreshSession = (current: LocalSession): Promise<LocalSession | null> => {
+    if (refreshRequestRef.current) return refreshRequestRef.current;
+
+    const request = (async (): Promise<LocalSession | null> => {
+      try {
+        const baseUrl = getApiBaseUrl();
+        const apiUrl = baseUrl ? `${baseUrl}/api/auth/refresh` : "/api/auth/refresh";
+        const response = await fetchWithTimeout(apiUrl, {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ refreshToken: current.refreshToken }),
+        });
+
+        // Logged out (or in as someone else) while the request was in flight.
+        if (sessionRef.current?.refreshToken !== current.refreshToken) return sessionRef.current;
+
+        if (response.status === 401 || response.status === 403) {
+          await clearLocalSession();
+          return null;
+        }
+
+        const data = await response.json().catch(() => ({}));
+        if (!response.ok || typeof data?.sessionToken !== "string") return current;
+
+        const next: LocalSession = {
+          ...current,
+          sessionToken: data.sessionToken,
+          refreshToken: data.refreshToken,
+          expiresAt: data.expiresAt,
+        };
+        await storeSession(next);
+        return next;
+      } catch (error) {
+        if (!isAbortError(error)) console.error("Session refresh error:", error);
+        return current;
+      } finally {
+        refreshRequestRef.current = null;
+      }
+    })();
+
+    refreshRequestRef.current = request;
+    return request;
+  };
+
+  // Calls an /api/auth route with the access token, refreshing it once if the server says it has expired.
+  const authorizedFetch = async (route: string, init: RequestInit, timeoutMs?: number): Promise<Response | null> => {
+    let current = sessionRef.current;
+    if (!current?.sessionToken) return null;
+    if (isAccessTokenExpiring(current)) current = await refreshSession(current);
+    if (!current?.sessionToken) return null;
+
+    const baseUrl = getApiBaseUrl();
+    const url = baseUrl ? `${baseUrl}${route}` : route;
+    const response = await fetchWithTimeout(url, { ...init, headers: getAuthHeaders(current.sessionToken) }, timeoutMs);
+    if (response.status !== 401) return response;
+
+    const refreshed = await refreshSession(current);
+    if (!refreshed?.sessionToken || refreshed === current) return response;
+    return fetchWithTimeout(url, { ...init, headers: getAuthHeaders(refreshed.sessionToken) }, timeoutMs);
+  };
+
   const buildDefaultProfile = (authUser: AuthUserLike): User => {
     const email = authUser.email?.toLowerCase() || "";
     const fallbackName = authUser.name || (email ? email.split("@")[0] : "Nomad");
@@ -198,7 +405,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
           const { getApiUrl } = await import("@/lib/query-client");
           const baseUrl = getApiUrl();
           const url = new URL(`/api/verification/status/${userId}`, baseUrl);
-          const response = await fetchWithTimeout(url.toString(), { method: "GET" }, 5000);
+          const response = await fetchWithTimeout(
+            url.toString(),
+            { method: "GET", headers: getAuthHeaders(sessionToken || session?.sessionToken) },
+            5000
+          );
           if (!response.ok) return;
 
           const data = await response.json();
@@ -234,14 +445,26 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   };
 
-  const login = async (email: string, password: string): Promise<{ success: boolean; error?: string }> => {
+  const finishLogin = async (authUser: AuthUserLike, email: string, data: any) => {
+    const nextSession = buildLocalSession(authUser, email, data);
+    await storeSession(nextSession);
+    await loadProfile(authUser.id, authUser, nextSession.sessionToken);
+
+    try {
+      const { identifyUser } = await import("@/services/revenuecat");
+      await identifyUser(authUser.id);
+    } catch {}
+  };
+
+  // Shared by every way of signing in: the server answers each with a session or a 2FA challenge.
+  const signIn = async (route: string, body: Record<string, unknown>): Promise<SignInResult> => {
     try {
       const baseUrl = getApiBaseUrl();
-      const apiUrl = baseUrl ? `${baseUrl}/api/auth/login` : "/api/auth/login";
+      const apiUrl = baseUrl ? `${baseUrl}${route}` : route;
       const response = await fetchWithTimeout(apiUrl, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email: email.toLowerCase(), password }),
+        body: JSON.stringify({ ...body, ...getDeviceDetails() }),
       });
 
       const data = await response.json().catch(() => ({}));
@@ -249,32 +472,87 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         return { success: false, error: data?.error || "Login failed" };
       }
 
+      if (data?.twoFactorRequired && typeof data.challengeToken === "string") {
+        return { success: false, twoFactorChallenge: data.challengeToken };
+      }
+
       const authUser = data?.user as AuthUserLike | undefined;
       if (!authUser?.id) {
         return { success: false, error: "Login failed" };
       }
 
-      const nextSession: LocalSession = {
-        user: {
-          id: authUser.id,
-          email: authUser.email || email.toLowerCase(),
-          name: authUser.name,
-        },
-        sessionToken: typeof data?.sessionToken === "string" ? data.sessionToken : undefined,
-      };
+      await finishLogin(authUser, authUser.email || "", data);
+      return { success: true, accountRestored: data?.accountRestored === true };
+    } catch (error) {
+      console.error("Login error:", error);
+      return { success: false, error: "An unexpected error occurred" };
+    }
+  };
 
-      setSession(nextSession);
-      await AsyncStorage.setItem(SESSION_KEY, JSON.stringify(nextSession));
-      await loadProfile(authUser.id, authUser, nextSession.sessionToken);
+  const login = (email: string, password: string) =>
+    signIn("/api/auth/login", { email: email.toLowerCase(), password });
 
-      try {
-        const { identifyUser } = await import("@/services/revenuecat");
-        await identifyUser(authUser.id);
-      } catch {}
+  const loginWithMagicLink = (proof: { token: string } | { email: string; code: string }) =>
+    signIn(
+      "/api/auth/magic-link/verify",
+      "token" in proof ? { token: proof.token } : { email: proof.email.toLowerCase(), code: proof.code.trim() }
+    );
+
+  const loginWithOAuth = (provider: OAuthProvider, idToken: string, name?: string) =>
+    signIn(`/api/auth/oauth/${provider}`, { idToken, name });
+
+  const sendMagicLink = async (email: string): Promise<{ success: boolean; error?: string }> => {
+    try {
+      const baseUrl = getApiBaseUrl();
+      const apiUrl = baseUrl ? `${baseUrl}/api/auth/magic-link` : "/api/auth/magic-link";
+      const response = await fetchWithTimeout(apiUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ email: email.trim().toLowerCase() }),
+      });
 
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        return { success: false, error: data?.error || "Could not send the sign-in email" };
+      }
       return { success: true };
     } catch (error) {
-      console.error("Login error:", error);
+      console.error("Magic link error:", error);
+      return { success: false, error: "Could not send the sign-in email" };
+    }
+  };
+
+  const completeTwoFactorLogin = async (
+    challengeToken: string,
+    code: string
+  ): Promise<{ success: boolean; error?: string; recoveryCodesRemaining?: number; accountRestored?: boolean }> => {
+    try {
+      const baseUrl = getApiBaseUrl();
+      const apiUrl = baseUrl ? `${baseUrl}/api/auth/login/2fa` : "/api/auth/login/2fa";
+      const response = await fetchWithTimeout(apiUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ challengeToken, code: code.trim(), ...getDeviceDetails() }),
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        return { success: false, error: data?.error || "Verification failed" };
+      }
+
+      const authUser = data?.user as AuthUserLike | undefined;
+      if (!authUser?.id) {
+        return { success: false, error: "Verification failed" };
+      }
+
+      await finishLogin(authUser, authUser.email || "", data);
+      return {
+        success: true,
+        recoveryCodesRemaining: typeof data?.recoveryCodesRemaining === "number" ? data.recoveryCodesRemaining : undefined,
+        accountRestored: data?.accountRestored === true,
+      };
+    } catch (error) {
+      console.error("Two-factor login error:", error);
       return { success: false, error: "An unexpected error occurred" };
     }
   };
@@ -290,7 +568,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const response = await fetchWithTimeout(apiUrl, {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ email: email.toLowerCase(), password, name }),
+        body: JSON.stringify({ email: email.toLowerCase(), password, name, ...getDeviceDetails() }),
       });
 
       const data = await response.json().catch(() => ({}));
@@ -303,17 +581,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         return { success: false, error: "Signup failed" };
       }
 
-      const nextSession: LocalSession = {
-        user: {
-          id: authUser.id,
-          email: authUser.email || email.toLowerCase(),
-          name: authUser.name || name,
-        },
-        sessionToken: typeof data?.sessionToken === "string" ? data.sessionToken : undefined,
-      };
-
-      setSession(nextSession);
-      await AsyncStorage.setItem(SESSION_KEY, JSON.stringify(nextSession));
+      const nextSession = buildLocalSession(authUser, email.toLowerCase(), data, name);
+      await storeSession(nextSession);
 
       const newUser: User = {
         id: authUser.id,
@@ -348,17 +617,220 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const logout = async () => {
+    const refreshToken = sessionRef.current?.refreshToken;
     try {
-      await AsyncStorage.removeItem(SESSION_KEY);
-      try {
-        const { logoutUser } = await import("@/services/revenuecat");
-        await logoutUser();
-      } catch {}
-      setUser(null);
-      setSession(null);
+      await clearLocalSession();
     } catch (error) {
       console.error("Logout error:", error);
     }
+
+    // Revoke on the server too, but never keep the user waiting on it.
+    if (!refreshToken) return;
+    const baseUrl = getApiBaseUrl();
+    const apiUrl = baseUrl ? `${baseUrl}/api/auth/logout` : "/api/auth/logout";
+    fetchWithTimeout(apiUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ refreshToken }),
+    }).catch((error) => {
+      if (!isAbortError(error)) console.error("Server logout error:", error);
+    });
+  };
+
+  const listSessions = async (): Promise<DeviceSession[] | null> => {
+    try {
+      const response = await authorizedFetch("/api/auth/sessions", { method: "GET" });
+      if (!response?.ok) return null;
+      const data = await response.json();
+      return Array.isArray(data?.sessions) ? data.sessions : [];
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Load sessions error:", error);
+      return null;
+    }
+  };
+
+  const revokeSession = async (sessionId: string): Promise<boolean> => {
+    try {
+      const response = await authorizedFetch(`/api/auth/sessions/${encodeURIComponent(sessionId)}`, { method: "DELETE" });
+      return !!response?.ok;
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Revoke session error:", error);
+      return false;
+    }
+  };
+
+  // POSTs to an /api/auth route for the signed-in user and returns its JSON, or an error message to show.
+  const postAuthRoute = async (route: string, body: Record<string, unknown>): Promise<{ data?: any; error?: string }> => {
+    try {
+      const response = await authorizedFetch(route, { method: "POST", body: JSON.stringify(body) });
+      if (!response) return { error: "Please log in again" };
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) return { error: data?.error || "Something went wrong. Please try again." };
+      return { data };
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Auth request error:", error);
+      return { error: "Something went wrong. Please try again." };
+    }
+  };
+
+  const getTwoFactorStatus = async (): Promise<TwoFactorStatus | null> => {
+    try {
+      const response = await authorizedFetch("/api/auth/2fa", { method: "GET" });
+      if (!response?.ok) return null;
+      return await response.json();
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Two-factor status error:", error);
+      return null;
+    }
+  };
+
+  const startTwoFactorSetup = async (): Promise<{ setup?: TwoFactorSetup; error?: string }> => {
+    const { data, error } = await postAuthRoute("/api/auth/2fa/setup", {});
+    return error ? { error } : { setup: data };
+  };
+
+  const enableTwoFactor = async (code: string): Promise<{ recoveryCodes?: string[]; error?: string }> => {
+    const { data, error } = await postAuthRoute("/api/auth/2fa/enable", { code: code.trim() });
+    return error ? { error } : { recoveryCodes: data?.recoveryCodes || [] };
+  };
+
+  const disableTwoFactor = async (code: string): Promise<{ success: boolean; error?: string }> => {
+    const { error } = await postAuthRoute("/api/auth/2fa/disable", { code: code.trim() });
+    return { success: !error, error };
+  };
+
+  const regenerateRecoveryCodes = async (code: string): Promise<{ recoveryCodes?: string[]; error?: string }> => {
+    const { data, error } = await postAuthRoute("/api/auth/2fa/recovery-codes", { code: code.trim() });
+    return error ? { error } : { recoveryCodes: data?.recoveryCodes || [] };
+  };
+
+  // Keeps the stored session (and the cached profile email) in step with the server after verification or a change.
+  const applyEmailStatus = async (email: string, verified: boolean) => {
+    const current = sessionRef.current;
+    if (!current) return;
+    await storeSession({ ...current, user: { ...current.user, email, emailVerified: verified } });
+    if (user && user.email !== email) {
+      const nextUser = { ...user, email };
+      setUser(nextUser);
+      await saveProfile(nextUser);
+    }
+  };
+
+  const getEmailStatus = async (): Promise<EmailStatus | null> => {
+    try {
+      const response = await authorizedFetch("/api/auth/email", { method: "GET" });
+      if (!response?.ok) return null;
+      const status: EmailStatus = await response.json();
+      await applyEmailStatus(status.email, status.verified);
+      return status;
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Email status error:", error);
+      return null;
+    }
+  };
+
+  const sendEmailVerification = async (): Promise<{ success: boolean; error?: string }> => {
+    const { error } = await postAuthRoute("/api/auth/email/verification", {});
+    return { success: !error, error };
+  };
+
+  const verifyEmail = async (code: string): Promise<{ success: boolean; error?: string }> => {
+    const { data, error } = await postAuthRoute("/api/auth/email/verify", { code: code.trim() });
+    if (error) return { success: false, error };
+    await applyEmailStatus(data.email, true);
+    return { success: true };
+  };
+
+  const requestEmailChange = async (
+    newEmail: string,
+    password?: string
+  ): Promise<{ pendingEmail?: string; confirmCurrentEmail?: boolean; error?: string }> => {
+    const { data, error } = await postAuthRoute("/api/auth/email/change", {
+      newEmail: newEmail.trim().toLowerCase(),
+      ...(password ? { password } : {}),
+    });
+    return error ? { error } : { pendingEmail: data?.pendingEmail, confirmCurrentEmail: data?.confirmCurrentEmail === true };
+  };
+
+  const confirmEmailChange = async (codes: {
+    currentEmailCode?: string;
+    newEmailCode?: string;
+  }): Promise<{ completed?: boolean; error?: string }> => {
+    const { data, error } = await postAuthRoute("/api/auth/email/change/confirm", {
+      currentEmailCode: codes.currentEmailCode?.trim() || undefined,
+      newEmailCode: codes.newEmailCode?.trim() || undefined,
+    });
+    if (error) return { error };
+    if (data?.completed) await applyEmailStatus(data.email, true);
+    return { completed: data?.completed === true };
+  };
+
+  const exportAccountData = async (): Promise<{ success: boolean; error?: string }> => {
+    try {
+      // Exports with many photos take a while to zip, so allow longer than the usual request timeout.
+      const response = await authorizedFetch("/api/account/export", { method: "POST" }, ACCOUNT_EXPORT_TIMEOUT_MS);
+      if (!response) return { success: false, error: "Please log in again" };
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        return { success: false, error: data?.error || "Could not export your data. Please try again." };
+      }
+
+      const disposition = response.headers.get("Content-Disposition") || "";
+      const filename = disposition.match(/filename="([^"]+)"/)?.[1] || "explorex-data.zip";
+      const { saveBytesToDevice } = await import("@/lib/media");
+      await saveBytesToDevice(await response.arrayBuffer(), filename);
+      return { success: true };
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Export account data error:", error);
+      return { success: false, error: "Could not export your data. Please try again." };
+    }
+  };
+
+  const sendReauthCode = async (): Promise<{ success: boolean; email?: string; error?: string }> => {
+    const { data, error } = await postAuthRoute("/api/auth/reauth", {});
+    return error ? { success: false, error } : { success: true, email: data?.email };
+  };
+
+  const deleteAccount = async (
+    proof: { password?: string; emailCode?: string },
+    code?: string
+  ): Promise<{ success: boolean; error?: string; twoFactorRequired?: boolean; scheduledFor?: string }> => {
+    try {
+      const response = await authorizedFetch("/api/account", {
+        method: "DELETE",
+        body: JSON.stringify({
+          ...(proof.password ? { password: proof.password } : {}),
+          ...(proof.emailCode ? { emailCode: proof.emailCode.trim() } : {}),
+          ...(code ? { code: code.trim() } : {}),
+        }),
+      });
+      if (!response) return { success: false, error: "Please log in again" };
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        return {
+          success: false,
+          error: data?.error || "Could not delete your account. Please try again.",
+          twoFactorRequired: data?.twoFactorRequired === true,
+        };
+      }
+
+      // The server has already revoked every session, so only the local copy is left to clear.
+      await clearLocalSession();
+      return { success: true, scheduledFor: data?.scheduledFor };
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Delete account error:", error);
+      return { success: false, error: "Could not delete your account. Please try again." };
+    }
+  };
+
+  const revokeOtherSessions = async (): Promise<boolean> => {
+    try {
+      const response = await authorizedFetch("/api/auth/sessions", { method: "DELETE" });
+      return !!response?.ok;
+    } catch (error) {
+      if (!isAbortError(error)) console.error("Revoke sessions error:", error);
+      return false;
+    }
   };
 
   const refreshProfile = async () => {
@@ -369,7 +841,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
 
       const profileUrl = new URL(`/api/user-profiles/${user.id}`, baseUrl);
       profileUrl.searchParams.set("t", Date.now().toString());
-      const profileRes = await fetchWithTimeout(profileUrl.toString(), { method: "GET" }, 8000);
+      const profileRes = await fetchWithTimeout(
+        profileUrl.toString(),
+        { method: "GET", headers: getAuthHeaders(sessionRef.current?.sessionToken) },
+        8000
+      );
       let serverProfile: Partial<User> = {};
       if (profileRes.ok) {
         const data = await profileRes.json();
@@ -394,7 +870,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       try {
         const verUrl = new URL(`/api/verification/status/${user.id}`, baseUrl);
         verUrl.searchParams.set("t", Date.now().toString());
-        const verRes = await fetchWithTimeout(verUrl.toString(), { method: "GET" }, 8000);
+        const verRes = await fetchWithTimeout(
+          verUrl.toString(),
+          { method: "GET", headers: getAuthHeaders(sessionRef.current?.sessionToken) },
+          8000
+        );
         if (verRes.ok) {
           const vData = await verRes.json();
           verificationData = {
@@ -511,7 +991,12 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         session,
         isLoading,
         isAuthenticated: !!session && !!user,
+        emailVerified: session?.user.emailVerified !== false,
         login,
+        sendMagicLink,
+        loginWithMagicLink,
+        loginWithOAuth,
+        completeTwoFactorLogin,
         signup,
         logout,
         updateProfile,
@@ -520,6 +1005,22 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         sendPasswordResetOTP,
         verifyOTP,
         updatePassword,
+        listSessions,
+        revokeSession,
+        revokeOtherSessions,
+        getTwoFactorStatus,
+        startTwoFactorSetup,
+        enableTwoFactor,
+        disableTwoFactor,
+        regenerateRecoveryCodes,
+        getEmailStatus,
+        sendEmailVerification,
+        verifyEmail,
+        requestEmailChange,
+        confirmEmailChange,
+        exportAccountData,
+        sendReauthCode,
+        deleteAccount,
       }}
     >
       {children}
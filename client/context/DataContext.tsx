@@ -1,31 +1,52 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode, useRef } from "react";
+import React, { createContext, useContext, useState, useEffect, ReactNode, useRef, useCallback } from "react";
+import { AppState } from "react-native";
 import AsyncStorage from "@react-native-async-storage/async-storage";
-import { User, Match, Message, Activity, ForumPost, SwipeCard, ChatMessageType } from "@/types";
+import { User, Match, Message, Activity, ForumPost, ForumPostQuery, ForumVote, SwipeCard, ChatMessageType, ThreadNotification, MessageTiming, UserReportInput } from "@/types";
 import { getApiUrl } from "@/lib/query-client";
+import { createRealtimeConnection, RealtimeConnection, RealtimeEvent, RESYNC_EVENT } from "@/lib/realtime";
+import { MessageHistoryState, MessagePage, MessagePageCursor, setMessagePageParams, spliceMessagePage } from "@/lib/messagePaging";
 import { useAuth } from "./AuthContext";
 
 interface DataContextType {
   profiles: SwipeCard[];
   matches: Match[];
   messages: Record<string, Message[]>;
+  messageHistory: Record<string, MessageHistoryState>;
   activities: Activity[];
   forumPosts: ForumPost[];
+  forumQuery: ForumPostQuery;
+  forumHasMore: boolean;
   likedProfiles: User[];
   isLoading: boolean;
+  realtime: RealtimeConnection | null;
+  threadNotifications: ThreadNotification[];
+  clearThreadNotifications: (threadRootId: string) => void;
   swipeRight: (userId: string) => Promise<Match | null>;
   swipeLeft: (userId: string) => void;
-  sendMessage: (matchId: string, content: string, type?: ChatMessageType, photoUrl?: string, location?: { latitude: number; longitude: number; name?: string; address?: string }, fileUrl?: string, fileName?: string, replyTo?: { id: string; content: string; senderName?: string }, audioDuration?: number) => Promise<Message>;
+  sendMessage: (matchId: string, content: string, type?: ChatMessageType, photoUrl?: string, location?: { latitude: number; longitude: number; name?: string; address?: string }, fileUrl?: string, fileName?: string, replyTo?: { id: string; content: string; senderName?: string }, audioDuration?: number, timing?: MessageTiming) => Promise<Message>;
   editMessage: (matchId: string, messageId: string, newContent: string) => Promise<void>;
   deleteMessage: (matchId: string, messageId: string) => Promise<void>;
   toggleMessageReaction: (matchId: string, messageId: string, emoji: string) => Promise<void>;
+  markMessagesRead: (matchId: string) => Promise<void>;
+  loadOlderMessages: (matchId: string) => Promise<void>;
+  loadNewerMessages: (matchId: string, afterMessageId: string) => Promise<void>;
+  loadMessagesAround: (matchId: string, messageId: string) => Promise<boolean>;
   toggleFavourite: (matchId: string) => Promise<void>;
   markMatchAsRead: (matchId: string) => Promise<void>;
+  muteMatch: (matchId: string, mutedUntil: string | null) => Promise<void>;
   deleteMatch: (matchId: string) => Promise<void>;
+  blockUser: (userId: string) => Promise<boolean>;
+  reportUser: (report: UserReportInput) => Promise<boolean>;
   createActivity: (activity: Omit<Activity, "id" | "createdAt" | "host" | "attendees" | "hostId">) => Promise<Activity>;
   joinActivity: (activityId: string) => Promise<void>;
   deleteActivity: (activityId: string) => Promise<void>;
-  createForumPost: (post: Omit<ForumPost, "id" | "createdAt" | "author" | "authorId" | "upvotes" | "commentCount">) => Promise<ForumPost>;
-  upvotePost: (postId: string) => Promise<void>;
+  createForumPost: (
+    post: Omit<ForumPost, "id" | "createdAt" | "author" | "authorId" | "upvotes" | "downvotes" | "score" | "myVote" | "commentCount">
+  ) => Promise<ForumPost>;
+  votePost: (postId: string, value: ForumVote) => Promise<ForumPost | null>;
+  loadForumPosts: (query: ForumPostQuery) => Promise<void>;
+  loadMoreForumPosts: () => Promise<void>;
+  setForumCommentCount: (postId: string, commentCount: number) => void;
   refreshData: () => Promise<void>;
 }
 
@@ -34,7 +55,26 @@ const DataContext = createContext<DataContextType | undefined>(undefined);
 const MATCHES_KEY = "@nomad_matches";
 const MESSAGES_KEY = "@nomad_messages";
 const FORUM_KEY = "@nomad_forum";
+const DEFAULT_FORUM_QUERY: ForumPostQuery = { sort: "hot" };
+
+// Only the unfiltered first page is cached, since that is what the forum opens on.
+function isDefaultForumQuery(query: ForumPostQuery): boolean {
+  return query.sort === DEFAULT_FORUM_QUERY.sort && !query.category && !query.tag && !query.search;
+}
 const SWIPES_KEY = "@nomad_swipes";
+const EXPIRY_SWEEP_INTERVAL_MS = 15000;
+
+// Disappearing messages are dropped locally at their expiry, including from the on-device cache.
+function withoutExpiredMessages(all: Record<string, Message[]>, now = Date.now()): Record<string, Message[]> {
+  let changed = false;
+  const result: Record<string, Message[]> = {};
+  for (const [matchId, list] of Object.entries(all)) {
+    const kept = list.filter((m) => !m.expiresAt || new Date(m.expiresAt).getTime() > now);
+    if (kept.length !== list.length) changed = true;
+    result[matchId] = kept;
+  }
+  return changed ? result : all;
+}
 
 const MOCK_USERS: User[] = [
   {
@@ -336,6 +376,9 @@ const MOCK_FORUM_POSTS: ForumPost[] = [
     author: MOCK_USERS[1],
     category: "electrical",
     upvotes: 42,
+    downvotes: 0,
+    score: 42,
+    myVote: 0,
     commentCount: 15,
     createdAt: new Date(Date.now() - 86400000 * 2).toISOString(),
   },
@@ -347,6 +390,9 @@ const MOCK_FORUM_POSTS: ForumPost[] = [
     author: MOCK_USERS[0],
     category: "plumbing",
     upvotes: 87,
+    downvotes: 0,
+    score: 87,
+    myVote: 0,
     commentCount: 23,
     createdAt: new Date(Date.now() - 86400000 * 5).toISOString(),
   },
@@ -358,6 +404,9 @@ const MOCK_FORUM_POSTS: ForumPost[] = [
     author: MOCK_USERS[2],
     category: "insulation",
     upvotes: 56,
+    downvotes: 0,
+    score: 56,
+    myVote: 0,
     commentCount: 18,
     createdAt: new Date(Date.now() - 86400000 * 7).toISOString(),
   },
@@ -369,6 +418,9 @@ const MOCK_FORUM_POSTS: ForumPost[] = [
     author: MOCK_USERS[5],
     category: "tips",
     upvotes: 124,
+    downvotes: 0,
+    score: 124,
+    myVote: 0,
     commentCount: 31,
     createdAt: new Date(Date.now() - 86400000 * 3).toISOString(),
   },
@@ -380,6 +432,9 @@ const MOCK_FORUM_POSTS: ForumPost[] = [
     author: MOCK_USERS[12],
     category: "builds",
     upvotes: 98,
+    downvotes: 0,
+    score: 98,
+    myVote: 0,
     commentCount: 45,
     createdAt: new Date(Date.now() - 86400000 * 10).toISOString(),
   },
@@ -390,16 +445,84 @@ export function DataProvider({ children }: { children: ReactNode }) {
   const [profiles, setProfiles] = useState<SwipeCard[]>([]);
   const [matches, setMatches] = useState<Match[]>([]);
   const [messages, setMessages] = useState<Record<string, Message[]>>({});
+  const [messageHistory, setMessageHistory] = useState<Record<string, MessageHistoryState>>({});
   const [activities, setActivities] = useState<Activity[]>([]);
   const [forumPosts, setForumPosts] = useState<ForumPost[]>([]);
+  const [forumQuery, setForumQuery] = useState<ForumPostQuery>(DEFAULT_FORUM_QUERY);
+  const [forumHasMore, setForumHasMore] = useState(false);
+  // Only the latest feed request may replace the list; stale filters and searches are dropped.
+  const forumQueryRef = useRef(forumQuery);
+  const forumRequestRef = useRef(0);
+  const forumLoadingMoreRef = useRef(false);
+  forumQueryRef.current = forumQuery;
   const [likedIds, setLikedIds] = useState<Set<string>>(new Set());
   const [isLoading, setIsLoading] = useState(true);
   const loadRequestRef = useRef(0);
+  // Paging requests resolve after other updates, so they splice into the latest state rather than a stale closure.
+  const messagesRef = useRef(messages);
+  const messageHistoryRef = useRef(messageHistory);
+  messagesRef.current = messages;
+  messageHistoryRef.current = messageHistory;
+  const [realtime, setRealtime] = useState<RealtimeConnection | null>(null);
+  // Read by the realtime connection when it reconnects, so a refreshed access token does not tear down the socket.
+  const sessionTokenRef = useRef(session?.sessionToken || "");
+  sessionTokenRef.current = session?.sessionToken || "";
+  const [threadNotifications, setThreadNotifications] = useState<ThreadNotification[]>([]);
 
   useEffect(() => {
     loadData();
   }, [user?.id]);
 
+  const hasSessionToken = !!session?.sessionToken;
+  useEffect(() => {
+    if (!user?.id || !hasSessionToken) {
+      setRealtime(null);
+      return;
+    }
+    const connection = createRealtimeConnection(() => sessionTokenRef.current);
+    setRealtime(connection);
+    if (AppState.currentState === "background") connection.setPresence("away");
+    const appStateSubscription = AppState.addEventListener("change", (state) => {
+      connection.setPresence(state === "active" ? "online" : "away");
+    });
+    return () => {
+      appStateSubscription.remove();
+      connection.close();
+    };
+  }, [user?.id, hasSessionToken]);
+
+  // Replies in threads the user started or joined arrive on their personal channel.
+  useEffect(() => {
+    setThreadNotifications([]);
+    if (!realtime || !user?.id) return;
+    return realtime.subscribe(`user:${user.id}`, (event) => {
+      if (event.event !== "thread.reply" || !event.payload?.messageId) return;
+      const notification = event.payload as ThreadNotification;
+      setThreadNotifications((prev) =>
+        [notification, ...prev.filter((n) => n.messageId !== notification.messageId)].slice(0, 50)
+      );
+    });
+  }, [realtime, user?.id]);
+
+  // The server purges expired messages too, but the open chat should not wait for its next sweep.
+  useEffect(() => {
+    if (!user?.id) return;
+    const userId = user.id;
+    const interval = setInterval(() => {
+      setMessages((prev) => {
+        const remaining = withoutExpiredMessages(prev);
+        if (remaining === prev) return prev;
+        AsyncStorage.setItem(`${MESSAGES_KEY}_${userId}`, JSON.stringify(remaining)).catch(() => {});
+        return remaining;
+      });
+    }, EXPIRY_SWEEP_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [user?.id]);
+
+  const clearThreadNotifications = useCallback((threadRootId: string) => {
+    setThreadNotifications((prev) => prev.filter((n) => n.threadRootId !== threadRootId));
+  }, []);
+
   const fetchActivitiesFromAPI = async (): Promise<Activity[] | null> => {
     try {
       const baseUrl = getApiUrl();
@@ -438,6 +561,47 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const mapApiForumPost = (row: any): ForumPost => ({
+    id: row.id,
+    title: row.title,
+    content: row.content || "",
+    authorId: row.author_id,
+    author: row.author_data || { id: row.author_id, name: "Nomad", photos: [] },
+    category: row.category || "general",
+    upvotes: row.upvotes || 0,
+    downvotes: row.downvotes || 0,
+    score: row.score || 0,
+    myVote: row.my_vote === 1 || row.my_vote === -1 ? row.my_vote : 0,
+    commentCount: row.comment_count || 0,
+    moderationStatus: row.moderation_status || "visible",
+    tags: Array.isArray(row.tags) ? row.tags : [],
+    createdAt: row.created_at,
+  });
+
+  const fetchForumPostsFromAPI = async (
+    query: ForumPostQuery,
+    offset = 0
+  ): Promise<{ posts: ForumPost[]; hasMore: boolean } | null> => {
+    try {
+      const url = new URL("/api/forum/posts", getApiUrl());
+      url.searchParams.set("sort", query.sort);
+      if (query.category) url.searchParams.set("category", query.category);
+      if (query.tag) url.searchParams.set("tag", query.tag);
+      if (query.search) url.searchParams.set("q", query.search);
+      if (offset > 0) url.searchParams.set("offset", String(offset));
+      const response = await fetch(url.toString(), { headers: authHeaders() });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      const data = await response.json();
+      if (!Array.isArray(data?.posts)) return null;
+      return { posts: data.posts.map(mapApiForumPost), hasMore: !!data.hasMore };
+    } catch (error) {
+      console.error("Failed to fetch forum posts from API:", error);
+      return null;
+    }
+  };
+
   const mapApiMessageToClient = (row: any): Message => ({
     id: row.id,
     matchId: row.match_id || row.matchId,
@@ -454,7 +618,11 @@ export function DataProvider({ children }: { children: ReactNode }) {
     location: row.location || undefined,
     createdAt: row.created_at || row.createdAt || new Date().toISOString(),
     status: row.status || "sent",
+    deliveredAt: row.delivered_at || row.deliveredAt || undefined,
+    readAt: row.read_at || row.readAt || undefined,
     editedAt: row.edited_at || row.editedAt || undefined,
+    sendAt: row.send_at || row.sendAt || undefined,
+    expiresAt: row.expires_at || row.expiresAt || undefined,
   });
 
   const mergeMessagesById = (localMessages: Message[], serverMessages: Message[]): Message[] => {
@@ -535,6 +703,68 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  const fetchMatchMessagePage = async (
+    matchId: string,
+    cursor: MessagePageCursor = {},
+    timeoutMs = 6000
+  ): Promise<MessagePage<Message> | null> => {
+    if (!user) return null;
+    const messagesUrl = new URL(`/api/messages/${matchId}`, getApiUrl());
+    messagesUrl.searchParams.set("userId", user.id);
+    setMessagePageParams(messagesUrl, cursor);
+    const data = await fetchJsonWithTimeout<any>(messagesUrl, null, timeoutMs, authHeaders());
+    if (!data || !Array.isArray(data.messages)) return null;
+    return {
+      messages: data.messages.map(mapApiMessageToClient),
+      hasMoreBefore: !!data.hasMoreBefore,
+      hasMoreAfter: !!data.hasMoreAfter,
+    };
+  };
+
+  const applyMatchMessagePage = (matchId: string, page: MessagePage<Message>, cursor: MessagePageCursor = {}) => {
+    if (!user) return;
+    const result = spliceMessagePage(
+      messagesRef.current[matchId] || [],
+      messageHistoryRef.current[matchId],
+      page,
+      cursor
+    );
+    setMessageHistory((prev) => ({ ...prev, [matchId]: result.history }));
+    setMessages((prev) => {
+      const updatedMessages = { ...prev, [matchId]: mergeMessagesById(prev[matchId] || [], result.messages) };
+      AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(updatedMessages)).catch(() => {});
+      return updatedMessages;
+    });
+  };
+
+  const loadOlderMessages = async (matchId: string) => {
+    const oldest = messagesRef.current[matchId]?.[0];
+    const cursor = oldest ? { before: oldest.id } : {};
+    const page = await fetchMatchMessagePage(matchId, cursor);
+    if (page) {
+      applyMatchMessagePage(matchId, page, cursor);
+    } else if (oldest) {
+      // The oldest cached message may no longer exist on the server; stop paging instead of retrying it forever.
+      setMessageHistory((prev) => ({
+        ...prev,
+        [matchId]: { hasMoreBefore: false, gapAfterIds: prev[matchId]?.gapAfterIds || [] },
+      }));
+    }
+  };
+
+  const loadNewerMessages = async (matchId: string, afterMessageId: string) => {
+    const page = await fetchMatchMessagePage(matchId, { after: afterMessageId });
+    if (page) applyMatchMessagePage(matchId, page, { after: afterMessageId });
+  };
+
+  const loadMessagesAround = async (matchId: string, messageId: string): Promise<boolean> => {
+    if (messagesRef.current[matchId]?.some((m) => m.id === messageId)) return true;
+    const page = await fetchMatchMessagePage(matchId, { around: messageId });
+    if (!page) return false;
+    applyMatchMessagePage(matchId, page, { around: messageId });
+    return page.messages.some((m) => m.id === messageId);
+  };
+
   const loadData = async () => {
     const requestId = ++loadRequestRef.current;
     setIsLoading(true);
@@ -551,6 +781,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
         setProfiles([]);
         setMatches([]);
         setMessages({});
+        setMessageHistory({});
         setActivities(activeActivities);
         setForumPosts(MOCK_FORUM_POSTS);
         setLikedIds(new Set());
@@ -567,7 +798,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
         AsyncStorage.getItem(`${MATCHES_KEY}_${userId}`),
       ]);
 
-      const loadedMessages: Record<string, Message[]> = messagesStr ? JSON.parse(messagesStr) : {};
+      const loadedMessages: Record<string, Message[]> = withoutExpiredMessages(messagesStr ? JSON.parse(messagesStr) : {});
       const loadedForum: ForumPost[] = forumStr ? JSON.parse(forumStr) : MOCK_FORUM_POSTS;
       const localMatches: Match[] = localMatchesStr ? JSON.parse(localMatchesStr) : [];
 
@@ -580,11 +811,13 @@ export function DataProvider({ children }: { children: ReactNode }) {
       setForumPosts(loadedForum);
       setIsLoading(false);
 
-      const [discoverRes, matchesRes, likedRes, loadedActivities] = await Promise.all([
-        fetchJsonWithTimeout<SwipeCard[]>(new URL(`/api/discover/profiles/${userId}`, baseUrl), [], 7000),
+      const forumRequestId = forumRequestRef.current;
+      const [discoverRes, matchesRes, likedRes, loadedActivities, serverForumPosts] = await Promise.all([
+        fetchJsonWithTimeout<SwipeCard[]>(new URL(`/api/discover/profiles/${userId}`, baseUrl), [], 7000, authHeaders()),
         fetchJsonWithTimeout<Match[]>(new URL(`/api/matches/${userId}`, baseUrl), [], 7000, authHeaders()),
         fetchJsonWithTimeout<User[]>(new URL(`/api/swipes/liked/${userId}`, baseUrl), [], 7000, authHeaders()),
         fetchActivitiesFromAPI(),
+        fetchForumPostsFromAPI(forumQueryRef.current),
       ]);
 
       if (requestId !== loadRequestRef.current) return;
@@ -593,14 +826,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
       const mergedMatches = dedupeMatchesById([
         ...matchesRes.map((serverMatch) => {
           const local = hydratedLocalMatches.find((localMatch) => localMatch.id === serverMatch.id);
-          return local
-            ? {
-                ...serverMatch,
-                lastMessage: local.lastMessage,
-                isFavourite: local.isFavourite,
-                unreadCount: local.unreadCount,
-              }
-            : serverMatch;
+          return local ? { ...serverMatch, lastMessage: local.lastMessage } : serverMatch;
         }),
         ...localMatches.filter((localMatch) => !serverMatchIds.has(localMatch.id)),
       ]);
@@ -617,36 +843,44 @@ export function DataProvider({ children }: { children: ReactNode }) {
       setProfiles(sortedDiscoverCards);
       setActivities(loadedActivities || []);
       setLikedIds(new Set(likedRes.map((u) => u.id)));
+      if (serverForumPosts && forumRequestId === forumRequestRef.current) {
+        setForumPosts(serverForumPosts.posts);
+        setForumHasMore(serverForumPosts.hasMore);
+        if (isDefaultForumQuery(forumQueryRef.current)) {
+          AsyncStorage.setItem(FORUM_KEY, JSON.stringify(serverForumPosts.posts)).catch(() => {});
+        }
+      }
 
       const messageEntries = await Promise.all(
         mergedMatches.map(async (match) => {
-          const messagesUrl = new URL(`/api/messages/${match.id}`, baseUrl);
-          messagesUrl.searchParams.set("userId", userId);
-          const serverRows = await fetchJsonWithTimeout<any[]>(
-            messagesUrl,
-            [],
-            4000,
-            authHeaders()
-          );
-          const serverMessages: Message[] = (serverRows || []).map(mapApiMessageToClient);
           const localForMatch = loadedMessages[match.id] || [];
-          return [match.id, mergeMessagesById(localForMatch, serverMessages)] as const;
+          const page = await fetchMatchMessagePage(match.id, {}, 4000);
+          if (!page) return [match.id, localForMatch, undefined] as const;
+          const result = spliceMessagePage(localForMatch, undefined, page);
+          return [match.id, result.messages, result.history] as const;
         })
       );
 
       if (requestId !== loadRequestRef.current) return;
 
       const syncedMessages: Record<string, Message[]> = { ...loadedMessages };
-      for (const [matchId, msgs] of messageEntries) {
+      const syncedHistory: Record<string, MessageHistoryState> = {};
+      for (const [matchId, msgs, history] of messageEntries) {
         syncedMessages[matchId] = msgs;
+        if (history) syncedHistory[matchId] = history;
       }
 
       const finalMatches = dedupeMatchesById(hydrateMatchesWithLastMessage(mergedMatches, syncedMessages));
       setMatches(finalMatches);
       setMessages(syncedMessages);
+      setMessageHistory(syncedHistory);
 
       AsyncStorage.setItem(`${MATCHES_KEY}_${userId}`, JSON.stringify(finalMatches)).catch(() => {});
       AsyncStorage.setItem(`${MESSAGES_KEY}_${userId}`, JSON.stringify(syncedMessages)).catch(() => {});
+
+      for (const [matchId, msgs] of messageEntries) {
+        if (hasIncomingBelow(msgs, "delivered")) sendReceipts(matchId, "delivered");
+      }
     } catch (error) {
       console.error("Failed to load data:", error);
       if (requestId === loadRequestRef.current) {
@@ -716,7 +950,8 @@ export function DataProvider({ children }: { children: ReactNode }) {
     fileUrl?: string,
     fileName?: string,
     replyTo?: { id: string; content: string; senderName?: string },
-    audioDuration?: number
+    audioDuration?: number,
+    timing?: MessageTiming
   ): Promise<Message> => {
     if (!user) throw new Error("Not authenticated");
 
@@ -734,7 +969,9 @@ export function DataProvider({ children }: { children: ReactNode }) {
       audioDuration: type === "audio" ? audioDuration : undefined,
       replyTo,
       createdAt: new Date().toISOString(),
-      status: "sent",
+      status: timing?.sendAt ? "scheduled" : "sent",
+      sendAt: timing?.sendAt,
+      expiresAt: timing?.expiresAt,
     };
 
     let messageToStore = optimisticMessage;
@@ -755,6 +992,8 @@ export function DataProvider({ children }: { children: ReactNode }) {
           audioDuration: type === "audio" ? audioDuration : undefined,
           replyTo,
           location,
+          sendAt: timing?.sendAt,
+          expiresAt: timing?.expiresAt,
         }),
       });
 
@@ -766,14 +1005,6 @@ export function DataProvider({ children }: { children: ReactNode }) {
       console.error("Send message API error:", error);
     }
 
-    setTimeout(() => {
-      updateMessageStatus(matchId, messageToStore.id, "delivered");
-    }, 1000);
-
-    setTimeout(() => {
-      updateMessageStatus(matchId, messageToStore.id, "read");
-    }, 3000);
-
     const matchMessages = messages[matchId] || [];
     const updatedMessages = {
       ...messages,
@@ -786,6 +1017,9 @@ export function DataProvider({ children }: { children: ReactNode }) {
       JSON.stringify(updatedMessages)
     );
 
+    // A scheduled message only becomes the conversation preview once it is actually sent.
+    if (messageToStore.status === "scheduled") return messageToStore;
+
     const updatedMatches = matches.map((m) =>
       m.id === matchId ? { ...m, lastMessage: messageToStore } : m
     );
@@ -934,42 +1168,109 @@ export function DataProvider({ children }: { children: ReactNode }) {
   };
 
   const createForumPost = async (
-    postData: Omit<ForumPost, "id" | "createdAt" | "author" | "authorId" | "upvotes" | "commentCount">
+    postData: Omit<ForumPost, "id" | "createdAt" | "author" | "authorId" | "upvotes" | "downvotes" | "score" | "myVote" | "commentCount">
   ): Promise<ForumPost> => {
     if (!user) throw new Error("Not authenticated");
 
-    const newPost: ForumPost = {
-      ...postData,
-      id: `post_${Date.now()}`,
-      authorId: user.id,
-      author: user,
-      upvotes: 0,
-      commentCount: 0,
-      createdAt: new Date().toISOString(),
-    };
-
-    const updatedPosts = [newPost, ...forumPosts];
-    setForumPosts(updatedPosts);
-    await AsyncStorage.setItem(FORUM_KEY, JSON.stringify(updatedPosts));
+    const response = await fetch(new URL("/api/forum/posts", getApiUrl()).toString(), {
+      method: "POST",
+      headers: jsonAuthHeaders(),
+      body: JSON.stringify({
+        authorId: user.id,
+        authorData: { id: user.id, name: user.name, photos: user.photos || [] },
+        title: postData.title,
+        content: postData.content,
+        category: postData.category,
+        tags: postData.tags,
+      }),
+    });
+    if (!response.ok) throw new Error("Failed to create forum post");
+
+    const newPost = mapApiForumPost(await response.json());
+    // Posts held for review are not listed until a moderator approves them.
+    if (newPost.moderationStatus === "visible") {
+      const updatedPosts = [newPost, ...forumPosts];
+      setForumPosts(updatedPosts);
+      if (isDefaultForumQuery(forumQuery)) {
+        await AsyncStorage.setItem(FORUM_KEY, JSON.stringify(updatedPosts));
+      }
+    }
 
     return newPost;
   };
 
-  const upvotePost = async (postId: string) => {
-    const updatedPosts = forumPosts.map((p) =>
-      p.id === postId ? { ...p, upvotes: p.upvotes + 1 } : p
-    );
-    setForumPosts(updatedPosts);
-    await AsyncStorage.setItem(FORUM_KEY, JSON.stringify(updatedPosts));
+  // Totals come from the server's response; nothing is counted locally.
+  const votePost = async (postId: string, value: ForumVote): Promise<ForumPost | null> => {
+    if (!user) return null;
+
+    try {
+      const response = await fetch(new URL(`/api/forum/posts/${postId}/vote`, getApiUrl()).toString(), {
+        method: "POST",
+        headers: jsonAuthHeaders(),
+        body: JSON.stringify({ userId: user.id, value }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const updated = mapApiForumPost(await response.json());
+      setForumPosts((prev) => {
+        const updatedPosts = prev.map((p) =>
+          p.id === postId
+            ? { ...p, upvotes: updated.upvotes, downvotes: updated.downvotes, score: updated.score, myVote: updated.myVote }
+            : p
+        );
+        if (isDefaultForumQuery(forumQueryRef.current)) {
+          AsyncStorage.setItem(FORUM_KEY, JSON.stringify(updatedPosts)).catch(() => {});
+        }
+        return updatedPosts;
+      });
+      return updated;
+    } catch (error) {
+      console.error("Failed to vote on post:", error);
+      return null;
+    }
+  };
+
+  const loadForumPosts = async (query: ForumPostQuery) => {
+    const requestId = ++forumRequestRef.current;
+    setForumQuery(query);
+    const result = await fetchForumPostsFromAPI(query);
+    if (!result || requestId !== forumRequestRef.current) return;
+    setForumPosts(result.posts);
+    setForumHasMore(result.hasMore);
+    if (isDefaultForumQuery(query)) {
+      AsyncStorage.setItem(FORUM_KEY, JSON.stringify(result.posts)).catch(() => {});
+    }
+  };
+
+  const loadMoreForumPosts = async () => {
+    if (!forumHasMore || forumLoadingMoreRef.current) return;
+    const requestId = forumRequestRef.current;
+    forumLoadingMoreRef.current = true;
+    try {
+      const result = await fetchForumPostsFromAPI(forumQueryRef.current, forumPosts.length);
+      if (!result || requestId !== forumRequestRef.current) return;
+      // Rankings can shift between pages, so a post may come back twice.
+      setForumPosts((prev) => {
+        const seen = new Set(prev.map((p) => p.id));
+        return [...prev, ...result.posts.filter((p) => !seen.has(p.id))];
+      });
+      setForumHasMore(result.hasMore);
+    } finally {
+      forumLoadingMoreRef.current = false;
+    }
+  };
+
+  const setForumCommentCount = (postId: string, commentCount: number) => {
+    setForumPosts((prev) => prev.map((p) => (p.id === postId ? { ...p, commentCount } : p)));
   };
 
-  const updateMessageStatus = async (matchId: string, messageId: string, status: "sent" | "delivered" | "read") => {
+  const updateMessageStatus = async (matchId: string, messageIds: string[], status: "sent" | "delivered" | "read") => {
     if (!user) return;
     
+    const ids = new Set(messageIds);
     setMessages(prev => {
       const matchMessages = prev[matchId] || [];
       const updatedMatchMessages = matchMessages.map(m => 
-        m.id === messageId ? { ...m, status } : m
+        ids.has(m.id) ? { ...m, status } : m
       );
       const updatedMessages = { ...prev, [matchId]: updatedMatchMessages };
       AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(updatedMessages));
@@ -977,6 +1278,45 @@ export function DataProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  const sendReceipts = async (matchId: string, status: "delivered" | "read") => {
+    if (!user) return;
+
+    try {
+      const baseUrl = getApiUrl();
+      const response = await fetch(new URL(`/api/messages/${matchId}/receipts`, baseUrl).toString(), {
+        method: "POST",
+        headers: jsonAuthHeaders(),
+        body: JSON.stringify({ userId: user.id, status }),
+      });
+      if (!response.ok) {
+        console.error("Receipt update failed:", response.status);
+      }
+    } catch (error) {
+      console.error("Receipt update API error:", error);
+    }
+  };
+
+  const hasIncomingBelow = (matchMessages: Message[] | undefined, status: "delivered" | "read") =>
+    (matchMessages || []).some(
+      (m) => m.senderId !== user?.id && (m.status === "sent" || (status === "read" && m.status === "delivered"))
+    );
+
+  const markMessagesRead = async (matchId: string): Promise<void> => {
+    if (!user || !hasIncomingBelow(messages[matchId], "read")) return;
+
+    setMessages((prev) => {
+      const matchMessages = prev[matchId] || [];
+      const updatedMessages = {
+        ...prev,
+        [matchId]: matchMessages.map((m) => (m.senderId !== user.id ? { ...m, status: "read" as const } : m)),
+      };
+      AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(updatedMessages)).catch(() => {});
+      return updatedMessages;
+    });
+    setMatches((prev) => prev.map((m) => (m.id === matchId ? { ...m, unreadCount: 0 } : m)));
+    await sendReceipts(matchId, "read");
+  };
+
   const editMessage = async (matchId: string, messageId: string, newContent: string): Promise<void> => {
     if (!user) return;
 
@@ -1100,24 +1440,64 @@ export function DataProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  const updateMatchSettings = async (matchId: string, changes: Record<string, unknown>): Promise<Partial<Match> | null> => {
+    if (!user) return null;
+
+    try {
+      const baseUrl = getApiUrl();
+      const response = await fetch(new URL(`/api/matches/${matchId}/settings`, baseUrl).toString(), {
+        method: "PATCH",
+        headers: jsonAuthHeaders(),
+        body: JSON.stringify({ userId: user.id, ...changes }),
+      });
+      if (!response.ok) {
+        console.error("Match settings update failed:", response.status);
+        return null;
+      }
+      return await response.json();
+    } catch (error) {
+      console.error("Match settings API error:", error);
+      return null;
+    }
+  };
+
+  const applyMatchChanges = (matchId: string, changes: Partial<Match>) => {
+    if (!user) return;
+
+    setMatches((prev) => {
+      const updatedMatches = prev.map((m) => (m.id === matchId ? { ...m, ...changes } : m));
+      AsyncStorage.setItem(`${MATCHES_KEY}_${user.id}`, JSON.stringify(updatedMatches)).catch(() => {});
+      return updatedMatches;
+    });
+  };
+
   const toggleFavourite = async (matchId: string): Promise<void> => {
     if (!user) return;
-    
-    const updatedMatches = matches.map(m => 
-      m.id === matchId ? { ...m, isFavourite: !m.isFavourite } : m
-    );
-    setMatches(updatedMatches);
-    await AsyncStorage.setItem(`${MATCHES_KEY}_${user.id}`, JSON.stringify(updatedMatches));
+
+    const match = matches.find((m) => m.id === matchId);
+    const isFavourite = !match?.isFavourite;
+    applyMatchChanges(matchId, { isFavourite });
+
+    const saved = await updateMatchSettings(matchId, { isFavourite });
+    applyMatchChanges(matchId, saved || { isFavourite: !isFavourite });
   };
 
   const markMatchAsRead = async (matchId: string): Promise<void> => {
     if (!user) return;
-    
-    const updatedMatches = matches.map(m => 
-      m.id === matchId ? { ...m, unreadCount: 0 } : m
-    );
-    setMatches(updatedMatches);
-    await AsyncStorage.setItem(`${MATCHES_KEY}_${user.id}`, JSON.stringify(updatedMatches));
+
+    applyMatchChanges(matchId, { unreadCount: 0 });
+    const saved = await updateMatchSettings(matchId, { markRead: true });
+    if (saved) applyMatchChanges(matchId, saved);
+  };
+
+  const muteMatch = async (matchId: string, mutedUntil: string | null): Promise<void> => {
+    if (!user) return;
+
+    const previous = matches.find((m) => m.id === matchId)?.mutedUntil ?? null;
+    applyMatchChanges(matchId, { mutedUntil });
+
+    const saved = await updateMatchSettings(matchId, { mutedUntil });
+    applyMatchChanges(matchId, saved || { mutedUntil: previous });
   };
 
   const deleteMatch = async (matchId: string): Promise<void> => {
@@ -1158,6 +1538,133 @@ export function DataProvider({ children }: { children: ReactNode }) {
     }
   };
 
+  // A blocked user's chat is hidden on both sides; the server keeps the history in case it is reported.
+  const hideBlockedUser = async (blockedUserId: string) => {
+    if (!user) return;
+    const blockedMatchIds = matches.filter(m => m.matchedUserId === blockedUserId).map(m => m.id);
+    const updatedMatches = matches.filter(m => m.matchedUserId !== blockedUserId);
+    setMatches(updatedMatches);
+    await AsyncStorage.setItem(`${MATCHES_KEY}_${user.id}`, JSON.stringify(updatedMatches));
+
+    const remainingMessages = { ...messages };
+    blockedMatchIds.forEach(id => delete remainingMessages[id]);
+    setMessages(remainingMessages);
+    await AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(remainingMessages));
+  };
+
+  const blockUser = async (blockedUserId: string): Promise<boolean> => {
+    if (!user) return false;
+    try {
+      const response = await fetch(new URL("/api/blocks", getApiUrl()).toString(), {
+        method: "POST",
+        headers: jsonAuthHeaders(),
+        body: JSON.stringify({ userId: user.id, blockedUserId }),
+      });
+      if (!response.ok) throw new Error(`Block failed (${response.status})`);
+      await hideBlockedUser(blockedUserId);
+      return true;
+    } catch (error) {
+      console.error("Block user error:", error);
+      return false;
+    }
+  };
+
+  const reportUser = async (report: UserReportInput): Promise<boolean> => {
+    if (!user) return false;
+    try {
+      const response = await fetch(new URL("/api/reports", getApiUrl()).toString(), {
+        method: "POST",
+        headers: jsonAuthHeaders(),
+        body: JSON.stringify({
+          userId: user.id,
+          reportedUserId: report.reportedUserId,
+          reason: report.reason,
+          details: report.details,
+          evidence: { messageIds: report.messageIds || [], screenshotUrls: report.screenshotUrls || [] },
+          block: report.block === true,
+        }),
+      });
+      if (!response.ok) throw new Error(`Report failed (${response.status})`);
+      if (report.block) await hideBlockedUser(report.reportedUserId);
+      return true;
+    } catch (error) {
+      console.error("Report user error:", error);
+      return false;
+    }
+  };
+
+  const resyncMatchMessages = async (matchId: string) => {
+    const page = await fetchMatchMessagePage(matchId, {}, 4000);
+    if (page) applyMatchMessagePage(matchId, page);
+  };
+
+  const applyRealtimeMessageEvent = (matchId: string, event: RealtimeEvent) => {
+    if (!user) return;
+
+    if (event.event === RESYNC_EVENT) {
+      resyncMatchMessages(matchId).catch(() => {});
+      return;
+    }
+
+    if (event.event === "message.status") {
+      if (event.payload?.readerId !== user.id) {
+        updateMessageStatus(matchId, event.payload?.ids || [], event.payload?.status);
+      }
+      return;
+    }
+
+    if (event.event === "message.created" && event.payload?.sender_id !== user.id && event.payload?.status === "sent") {
+      sendReceipts(matchId, "delivered");
+    }
+
+    setMessages((prev) => {
+      const matchMessages = prev[matchId] || [];
+      let updatedMatchMessages = matchMessages;
+
+      if (event.event === "message.created" || event.event === "message.updated") {
+        updatedMatchMessages = mergeMessagesById(matchMessages, [mapApiMessageToClient(event.payload)]);
+      } else if (event.event === "message.deleted") {
+        updatedMatchMessages = matchMessages.filter((m) => m.id !== event.payload?.id);
+      } else if (event.event === "message.reactions") {
+        updatedMatchMessages = matchMessages.map((m) =>
+          m.id === event.payload?.id ? { ...m, reactions: event.payload.reactions || {} } : m
+        );
+      } else {
+        return prev;
+      }
+
+      const updatedMessages = { ...prev, [matchId]: updatedMatchMessages };
+      AsyncStorage.setItem(`${MESSAGES_KEY}_${user.id}`, JSON.stringify(updatedMessages)).catch(() => {});
+      const isNewIncoming = event.event === "message.created"
+        && event.payload?.sender_id !== user.id
+        && !matchMessages.some((m) => m.id === event.payload?.id);
+      setMatches((prevMatches) =>
+        prevMatches.map((m) =>
+          m.id === matchId
+            ? {
+                ...m,
+                lastMessage: getLatestMessage(updatedMatchMessages),
+                unreadCount: isNewIncoming ? (m.unreadCount ?? 0) + 1 : m.unreadCount,
+              }
+            : m
+        )
+      );
+      return updatedMessages;
+    });
+  };
+
+  const subscribedMatchKey = matches.map((m) => m.id).sort().join(",");
+
+  useEffect(() => {
+    if (!realtime || !subscribedMatchKey) return;
+    const unsubscribers = subscribedMatchKey
+      .split(",")
+      .map((matchId) =>
+        realtime.subscribe(`match:${matchId}`, (event) => applyRealtimeMessageEvent(matchId, event))
+      );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [realtime, subscribedMatchKey]);
+
   const refreshData = async () => {
     if (user) {
       await loadData();
@@ -1192,24 +1699,40 @@ export function DataProvider({ children }: { children: ReactNode }) {
         profiles,
         matches,
         messages,
+        messageHistory,
         activities,
         forumPosts,
+        forumQuery,
+        forumHasMore,
         likedProfiles,
         isLoading,
+        realtime,
+        threadNotifications,
+        clearThreadNotifications,
         swipeRight,
         swipeLeft,
         sendMessage,
         editMessage,
         deleteMessage,
         toggleMessageReaction,
+        markMessagesRead,
+        loadOlderMessages,
+        loadNewerMessages,
+        loadMessagesAround,
         toggleFavourite,
         markMatchAsRead,
+        muteMatch,
         deleteMatch,
+        blockUser,
+        reportUser,
         createActivity,
         joinActivity,
         deleteActivity,
         createForumPost,
-        upvotePost,
+        votePost,
+        loadForumPosts,
+        loadMoreForumPosts,
+        setForumCommentCount,
         refreshData,
       }}
     >
@@ -11,6 +11,7 @@ import React, {
 import { PurchasesOffering, CustomerInfo } from "react-native-purchases";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 import { useAuth } from "@/context/AuthContext";
+import { getApiUrl } from "@/lib/query-client";
 import {
   configureRevenueCat,
   getSubscriptions,
@@ -47,8 +48,9 @@ const SubscriptionContext = createContext<SubscriptionContextType | undefined>(
   undefined,
 );
 
-const TIER_STORAGE_KEY = "subscription_tier";
 const ENTITLEMENTS_STORAGE_KEY = "subscription_entitlements";
+const TIER_SYNC_ATTEMPTS = 5;
+const TIER_SYNC_DELAY_MS = 2000;
 
 const TIER_FEATURES: Record<SubscriptionTier, string[]> = {
   starter: [
@@ -119,6 +121,10 @@ function getTierFromEntitlements(activeEntitlements: string[]): SubscriptionTier
   return "starter";
 }
 
+function isSubscriptionTier(value: unknown): value is SubscriptionTier {
+  return value === "starter" || value === "explorer" || value === "adventurer" || value === "lifetime";
+}
+
 function getTierFromCustomerInfo(info: CustomerInfo): SubscriptionTier {
   const activeEntitlements = Object.keys(info.entitlements.active);
   const activeProducts = info.activeSubscriptions || [];
@@ -148,7 +154,7 @@ function getTierFromCustomerInfo(info: CustomerInfo): SubscriptionTier {
 }
 
 export function SubscriptionProvider({ children }: { children: ReactNode }) {
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const [tier, setTier] = useState<SubscriptionTier>("starter");
   const [isLoading, setIsLoading] = useState(true);
   const [offerings, setOfferings] = useState<PurchasesOffering | null>(null);
@@ -158,17 +164,52 @@ export function SubscriptionProvider({ children }: { children: ReactNode }) {
   const listenerCleanup = useRef<(() => void) | null>(null);
   const userIdRef = useRef<string | null>(null);
 
+  // The server decides the tier from RevenueCat webhooks; the app only displays it.
+  const fetchServerTier = useCallback(async (): Promise<SubscriptionTier | null> => {
+    if (!user?.id || !session?.sessionToken) return null;
+    try {
+      const response = await fetch(new URL(`/api/subscription/${user.id}`, getApiUrl()).toString(), {
+        headers: { Authorization: `Bearer ${session.sessionToken}` },
+      });
+      if (!response.ok) return null;
+      const data = await response.json();
+      return isSubscriptionTier(data?.tier) ? data.tier : null;
+    } catch {
+      return null;
+    }
+  }, [user?.id, session?.sessionToken]);
+
+  // A purchase reaches the app before its webhook reaches the server, so retry briefly until they agree.
+  const syncServerTier = useCallback(async (expectedTier?: SubscriptionTier) => {
+    const attempts = expectedTier ? TIER_SYNC_ATTEMPTS : 1;
+    for (let attempt = 0; attempt < attempts; attempt++) {
+      if (attempt > 0) await new Promise((resolve) => setTimeout(resolve, TIER_SYNC_DELAY_MS));
+      const serverTier = await fetchServerTier();
+      if (serverTier) {
+        setTier(serverTier);
+        if (!expectedTier || serverTier === expectedTier) return;
+      }
+    }
+  }, [fetchServerTier]);
+
+  useEffect(() => {
+    if (!user?.id) {
+      setTier("starter");
+      return;
+    }
+    syncServerTier();
+  }, [user?.id, syncServerTier]);
+
   const handleCustomerInfoUpdate = useCallback((info: CustomerInfo) => {
     setCustomerInfo(info);
     const entitlements = Object.keys(info.entitlements.active);
-    const nextTier = getTierFromCustomerInfo(info);
     setUserEntitlements(entitlements);
-    setTier(nextTier);
-    AsyncStorage.setItem(TIER_STORAGE_KEY, nextTier).catch(() => {});
     AsyncStorage.setItem(ENTITLEMENTS_STORAGE_KEY, JSON.stringify(entitlements)).catch(() => {});
-  }, []);
+    syncServerTier(getTierFromCustomerInfo(info));
+  }, [syncServerTier]);
 
   const refreshSubscriptionStatus = useCallback(async () => {
+    await syncServerTier();
     if (!configured) return;
     try {
       const result = await checkUserEntitlements();
@@ -182,20 +223,10 @@ export function SubscriptionProvider({ children }: { children: ReactNode }) {
     } catch (error) {
       console.log("Refresh subscription error:", error);
     }
-  }, [configured, handleCustomerInfoUpdate]);
+  }, [configured, handleCustomerInfoUpdate, syncServerTier]);
 
   const initializePurchases = useCallback(async () => {
     try {
-      const storedTier = await AsyncStorage.getItem(TIER_STORAGE_KEY);
-      if (
-        storedTier === "starter" ||
-        storedTier === "explorer" ||
-        storedTier === "adventurer" ||
-        storedTier === "lifetime"
-      ) {
-        setTier(storedTier);
-      }
-
       const storedEntitlements = await AsyncStorage.getItem(ENTITLEMENTS_STORAGE_KEY);
       if (storedEntitlements) {
         try {
@@ -271,29 +302,8 @@ export function SubscriptionProvider({ children }: { children: ReactNode }) {
     const normalizedPackageId = packageId.toLowerCase();
 
     if (!offerings) {
-      console.log("Demo mode: simulating purchase");
-      if (normalizedPackageId.includes("lifetime")) {
-        setTier("lifetime");
-        setUserEntitlements(["lifetime"]);
-        AsyncStorage.setItem(TIER_STORAGE_KEY, "lifetime").catch(() => {});
-        AsyncStorage.setItem(ENTITLEMENTS_STORAGE_KEY, JSON.stringify(["lifetime"])).catch(() => {});
-      } else if (normalizedPackageId.includes("adventurer")) {
-        setTier("adventurer");
-        setUserEntitlements(["adventurer"]);
-        AsyncStorage.setItem(TIER_STORAGE_KEY, "adventurer").catch(() => {});
-        AsyncStorage.setItem(ENTITLEMENTS_STORAGE_KEY, JSON.stringify(["adventurer"])).catch(() => {});
-      } else if (
-        normalizedPackageId.includes("explorer") ||
-        normalizedPackageId.includes("monthly") ||
-        normalizedPackageId.includes("yearly") ||
-        normalizedPackageId.includes("pro")
-      ) {
-        setTier("explorer");
-        setUserEntitlements(["explorer"]);
-        AsyncStorage.setItem(TIER_STORAGE_KEY, "explorer").catch(() => {});
-        AsyncStorage.setItem(ENTITLEMENTS_STORAGE_KEY, JSON.stringify(["explorer"])).catch(() => {});
-      }
-      return;
+      // Without RevenueCat there is no receipt for the server to grant a tier from.
+      throw new Error("Purchases are unavailable in preview mode");
     }
 
     let pkg = offerings.availablePackages.find(
@@ -0,0 +1,80 @@
+import { useEffect, useState } from "react";
+import { getApiUrl } from "@/lib/query-client";
+import type { PresenceStatus } from "@/lib/realtime";
+import { useAuth } from "@/context/AuthContext";
+import { useData } from "@/context/DataContext";
+
+export interface UserPresence {
+  userId: string;
+  status: PresenceStatus | null;
+  lastSeenAt: string | null;
+}
+
+export function formatPresence(presence?: UserPresence): string | null {
+  if (!presence?.status) return null;
+  if (presence.status === "online") return "Online";
+  if (presence.status === "away") return "Away";
+  if (!presence.lastSeenAt) return null;
+
+  const diffMins = Math.floor((Date.now() - new Date(presence.lastSeenAt).getTime()) / 60000);
+  if (diffMins < 1) return "Last seen just now";
+  if (diffMins < 60) return `Last seen ${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `Last seen ${diffHours}h ago`;
+  const diffDays = Math.floor(diffHours / 24);
+  if (diffDays < 7) return `Last seen ${diffDays}d ago`;
+  return `Last seen ${new Date(presence.lastSeenAt).toLocaleDateString([], { month: "short", day: "numeric" })}`;
+}
+
+export function usePresence(userIds: string[]): Record<string, UserPresence> {
+  const { user, session } = useAuth();
+  const { realtime } = useData();
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({});
+  const idsKey = Array.from(new Set(userIds.filter((id) => id && id !== user?.id))).sort().join(",");
+
+  useEffect(() => {
+    if (!user?.id || !idsKey) {
+      setPresence({});
+      return;
+    }
+
+    let cancelled = false;
+    const presenceUrl = new URL("/api/presence", getApiUrl());
+    presenceUrl.searchParams.set("viewerId", user.id);
+    presenceUrl.searchParams.set("userIds", idsKey);
+    const headers: Record<string, string> = {};
+    if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
+
+    fetch(presenceUrl.toString(), { headers })
+      .then((response) => (response.ok ? response.json() : []))
+      .then((rows: UserPresence[]) => {
+        if (cancelled) return;
+        setPresence(Object.fromEntries(rows.map((row) => [row.userId, row])));
+      })
+      .catch((error) => console.error("Failed to load presence:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user?.id, session?.sessionToken, idsKey]);
+
+  useEffect(() => {
+    if (!realtime || !idsKey) return;
+    const unsubscribers = idsKey.split(",").map((userId) =>
+      realtime.subscribe(`presence:${userId}`, (event) => {
+        if (event.event !== "presence") return;
+        setPresence((prev) => ({
+          ...prev,
+          [userId]: {
+            userId,
+            status: event.payload?.status ?? null,
+            lastSeenAt: event.payload?.lastSeenAt ?? null,
+          },
+        }));
+      })
+    );
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe());
+  }, [realtime, idsKey]);
+
+  return presence;
+}
@@ -0,0 +1,79 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useData } from "@/context/DataContext";
+
+// Senders refresh "typing" every few seconds; receivers drop it if no refresh arrives in time.
+const TYPING_REFRESH_MS = 3000;
+const TYPING_TIMEOUT_MS = 6000;
+
+export function useTypingIndicator(channel: string | null) {
+  const { realtime } = useData();
+  const [typingUserIds, setTypingUserIds] = useState<string[]>([]);
+  const expiryTimersRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  const lastSentRef = useRef(0);
+  const idleTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => {
+    if (!realtime || !channel) return;
+    const timers = expiryTimersRef.current;
+
+    const clearTyping = (userId: string) => {
+      const timer = timers.get(userId);
+      if (timer) clearTimeout(timer);
+      timers.delete(userId);
+      setTypingUserIds((prev) => prev.filter((id) => id !== userId));
+    };
+
+    const unsubscribe = realtime.subscribe(channel, (event) => {
+      if (event.event === "message.created") {
+        const senderId = event.payload?.sender_id || event.payload?.senderId;
+        if (senderId) clearTyping(String(senderId));
+        return;
+      }
+      if (event.event !== "typing" || !event.payload?.userId) return;
+
+      const userId = String(event.payload.userId);
+      if (!event.payload.isTyping) {
+        clearTyping(userId);
+        return;
+      }
+      const existing = timers.get(userId);
+      if (existing) clearTimeout(existing);
+      timers.set(userId, setTimeout(() => clearTyping(userId), TYPING_TIMEOUT_MS));
+      setTypingUserIds((prev) => (prev.includes(userId) ? prev : [...prev, userId]));
+    });
+
+    return () => {
+      unsubscribe();
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      setTypingUserIds([]);
+    };
+  }, [realtime, channel]);
+
+  const stopTyping = useCallback(() => {
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = null;
+    if (lastSentRef.current && realtime && channel) realtime.sendTyping(channel, false);
+    lastSentRef.current = 0;
+  }, [realtime, channel]);
+
+  const notifyTyping = useCallback((text: string) => {
+    if (!realtime || !channel) return;
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+
+    const now = Date.now();
+    if (now - lastSentRef.current > TYPING_REFRESH_MS) {
+      realtime.sendTyping(channel, true);
+      lastSentRef.current = now;
+    }
+    if (idleTimerRef.current) clearTimeout(idleTimerRef.current);
+    idleTimerRef.current = setTimeout(stopTyping, TYPING_REFRESH_MS + 1000);
+  }, [realtime, channel, stopTyping]);
+
+  useEffect(() => stopTyping, [stopTyping]);
+
+  return { typingUserIds, notifyTyping, stopTyping };
+}
@@ -3,6 +3,7 @@ import * as FileSystem from "expo-file-system/legacy";
 import { File, Paths } from "expo-file-system";
 import * as MediaLibrary from "expo-media-library";
 import * as Sharing from "expo-sharing";
+import { encode as encodeBase64 } from "base64-arraybuffer";
 import { getApiUrl } from "@/lib/query-client";
 
 const getFilenameFromUrl = (url: string, fallback = "download") => {
@@ -60,6 +61,8 @@ const mimeFromFilename = (name: string) => {
       return "text/plain";
     case "json":
       return "application/json";
+    case "zip":
+      return "application/zip";
     default:
       return "application/octet-stream";
   }
@@ -194,3 +197,20 @@ export const saveFileToDevice = async (uri: string, filename?: string) => {
 
   throw new Error("No save/share method available on this device");
 };
+
+// Saves a file fetched by the app itself (e.g. the account data export) rather than one behind a URL.
+export const saveBytesToDevice = async (data: ArrayBuffer, filename: string) => {
+  const mimeType = mimeFromFilename(filename);
+
+  if (Platform.OS === "web") {
+    const objectUrl = URL.createObjectURL(new Blob([data], { type: mimeType }));
+    const link = document.createElement("a");
+    link.href = objectUrl;
+    link.download = filename;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(objectUrl), 1000);
+    return;
+  }
+
+  await saveFileToDevice(`data:${mimeType};base64,${encodeBase64(data)}`, filename);
+};
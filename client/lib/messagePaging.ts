@@ -0,0 +1,87 @@
+export const MESSAGE_PAGE_SIZE = 50;
+
+export interface MessagePageCursor {
+  before?: string;
+  after?: string;
+  around?: string;
+}
+
+export interface MessagePage<T> {
+  messages: T[];
+  hasMoreBefore: boolean;
+  hasMoreAfter: boolean;
+}
+
+// What the client knows about the parts of a chat history it has not loaded yet.
+export interface MessageHistoryState {
+  hasMoreBefore: boolean;
+  // Loaded messages that are followed by server messages not in memory (e.g. after jumping to an old reply).
+  gapAfterIds: string[];
+}
+
+interface PagedMessage {
+  id: string;
+  createdAt: string;
+}
+
+export function setMessagePageParams(url: URL, cursor: MessagePageCursor = {}, limit = MESSAGE_PAGE_SIZE) {
+  url.searchParams.set("limit", String(limit));
+  if (cursor.before) url.searchParams.set("before", cursor.before);
+  if (cursor.after) url.searchParams.set("after", cursor.after);
+  if (cursor.around) url.searchParams.set("around", cursor.around);
+}
+
+function timeOf(message: PagedMessage): number {
+  return new Date(message.createdAt).getTime();
+}
+
+/**
+ * Merges a page into the loaded messages and works out what is still missing around it.
+ * With `replaceRange`, loaded messages inside the page's time span that the server no longer returns are dropped.
+ */
+export function spliceMessagePage<T extends PagedMessage>(
+  existing: T[],
+  history: MessageHistoryState | undefined,
+  page: MessagePage<T>,
+  cursor: MessagePageCursor = {},
+  options: { replaceRange?: boolean } = {}
+): { messages: T[]; history: MessageHistoryState } {
+  // Loading newer messages after a gap closes it; a new one is added below if the page still falls short.
+  const gapAfterIds = (history?.gapAfterIds || []).filter((id) => id !== cursor.after);
+  const oldest = page.messages[0];
+  const newest = page.messages[page.messages.length - 1];
+  if (!oldest || !newest) {
+    const isOldest = !!cursor.before && existing[0]?.id === cursor.before;
+    return {
+      messages: existing,
+      history: { hasMoreBefore: isOldest ? false : history?.hasMoreBefore ?? page.hasMoreBefore, gapAfterIds },
+    };
+  }
+
+  const known = new Set(existing.map((m) => m.id));
+  const pageIds = new Set(page.messages.map((m) => m.id));
+  const lowerBound = page.hasMoreBefore ? timeOf(oldest) : -Infinity;
+  const upperBound = page.hasMoreAfter ? timeOf(newest) : Infinity;
+
+  const kept = existing.filter((m) => {
+    if (pageIds.has(m.id)) return false;
+    if (!options.replaceRange) return true;
+    const time = timeOf(m);
+    return time < lowerBound || time > upperBound;
+  });
+
+  const joinsBelow = !page.hasMoreBefore || known.has(oldest.id) || (!!cursor.after && known.has(cursor.after));
+  const joinsAbove = !page.hasMoreAfter || known.has(newest.id) || (!!cursor.before && known.has(cursor.before));
+  const below = kept.filter((m) => timeOf(m) < timeOf(oldest));
+
+  if (!joinsBelow && below.length > 0) gapAfterIds.push(below[below.length - 1].id);
+  if (!joinsAbove && kept.some((m) => timeOf(m) > timeOf(newest))) gapAfterIds.push(newest.id);
+
+  return {
+    messages: [...kept, ...page.messages].sort((a, b) => timeOf(a) - timeOf(b)),
+    history: {
+      hasMoreBefore: page.hasMoreBefore && below.length > 0 ? history?.hasMoreBefore ?? true : page.hasMoreBefore,
+      gapAfterIds: Array.from(new Set(gapAfterIds)),
+    },
+  };
+}
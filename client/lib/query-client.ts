@@ -29,13 +29,17 @@ export async function apiRequest(
   method: string,
   route: string,
   data?: unknown | undefined,
+  sessionToken?: string,
 ): Promise<Response> {
   const baseUrl = getApiUrl();
   const url = new URL(route, baseUrl);
 
+  const headers: Record<string, string> = data ? { "Content-Type": "application/json" } : {};
+  if (sessionToken) headers.Authorization = `Bearer ${sessionToken}`;
+
   const res = await fetch(url, {
     method,
-    headers: data ? { "Content-Type": "application/json" } : {},
+    headers,
     body: data ? JSON.stringify(data) : undefined,
     credentials: "include",
   });
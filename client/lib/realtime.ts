@@ -0,0 +1,178 @@
+import { getApiUrl } from "./query-client";
+
+export interface RealtimeEvent {
+  channel: string;
+  event: string;
+  payload: any;
+  cursor?: string;
+  at: string;
+}
+
+// Delivered to a channel's listeners when the server could not replay what was missed.
+export const RESYNC_EVENT = "resync";
+
+type EventListener = (event: RealtimeEvent) => void;
+type StatusListener = (connected: boolean) => void;
+
+export type PresenceStatus = "online" | "away" | "offline";
+
+export interface RealtimeConnection {
+  subscribe: (channel: string, listener: EventListener) => () => void;
+  onStatusChange: (listener: StatusListener) => () => void;
+  sendTyping: (channel: string, isTyping: boolean) => void;
+  setPresence: (status: Exclude<PresenceStatus, "offline">) => void;
+  isConnected: () => boolean;
+  close: () => void;
+}
+
+const MAX_RECONNECT_DELAY_MS = 30_000;
+
+function getRealtimeUrl(token: string): string {
+  const url = new URL("/api/realtime", getApiUrl());
+  url.protocol = url.protocol === "https:" ? "wss:" : "ws:";
+  url.searchParams.set("token", token);
+  return url.toString();
+}
+
+// The token is read on every (re)connect, since access tokens are replaced by a refresh every few minutes.
+export function createRealtimeConnection(getSessionToken: () => string): RealtimeConnection {
+  const listeners = new Map<string, Set<EventListener>>();
+  const cursors = new Map<string, string>();
+  const statusListeners = new Set<StatusListener>();
+  let socket: WebSocket | null = null;
+  let connected = false;
+  let closed = false;
+  let presence: Exclude<PresenceStatus, "offline"> = "online";
+  let attempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const setConnected = (next: boolean) => {
+    if (connected === next) return;
+    connected = next;
+    statusListeners.forEach((listener) => listener(next));
+  };
+
+  const sendFrame = (frame: Record<string, unknown>) => {
+    if (socket && socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify(frame));
+    }
+  };
+
+  const sendSubscribe = (channel: string) => {
+    sendFrame({ type: "subscribe", channel, cursor: cursors.get(channel) });
+  };
+
+  const emit = (channel: string, event: RealtimeEvent) => {
+    listeners.get(channel)?.forEach((listener) => listener(event));
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || reconnectTimer) return;
+    const delay = Math.min(MAX_RECONNECT_DELAY_MS, 1000 * 2 ** attempts);
+    attempts += 1;
+    reconnectTimer = setTimeout(() => {
+      reconnectTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (closed) return;
+
+    try {
+      socket = new WebSocket(getRealtimeUrl(getSessionToken()));
+    } catch (error) {
+      console.error("Realtime connect failed:", error);
+      scheduleReconnect();
+      return;
+    }
+
+    socket.onopen = () => {
+      attempts = 0;
+      setConnected(true);
+      if (presence !== "online") sendFrame({ type: "presence", status: presence });
+      for (const channel of listeners.keys()) {
+        sendSubscribe(channel);
+      }
+    };
+
+    socket.onmessage = (message) => {
+      let frame: any;
+      try {
+        frame = JSON.parse(String(message.data));
+      } catch {
+        return;
+      }
+      if (typeof frame?.channel !== "string") return;
+
+      if (frame.type === "subscribed") {
+        const hadCursor = cursors.has(frame.channel);
+        if (!hadCursor || frame.resync) cursors.set(frame.channel, frame.cursor);
+        if (frame.resync) {
+          emit(frame.channel, { channel: frame.channel, event: RESYNC_EVENT, payload: null, at: new Date().toISOString() });
+        }
+        return;
+      }
+
+      if (frame.type !== "event") return;
+      if (frame.cursor) cursors.set(frame.channel, frame.cursor);
+      emit(frame.channel, frame as RealtimeEvent);
+    };
+
+    socket.onclose = () => {
+      socket = null;
+      setConnected(false);
+      scheduleReconnect();
+    };
+
+    socket.onerror = () => {
+      socket?.close();
+    };
+  };
+
+  connect();
+
+  return {
+    subscribe: (channel, listener) => {
+      const set = listeners.get(channel) || new Set<EventListener>();
+      const isNewChannel = set.size === 0;
+      set.add(listener);
+      listeners.set(channel, set);
+      if (isNewChannel) sendSubscribe(channel);
+
+      return () => {
+        const current = listeners.get(channel);
+        if (!current) return;
+        current.delete(listener);
+        if (current.size === 0) {
+          listeners.delete(channel);
+          cursors.delete(channel);
+          sendFrame({ type: "unsubscribe", channel });
+        }
+      };
+    },
+    onStatusChange: (listener) => {
+      statusListeners.add(listener);
+      return () => {
+        statusListeners.delete(listener);
+      };
+    },
+    sendTyping: (channel, isTyping) => {
+      if (listeners.has(channel)) sendFrame({ type: "typing", channel, isTyping });
+    },
+    setPresence: (status) => {
+      if (presence === status) return;
+      presence = status;
+      sendFrame({ type: "presence", status });
+    },
+    isConnected: () => connected,
+    close: () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      reconnectTimer = null;
+      socket?.close();
+      socket = null;
+      setConnected(false);
+    },
+  };
+}
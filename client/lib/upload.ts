@@ -34,7 +34,14 @@ function inferMimeType(fileName: string, fallback: string): string {
   return map[extension] || fallback;
 }
 
-async function uploadToApi(uri: string, category: "photo" | "file" | "audio", fallbackName: string, fallbackType: string): Promise<UploadResult> {
+// With a session token the server records the caller as the owner, so the file is cleaned up with their messages.
+async function uploadToApi(
+  uri: string,
+  category: "photo" | "file" | "audio",
+  fallbackName: string,
+  fallbackType: string,
+  sessionToken?: string
+): Promise<UploadResult> {
   const fileInfo = await FileSystem.getInfoAsync(uri);
   if (!fileInfo.exists) {
     throw new Error("File does not exist");
@@ -54,11 +61,12 @@ async function uploadToApi(uri: string, category: "photo" | "file" | "audio", fa
   const baseUrl = getApiUrl();
   const uploadUrl = new URL("api/uploads", baseUrl).toString();
 
+  const headers: Record<string, string> = { Accept: "application/json" };
+  if (sessionToken) headers.Authorization = `Bearer ${sessionToken}`;
+
   const response = await fetch(uploadUrl, {
     method: "POST",
-    headers: {
-      Accept: "application/json",
-    },
+    headers,
     body,
   });
 
@@ -84,16 +92,16 @@ async function uploadToApi(uri: string, category: "photo" | "file" | "audio", fa
   };
 }
 
-export function uploadPhoto(uri: string): Promise<UploadResult> {
-  return uploadToApi(uri, "photo", `photo_${Date.now()}.jpg`, "image/jpeg");
+export function uploadPhoto(uri: string, sessionToken?: string): Promise<UploadResult> {
+  return uploadToApi(uri, "photo", `photo_${Date.now()}.jpg`, "image/jpeg", sessionToken);
 }
 
-export function uploadFile(uri: string, fileName?: string): Promise<UploadResult> {
+export function uploadFile(uri: string, fileName?: string, sessionToken?: string): Promise<UploadResult> {
   const fallback = fileName || `file_${Date.now()}`;
-  return uploadToApi(uri, "file", fallback, "application/octet-stream");
+  return uploadToApi(uri, "file", fallback, "application/octet-stream", sessionToken);
 }
 
-export function uploadAudio(uri: string, fileName?: string): Promise<UploadResult> {
+export function uploadAudio(uri: string, fileName?: string, sessionToken?: string): Promise<UploadResult> {
   const fallback = fileName || `audio_${Date.now()}.m4a`;
-  return uploadToApi(uri, "audio", fallback, "audio/m4a");
+  return uploadToApi(uri, "audio", fallback, "audio/m4a", sessionToken);
 }
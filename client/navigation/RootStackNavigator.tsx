@@ -5,6 +5,7 @@ import MainTabNavigator from "@/navigation/MainTabNavigator";
 import AuthScreen from "@/screens/AuthScreen";
 import ChatScreen from "@/screens/ChatScreen";
 import ActivityChatScreen from "@/screens/ActivityChatScreen";
+import ForumPostScreen from "@/screens/ForumPostScreen";
 import SubscriptionScreen from "@/screens/SubscriptionScreen";
 import CustomerCenterScreen from "@/screens/CustomerCenterScreen";
 import SplashScreen from "@/screens/SplashScreen";
@@ -33,8 +34,9 @@ export type RootStackParamList = {
   Splash: undefined;
   Auth: undefined;
   Main: undefined;
-  Chat: { matchId: string; matchName: string; matchPhoto?: string };
-  ActivityChat: { activityId: string; activityTitle: string };
+  Chat: { matchId: string; matchName: string; matchPhoto?: string; focusMessageId?: string };
+  ActivityChat: { activityId: string; activityTitle: string; focusMessageId?: string; focusThreadId?: string };
+  ForumPost: { postId: string; postTitle: string };
   ExpertMarketplace: undefined;
   ApplyAsExpert: undefined;
   ExpertStatus: undefined;
@@ -46,7 +48,7 @@ const Stack = createNativeStackNavigator<RootStackParamList>();
 
 export default function RootStackNavigator() {
   const screenOptions = useScreenOptions();
-  const { isAuthenticated, isLoading, user, updateProfile } = useAuth();
+  const { isAuthenticated, isLoading, user, session, updateProfile } = useAuth();
   const { theme } = useTheme();
   const [currentRoute, setCurrentRoute] = useState<string>("Main");
   const [showSplash, setShowSplash] = useState(true);
@@ -60,7 +62,9 @@ export default function RootStackNavigator() {
 
       const controller = new AbortController();
       const timeout = setTimeout(() => controller.abort(), 5000);
-      const response = await fetch(url.toString(), { signal: controller.signal });
+      const headers: Record<string, string> = {};
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
+      const response = await fetch(url.toString(), { headers, signal: controller.signal });
       clearTimeout(timeout);
 
       if (!response.ok) return;
@@ -69,7 +73,7 @@ export default function RootStackNavigator() {
     } catch {
       setIsVerified((prev) => prev);
     }
-  }, [user?.id]);
+  }, [user?.id, session?.sessionToken]);
 
   useEffect(() => {
     if (isAuthenticated && user?.id) {
@@ -157,6 +161,14 @@ export default function RootStackNavigator() {
                 headerShadowVisible: false,
               })}
             />
+            <Stack.Screen
+              name="ForumPost"
+              component={ForumPostScreen}
+              options={({ route }) => ({
+                headerTitle: route.params.postTitle,
+                headerBackTitle: "Back",
+              })}
+            />
             <Stack.Screen
               name="Subscription"
               component={SubscriptionScreen}
@@ -172,7 +172,7 @@ const generateSessionTitle = (messages: Message[]): string => {
 
 export default function AIChatScreen() {
   const { theme, isDark } = useTheme();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { showAlert } = useAlert();
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
@@ -202,6 +202,12 @@ export default function AIChatScreen() {
   const [currentSessionId, setCurrentSessionId] = useState<string | null>(null);
   const [showChatList, setShowChatList] = useState(false);
 
+  const sessionHeaders = (json = false): Record<string, string> => {
+    const headers: Record<string, string> = json ? { "Content-Type": "application/json" } : {};
+    if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
+    return headers;
+  };
+
   useEffect(() => {
     loadAllSessions();
   }, [user?.id]);
@@ -227,7 +233,8 @@ export default function AIChatScreen() {
     
     try {
       const response = await fetch(
-        new URL(`/api/ai/sessions/${user.id}`, getApiUrl()).toString()
+        new URL(`/api/ai/sessions/${user.id}`, getApiUrl()).toString(),
+        { headers: sessionHeaders() }
       );
       
       if (!response.ok) {
@@ -275,7 +282,7 @@ export default function AIChatScreen() {
         new URL(`/api/ai/sessions/${currentSessionId}`, getApiUrl()).toString(),
         {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
+          headers: sessionHeaders(true),
           body: JSON.stringify({ title, messages }),
         }
       );
@@ -303,7 +310,7 @@ export default function AIChatScreen() {
         new URL(`/api/ai/sessions/${currentSessionId}`, getApiUrl()).toString(),
         {
           method: "PUT",
-          headers: { "Content-Type": "application/json" },
+          headers: sessionHeaders(true),
           body: JSON.stringify({ title, messages }),
         }
       ).catch(console.error);
@@ -323,7 +330,7 @@ export default function AIChatScreen() {
         new URL("/api/ai/sessions", getApiUrl()).toString(),
         {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
+          headers: sessionHeaders(true),
           body: JSON.stringify({
             id: newSessionId,
             userId: user.id,
@@ -347,7 +354,7 @@ export default function AIChatScreen() {
     } catch (error) {
       console.error("Failed to create new chat:", error);
     }
-  }, [sessions, user?.id, currentSessionId, messages]);
+  }, [sessions, user?.id, currentSessionId, messages, session?.sessionToken]);
 
   const switchToSession = useCallback(async (sessionId: string) => {
     const session = sessions.find(s => s.id === sessionId);
@@ -368,7 +375,7 @@ export default function AIChatScreen() {
           new URL(`/api/ai/sessions/${currentSessionId}`, getApiUrl()).toString(),
           {
             method: "PUT",
-            headers: { "Content-Type": "application/json" },
+            headers: sessionHeaders(true),
             body: JSON.stringify({ title, messages }),
           }
         ).catch(console.error);
@@ -387,7 +394,7 @@ export default function AIChatScreen() {
         console.error("Failed to switch session:", error);
       }
     }
-  }, [sessions, currentSessionId, messages]);
+  }, [sessions, currentSessionId, messages, session?.sessionToken]);
 
   const deleteSession = useCallback(async (sessionId: string) => {
     showAlert({
@@ -403,7 +410,7 @@ export default function AIChatScreen() {
             try {
               await fetch(
                 new URL(`/api/ai/sessions/${sessionId}`, getApiUrl()).toString(),
-                { method: "DELETE" }
+                { method: "DELETE", headers: sessionHeaders() }
               );
               
               const updatedSessions = sessions.filter(s => s.id !== sessionId);
@@ -429,7 +436,7 @@ export default function AIChatScreen() {
         },
       ],
     });
-  }, [sessions, currentSessionId]);
+  }, [sessions, currentSessionId, session?.sessionToken]);
 
   const clearAllChats = useCallback(async () => {
     if (!user?.id) return;
@@ -448,7 +455,7 @@ export default function AIChatScreen() {
               for (const session of sessions) {
                 await fetch(
                   new URL(`/api/ai/sessions/${session.id}`, getApiUrl()).toString(),
-                  { method: "DELETE" }
+                  { method: "DELETE", headers: sessionHeaders() }
                 );
               }
               setSessions([]);
@@ -465,7 +472,7 @@ export default function AIChatScreen() {
         },
       ],
     });
-  }, [sessions]);
+  }, [sessions, session?.sessionToken]);
 
     const sendMessage = useCallback(async (text: string) => {
     if (!text.trim() || isLoading || !user?.id) return;
@@ -487,7 +494,7 @@ export default function AIChatScreen() {
           new URL("/api/ai/sessions", getApiUrl()).toString(),
           {
             method: "POST",
-            headers: { "Content-Type": "application/json" },
+            headers: sessionHeaders(true),
             body: JSON.stringify({
               id: newSessionId,
               userId: user.id,
@@ -540,13 +547,26 @@ export default function AIChatScreen() {
         content: m.content,
       }));
 
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
       const response = await fetch(new URL("/api/ai/chat", getApiUrl()).toString(), {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ messages: apiMessages }),
+        headers,
+        body: JSON.stringify({ userId: user?.id, messages: apiMessages }),
       });
 
       const responseText = await response.text();
+      if (response.status === 403) {
+        const limitMessage: Message = {
+          id: (Date.now() + 1).toString(),
+          role: "assistant",
+          content: "You've used all your AI Advisor messages for today. Upgrade your plan or come back tomorrow for more.",
+          type: "text",
+          timestamp: new Date(),
+        };
+        setMessages((prev) => [...prev, limitMessage]);
+        return;
+      }
       if (!response.ok) {
         throw new Error(`AI ${response.status}: ${responseText || response.statusText}`);
       }
@@ -581,7 +601,7 @@ export default function AIChatScreen() {
       setIsLoading(false);
       setUploadLabel(null);
     }
-  }, [messages, isLoading, replyTo]);
+  }, [messages, isLoading, replyTo, user?.id, session?.sessionToken]);
 
   const handleTakePhoto = useCallback(async () => {
     const { status } = await ImagePicker.requestCameraPermissionsAsync();
@@ -600,7 +620,7 @@ export default function AIChatScreen() {
       try {
         setIsLoading(true);
         setUploadLabel("Uploading photo...");
-        const uploadResult = await uploadPhoto(result.assets[0].uri);
+        const uploadResult = await uploadPhoto(result.assets[0].uri, session?.sessionToken);
         const replyPayload = replyTo
           ? {
               id: replyTo.id,
@@ -649,7 +669,7 @@ export default function AIChatScreen() {
       try {
         setIsLoading(true);
         setUploadLabel("Uploading photo...");
-        const uploadResult = await uploadPhoto(result.assets[0].uri);
+        const uploadResult = await uploadPhoto(result.assets[0].uri, session?.sessionToken);
         const replyPayload = replyTo
           ? {
               id: replyTo.id,
@@ -722,7 +742,7 @@ export default function AIChatScreen() {
         try {
           setIsLoading(true);
           setUploadLabel("Uploading file...");
-          const uploadResult = await uploadFile(file.uri, file.name);
+          const uploadResult = await uploadFile(file.uri, file.name, session?.sessionToken);
           const replyPayload = replyTo
             ? {
                 id: replyTo.id,
@@ -856,7 +876,7 @@ export default function AIChatScreen() {
       if (!uri) return;
       setIsLoading(true);
       setUploadLabel("Uploading audio...");
-      const uploadResult = await uploadAudio(uri, `voice_${Date.now()}.m4a`);
+      const uploadResult = await uploadAudio(uri, `voice_${Date.now()}.m4a`, session?.sessionToken);
       const replyPayload = replyTo
         ? {
             id: replyTo.id,
@@ -18,6 +18,7 @@ import { ThemedView } from "@/components/ThemedView";
 import { useTheme } from "@/hooks/useTheme";
 import { AppColors, Spacing } from "@/constants/theme";
 import { getApiUrl } from "@/lib/query-client";
+import { useAuth } from "@/context/AuthContext";
 
 const VAN_TYPES = [
   "Sprinter",
@@ -47,6 +48,7 @@ const FEATURES = [
 
 export default function AICostEstimatorScreen() {
   const { theme } = useTheme();
+  const { user, session } = useAuth();
   const headerHeight = useHeaderHeight();
   const insets = useSafeAreaInsets();
 
@@ -89,11 +91,18 @@ Additional Notes: ${additionalNotes || "None"}
         new URL("/api/ai/estimate-cost", getApiUrl()).toString(),
         {
           method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({ vanDetails }),
+          headers: {
+            "Content-Type": "application/json",
+            ...(session?.sessionToken ? { Authorization: `Bearer ${session.sessionToken}` } : {}),
+          },
+          body: JSON.stringify({ userId: user?.id, vanDetails }),
         }
       );
 
+      if (response.status === 403) {
+        setEstimate("You've used all your cost estimates for this month. Upgrade your plan for more estimates.");
+        return;
+      }
       if (!response.ok) throw new Error("Estimation failed");
 
       const data = await response.json();
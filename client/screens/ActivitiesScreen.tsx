@@ -68,8 +68,8 @@ export default function ActivitiesScreen() {
   const tabBarHeight = useBottomTabBarHeight();
   const navigation = useNavigation<NavigationProp>();
   const { theme, isDark } = useTheme();
-  const { activities, isLoading, refreshData, createActivity, joinActivity, deleteActivity } = useData();
-  const { user, isAuthenticated } = useAuth();
+  const { activities, isLoading, refreshData, createActivity, joinActivity, deleteActivity, threadNotifications } = useData();
+  const { user, session, isAuthenticated } = useAuth();
   const { showAlert } = useAlert();
 
   const [showCreateModal, setShowCreateModal] = useState(false);
@@ -161,7 +161,7 @@ export default function ActivitiesScreen() {
       const localUri = result.assets[0].uri;
       setIsUploadingImage(true);
       try {
-        const uploadResult = await uploadPhoto(localUri);
+        const uploadResult = await uploadPhoto(localUri, session?.sessionToken);
         setNewActivity({ ...newActivity, imageUrl: uploadResult.url });
       } catch (error) {
         console.error("Activity image upload failed:", error);
@@ -251,9 +251,11 @@ export default function ActivitiesScreen() {
   const handleSafetyRatingSubmit = async (rating: Omit<SafetyRating, "id" | "createdAt" | "ratedByUserId">) => {
     try {
       const baseUrl = process.env.EXPO_PUBLIC_API_URL || (process.env.EXPO_PUBLIC_DOMAIN ? `https://${process.env.EXPO_PUBLIC_DOMAIN}` : "");
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
       const response = await fetch(`${baseUrl}/api/safety-ratings`, {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers,
         body: JSON.stringify({
           ...rating,
           ratedByUserId: user?.id,
@@ -391,6 +393,10 @@ export default function ActivitiesScreen() {
     ? selectedActivity.hostId === user.id
     : false;
 
+  const selectedThreadReplies = selectedActivity
+    ? threadNotifications.filter((n) => n.activityId === selectedActivity.id).length
+    : 0;
+
   const canJoin = isAuthenticated && !isUserHost && !isUserAttending && selectedActivity && 
     (!selectedActivity.maxAttendees || selectedActivity.attendees.length < selectedActivity.maxAttendees);
 
@@ -1030,6 +1036,11 @@ export default function ActivitiesScreen() {
                     <ThemedText type="body" style={[styles.actionButtonText, { color: theme.primary }]}>
                       Group Chat
                     </ThemedText>
+                    {selectedThreadReplies > 0 ? (
+                      <View style={[styles.chatBadge, { backgroundColor: theme.primary }]}>
+                        <ThemedText style={styles.chatBadgeText}>{selectedThreadReplies}</ThemedText>
+                      </View>
+                    ) : null}
                   </Pressable>
                   <Pressable
                     style={[styles.actionButton, { backgroundColor: theme.cardBackground, borderColor: AppColors.success }]}
@@ -1525,6 +1536,20 @@ const styles = StyleSheet.create({
     marginLeft: Spacing.sm,
     fontWeight: "600",
   },
+  chatBadge: {
+    marginLeft: Spacing.sm,
+    minWidth: 18,
+    height: 18,
+    borderRadius: 9,
+    paddingHorizontal: 4,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  chatBadgeText: {
+    fontSize: 11,
+    fontWeight: "700",
+    color: "#FFFFFF",
+  },
   locationPickerButton: {
     flexDirection: "row",
     alignItems: "center",
@@ -11,10 +11,10 @@ StyleSheet,
   Linking,
   Animated as RNAnimated,
   Easing,
+  ActivityIndicator,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
-import { useHeaderHeight } from "@react-navigation/elements";
-import { HeaderButton } from "@react-navigation/elements";
+import { useHeaderHeight, HeaderButton } from "@react-navigation/elements";
 import { KeyboardAvoidingView } from "react-native-keyboard-controller";
 import { Image } from "expo-image";
 import { Icon } from "@/components/Icon";
@@ -28,22 +28,29 @@ import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 
 import { ChatBackground } from "@/components/ChatBackground";
 import { ThemedText } from "@/components/ThemedText";
+import { MessageSearchModal } from "@/components/MessageSearchModal";
+import { CreatePollModal, NewPoll } from "@/components/CreatePollModal";
+import { ActivityPollCard } from "@/components/ActivityPollCard";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/context/AuthContext";
 import { useAlert } from "@/context/AlertContext";
 import { useData } from "@/context/DataContext";
+import { usePresence, formatPresence } from "@/hooks/usePresence";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { MessageHistoryState, MessagePage, MessagePageCursor, setMessagePageParams, spliceMessagePage } from "@/lib/messagePaging";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
-import { ActivityChatMessage, LocationData, User, ActivityLocation } from "@/types";
+import { ActivityChatMessage, ActivityPoll, LocationData, User, ActivityLocation } from "@/types";
 import { getApiUrl } from "@/lib/query-client";
+import { RealtimeEvent, RESYNC_EVENT } from "@/lib/realtime";
 import { ChatAttachmentModal } from "@/components/ChatAttachmentModal";
 import { PhotoPickerModal } from "@/components/PhotoPickerModal";
 import LocationPickerModal from "@/components/LocationPickerModal";
+import { VerifyEmailBanner } from "@/components/VerifyEmailBanner";
 import { uploadPhoto, uploadFile, uploadAudio } from "@/lib/upload";
 import { saveImageToGallery, saveFileToDevice } from "@/lib/media";
-import { createAudioPlayer, RecordingPresets, requestRecordingPermissionsAsync, setAudioModeAsync } from "expo-audio";
+import { createAudioPlayer, RecordingPresets, requestRecordingPermissionsAsync, setAudioModeAsync, type AudioRecorder } from "expo-audio";
 import AudioModule from "expo-audio/build/AudioModule";
-import type { AudioRecorder } from "expo-audio";
 
 type ActivityChatRouteProp = RouteProp<RootStackParamList, "ActivityChat">;
 
@@ -51,6 +58,7 @@ type ActivityChatNavigationProp = NativeStackNavigationProp<RootStackParamList,
 
 const WAVE_BARS = [2, 4, 6, 4, 7, 5, 3, 6];
 const MESSAGE_POLL_INTERVAL_MS = 8000;
+const THREAD_BANNER_HEIGHT = 56;
 
 const AudioWave = ({
   active,
@@ -122,6 +130,49 @@ interface Moderator {
   isHost: boolean;
 }
 
+type ThreadPage = MessagePage<ActivityChatMessage> & { root: ActivityChatMessage };
+
+// Thread replies and their root travel with a threadRootId; other events only carry the message id.
+const THREAD_SCOPED_EVENTS = new Set(["message.created", "message.deleted"]);
+
+// Broadcast poll updates carry no per-user choices, so the viewer's own come from voter lists or stay as they were.
+function mergePollUpdate(existing: ActivityPoll | undefined, incoming: ActivityPoll, viewerId?: string): ActivityPoll {
+  const myOptionIds = incoming.isAnonymous
+    ? existing?.myOptionIds || []
+    : incoming.options.filter((o) => !!viewerId && (o.voterIds || []).includes(viewerId)).map((o) => o.id);
+  return { ...incoming, myOptionIds };
+}
+
+function applyMessageEvent(list: ActivityChatMessage[], eventName: string, payload: any, viewerId?: string): ActivityChatMessage[] {
+  switch (eventName) {
+    case "message.created":
+      return list.some((m) => m.id === payload.id) ? list : [...list, payload as ActivityChatMessage];
+    case "message.updated":
+      return list.map((m) => (m.id === payload.id ? { ...m, content: payload.content, isEdited: true } : m));
+    case "message.pinned":
+      return list.map((m) => (m.id === payload.id ? { ...m, isPinned: !!payload.isPinned } : m));
+    case "message.reactions":
+      return list.map((m) => (m.id === payload.id ? { ...m, reactions: payload.reactions || {} } : m));
+    case "poll.updated":
+      return list.map((m) => (m.id === payload.id && payload.poll ? { ...m, poll: mergePollUpdate(m.poll, payload.poll, viewerId) } : m));
+    case "message.deleted":
+      return list.filter((m) => m.id !== payload.id);
+    default:
+      return list;
+  }
+}
+
+function formatThreadSummary(replyCount: number, lastReplyAt?: string): string {
+  const label = replyCount === 1 ? "1 reply" : `${replyCount} replies`;
+  if (!lastReplyAt) return label;
+  const diffMins = Math.floor((Date.now() - new Date(lastReplyAt).getTime()) / 60000);
+  if (diffMins < 1) return `${label} · just now`;
+  if (diffMins < 60) return `${label} · ${diffMins}m ago`;
+  const diffHours = Math.floor(diffMins / 60);
+  if (diffHours < 24) return `${label} · ${diffHours}h ago`;
+  return `${label} · ${new Date(lastReplyAt).toLocaleDateString([], { month: "short", day: "numeric" })}`;
+}
+
 const formatDuration = (seconds?: number) => {
   if (!seconds && seconds !== 0) return "";
   const m = Math.floor(seconds / 60);
@@ -132,13 +183,13 @@ const formatDuration = (seconds?: number) => {
 export default function ActivityChatScreen() {
   const route = useRoute<ActivityChatRouteProp>();
   const navigation = useNavigation<ActivityChatNavigationProp>();
-  const { activityId, activityTitle } = route.params;
+  const { activityId, activityTitle, focusMessageId, focusThreadId } = route.params;
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const { theme, isDark } = useTheme();
   const { user, session } = useAuth();
   const { showAlert } = useAlert();
-  const { activities } = useData();
+  const { activities, realtime, threadNotifications, clearThreadNotifications } = useData();
   const flatListRef = useRef<FlatList>(null);
 
   const [message, setMessage] = useState("");
@@ -155,6 +206,7 @@ export default function ActivityChatScreen() {
   const [showAttachmentModal, setShowAttachmentModal] = useState(false);
   const [showPhotoModal, setShowPhotoModal] = useState(false);
   const [showLocationModal, setShowLocationModal] = useState(false);
+  const [showPollModal, setShowPollModal] = useState(false);
   const [previewImageUri, setPreviewImageUri] = useState<string | null>(null);
   const [previewFile, setPreviewFile] = useState<{ uri: string; name?: string } | null>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
@@ -162,6 +214,24 @@ export default function ActivityChatScreen() {
   const [isRecording, setIsRecording] = useState(false);
   const recordingRef = useRef<AudioRecorder | null>(null);
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
+  const [isLive, setIsLive] = useState(false);
+  const [showSearch, setShowSearch] = useState(false);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [history, setHistory] = useState<MessageHistoryState | undefined>(undefined);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [loadingGapId, setLoadingGapId] = useState<string | null>(null);
+  const focusedMessageRef = useRef<string | null>(null);
+  const messagesRef = useRef(messages);
+  messagesRef.current = messages;
+  const [threadRoot, setThreadRoot] = useState<ActivityChatMessage | null>(null);
+  const [threadReplies, setThreadReplies] = useState<ActivityChatMessage[]>([]);
+  const [threadHasMoreBefore, setThreadHasMoreBefore] = useState(false);
+  const [showThreadsModal, setShowThreadsModal] = useState(false);
+  const [threads, setThreads] = useState<ActivityChatMessage[]>([]);
+  const threadRootIdRef = useRef<string | null>(null);
+  const threadRequestRef = useRef(0);
+  threadRootIdRef.current = threadRoot?.id || null;
   const QUICK_REACTIONS = ["\u{1F44D}", "\u2764\uFE0F", "\u{1F602}", "\u{1F62E}", "\u{1F622}", "\u{1F44F}"];
   const EXTRA_REACTIONS = [
     "\u{1F525}", "\u{1F389}", "\u{1F64C}", "\u{1F91D}", "\u{1F92F}", "\u{1F60D}",
@@ -181,42 +251,228 @@ export default function ActivityChatScreen() {
   }, [session?.sessionToken]);
 
   const activity = activities.find(a => a.id === activityId);
+  const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator(`activity:${activityId}`);
+  const presence = usePresence(activity ? [activity.hostId, ...activity.attendeeIds] : []);
   const isModerator = moderators.some(m => m.userId === user?.id);
   const isHost = activity?.hostId === user?.id;
 
+  const resolveMemberName = useCallback((memberId: string) => {
+    if (memberId === user?.id) return "You";
+    return [activity?.host, ...(activity?.attendees || [])].find((member) => member?.id === memberId)?.name;
+  }, [activity, user?.id]);
+
   const activeMessages = useMemo(
     () => messages.filter((m) => !m.deletedAt),
     [messages]
   );
+  // An open thread takes over the list: its root first, then the replies.
+  const visibleMessages = useMemo(
+    () => (threadRoot ? [threadRoot, ...threadReplies.filter((m) => !m.deletedAt)] : activeMessages),
+    [threadRoot, threadReplies, activeMessages]
+  );
   const reversedMessages = useMemo(
-    () => [...activeMessages].reverse(),
-    [activeMessages]
+    () => [...visibleMessages].reverse(),
+    [visibleMessages]
   );
   const pinnedMessages = activeMessages.filter((m) => m.isPinned);
 
+  const scrollToMessage = useCallback((messageId: string) => {
+    const index = reversedMessages.findIndex((m) => m.id === messageId);
+    if (index < 0) return false;
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    setHighlightedMessageId(messageId);
+    return true;
+  }, [reversedMessages]);
+
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  const fetchMessagePage = useCallback(async (cursor: MessagePageCursor = {}): Promise<MessagePage<ActivityChatMessage> | null> => {
+    const messagesUrl = new URL(`/api/activities/${activityId}/messages`, getApiUrl());
+    if (user?.id) messagesUrl.searchParams.set("userId", user.id);
+    setMessagePageParams(messagesUrl, cursor);
+    const response = await fetch(messagesUrl.toString(), { headers: authHeaders() });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return Array.isArray(data?.messages) ? data : null;
+  }, [activityId, user?.id, authHeaders]);
+
+  // The latest page replaces what it covers so polling still drops deleted messages; older pages and jump windows only add.
+  const applyMessagePage = useCallback((page: MessagePage<ActivityChatMessage>, cursor: MessagePageCursor = {}, replaceRange = false) => {
+    setMessages((prev) => {
+      const next = spliceMessagePage(prev, undefined, page, cursor, { replaceRange }).messages;
+      return JSON.stringify(next) === JSON.stringify(prev) ? prev : next;
+    });
+    setHistory((prev) => spliceMessagePage(messagesRef.current, prev, page, cursor, { replaceRange }).history);
+  }, []);
+
   const fetchMessages = useCallback(async () => {
     try {
-      const apiUrl = getApiUrl();
-      const messagesUrl = new URL(`/api/activities/${activityId}/messages`, apiUrl);
-      if (user?.id) messagesUrl.searchParams.set("userId", user.id);
-      const response = await fetch(messagesUrl.toString(), { headers: authHeaders() });
+      const page = await fetchMessagePage();
+      if (page) applyMessagePage(page, {}, true);
+    } catch (error) {
+      console.error("Failed to fetch messages:", error);
+    }
+  }, [fetchMessagePage, applyMessagePage]);
+
+  // Messages outside the loaded pages are fetched first; the scroll happens once they render.
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    if (scrollToMessage(messageId)) return;
+    setPendingJumpId(messageId);
+    try {
+      const page = await fetchMessagePage({ around: messageId });
+      if (page) applyMessagePage(page, { around: messageId });
+      if (page?.messages.some((m) => m.id === messageId)) return;
+    } catch (error) {
+      console.error("Failed to load message history:", error);
+    }
+    setPendingJumpId(null);
+    showAlert({ type: "info", title: "Message Unavailable", message: "This message was deleted or can no longer be loaded." });
+  }, [scrollToMessage, fetchMessagePage, applyMessagePage, showAlert]);
+
+  useEffect(() => {
+    if (focusThreadId || !focusMessageId || focusedMessageRef.current === focusMessageId) return;
+    focusedMessageRef.current = focusMessageId;
+    jumpToMessage(focusMessageId);
+  }, [focusThreadId, focusMessageId, jumpToMessage]);
+
+  useEffect(() => {
+    if (pendingJumpId && scrollToMessage(pendingJumpId)) setPendingJumpId(null);
+  }, [pendingJumpId, scrollToMessage]);
+
+  const handleLoadOlder = useCallback(async () => {
+    const oldest = messagesRef.current[0];
+    if (isLoadingOlder || !oldest || !history?.hasMoreBefore) return;
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchMessagePage({ before: oldest.id });
+      if (page) applyMessagePage(page, { before: oldest.id });
+      else setHistory((prev) => prev && { ...prev, hasMoreBefore: false });
+    } catch (error) {
+      console.error("Failed to load older messages:", error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [isLoadingOlder, history?.hasMoreBefore, fetchMessagePage, applyMessagePage]);
+
+  const handleLoadGap = useCallback(async (afterMessageId: string) => {
+    setLoadingGapId(afterMessageId);
+    try {
+      const page = await fetchMessagePage({ after: afterMessageId });
+      if (page) applyMessagePage(page, { after: afterMessageId });
+    } catch (error) {
+      console.error("Failed to load newer messages:", error);
+    } finally {
+      setLoadingGapId(null);
+    }
+  }, [fetchMessagePage, applyMessagePage]);
+
+  const fetchThreadPage = useCallback(async (rootId: string, cursor: MessagePageCursor = {}): Promise<ThreadPage | null> => {
+    const threadUrl = new URL(`/api/activities/${activityId}/threads/${rootId}`, getApiUrl());
+    if (user?.id) threadUrl.searchParams.set("userId", user.id);
+    setMessagePageParams(threadUrl, cursor);
+    const response = await fetch(threadUrl.toString(), { headers: authHeaders() });
+    if (!response.ok) return null;
+    const data = await response.json();
+    return data?.root && Array.isArray(data.messages) ? data : null;
+  }, [activityId, user?.id, authHeaders]);
+
+  const openThread = useCallback(async (rootId: string, root?: ActivityChatMessage) => {
+    const requestId = ++threadRequestRef.current;
+    setShowThreadsModal(false);
+    setShowMessageMenu(false);
+    setSelectedMessage(null);
+    setReplyTo(null);
+    if (root) {
+      setThreadRoot(root);
+      setThreadReplies([]);
+    }
+    try {
+      const page = await fetchThreadPage(rootId);
+      if (requestId !== threadRequestRef.current) return;
+      if (!page) throw new Error("Thread not found");
+      setThreadRoot(page.root);
+      setThreadReplies(page.messages);
+      setThreadHasMoreBefore(page.hasMoreBefore);
+      clearThreadNotifications(page.root.id);
+    } catch (error) {
+      if (requestId !== threadRequestRef.current) return;
+      console.error("Failed to load thread:", error);
+      setThreadRoot(null);
+      setThreadReplies([]);
+      showAlert({ type: "error", title: "Thread Unavailable", message: "This thread was deleted or can no longer be loaded." });
+    }
+  }, [fetchThreadPage, clearThreadNotifications, showAlert]);
+
+  const closeThread = useCallback(() => {
+    threadRequestRef.current += 1;
+    setThreadRoot(null);
+    setThreadReplies([]);
+    setThreadHasMoreBefore(false);
+    setReplyTo(null);
+  }, []);
+
+  const handleLoadOlderReplies = useCallback(async () => {
+    const oldest = threadReplies[0];
+    if (!threadRoot || isLoadingOlder || !oldest || !threadHasMoreBefore) return;
+    const requestId = threadRequestRef.current;
+    setIsLoadingOlder(true);
+    try {
+      const page = await fetchThreadPage(threadRoot.id, { before: oldest.id });
+      if (requestId !== threadRequestRef.current) return;
+      if (page) {
+        setThreadReplies((prev) => spliceMessagePage(prev, undefined, page, { before: oldest.id }).messages);
+      }
+      setThreadHasMoreBefore(!!page?.hasMoreBefore);
+    } catch (error) {
+      console.error("Failed to load older replies:", error);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [threadRoot, threadReplies, isLoadingOlder, threadHasMoreBefore, fetchThreadPage]);
+
+  const fetchThreads = useCallback(async () => {
+    try {
+      const threadsUrl = new URL(`/api/activities/${activityId}/threads`, getApiUrl());
+      if (user?.id) threadsUrl.searchParams.set("userId", user.id);
+      const response = await fetch(threadsUrl.toString(), { headers: authHeaders() });
       if (response.ok) {
         const data = await response.json();
-        setMessages((prev) => {
-          if (prev.length === data.length) {
-            const prevLast = prev[prev.length - 1];
-            const nextLast = data[data.length - 1];
-            if (prevLast?.id === nextLast?.id && prevLast?.createdAt === nextLast?.createdAt) {
-              return prev;
-            }
-          }
-          return data;
-        });
+        setThreads(Array.isArray(data) ? data : []);
       }
     } catch (error) {
-      console.error("Failed to fetch messages:", error);
+      console.error("Failed to fetch threads:", error);
     }
-  }, [activityId]);
+  }, [activityId, user?.id, authHeaders]);
+
+  // Search results and notifications for a reply open its thread, then scroll to the reply once it renders.
+  useEffect(() => {
+    const focusKey = `${focusThreadId}:${focusMessageId || ""}`;
+    if (!focusThreadId || focusedMessageRef.current === focusKey) return;
+    focusedMessageRef.current = focusKey;
+    openThread(focusThreadId).then(() => {
+      if (focusMessageId) setPendingJumpId(focusMessageId);
+    });
+  }, [focusThreadId, focusMessageId, openThread]);
+
+  useEffect(() => {
+    if (showThreadsModal) fetchThreads();
+  }, [showThreadsModal, fetchThreads]);
+
+  const unreadThreadIds = useMemo(
+    () => new Set(threadNotifications.filter((n) => n.activityId === activityId).map((n) => n.threadRootId)),
+    [threadNotifications, activityId]
+  );
+  const threadUnreadCount = unreadThreadIds.size;
+
+  // Replies that arrive while their thread is open count as read.
+  useEffect(() => {
+    if (threadRoot && unreadThreadIds.has(threadRoot.id)) clearThreadNotifications(threadRoot.id);
+  }, [threadRoot, unreadThreadIds, clearThreadNotifications]);
 
   const fetchModerators = useCallback(async () => {
     try {
@@ -249,60 +505,152 @@ export default function ActivityChatScreen() {
     }
   }, [activity, activityId, user, hasInitialized]);
 
+  const applyRealtimeEvent = useCallback((event: RealtimeEvent) => {
+    if (event.event === RESYNC_EVENT) {
+      fetchMessages();
+      const rootId = threadRootIdRef.current;
+      if (rootId) {
+        fetchThreadPage(rootId)
+          .then((page) => {
+            if (page && threadRootIdRef.current === rootId) setThreadReplies(page.messages);
+          })
+          .catch((error) => console.error("Failed to refresh thread:", error));
+      }
+      return;
+    }
+
+    const payload = event.payload || {};
+    if (event.event === "thread.updated") {
+      const summary = { threadReplyCount: payload.threadReplyCount || 0, threadLastReplyAt: payload.threadLastReplyAt };
+      const withSummary = (m: ActivityChatMessage) => (m.id === payload.id ? { ...m, ...summary } : m);
+      setMessages((prev) => prev.map(withSummary));
+      setThreadRoot((prev) => prev && withSummary(prev));
+      setThreads((prev) => prev.map(withSummary));
+      return;
+    }
+
+    const isThreadReply = !!payload.threadRootId && THREAD_SCOPED_EVENTS.has(event.event);
+    if (!isThreadReply) {
+      setMessages((prev) => applyMessageEvent(prev, event.event, payload, user?.id));
+      setThreadRoot((prev) => prev && (applyMessageEvent([prev], event.event, payload, user?.id)[0] || null));
+    }
+    if (isThreadReply ? payload.threadRootId === threadRootIdRef.current : !THREAD_SCOPED_EVENTS.has(event.event)) {
+      setThreadReplies((prev) => applyMessageEvent(prev, event.event, payload, user?.id));
+    }
+  }, [fetchMessages, fetchThreadPage, user?.id]);
+
   useEffect(() => {
     Promise.all([fetchMessages(), fetchModerators(), initializeChat()]).catch(() => {});
+  }, [fetchMessages, fetchModerators, initializeChat]);
+
+  useEffect(() => {
+    if (!realtime) {
+      setIsLive(false);
+      return;
+    }
+    setIsLive(realtime.isConnected());
+    // Reconnects resume from the last cursor, so only a resync needs a full refetch.
+    const unsubscribeStatus = realtime.onStatusChange(setIsLive);
+    const unsubscribe = realtime.subscribe(`activity:${activityId}`, applyRealtimeEvent);
+    return () => {
+      unsubscribeStatus();
+      unsubscribe();
+    };
+  }, [realtime, activityId, applyRealtimeEvent]);
+
+  // Polling is only the fallback while the realtime socket is down.
+  useEffect(() => {
+    if (isLive) return;
     const interval = setInterval(fetchMessages, MESSAGE_POLL_INTERVAL_MS);
     return () => clearInterval(interval);
-  }, [fetchMessages, fetchModerators, initializeChat]);
+  }, [isLive, fetchMessages]);
 
   useLayoutEffect(() => {
     navigation.setOptions({
       headerRight: () => (
-        <HeaderButton
-          onPress={() => {
-            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-            setShowPinnedModal(true);
-          }}
-        >
-          <View style={{ position: "relative" }}>
-            <Icon name="pin" size={22} color={pinnedMessages.length > 0 ? AppColors.sunsetGold : theme.textSecondary} />
-            {pinnedMessages.length > 0 && (
-              <View style={{
-                position: "absolute",
-                top: -4,
-                right: -6,
-                backgroundColor: AppColors.sunsetGold,
-                borderRadius: 8,
-                minWidth: 16,
-                height: 16,
-                alignItems: "center",
-                justifyContent: "center",
-              }}>
-                <ThemedText style={{ fontSize: 10, fontWeight: "700", color: "#FFFFFF" }}>
-                  {pinnedMessages.length}
-                </ThemedText>
-              </View>
-            )}
-          </View>
-        </HeaderButton>
+        <View style={{ flexDirection: "row", alignItems: "center" }}>
+          <HeaderButton
+            onPress={() => setShowSearch(true)}
+            testID="button-search-activity-messages"
+          >
+            <Icon name="search" size={22} color={theme.textSecondary} />
+          </HeaderButton>
+          <HeaderButton
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setShowThreadsModal(true);
+            }}
+            testID="button-activity-threads"
+          >
+            <View style={{ position: "relative" }}>
+              <Icon name="message-square" size={22} color={threadUnreadCount > 0 ? AppColors.primary : theme.textSecondary} />
+              {threadUnreadCount > 0 && (
+                <View style={{
+                  position: "absolute",
+                  top: -4,
+                  right: -6,
+                  backgroundColor: AppColors.primary,
+                  borderRadius: 8,
+                  minWidth: 16,
+                  height: 16,
+                  alignItems: "center",
+                  justifyContent: "center",
+                }}>
+                  <ThemedText style={{ fontSize: 10, fontWeight: "700", color: "#FFFFFF" }}>
+                    {threadUnreadCount}
+                  </ThemedText>
+                </View>
+              )}
+            </View>
+          </HeaderButton>
+          <HeaderButton
+            onPress={() => {
+              Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+              setShowPinnedModal(true);
+            }}
+          >
+            <View style={{ position: "relative" }}>
+              <Icon name="pin" size={22} color={pinnedMessages.length > 0 ? AppColors.sunsetGold : theme.textSecondary} />
+              {pinnedMessages.length > 0 && (
+                <View style={{
+                  position: "absolute",
+                  top: -4,
+                  right: -6,
+                  backgroundColor: AppColors.sunsetGold,
+                  borderRadius: 8,
+                  minWidth: 16,
+                  height: 16,
+                  alignItems: "center",
+                  justifyContent: "center",
+                }}>
+                  <ThemedText style={{ fontSize: 10, fontWeight: "700", color: "#FFFFFF" }}>
+                    {pinnedMessages.length}
+                  </ThemedText>
+                </View>
+              )}
+            </View>
+          </HeaderButton>
+        </View>
       ),
     });
-  }, [navigation, pinnedMessages.length, theme.textSecondary]);
+  }, [navigation, pinnedMessages.length, threadUnreadCount, theme.textSecondary]);
 
   const handleSendMessage = async (
-    type: "text" | "photo" | "location" | "file" | "audio" = "text",
+    type: "text" | "photo" | "location" | "file" | "audio" | "poll" = "text",
     content?: string,
     photoUrl?: string,
     location?: LocationData,
     fileUrl?: string,
     fileName?: string,
-    audioUrl?: string
+    audioUrl?: string,
+    poll?: NewPoll
   ) => {
     const messageContent = content || message.trim();
     if ((!messageContent && type === "text") || !user) return;
 
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     setMessage("");
+    stopTyping();
 
     try {
       const apiUrl = getApiUrl();
@@ -328,12 +676,17 @@ export default function ActivityChatScreen() {
           audioUrl,
           replyTo: replyPayload,
           location,
+          poll,
           isModeratorMessage: isModerator,
+          threadRootId: threadRoot?.id,
         }),
       });
       if (response.ok) {
         const createdMessage = await response.json();
-        setMessages((prev) => [...prev, createdMessage]);
+        const addMessage = (prev: ActivityChatMessage[]) =>
+          prev.some((m) => m.id === createdMessage.id) ? prev : [...prev, createdMessage];
+        if (createdMessage.threadRootId) setThreadReplies(addMessage);
+        else setMessages(addMessage);
       }
       setReplyTo(null);
     } catch (error) {
@@ -424,6 +777,65 @@ export default function ActivityChatScreen() {
     setShowMessageMenu(true);
   };
 
+  const applyPoll = (messageId: string, poll: ActivityPoll) => {
+    const withPoll = (m: ActivityChatMessage) => (m.id === messageId ? { ...m, poll } : m);
+    setMessages((prev) => prev.map(withPoll));
+    setThreadReplies((prev) => prev.map(withPoll));
+    setThreadRoot((prev) => prev && withPoll(prev));
+  };
+
+  const handleVote = async (message: ActivityChatMessage, optionIds: string[]) => {
+    try {
+      const response = await fetch(
+        new URL(`/api/activities/${activityId}/messages/${message.id}/vote`, getApiUrl()).toString(),
+        {
+          method: "POST",
+          headers: authHeaders(true),
+          body: JSON.stringify({ userId: user?.id, optionIds }),
+        }
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        showAlert({ type: "error", title: "Vote Failed", message: data.error || "Could not record your vote." });
+        return;
+      }
+      applyPoll(data.id, data.poll);
+    } catch (error) {
+      console.error("Failed to vote:", error);
+    }
+  };
+
+  const handleClosePoll = (message: ActivityChatMessage) => {
+    const performClose = async () => {
+      try {
+        const response = await fetch(
+          new URL(`/api/activities/${activityId}/messages/${message.id}/close`, getApiUrl()).toString(),
+          {
+            method: "POST",
+            headers: authHeaders(true),
+            body: JSON.stringify({ userId: user?.id }),
+          }
+        );
+        if (response.ok) {
+          const data = await response.json();
+          applyPoll(data.id, data.poll);
+        }
+      } catch (error) {
+        console.error("Failed to close poll:", error);
+      }
+    };
+
+    showAlert({
+      type: "confirm",
+      title: "Close Poll",
+      message: "No one will be able to vote after the poll is closed.",
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        { text: "Close Poll", style: "destructive", onPress: performClose },
+      ],
+    });
+  };
+
   const handleReaction = async (message: ActivityChatMessage, emoji: string) => {
     try {
       const apiUrl = getApiUrl();
@@ -437,7 +849,10 @@ export default function ActivityChatScreen() {
       );
       if (response.ok) {
         const updated = await response.json();
-        setMessages((prev) => prev.map((m) => (m.id === updated.id ? updated : m)));
+        const withReactions = (m: ActivityChatMessage) => (m.id === updated.id ? { ...m, reactions: updated.reactions || {} } : m);
+        setMessages((prev) => prev.map(withReactions));
+        setThreadReplies((prev) => prev.map(withReactions));
+        setThreadRoot((prev) => prev && withReactions(prev));
       }
     } catch (error) {
       console.error("Failed to react:", error);
@@ -485,7 +900,7 @@ export default function ActivityChatScreen() {
     if (!result.canceled && result.assets[0]) {
       try {
         setIsLoading(true);
-        const uploadResult = await uploadPhoto(result.assets[0].uri);
+        const uploadResult = await uploadPhoto(result.assets[0].uri, session?.sessionToken);
         handleSendMessage("photo", "Shared a photo", uploadResult.url);
       } catch (error) {
         showAlert({ type: "error", title: "Upload Failed", message: "Could not upload photo." });
@@ -512,7 +927,7 @@ export default function ActivityChatScreen() {
     if (!result.canceled && result.assets[0]) {
       try {
         setIsLoading(true);
-        const uploadResult = await uploadPhoto(result.assets[0].uri);
+        const uploadResult = await uploadPhoto(result.assets[0].uri, session?.sessionToken);
         handleSendMessage("photo", "Shared a photo", uploadResult.url);
       } catch (error) {
         showAlert({ type: "error", title: "Upload Failed", message: "Could not upload photo." });
@@ -543,7 +958,7 @@ export default function ActivityChatScreen() {
         const file = result.assets[0];
         try {
           setIsLoading(true);
-          const uploadResult = await uploadFile(file.uri, file.name);
+          const uploadResult = await uploadFile(file.uri, file.name, session?.sessionToken);
           handleSendMessage("file", `Shared a file: ${file.name}`, undefined, undefined, uploadResult.url, file.name);
         } catch (error) {
           showAlert({ type: "error", title: "Upload Failed", message: "Could not upload file." });
@@ -603,7 +1018,7 @@ export default function ActivityChatScreen() {
 
       if (!uri) return;
       setIsLoading(true);
-      const uploadResult = await uploadAudio(uri, `voice_${Date.now()}.m4a`);
+      const uploadResult = await uploadAudio(uri, `voice_${Date.now()}.m4a`, session?.sessionToken);
       await handleSendMessage("audio", "Voice message", undefined, undefined, undefined, "voice.m4a", uploadResult.url);
     } catch (error) {
       console.error("Failed to stop recording:", error);
@@ -648,6 +1063,20 @@ export default function ActivityChatScreen() {
       const isOwnMessage = item.senderId === user?.id;
       const isSystemMessage = item.type === "system";
       const senderIsModerator = moderators.some(m => m.userId === item.senderId);
+      const loadGapButton = !threadRoot && history?.gapAfterIds.includes(item.id) ? (
+        <Pressable
+          style={[styles.loadGapButton, { backgroundColor: theme.cardBackground }]}
+          onPress={() => handleLoadGap(item.id)}
+          disabled={loadingGapId === item.id}
+          testID={`button-load-newer-${item.id}`}
+        >
+          {loadingGapId === item.id ? (
+            <ActivityIndicator size="small" color={AppColors.primary} />
+          ) : (
+            <ThemedText style={[styles.loadGapText, { color: AppColors.primary }]}>Load newer messages</ThemedText>
+          )}
+        </Pressable>
+      ) : null;
 
       if (isSystemMessage) {
         return (
@@ -660,6 +1089,7 @@ export default function ActivityChatScreen() {
                 {item.content}
               </ThemedText>
             </View>
+            {loadGapButton}
           </View>
         );
       }
@@ -726,14 +1156,19 @@ export default function ActivityChatScreen() {
                 isOwnMessage
                   ? [styles.ownBubble, { backgroundColor: item.isModeratorMessage ? "#7C3AED" : AppColors.primary }]
                   : [styles.otherBubble, { backgroundColor: theme.cardBackground }],
+                item.id === highlightedMessageId && styles.highlightedBubble,
               ]}
             >
               {item.replyTo ? (
-                <View style={styles.replyPreview}>
+                <Pressable
+                  style={styles.replyPreview}
+                  onPress={() => item.replyTo && jumpToMessage(item.replyTo.id)}
+                  testID={`button-jump-to-reply-${item.id}`}
+                >
                   <ThemedText style={styles.replyText} numberOfLines={2}>
                     {(item.replyTo.senderName || "User") + ": " + item.replyTo.content}
                   </ThemedText>
-                </View>
+                </Pressable>
               ) : null}
 
               {item.type === "photo" && item.photoUrl ? (
@@ -816,6 +1251,17 @@ export default function ActivityChatScreen() {
                 </Pressable>
               ) : null}
 
+              {item.type === "poll" && item.poll ? (
+                <ActivityPollCard
+                  poll={item.poll}
+                  isOwnMessage={isOwnMessage}
+                  canClose={isOwnMessage || isModerator}
+                  onVote={(optionIds) => handleVote(item, optionIds)}
+                  onClosePoll={() => handleClosePoll(item)}
+                  resolveName={resolveMemberName}
+                />
+              ) : null}
+
               {item.type === "text" ? (
                 <ThemedText style={[styles.messageText, { color: isOwnMessage ? "#FFFFFF" : theme.text }]}>
                   {item.content}
@@ -843,15 +1289,43 @@ export default function ActivityChatScreen() {
               {isOwnMessage && (
                 <View style={styles.messageFooter}>
                   {item.isEdited && <ThemedText style={styles.editedText}>edited</ThemedText>}
+                  {item.moderationStatus === "held" ? (
+                    <ThemedText style={styles.editedText}>pending review</ThemedText>
+                  ) : item.moderationStatus === "hidden" ? (
+                    <ThemedText style={styles.editedText}>hidden by moderation</ThemedText>
+                  ) : null}
                 </View>
               )}
             </View>
             </Pressable>
           </Swipeable>
+          {!threadRoot && item.threadReplyCount ? (
+            <Pressable
+              style={[styles.threadSummary, isOwnMessage ? styles.threadSummaryOwn : null]}
+              onPress={() => openThread(item.id, item)}
+              testID={`button-open-thread-${item.id}`}
+            >
+              <Icon name="message-square" size={14} color={AppColors.primary} />
+              <ThemedText style={[styles.threadSummaryText, { color: AppColors.primary }]}>
+                {formatThreadSummary(item.threadReplyCount, item.threadLastReplyAt)}
+              </ThemedText>
+              {unreadThreadIds.has(item.id) ? <View style={styles.threadUnreadDot} /> : null}
+            </Pressable>
+          ) : null}
+          {threadRoot?.id === item.id ? (
+            <View style={styles.threadDivider}>
+              <View style={[styles.threadDividerLine, { backgroundColor: theme.border }]} />
+              <ThemedText style={[styles.threadDividerText, { color: theme.textSecondary }]}>
+                {formatThreadSummary(threadRoot.threadReplyCount || 0)}
+              </ThemedText>
+              <View style={[styles.threadDividerLine, { backgroundColor: theme.border }]} />
+            </View>
+          ) : null}
+          {loadGapButton}
         </View>
       );
     },
-    [user?.id, theme, moderators, reversedMessages, handleLongPress, handleReaction, playAudio, playingAudioId]
+    [user?.id, theme, moderators, reversedMessages, handleLongPress, handleReaction, playAudio, playingAudioId, highlightedMessageId, history, loadingGapId, handleLoadGap, jumpToMessage, threadRoot, unreadThreadIds, openThread, isModerator, handleVote, handleClosePoll, resolveMemberName]
   );
 
   const EmptyChat = useCallback(() => (
@@ -872,6 +1346,18 @@ export default function ActivityChatScreen() {
 
   const attendeeCount = activity?.attendees.length || 0;
   const allMembers = activity ? [activity.host, ...activity.attendees] : [];
+  const typingNames = typingUserIds.map((typingId) =>
+    (allMembers.find((member) => member?.id === typingId)?.name
+      || messages.find((m) => m.senderId === typingId)?.senderName
+      || "Someone").split(" ")[0]
+  );
+  const typingLabel = typingNames.length === 0
+    ? null
+    : typingNames.length === 1
+      ? `${typingNames[0]} is typing...`
+      : typingNames.length === 2
+        ? `${typingNames[0]} and ${typingNames[1]} are typing...`
+        : "Several people are typing...";
 
   return (
     <KeyboardAvoidingView
@@ -886,7 +1372,16 @@ export default function ActivityChatScreen() {
         data={reversedMessages}
         renderItem={renderMessage}
         keyExtractor={(item) => item.id}
-        inverted={activeMessages.length > 0}
+        onScrollToIndexFailed={(info) => {
+          flatListRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+          setTimeout(() => flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 }), 100);
+        }}
+        inverted={visibleMessages.length > 0}
+        onEndReached={threadRoot ? handleLoadOlderReplies : handleLoadOlder}
+        onEndReachedThreshold={0.3}
+        ListFooterComponent={
+          isLoadingOlder ? <ActivityIndicator style={styles.loadingOlder} color={AppColors.primary} /> : null
+        }
         initialNumToRender={16}
         maxToRenderPerBatch={12}
         windowSize={7}
@@ -894,13 +1389,29 @@ export default function ActivityChatScreen() {
         removeClippedSubviews={Platform.OS !== "ios"}
         contentContainerStyle={[
           styles.listContent,
-          { paddingBottom: headerHeight + Spacing.lg, paddingTop: Spacing.md },
-          activeMessages.length === 0 && styles.emptyListContent,
+          { paddingBottom: headerHeight + Spacing.lg + (threadRoot ? THREAD_BANNER_HEIGHT : 0), paddingTop: Spacing.md },
+          visibleMessages.length === 0 && styles.emptyListContent,
         ]}
         ListEmptyComponent={EmptyChat}
         showsVerticalScrollIndicator={false}
       />
 
+      {threadRoot ? (
+        <View style={[styles.threadBanner, { top: headerHeight, backgroundColor: theme.backgroundRoot, borderBottomColor: theme.border }]}>
+          <Pressable onPress={closeThread} hitSlop={8} testID="button-close-thread">
+            <Icon name="arrow-left" size={20} color={theme.text} />
+          </Pressable>
+          <View style={styles.threadBannerContent}>
+            <ThemedText style={styles.threadBannerTitle}>Thread</ThemedText>
+            <ThemedText style={[styles.threadBannerText, { color: theme.textSecondary }]} numberOfLines={1}>
+              {threadRoot.senderName + ": " + threadRoot.content}
+            </ThemedText>
+          </View>
+        </View>
+      ) : null}
+
+      <VerifyEmailBanner action="send messages" />
+
       <View
         style={[
           styles.inputContainer,
@@ -911,6 +1422,11 @@ export default function ActivityChatScreen() {
           },
         ]}
       >
+        {typingLabel ? (
+          <ThemedText style={[styles.typingText, { color: theme.textSecondary }]} numberOfLines={1}>
+            {typingLabel}
+          </ThemedText>
+        ) : null}
         {replyTo ? (
           <View style={styles.replyBar}>
             <View style={styles.replyBarLeft} />
@@ -936,10 +1452,13 @@ export default function ActivityChatScreen() {
         <View style={[styles.inputWrapper, { backgroundColor: "#FFFFFF", borderWidth: 1, borderColor: "rgba(0,0,0,0.1)" }]}>
           <TextInput
             style={[styles.input, { color: theme.text }]}
-            placeholder="Message the group..."
+            placeholder={threadRoot ? "Reply in thread..." : "Message the group..."}
             placeholderTextColor={theme.textSecondary}
             value={message}
-            onChangeText={setMessage}
+            onChangeText={(text) => {
+              setMessage(text);
+              notifyTyping(text);
+            }}
             multiline
             maxLength={500}
             testID="input-chat-message"
@@ -996,6 +1515,15 @@ export default function ActivityChatScreen() {
                 <Icon name="plus" size={16} color={theme.text} />
               </Pressable>
             </View>
+            {!threadRoot && selectedMessage && !selectedMessage.threadRootId && (
+              <>
+                <Pressable style={styles.menuItem} onPress={() => openThread(selectedMessage.id, selectedMessage)}>
+                  <Icon name="message-square" size={20} color={theme.primary} />
+                  <ThemedText style={styles.menuItemText}>Reply in Thread</ThemedText>
+                </Pressable>
+                <View style={[styles.menuDivider, { backgroundColor: theme.border }]} />
+              </>
+            )}
             {selectedMessage?.senderId === user?.id && selectedMessage?.type === "text" && (
               <>
                 <Pressable style={styles.menuItem} onPress={handleEdit}>
@@ -1137,6 +1665,67 @@ export default function ActivityChatScreen() {
         </View>
       </Modal>
 
+      <Modal
+        visible={showThreadsModal}
+        transparent
+        animationType="slide"
+        onRequestClose={() => setShowThreadsModal(false)}
+      >
+        <View style={styles.membersModalOverlay}>
+          <View style={[styles.pinnedModalContent, { backgroundColor: theme.cardBackground, paddingBottom: insets.bottom + Spacing.lg }]}>
+            <View style={styles.membersModalHeader}>
+              <View style={{ flexDirection: "row", alignItems: "center", gap: 8 }}>
+                <Icon name="message-square" size={20} color={AppColors.primary} />
+                <ThemedText type="h4" style={{ color: theme.text }}>Threads</ThemedText>
+              </View>
+              <Pressable onPress={() => setShowThreadsModal(false)}>
+                <Icon name="x" size={24} color={theme.textSecondary} />
+              </Pressable>
+            </View>
+            <ScrollView style={styles.pinnedScrollView} contentContainerStyle={styles.pinnedScrollContent}>
+              {threads.length > 0 ? (
+                threads.map((thread) => (
+                  <Pressable
+                    key={thread.id}
+                    style={[styles.pinnedMessageItem, { backgroundColor: theme.backgroundSecondary }]}
+                    onPress={() => openThread(thread.id, thread)}
+                    testID={`button-thread-${thread.id}`}
+                  >
+                    <View style={styles.pinnedMessageHeader}>
+                      <Image
+                        source={thread.senderPhoto ? { uri: thread.senderPhoto } : require("../../assets/images/default-avatar.png")}
+                        style={styles.avatar}
+                        contentFit="cover"
+                      />
+                      <ThemedText style={{ color: theme.text, fontWeight: "600", fontSize: 13 }}>
+                        {thread.senderName}
+                      </ThemedText>
+                      {unreadThreadIds.has(thread.id) ? <View style={styles.threadUnreadDot} /> : null}
+                    </View>
+                    <ThemedText style={{ color: theme.text, marginTop: 8, lineHeight: 20 }} numberOfLines={3}>
+                      {thread.type === "location" ? "Shared their location" : thread.content}
+                    </ThemedText>
+                    <ThemedText style={[styles.threadSummaryText, { color: AppColors.primary, marginTop: 8 }]}>
+                      {formatThreadSummary(thread.threadReplyCount || 0, thread.threadLastReplyAt)}
+                    </ThemedText>
+                  </Pressable>
+                ))
+              ) : (
+                <View style={styles.emptyPinnedContainer}>
+                  <Icon name="message-square" size={40} color={theme.textSecondary} />
+                  <ThemedText style={{ color: theme.textSecondary, marginTop: 12, textAlign: "center" }}>
+                    No threads yet
+                  </ThemedText>
+                  <ThemedText style={{ color: theme.textSecondary, fontSize: 13, marginTop: 4, textAlign: "center" }}>
+                    Long-press a message to reply in a thread
+                  </ThemedText>
+                </View>
+              )}
+            </ScrollView>
+          </View>
+        </View>
+      </Modal>
+
       <Modal
         visible={showMembersModal}
         transparent
@@ -1155,6 +1744,7 @@ export default function ActivityChatScreen() {
               {allMembers.map((member) => {
                 const memberIsMod = moderators.some(m => m.userId === member.id);
                 const memberIsHost = activity?.hostId === member.id;
+                const memberPresence = formatPresence(presence[member.id]);
                 return (
                   <View key={member.id} style={styles.memberItem}>
                     <Image
@@ -1166,6 +1756,11 @@ export default function ActivityChatScreen() {
                       <ThemedText style={{ color: theme.text, fontWeight: "600" }}>{member.name}</ThemedText>
                       {memberIsHost && <ThemedText style={[styles.memberRole, { color: AppColors.primary }]}>Host</ThemedText>}
                       {memberIsMod && !memberIsHost && <ThemedText style={[styles.memberRole, { color: theme.textSecondary }]}>Moderator</ThemedText>}
+                      {memberPresence && (
+                        <ThemedText style={[styles.memberRole, { color: presence[member.id]?.status === "online" ? AppColors.success : theme.textSecondary }]}>
+                          {memberPresence}
+                        </ThemedText>
+                      )}
                     </View>
                     {isHost && !memberIsHost && (
                       <Pressable
@@ -1202,12 +1797,35 @@ export default function ActivityChatScreen() {
         </View>
       </Modal>
 
+      <MessageSearchModal
+        visible={showSearch}
+        onClose={() => setShowSearch(false)}
+        onSelect={(result) => {
+          if (result.threadRootId) {
+            openThread(result.threadRootId).then(() => setPendingJumpId(result.messageId));
+            return;
+          }
+          if (scrollToMessage(result.messageId)) return;
+          closeThread();
+          jumpToMessage(result.messageId);
+        }}
+        activityId={activityId}
+        placeholder={`Search ${activityTitle || "this chat"}`}
+      />
+
       <ChatAttachmentModal
         visible={showAttachmentModal}
         onClose={() => setShowAttachmentModal(false)}
         onSelectPhoto={() => setShowPhotoModal(true)}
         onSelectLocation={() => setShowLocationModal(true)}
         onSelectFile={handleSelectFile}
+        onSelectPoll={() => setShowPollModal(true)}
+      />
+
+      <CreatePollModal
+        visible={showPollModal}
+        onClose={() => setShowPollModal(false)}
+        onSubmit={(poll) => handleSendMessage("poll", poll.question, undefined, undefined, undefined, undefined, undefined, poll)}
       />
 
       <PhotoPickerModal
@@ -1385,6 +2003,83 @@ const styles = StyleSheet.create({
   otherBubble: {
     borderBottomRightRadius: BorderRadius.xs,
   },
+  highlightedBubble: {
+    borderWidth: 2,
+    borderColor: AppColors.sunsetGold,
+  },
+  loadGapButton: {
+    alignSelf: "center",
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    minHeight: 28,
+    justifyContent: "center",
+  },
+  loadGapText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  loadingOlder: {
+    marginVertical: Spacing.md,
+  },
+  threadSummary: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: Spacing.xs,
+    marginTop: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: 2,
+  },
+  threadSummaryOwn: {
+    alignSelf: "flex-end",
+  },
+  threadSummaryText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  threadUnreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: AppColors.primary,
+  },
+  threadDivider: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginTop: Spacing.md,
+    alignSelf: "stretch",
+  },
+  threadDividerLine: {
+    flex: 1,
+    height: StyleSheet.hairlineWidth,
+  },
+  threadDividerText: {
+    fontSize: 12,
+  },
+  threadBanner: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    height: THREAD_BANNER_HEIGHT,
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  threadBannerContent: {
+    flex: 1,
+  },
+  threadBannerTitle: {
+    fontSize: 15,
+    fontWeight: "700",
+  },
+  threadBannerText: {
+    fontSize: 13,
+  },
   messageText: {
     fontSize: 16,
     lineHeight: 22,
@@ -1394,6 +2089,7 @@ const styles = StyleSheet.create({
     flexDirection: "row",
     alignItems: "center",
     justifyContent: "flex-end",
+    gap: Spacing.xs,
     marginTop: Spacing.xs,
   },
   editedText: {
@@ -1532,6 +2228,12 @@ const styles = StyleSheet.create({
   replyBarText: {
     fontSize: 13,
   },
+  typingText: {
+    fontSize: 12,
+    fontStyle: "italic",
+    marginBottom: Spacing.xs,
+    paddingHorizontal: Spacing.sm,
+  },
   replyPreview: {
     borderLeftWidth: 3,
     borderLeftColor: "rgba(255,255,255,0.5)",
@@ -50,7 +50,7 @@ const TOTAL_STEPS = 5;
 export default function ApplyAsExpertScreen({ navigation }: any) {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { showAlert } = useAlert();
 
   const [step, setStep] = useState(0);
@@ -152,9 +152,12 @@ export default function ApplyAsExpertScreen({ navigation }: any) {
         hourlyRate: parseInt(hourlyRate),
       };
 
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
+
       const response = await fetch(new URL("/api/expert/apply", getApiUrl()).toString(), {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers,
         body: JSON.stringify(body),
       });
 
@@ -167,7 +170,7 @@ export default function ApplyAsExpertScreen({ navigation }: any) {
 
       const verifyRes = await fetch(
         new URL(`/api/expert/verify/${data.application.id}`, getApiUrl()).toString(),
-        { method: "POST", headers: { "Content-Type": "application/json" } }
+        { method: "POST", headers }
       );
       await verifyRes.json();
 
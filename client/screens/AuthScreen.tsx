@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   StyleSheet,
   View,
@@ -20,11 +20,13 @@ import Animated, {
   FadeInUp,
 } from "react-native-reanimated";
 import * as Haptics from "expo-haptics";
+import * as Linking from "expo-linking";
 
 import { ThemedText } from "@/components/ThemedText";
 import { Icon } from "@/components/Icon";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
-import { useAuth } from "@/context/AuthContext";
+import { SocialSignInButtons } from "@/components/SocialSignInButtons";
+import { useAuth, type SignInResult } from "@/context/AuthContext";
 import { useAlert } from "@/context/AlertContext";
 import { AppColors } from "@/constants/theme";
 
@@ -36,7 +38,16 @@ type ResetStep = "email" | "otp" | "password" | "success";
 
 export default function AuthScreen() {
   const insets = useSafeAreaInsets();
-  const { login, signup, sendPasswordResetOTP, verifyOTP, updatePassword } = useAuth();
+  const {
+    login,
+    sendMagicLink,
+    loginWithMagicLink,
+    completeTwoFactorLogin,
+    signup,
+    sendPasswordResetOTP,
+    verifyOTP,
+    updatePassword,
+  } = useAuth();
   const { showAlert } = useAlert();
   const [isLogin, setIsLogin] = useState(true);
   const [email, setEmail] = useState("");
@@ -53,6 +64,13 @@ export default function AuthScreen() {
   const [newPassword, setNewPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [showNewPassword, setShowNewPassword] = useState(false);
+  const [twoFactorChallenge, setTwoFactorChallenge] = useState<string | null>(null);
+  const [twoFactorCode, setTwoFactorCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [magicLinkEmail, setMagicLinkEmail] = useState<string | null>(null);
+  const [magicLinkCode, setMagicLinkCode] = useState("");
+  const handledLinkRef = useRef<string | null>(null);
+  const incomingUrl = Linking.useURL();
   const showAuthErrorToast = (message: string) => {
     if (Platform.OS === "android") {
       ToastAndroid.show(message, ToastAndroid.LONG);
@@ -84,15 +102,7 @@ export default function AuthScreen() {
 
     try {
       if (isLogin) {
-        const result = await login(email, password);
-        if (!result.success) {
-          const message = result.error || "Invalid email or password";
-          setError(message);
-          showAuthErrorToast(message);
-          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
-        } else {
-          Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
-        }
+        handleSignInResult(await login(email, password), "Invalid email or password");
       } else {
         const result = await signup(email, password, name);
         if (!result.success) {
@@ -102,9 +112,146 @@ export default function AuthScreen() {
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
         } else {
           Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+          showAlert({
+            type: "info",
+            title: "Confirm Your Email",
+            message: `We sent a code to ${email.trim().toLowerCase()}. Confirm it from Profile → Email Address to start messaging and using the radar.`,
+          });
         }
       }
-    } catch (err) {
+    } catch {
+      const message = "Something went wrong. Please try again.";
+      setError(message);
+      showAuthErrorToast(message);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  // Password, magic-link and Google/Apple sign-ins all end here: a 2FA step, an error, or signed in.
+  const handleSignInResult = (result: SignInResult, fallbackError: string) => {
+    if (result.twoFactorChallenge) {
+      setMagicLinkEmail(null);
+      setTwoFactorChallenge(result.twoFactorChallenge);
+      setTwoFactorCode("");
+      setUseRecoveryCode(false);
+      Haptics.selectionAsync();
+    } else if (!result.success) {
+      const message = result.error || fallbackError;
+      setError(message);
+      showAuthErrorToast(message);
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+    } else {
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.accountRestored) showAccountRestored();
+    }
+  };
+
+  const handleSendMagicLink = async () => {
+    setError("");
+    const address = email.trim().toLowerCase();
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(address)) {
+      setError("Enter your email and we'll send you a sign-in link");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await sendMagicLink(address);
+      if (!result.success) {
+        const message = result.error || "Could not send the sign-in email";
+        setError(message);
+        showAuthErrorToast(message);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
+      }
+      setMagicLinkEmail(address);
+      setMagicLinkCode("");
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMagicLinkCode = async () => {
+    if (!magicLinkEmail) return;
+    setError("");
+    if (!magicLinkCode.trim()) {
+      setError("Please enter the 6-digit code");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      handleSignInResult(await loginWithMagicLink({ email: magicLinkEmail, code: magicLinkCode }), "Invalid code");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const cancelMagicLink = () => {
+    Haptics.selectionAsync();
+    setMagicLinkEmail(null);
+    setMagicLinkCode("");
+    setError("");
+  };
+
+  // Tapping the link in the email opens explorex://magic-link?token=...
+  useEffect(() => {
+    if (!incomingUrl) return;
+    const { hostname, path, queryParams } = Linking.parse(incomingUrl);
+    const token = queryParams?.token;
+    if (hostname !== "magic-link" && path !== "magic-link") return;
+    if (typeof token !== "string" || !token || handledLinkRef.current === token) return;
+    handledLinkRef.current = token;
+
+    setError("");
+    setIsLoading(true);
+    loginWithMagicLink({ token })
+      .then((result) => handleSignInResult(result, "This sign-in link has expired. Please request a new one."))
+      .finally(() => setIsLoading(false));
+  }, [incomingUrl]);
+
+  const showAccountRestored = () => {
+    showAlert({
+      type: "success",
+      title: "Welcome Back",
+      message: "Your account deletion has been cancelled and your profile is visible again.",
+    });
+  };
+
+  const handleVerifyTwoFactor = async () => {
+    if (!twoFactorChallenge) return;
+    setError("");
+
+    if (!twoFactorCode.trim()) {
+      setError(useRecoveryCode ? "Please enter a recovery code" : "Please enter the 6-digit code");
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const result = await completeTwoFactorLogin(twoFactorChallenge, twoFactorCode);
+      if (!result.success) {
+        const message = result.error || "Invalid code";
+        setError(message);
+        showAuthErrorToast(message);
+        Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
+        return;
+      }
+
+      Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
+      if (result.accountRestored) {
+        showAccountRestored();
+      } else if (result.recoveryCodesRemaining !== undefined && result.recoveryCodesRemaining <= 3) {
+        showAlert({
+          type: "warning",
+          title: "Recovery Codes Running Low",
+          message: `You have ${result.recoveryCodesRemaining} recovery code${result.recoveryCodesRemaining === 1 ? "" : "s"} left. Generate new ones from Two-Factor Authentication in your profile settings.`,
+        });
+      }
+    } catch {
       const message = "Something went wrong. Please try again.";
       setError(message);
       showAuthErrorToast(message);
@@ -114,6 +261,21 @@ export default function AuthScreen() {
     }
   };
 
+  const cancelTwoFactor = () => {
+    Haptics.selectionAsync();
+    setTwoFactorChallenge(null);
+    setTwoFactorCode("");
+    setPassword("");
+    setError("");
+  };
+
+  const toggleRecoveryCode = () => {
+    Haptics.selectionAsync();
+    setUseRecoveryCode(!useRecoveryCode);
+    setTwoFactorCode("");
+    setError("");
+  };
+
   const toggleMode = () => {
     Haptics.selectionAsync();
     setIsLogin(!isLogin);
@@ -151,7 +313,7 @@ export default function AuthScreen() {
         setResetError(result.error || "Failed to send code");
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       }
-    } catch (err) {
+    } catch {
       setResetError("Something went wrong");
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } finally {
@@ -177,7 +339,7 @@ export default function AuthScreen() {
         setResetError(result.error || "Invalid code");
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       }
-    } catch (err) {
+    } catch {
       setResetError("Something went wrong");
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } finally {
@@ -208,7 +370,7 @@ export default function AuthScreen() {
         setResetError(result.error || "Failed to reset password");
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
       }
-    } catch (err) {
+    } catch {
       setResetError("Something went wrong");
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     } finally {
@@ -264,6 +426,146 @@ export default function AuthScreen() {
           entering={FadeInUp.delay(300).duration(600)} 
           style={styles.formCard}
         >
+          {twoFactorChallenge ? (
+            <Animated.View entering={FadeIn.duration(300)}>
+              <ThemedText style={[styles.formTitle, styles.twoFactorTitle]}>Two-Step Verification</ThemedText>
+              <ThemedText style={styles.twoFactorSubtitle}>
+                {useRecoveryCode
+                  ? "Enter one of the recovery codes you saved when you turned on two-factor authentication."
+                  : "Enter the 6-digit code from your authenticator app."}
+              </ThemedText>
+
+              <View style={styles.inputWrapper}>
+                <View style={[
+                  styles.inputContainer,
+                  focusedField === 'twoFactor' && styles.inputContainerFocused
+                ]}>
+                  <View style={styles.inputIcon}>
+                    <Icon name={useRecoveryCode ? "lock" : "shield"} size={20} color="rgba(255,255,255,0.6)" />
+                  </View>
+                  <TextInput
+                    style={styles.input}
+                    placeholder={useRecoveryCode ? "xxxxx-xxxxx" : "123456"}
+                    placeholderTextColor="rgba(255,255,255,0.4)"
+                    value={twoFactorCode}
+                    onChangeText={setTwoFactorCode}
+                    keyboardType={useRecoveryCode ? "default" : "number-pad"}
+                    autoCapitalize="none"
+                    autoCorrect={false}
+                    autoComplete={useRecoveryCode ? "off" : "one-time-code"}
+                    maxLength={useRecoveryCode ? 11 : 6}
+                    autoFocus
+                    onSubmitEditing={handleVerifyTwoFactor}
+                    onFocus={() => setFocusedField('twoFactor')}
+                    onBlur={() => setFocusedField(null)}
+                    testID="input-two-factor-code"
+                  />
+                </View>
+              </View>
+
+              {error ? (
+                <Animated.View entering={FadeIn.duration(300)} style={styles.errorContainer}>
+                  <ThemedText style={styles.error}>{error}</ThemedText>
+                </Animated.View>
+              ) : null}
+
+              <TouchableOpacity
+                onPress={handleVerifyTwoFactor}
+                disabled={isLoading}
+                activeOpacity={0.8}
+                style={styles.submitButtonWrapper}
+                testID="button-verify-two-factor"
+              >
+                <LinearGradient
+                  colors={isLoading ? ['#666', '#555'] : [AppColors.primary, AppColors.accent]}
+                  style={styles.submitButton}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 0 }}
+                >
+                  <ThemedText style={styles.submitButtonText}>
+                    {isLoading ? "Please wait..." : "Verify"}
+                  </ThemedText>
+                </LinearGradient>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.forgotPassword} onPress={toggleRecoveryCode} testID="button-toggle-recovery-code">
+                <ThemedText style={styles.forgotPasswordText}>
+                  {useRecoveryCode ? "Use your authenticator app instead" : "Lost your phone? Use a recovery code"}
+                </ThemedText>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.forgotPassword} onPress={cancelTwoFactor} testID="button-cancel-two-factor">
+                <ThemedText style={styles.forgotPasswordText}>Back to sign in</ThemedText>
+              </TouchableOpacity>
+            </Animated.View>
+          ) : magicLinkEmail ? (
+            <Animated.View entering={FadeIn.duration(300)}>
+              <ThemedText style={[styles.formTitle, styles.twoFactorTitle]}>Check Your Email</ThemedText>
+              <ThemedText style={styles.twoFactorSubtitle}>
+                If {magicLinkEmail} has an ExploreX account, we sent it a sign-in link. Tap it on this phone, or enter
+                the 6-digit code from the email. Both work once and expire in 15 minutes.
+              </ThemedText>
+
+              <View style={styles.inputWrapper}>
+                <View style={[
+                  styles.inputContainer,
+                  focusedField === 'magicLinkCode' && styles.inputContainerFocused
+                ]}>
+                  <View style={styles.inputIcon}>
+                    <Icon name="mail" size={20} color="rgba(255,255,255,0.6)" />
+                  </View>
+                  <TextInput
+                    style={styles.input}
+                    placeholder="123456"
+                    placeholderTextColor="rgba(255,255,255,0.4)"
+                    value={magicLinkCode}
+                    onChangeText={setMagicLinkCode}
+                    keyboardType="number-pad"
+                    autoComplete="one-time-code"
+                    maxLength={6}
+                    onSubmitEditing={handleMagicLinkCode}
+                    onFocus={() => setFocusedField('magicLinkCode')}
+                    onBlur={() => setFocusedField(null)}
+                    testID="input-magic-link-code"
+                  />
+                </View>
+              </View>
+
+              {error ? (
+                <Animated.View entering={FadeIn.duration(300)} style={styles.errorContainer}>
+                  <ThemedText style={styles.error}>{error}</ThemedText>
+                </Animated.View>
+              ) : null}
+
+              <TouchableOpacity
+                onPress={handleMagicLinkCode}
+                disabled={isLoading}
+                activeOpacity={0.8}
+                style={styles.submitButtonWrapper}
+                testID="button-magic-link-sign-in"
+              >
+                <LinearGradient
+                  colors={isLoading ? ['#666', '#555'] : [AppColors.primary, AppColors.accent]}
+                  style={styles.submitButton}
+                  start={{ x: 0, y: 0 }}
+                  end={{ x: 1, y: 0 }}
+                >
+                  <ThemedText style={styles.submitButtonText}>
+                    {isLoading ? "Please wait..." : "Sign In"}
+                  </ThemedText>
+                </LinearGradient>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.forgotPassword} onPress={handleSendMagicLink} disabled={isLoading} testID="button-resend-magic-link">
+                <ThemedText style={styles.forgotPasswordText}>Send a new link</ThemedText>
+              </TouchableOpacity>
+
+              <TouchableOpacity style={styles.forgotPassword} onPress={cancelMagicLink} testID="button-cancel-magic-link">
+                <ThemedText style={styles.forgotPasswordText}>Back to sign in</ThemedText>
+              </TouchableOpacity>
+            </Animated.View>
+          ) : (
+          <>
           <ThemedText style={styles.formTitle}>
             {isLogin ? "Welcome Back" : "Join the Community"}
           </ThemedText>
@@ -372,11 +674,31 @@ export default function AuthScreen() {
             </LinearGradient>
           </TouchableOpacity>
 
+          {isLogin && (
+            <TouchableOpacity style={styles.forgotPassword} onPress={handleSendMagicLink} disabled={isLoading} testID="button-send-magic-link">
+              <ThemedText style={styles.magicLinkText}>Email me a sign-in link instead</ThemedText>
+            </TouchableOpacity>
+          )}
+
           {isLogin && (
             <TouchableOpacity style={styles.forgotPassword} onPress={handleForgotPassword} testID="button-forgot-password">
               <ThemedText style={styles.forgotPasswordText}>Forgot password?</ThemedText>
             </TouchableOpacity>
           )}
+
+          <SocialSignInButtons
+            disabled={isLoading}
+            onStart={() => {
+              setError("");
+              setIsLoading(true);
+            }}
+            onResult={(result) => {
+              setIsLoading(false);
+              handleSignInResult(result, "Sign in failed. Please try again.");
+            }}
+          />
+          </>
+          )}
         </Animated.View>
 
         <Animated.View entering={FadeIn.delay(500).duration(600)} style={styles.footer}>
@@ -659,6 +981,15 @@ const styles = StyleSheet.create({
     textAlign: "center",
     marginBottom: 24,
   },
+  twoFactorTitle: {
+    marginBottom: 8,
+  },
+  twoFactorSubtitle: {
+    fontSize: 14,
+    color: "rgba(255,255,255,0.7)",
+    textAlign: "center",
+    marginBottom: 20,
+  },
   inputWrapper: {
     marginBottom: 16,
   },
@@ -731,6 +1062,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: "rgba(255,255,255,0.6)",
   },
+  magicLinkText: {
+    fontSize: 14,
+    fontWeight: "600",
+    color: AppColors.primary,
+  },
   modalOverlay: {
     flex: 1,
     backgroundColor: "rgba(0,0,0,0.7)",
@@ -1,4 +1,4 @@
-import React, {  useState, useCallback, useRef , useEffect } from "react";
+import React, {  useState, useCallback, useRef , useEffect, useMemo } from "react";
 import {
 StyleSheet,
   View,
@@ -12,6 +12,7 @@ StyleSheet,
   Animated as RNAnimated,
   Easing,
   ScrollView,
+  ActivityIndicator,
 } from "react-native";
 import Slider from "@react-native-community/slider";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
@@ -27,22 +28,25 @@ import { Swipeable } from "react-native-gesture-handler";
 import { ChatAttachmentModal } from "@/components/ChatAttachmentModal";
 import LocationPickerModal from "@/components/LocationPickerModal";
 import { PhotoPickerModal } from "@/components/PhotoPickerModal";
-import { ActivityLocation } from "@/types";
+import { MessageTimingModal, describeMessageTiming, formatScheduledTime, formatExpiresIn } from "@/components/MessageTimingModal";
+import { ReportUserModal } from "@/components/ReportUserModal";
 
 import { ChatBackground } from "@/components/ChatBackground";
 import { ThemedText } from "@/components/ThemedText";
+import { VerifyEmailBanner } from "@/components/VerifyEmailBanner";
 import { useTheme } from "@/hooks/useTheme";
 import { useData } from "@/context/DataContext";
 import { useAuth } from "@/context/AuthContext";
 import { useAlert } from "@/context/AlertContext";
-import { Message } from "@/types";
+import { usePresence, formatPresence } from "@/hooks/usePresence";
+import { useTypingIndicator } from "@/hooks/useTypingIndicator";
+import { ActivityLocation, Message, MessageTiming, UserReportInput } from "@/types";
 import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 import { uploadPhoto, uploadFile, uploadAudio } from "@/lib/upload";
 import { saveImageToGallery, saveFileToDevice } from "@/lib/media";
-import { createAudioPlayer, RecordingPresets, requestRecordingPermissionsAsync, setAudioModeAsync } from "expo-audio";
+import { createAudioPlayer, RecordingPresets, requestRecordingPermissionsAsync, setAudioModeAsync, type AudioPlayer, type AudioRecorder } from "expo-audio";
 import AudioModule from "expo-audio/build/AudioModule";
-import type { AudioPlayer, AudioRecorder } from "expo-audio";
 
 type ChatRouteProp = RouteProp<RootStackParamList, "Chat">;
 
@@ -127,9 +131,23 @@ export default function ChatScreen() {
   const headerHeight = (Platform.OS === "web" ? 67 : insets.top) + CUSTOM_HEADER_HEIGHT;
   const { theme } = useTheme();
   const route = useRoute<ChatRouteProp>();
-  const { matchId, matchPhoto } = route.params as { matchId: string; matchName: string; matchPhoto?: string };
-  const { messages, sendMessage, editMessage, deleteMessage, toggleMessageReaction, matches } = useData();
-  const { user } = useAuth();
+  const { matchId, matchPhoto, focusMessageId } = route.params;
+  const {
+    messages,
+    messageHistory,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    toggleMessageReaction,
+    markMessagesRead,
+    loadOlderMessages,
+    loadNewerMessages,
+    loadMessagesAround,
+    matches,
+    blockUser,
+    reportUser,
+  } = useData();
+  const { user, session } = useAuth();
   const { showAlert } = useAlert();
   const [inputText, setInputText] = useState("");
   const [showProfileModal, setShowProfileModal] = useState(false);
@@ -148,6 +166,9 @@ export default function ChatScreen() {
   const [previewFile, setPreviewFile] = useState<{ uri: string; name?: string } | null>(null);
   const [showEmojiPicker, setShowEmojiPicker] = useState(false);
   const [replyTo, setReplyTo] = useState<Message | null>(null);
+  const [messageTiming, setMessageTiming] = useState<MessageTiming | null>(null);
+  const [showTimingModal, setShowTimingModal] = useState(false);
+  const [reportMessageIds, setReportMessageIds] = useState<string[] | null>(null);
   const [isRecording, setIsRecording] = useState(false);
   const recordingRef = useRef<AudioRecorder | null>(null);
   const [playingAudioId, setPlayingAudioId] = useState<string | null>(null);
@@ -156,12 +177,87 @@ export default function ChatScreen() {
   const [audioProgress, setAudioProgress] = useState({ id: null as string | null, position: 0, duration: 0, isPlaying: false });
   const chatMessages = messages[matchId] || [];
   const match = matches.find((m) => m.id === matchId);
+  const lastIncomingId = [...chatMessages].reverse().find((m) => m.senderId !== user?.id)?.id;
+  const { typingUserIds, notifyTyping, stopTyping } = useTypingIndicator(`match:${matchId}`);
+  const presence = usePresence(match ? [match.matchedUserId] : []);
+  const presenceLabel = match ? formatPresence(presence[match.matchedUserId]) : null;
+  const reversedMessages = useMemo(() => (messages[matchId] || []).toReversed(), [messages, matchId]);
+  const history = messageHistory[matchId];
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [pendingJumpId, setPendingJumpId] = useState<string | null>(null);
+  const [isLoadingOlder, setIsLoadingOlder] = useState(false);
+  const [loadingGapId, setLoadingGapId] = useState<string | null>(null);
+  const focusedMessageRef = useRef<string | null>(null);
+
+  const scrollToMessage = useCallback((messageId: string) => {
+    const index = reversedMessages.findIndex((m) => m.id === messageId);
+    if (index < 0) return false;
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+    setHighlightedMessageId(messageId);
+    return true;
+  }, [reversedMessages]);
+
+  // Messages outside the loaded pages are fetched first; the scroll happens once they render.
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    if (scrollToMessage(messageId)) return;
+    setPendingJumpId(messageId);
+    const found = await loadMessagesAround(matchId, messageId);
+    if (!found) {
+      setPendingJumpId(null);
+      showAlert({ type: "info", title: "Message Unavailable", message: "This message was deleted or can no longer be loaded." });
+    }
+  }, [scrollToMessage, loadMessagesAround, matchId, showAlert]);
+
+  useEffect(() => {
+    if (!focusMessageId || focusedMessageRef.current === focusMessageId) return;
+    focusedMessageRef.current = focusMessageId;
+    jumpToMessage(focusMessageId);
+  }, [focusMessageId, jumpToMessage]);
+
+  useEffect(() => {
+    if (pendingJumpId && scrollToMessage(pendingJumpId)) setPendingJumpId(null);
+  }, [pendingJumpId, scrollToMessage]);
+
+  const handleLoadOlder = useCallback(async () => {
+    if (isLoadingOlder || !history?.hasMoreBefore) return;
+    setIsLoadingOlder(true);
+    try {
+      await loadOlderMessages(matchId);
+    } finally {
+      setIsLoadingOlder(false);
+    }
+  }, [isLoadingOlder, history?.hasMoreBefore, loadOlderMessages, matchId]);
+
+  const handleLoadGap = useCallback(async (afterMessageId: string) => {
+    setLoadingGapId(afterMessageId);
+    try {
+      await loadNewerMessages(matchId, afterMessageId);
+    } finally {
+      setLoadingGapId(null);
+    }
+  }, [loadNewerMessages, matchId]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2000);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
+
+  const handleChangeText = useCallback((text: string) => {
+    setInputText(text);
+    notifyTyping(text);
+  }, [notifyTyping]);
+
+  useEffect(() => {
+    if (lastIncomingId) markMessagesRead(matchId);
+  }, [matchId, lastIncomingId]);
 
   const handleSend = useCallback(async () => {
     if (!inputText.trim() || isSending) return;
 
     const text = inputText.trim();
     setInputText("");
+    stopTyping();
     setIsSending(true);
 
     try {
@@ -172,8 +268,9 @@ export default function ChatScreen() {
             senderName: replyTo.senderId === user?.id ? "You" : (match?.matchedUser.name || "User"),
           }
         : undefined;
-      await sendMessage(matchId, text, "text", undefined, undefined, undefined, undefined, replyPayload);
+      await sendMessage(matchId, text, "text", undefined, undefined, undefined, undefined, replyPayload, undefined, messageTiming || undefined);
       setReplyTo(null);
+      setMessageTiming(null);
       Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     } catch (error) {
       console.error("Failed to send message:", error);
@@ -182,7 +279,7 @@ export default function ChatScreen() {
       setIsSending(false);
       setUploadLabel(null);
     }
-  }, [inputText, matchId, sendMessage, isSending, replyTo, user?.id, match?.matchedUser.name]);
+  }, [inputText, matchId, sendMessage, isSending, replyTo, messageTiming, user?.id, match?.matchedUser.name, stopTyping]);
 
   const handleLongPress = useCallback((message: Message) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Medium);
@@ -227,6 +324,47 @@ export default function ChatScreen() {
     setSelectedMessage(null);
   }, [selectedMessage, matchId, deleteMessage]);
 
+  const handleReportMessage = useCallback(() => {
+    if (selectedMessage) setReportMessageIds([selectedMessage.id]);
+    setShowMessageMenu(false);
+    setSelectedMessage(null);
+  }, [selectedMessage]);
+
+  const handleBlock = useCallback(() => {
+    if (!match) return;
+    const name = match.matchedUser.name || "this user";
+    setShowProfileModal(false);
+    showAlert({
+      type: "confirm",
+      title: `Block ${name}?`,
+      message: "They won't be able to message you or find you in Discover, on the radar or in your activities.",
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Block",
+          style: "destructive",
+          onPress: async () => {
+            const ok = await blockUser(match.matchedUserId);
+            if (!ok) {
+              showAlert({ type: "error", title: "Block Failed", message: "Could not block this user. Please try again." });
+              return;
+            }
+            navigation.goBack();
+          },
+        },
+      ],
+    });
+  }, [match, blockUser, showAlert, navigation]);
+
+  const handleSubmitReport = useCallback(async (report: UserReportInput) => {
+    const ok = await reportUser(report);
+    if (ok) {
+      showAlert({ type: "success", title: "Report Sent", message: "Thanks for letting us know. Our team will review it." });
+      if (report.block) navigation.goBack();
+    }
+    return ok;
+  }, [reportUser, showAlert, navigation]);
+
   const handleReaction = useCallback(async (message: Message, emoji: string) => {
     await toggleMessageReaction(matchId, message.id, emoji);
     setShowMessageMenu(false);
@@ -271,7 +409,7 @@ export default function ChatScreen() {
       try {
         setIsSending(true);
         setUploadLabel("Uploading photo...");
-        const uploadResult = await uploadPhoto(result.assets[0].uri);
+        const uploadResult = await uploadPhoto(result.assets[0].uri, session?.sessionToken);
         const replyPayload = replyTo
           ? {
               id: replyTo.id,
@@ -279,8 +417,9 @@ export default function ChatScreen() {
               senderName: replyTo.senderId === user?.id ? "You" : (match?.matchedUser.name || "User"),
             }
           : undefined;
-        await sendMessage(matchId, "Shared a photo", "photo", uploadResult.url, undefined, undefined, undefined, replyPayload);
+        await sendMessage(matchId, "Shared a photo", "photo", uploadResult.url, undefined, undefined, undefined, replyPayload, undefined, messageTiming || undefined);
         setReplyTo(null);
+        setMessageTiming(null);
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       } catch (error) {
         console.error("Failed to upload photo:", error);
@@ -291,7 +430,7 @@ export default function ChatScreen() {
         setUploadLabel(null);
       }
     }
-  }, [matchId, sendMessage, replyTo, user?.id, match?.matchedUser.name]);
+  }, [matchId, sendMessage, replyTo, messageTiming, user?.id, match?.matchedUser.name]);
 
   const handleChoosePhoto = useCallback(async () => {
     const { status } = await ImagePicker.requestMediaLibraryPermissionsAsync();
@@ -310,7 +449,7 @@ export default function ChatScreen() {
       try {
         setIsSending(true);
         setUploadLabel("Uploading photo...");
-        const uploadResult = await uploadPhoto(result.assets[0].uri);
+        const uploadResult = await uploadPhoto(result.assets[0].uri, session?.sessionToken);
         const replyPayload = replyTo
           ? {
               id: replyTo.id,
@@ -318,8 +457,9 @@ export default function ChatScreen() {
               senderName: replyTo.senderId === user?.id ? "You" : (match?.matchedUser.name || "User"),
             }
           : undefined;
-        await sendMessage(matchId, "Shared a photo", "photo", uploadResult.url, undefined, undefined, undefined, replyPayload);
+        await sendMessage(matchId, "Shared a photo", "photo", uploadResult.url, undefined, undefined, undefined, replyPayload, undefined, messageTiming || undefined);
         setReplyTo(null);
+        setMessageTiming(null);
         Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
       } catch (error) {
         console.error("Failed to upload photo:", error);
@@ -330,7 +470,7 @@ export default function ChatScreen() {
         setUploadLabel(null);
       }
     }
-  }, [matchId, sendMessage, replyTo, user?.id, match?.matchedUser.name]);
+  }, [matchId, sendMessage, replyTo, messageTiming, user?.id, match?.matchedUser.name]);
 
   const handleSelectLocation = useCallback(async (location: ActivityLocation) => {
     const replyPayload = replyTo
@@ -340,10 +480,11 @@ export default function ChatScreen() {
           senderName: replyTo.senderId === user?.id ? "You" : (match?.matchedUser.name || "User"),
         }
       : undefined;
-    await sendMessage(matchId, `\u{1F4CD} ${location.name}`, "location", undefined, location, undefined, undefined, replyPayload);
+    await sendMessage(matchId, `\u{1F4CD} ${location.name}`, "location", undefined, location, undefined, undefined, replyPayload, undefined, messageTiming || undefined);
     setReplyTo(null);
+    setMessageTiming(null);
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-  }, [matchId, sendMessage, replyTo, user?.id, match?.matchedUser.name]);
+  }, [matchId, sendMessage, replyTo, messageTiming, user?.id, match?.matchedUser.name]);
 
   const handleSelectFile = useCallback(async () => {
     try {
@@ -357,7 +498,7 @@ export default function ChatScreen() {
         try {
           setIsSending(true);
           setUploadLabel("Uploading file...");
-          const uploadResult = await uploadFile(file.uri, file.name);
+          const uploadResult = await uploadFile(file.uri, file.name, session?.sessionToken);
           const replyPayload = replyTo
             ? {
                 id: replyTo.id,
@@ -365,8 +506,9 @@ export default function ChatScreen() {
                 senderName: replyTo.senderId === user?.id ? "You" : (match?.matchedUser.name || "User"),
               }
             : undefined;
-          await sendMessage(matchId, `Shared a file: ${file.name}`, "file", undefined, undefined, uploadResult.url, file.name, replyPayload);
+          await sendMessage(matchId, `Shared a file: ${file.name}`, "file", undefined, undefined, uploadResult.url, file.name, replyPayload, undefined, messageTiming || undefined);
           setReplyTo(null);
+          setMessageTiming(null);
           Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
         } catch (error) {
           console.error("Failed to upload file:", error);
@@ -379,7 +521,7 @@ export default function ChatScreen() {
     } catch (error) {
       console.error("Error picking document:", error);
     }
-  }, [matchId, sendMessage, replyTo, user?.id, match?.matchedUser.name]);
+  }, [matchId, sendMessage, replyTo, messageTiming, user?.id, match?.matchedUser.name]);
 
   const startRecording = useCallback(async () => {
         if (isRecording || recordingRef.current) {
@@ -443,7 +585,7 @@ export default function ChatScreen() {
       if (!uri) return;
       setIsSending(true);
       setUploadLabel("Uploading audio...");
-      const uploadResult = await uploadAudio(uri, `voice_${Date.now()}.m4a`);
+      const uploadResult = await uploadAudio(uri, `voice_${Date.now()}.m4a`, session?.sessionToken);
       const replyPayload = replyTo
         ? {
             id: replyTo.id,
@@ -451,8 +593,9 @@ export default function ChatScreen() {
             senderName: replyTo.senderId === user?.id ? "You" : (match?.matchedUser.name || "User"),
           }
         : undefined;
-      await sendMessage(matchId, "Voice message", "audio", undefined, undefined, uploadResult.url, "voice.m4a", replyPayload, durationSeconds);
+      await sendMessage(matchId, "Voice message", "audio", undefined, undefined, uploadResult.url, "voice.m4a", replyPayload, durationSeconds, messageTiming || undefined);
       setReplyTo(null);
+      setMessageTiming(null);
     } catch (error) {
       console.error("Failed to stop recording:", error);
       showAlert({ type: "error", title: "Recording Failed", message: "Could not save the audio." });
@@ -460,7 +603,7 @@ export default function ChatScreen() {
       setIsSending(false);
       setUploadLabel(null);
     }
-  }, [matchId, sendMessage, replyTo, user?.id, match?.matchedUser.name]);
+  }, [matchId, sendMessage, replyTo, messageTiming, user?.id, match?.matchedUser.name]);
 
   const clearAudioInterval = useCallback(() => {
     if (audioProgressIntervalRef.current) {
@@ -725,7 +868,7 @@ export default function ChatScreen() {
 
       return (
         <Animated.View
-          entering={FadeInUp.delay(index * 50).springify()}
+          entering={FadeInUp.delay(Math.min(index, 10) * 50).springify()}
           style={[
             styles.messageContainer,
             isOwnMessage ? styles.ownMessage : styles.otherMessage,
@@ -758,14 +901,20 @@ export default function ChatScreen() {
                   isOwnMessage
                     ? [styles.ownBubble, { backgroundColor: AppColors.primary }]
                     : [styles.otherBubble, { backgroundColor: theme.cardBackground }],
+                  item.id === highlightedMessageId && styles.highlightedBubble,
+                  item.status === "scheduled" && styles.scheduledBubble,
                 ]}
               >
                 {item.replyTo ? (
-                  <View style={[styles.replyPreview, { backgroundColor: isOwnMessage ? "rgba(255,255,255,0.12)" : theme.backgroundSecondary }]}>
+                  <Pressable
+                    style={[styles.replyPreview, { backgroundColor: isOwnMessage ? "rgba(255,255,255,0.12)" : theme.backgroundSecondary }]}
+                    onPress={() => item.replyTo && jumpToMessage(item.replyTo.id)}
+                    testID={`button-jump-to-reply-${item.id}`}
+                  >
                     <ThemedText style={styles.replyText} numberOfLines={2}>
                       {(item.replyTo.senderName || "User") + ": " + item.replyTo.content}
                     </ThemedText>
-                  </View>
+                  </Pressable>
                 ) : null}
               {renderMessageContent(item, isOwnMessage)}
               {item.reactions && Object.keys(item.reactions).length > 0 ? (
@@ -787,19 +936,50 @@ export default function ChatScreen() {
               ) : null}
               {isOwnMessage ? (
                 <View style={styles.messageFooter}>
+                  {item.expiresAt ? (
+                    <View style={styles.timingBadge}>
+                      <Icon name="clock" size={10} color="rgba(255,255,255,0.7)" />
+                      <ThemedText style={styles.editedText}>{formatExpiresIn(item.expiresAt)}</ThemedText>
+                    </View>
+                  ) : null}
                   {item.editedAt ? (
                     <ThemedText style={styles.editedText}>edited</ThemedText>
                   ) : null}
-                  <MessageTicks status={item.status} />
+                  {item.status === "scheduled" && item.sendAt ? (
+                    <ThemedText style={styles.editedText}>Scheduled for {formatScheduledTime(item.sendAt)}</ThemedText>
+                  ) : (
+                    <MessageTicks status={item.status} />
+                  )}
+                </View>
+              ) : item.expiresAt ? (
+                <View style={styles.messageFooter}>
+                  <View style={styles.timingBadge}>
+                    <Icon name="clock" size={10} color={theme.textSecondary} />
+                    <ThemedText style={[styles.editedText, { color: theme.textSecondary }]}>{formatExpiresIn(item.expiresAt)}</ThemedText>
+                  </View>
                 </View>
               ) : null}
               </View>
             </Pressable>
           </Swipeable>
+          {history?.gapAfterIds.includes(item.id) ? (
+            <Pressable
+              style={[styles.loadGapButton, { backgroundColor: theme.cardBackground }]}
+              onPress={() => handleLoadGap(item.id)}
+              disabled={loadingGapId === item.id}
+              testID={`button-load-newer-${item.id}`}
+            >
+              {loadingGapId === item.id ? (
+                <ActivityIndicator size="small" color={AppColors.primary} />
+              ) : (
+                <ThemedText style={[styles.loadGapText, { color: AppColors.primary }]}>Load newer messages</ThemedText>
+              )}
+            </Pressable>
+          ) : null}
         </Animated.View>
       );
     },
-    [user?.id, theme, chatMessages, handleLongPress, renderMessageContent, handleReaction, replyTo, playingAudioId]
+    [user?.id, theme, chatMessages, handleLongPress, renderMessageContent, handleReaction, replyTo, playingAudioId, highlightedMessageId, history, loadingGapId, handleLoadGap, jumpToMessage]
   );
 
   const EmptyChat = () => (
@@ -837,10 +1017,19 @@ export default function ChatScreen() {
 
       <FlatList
         ref={flatListRef}
-        data={chatMessages.toReversed()}
+        data={reversedMessages}
         renderItem={renderMessage}
         keyExtractor={(item) => item.id}
+        onScrollToIndexFailed={(info) => {
+          flatListRef.current?.scrollToOffset({ offset: info.averageItemLength * info.index, animated: false });
+          setTimeout(() => flatListRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 }), 100);
+        }}
         inverted={chatMessages.length > 0}
+        onEndReached={handleLoadOlder}
+        onEndReachedThreshold={0.3}
+        ListFooterComponent={
+          isLoadingOlder ? <ActivityIndicator style={styles.loadingOlder} color={AppColors.primary} /> : null
+        }
         contentContainerStyle={[
           styles.listContent,
           { paddingBottom: headerHeight + Spacing.lg + 10, paddingTop: Spacing.md },
@@ -871,7 +1060,15 @@ export default function ChatScreen() {
             <ThemedText style={styles.chatHeaderName} numberOfLines={1}>
               {matchedUser?.name || route.params.matchName}
             </ThemedText>
-            {matchedUser?.location ? (
+            {typingUserIds.length > 0 ? (
+              <ThemedText style={[styles.chatHeaderLocation, { color: AppColors.primary }]} numberOfLines={1}>
+                typing...
+              </ThemedText>
+            ) : presenceLabel ? (
+              <ThemedText style={styles.chatHeaderLocation} numberOfLines={1}>
+                {presenceLabel}
+              </ThemedText>
+            ) : matchedUser?.location ? (
               <ThemedText style={styles.chatHeaderLocation} numberOfLines={1}>
                 {matchedUser.location}
               </ThemedText>
@@ -880,6 +1077,8 @@ export default function ChatScreen() {
         </Pressable>
       </View>
 
+      <VerifyEmailBanner action="send messages" />
+
       <View
         style={[
           styles.inputContainer,
@@ -901,6 +1100,17 @@ export default function ChatScreen() {
             <ThemedText style={styles.recordingText}>Recording...</ThemedText>
           </View>
         ) : null}
+        {messageTiming ? (
+          <View style={[styles.timingPill, { backgroundColor: theme.cardBackground }]}>
+            <Icon name="clock" size={14} color={AppColors.primary} />
+            <ThemedText style={[styles.timingText, { color: theme.text }]} numberOfLines={1}>
+              {describeMessageTiming(messageTiming)}
+            </ThemedText>
+            <Pressable onPress={() => setMessageTiming(null)} hitSlop={8} testID="button-clear-message-timing">
+              <Icon name="x" size={16} color={theme.textSecondary} />
+            </Pressable>
+          </View>
+        ) : null}
         {replyTo ? (
           <View style={styles.replyBar}>
             <View style={styles.replyBarLeft} />
@@ -931,12 +1141,22 @@ export default function ChatScreen() {
           >
             <Icon name="plus" size={20} color={AppColors.primary} />
           </Pressable>
+          <Pressable
+            onPress={() => setShowTimingModal(true)}
+            style={[
+              styles.attachButton,
+              { backgroundColor: messageTiming ? AppColors.primary : theme.backgroundSecondary },
+            ]}
+            testID="button-message-timing"
+          >
+            <Icon name="clock" size={18} color={messageTiming ? "#FFFFFF" : AppColors.primary} />
+          </Pressable>
           <TextInput
             style={[styles.input, { color: theme.text }]}
             placeholder="Type a message..."
             placeholderTextColor={theme.textSecondary}
             value={inputText}
-            onChangeText={setInputText}
+            onChangeText={handleChangeText}
             multiline
             maxLength={500}
             testID="input-message"
@@ -1016,6 +1236,14 @@ export default function ChatScreen() {
                   <ThemedText style={[styles.menuItemText, { color: theme.danger }]}>Delete Message</ThemedText>
                 </Pressable>
               </>
+            ) : selectedMessage ? (
+              <>
+                <View style={[styles.menuDivider, { backgroundColor: theme.border }]} />
+                <Pressable style={styles.menuItem} onPress={handleReportMessage} testID="button-report-message">
+                  <Icon name="flag" size={20} color={theme.danger} />
+                  <ThemedText style={[styles.menuItemText, { color: theme.danger }]}>Report Message</ThemedText>
+                </Pressable>
+              </>
             ) : null}
           </View>
         </Pressable>
@@ -1069,6 +1297,13 @@ export default function ChatScreen() {
         onSelectFile={handleSelectFile}
       />
 
+      <MessageTimingModal
+        visible={showTimingModal}
+        timing={messageTiming}
+        onClose={() => setShowTimingModal(false)}
+        onApply={setMessageTiming}
+      />
+
       <PhotoPickerModal
         visible={showPhotoModal}
         onClose={() => setShowPhotoModal(false)}
@@ -1255,9 +1490,43 @@ export default function ChatScreen() {
                 </View>
               </View>
             ) : null}
+            {match ? (
+              <View style={styles.profileModalActions}>
+                <Pressable
+                  style={[styles.profileModalAction, { backgroundColor: theme.backgroundSecondary }]}
+                  onPress={() => {
+                    setShowProfileModal(false);
+                    setReportMessageIds([]);
+                  }}
+                  testID="button-report-user"
+                >
+                  <Icon name="flag" size={18} color={theme.danger} />
+                  <ThemedText style={[styles.profileModalActionText, { color: theme.danger }]}>Report</ThemedText>
+                </Pressable>
+                <Pressable
+                  style={[styles.profileModalAction, { backgroundColor: theme.backgroundSecondary }]}
+                  onPress={handleBlock}
+                  testID="button-block-user"
+                >
+                  <Icon name="x-circle" size={18} color={theme.danger} />
+                  <ThemedText style={[styles.profileModalActionText, { color: theme.danger }]}>Block</ThemedText>
+                </Pressable>
+              </View>
+            ) : null}
           </ScrollView>
         </View>
       </Modal>
+
+      {match ? (
+        <ReportUserModal
+          visible={reportMessageIds !== null}
+          reportedUserId={match.matchedUserId}
+          reportedUserName={match.matchedUser.name || "this user"}
+          messageIds={reportMessageIds || undefined}
+          onClose={() => setReportMessageIds(null)}
+          onSubmit={handleSubmitReport}
+        />
+      ) : null}
     </KeyboardAvoidingView>
   );
 }
@@ -1311,6 +1580,26 @@ const styles = StyleSheet.create({
   ownBubble: {
     borderBottomLeftRadius: Spacing.xs,
   },
+  highlightedBubble: {
+    borderWidth: 2,
+    borderColor: AppColors.sunsetGold,
+  },
+  loadGapButton: {
+    alignSelf: "center",
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    minHeight: 28,
+    justifyContent: "center",
+  },
+  loadGapText: {
+    fontSize: 13,
+    fontWeight: "600",
+  },
+  loadingOlder: {
+    marginVertical: Spacing.md,
+  },
   otherBubble: {
     borderBottomRightRadius: Spacing.xs,
   },
@@ -1331,6 +1620,30 @@ const styles = StyleSheet.create({
     color: "rgba(255,255,255,0.6)",
     fontStyle: "italic",
   },
+  timingBadge: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 2,
+  },
+  scheduledBubble: {
+    opacity: 0.7,
+  },
+  timingPill: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.xs,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginBottom: 8,
+    alignSelf: "center",
+    maxWidth: "90%",
+  },
+  timingText: {
+    fontSize: 12,
+    fontWeight: "600",
+    flexShrink: 1,
+  },
   ticksContainer: {
     flexDirection: "row",
     alignItems: "center",
@@ -1873,6 +2186,24 @@ const styles = StyleSheet.create({
     flexWrap: "wrap",
     gap: 8,
   },
+  profileModalActions: {
+    flexDirection: "row",
+    gap: Spacing.md,
+    marginTop: Spacing.xl,
+  },
+  profileModalAction: {
+    flex: 1,
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: Spacing.sm,
+    paddingVertical: Spacing.md,
+    borderRadius: BorderRadius.md,
+  },
+  profileModalActionText: {
+    fontSize: 15,
+    fontWeight: "600",
+  },
   profileModalTag: {
     paddingHorizontal: 12,
     paddingVertical: 6,
@@ -203,7 +203,7 @@ function BookingModal({
   onSuccess: () => void;
 }) {
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { showAlert } = useAlert();
   const insets = useSafeAreaInsets();
   const [selectedDuration, setSelectedDuration] = useState(60);
@@ -240,9 +240,11 @@ function BookingModal({
       }
 
       const baseUrl = getApiUrl();
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
       const response = await fetch(new URL("/api/consultations/book", baseUrl).toString(), {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers,
         body: JSON.stringify({
           userId: user.id,
           expertId: expert.user_id,
@@ -492,7 +494,7 @@ function BookingModal({
 
 export default function ExpertMarketplaceScreen() {
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { showAlert: showAlertMain } = useAlert();
   const navigation = useNavigation<any>();
   const headerHeight = useHeaderHeight();
@@ -529,7 +531,9 @@ export default function ExpertMarketplaceScreen() {
     if (!user?.id) return;
     try {
       const baseUrl = getApiUrl();
-      const response = await fetch(new URL(`/api/expert/status/${user.id}`, baseUrl).toString());
+      const headers: Record<string, string> = {};
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
+      const response = await fetch(new URL(`/api/expert/status/${user.id}`, baseUrl).toString(), { headers });
       const data = await response.json();
       if (data.application) {
         setHasApplication(true);
@@ -46,12 +46,14 @@ const scoreStyles = StyleSheet.create({
 export default function ExpertStatusScreen({ navigation }: any) {
   const { theme } = useTheme();
   const insets = useSafeAreaInsets();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
 
   const { data, isLoading, refetch } = useQuery({
     queryKey: ["/api/expert/status", user?.id],
     queryFn: async () => {
-      const res = await fetch(new URL(`/api/expert/status/${user?.id}`, getApiUrl()).toString());
+      const headers: Record<string, string> = {};
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
+      const res = await fetch(new URL(`/api/expert/status/${user?.id}`, getApiUrl()).toString(), { headers });
       return res.json();
     },
     enabled: !!user?.id,
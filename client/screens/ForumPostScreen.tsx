@@ -0,0 +1,610 @@
+import React, { useState, useEffect, useCallback, useMemo } from "react";
+import { StyleSheet, View, FlatList, TextInput, Pressable, RefreshControl } from "react-native";
+import { useSafeAreaInsets } from "react-native-safe-area-context";
+import { useHeaderHeight } from "@react-navigation/elements";
+import { KeyboardAvoidingView } from "react-native-keyboard-controller";
+import { useRoute, RouteProp } from "@react-navigation/native";
+import { Image } from "expo-image";
+import * as Haptics from "expo-haptics";
+
+import { ThemedText } from "@/components/ThemedText";
+import { Icon } from "@/components/Icon";
+import { CATEGORY_COLORS, CATEGORY_LABELS } from "@/components/ForumPostCard";
+import { useTheme } from "@/hooks/useTheme";
+import { useAuth } from "@/context/AuthContext";
+import { useAlert } from "@/context/AlertContext";
+import { useData } from "@/context/DataContext";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { ForumComment, ForumPost, ForumVote } from "@/types";
+import { getApiUrl } from "@/lib/query-client";
+import { AppColors, Spacing, BorderRadius } from "@/constants/theme";
+
+type ForumPostRouteProp = RouteProp<RootStackParamList, "ForumPost">;
+
+const MAX_COMMENT_LENGTH = 5000;
+const INDENT_PER_DEPTH = 14;
+
+// Orders a flat comment list depth-first so every reply sits under its parent. Replies whose parent is not visible show at the top level.
+function orderCommentThread(comments: ForumComment[]): ForumComment[] {
+  const ids = new Set(comments.map((c) => c.id));
+  const children = new Map<string, ForumComment[]>();
+  const roots: ForumComment[] = [];
+  for (const comment of comments) {
+    if (comment.parentId && ids.has(comment.parentId)) {
+      children.set(comment.parentId, [...(children.get(comment.parentId) || []), comment]);
+    } else {
+      roots.push(comment);
+    }
+  }
+
+  const ordered: ForumComment[] = [];
+  const visit = (comment: ForumComment) => {
+    ordered.push(comment);
+    (children.get(comment.id) || []).forEach(visit);
+  };
+  roots.forEach(visit);
+  return ordered;
+}
+
+function formatCommentTime(dateString: string): string {
+  const diffMinutes = Math.floor((Date.now() - new Date(dateString).getTime()) / 60000);
+  if (diffMinutes < 1) return "now";
+  if (diffMinutes < 60) return `${diffMinutes}m`;
+  if (diffMinutes < 60 * 24) return `${Math.floor(diffMinutes / 60)}h`;
+  if (diffMinutes < 60 * 24 * 7) return `${Math.floor(diffMinutes / (60 * 24))}d`;
+  return new Date(dateString).toLocaleDateString();
+}
+
+export default function ForumPostScreen() {
+  const route = useRoute<ForumPostRouteProp>();
+  const { postId } = route.params;
+  const insets = useSafeAreaInsets();
+  const headerHeight = useHeaderHeight();
+  const { theme } = useTheme();
+  const { user, session } = useAuth();
+  const { showAlert } = useAlert();
+  const { forumPosts, votePost, setForumCommentCount } = useData();
+
+  const listedPost = forumPosts.find((p) => p.id === postId) || null;
+  const [fetchedPost, setFetchedPost] = useState<ForumPost | null>(null);
+  const post = listedPost || fetchedPost;
+  const [comments, setComments] = useState<ForumComment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [draft, setDraft] = useState("");
+  const [replyTo, setReplyTo] = useState<ForumComment | null>(null);
+  const [editing, setEditing] = useState<ForumComment | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const authHeaders = useCallback((json = false) => {
+    const headers: Record<string, string> = {};
+    if (json) {
+      headers["Content-Type"] = "application/json";
+    }
+    if (session?.sessionToken) {
+      headers.Authorization = `Bearer ${session.sessionToken}`;
+    }
+    return headers;
+  }, [session?.sessionToken]);
+
+  const fetchComments = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch(new URL(`/api/forum/posts/${postId}/comments`, getApiUrl()).toString(), {
+        headers: authHeaders(),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      setComments(await response.json());
+    } catch (error) {
+      console.error("Failed to load comments:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [postId, authHeaders]);
+
+  useEffect(() => {
+    fetchComments();
+  }, [fetchComments]);
+
+  // Posts opened from outside the loaded list (e.g. a shared link) are fetched on their own.
+  useEffect(() => {
+    if (listedPost) return;
+    fetch(new URL(`/api/forum/posts/${postId}`, getApiUrl()).toString(), { headers: authHeaders() })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((row) => {
+        if (!row) return;
+        setFetchedPost({
+          id: row.id,
+          title: row.title,
+          content: row.content || "",
+          authorId: row.author_id,
+          author: row.author_data || { id: row.author_id, name: "Nomad", photos: [] },
+          category: row.category || "general",
+          upvotes: row.upvotes || 0,
+          downvotes: row.downvotes || 0,
+          score: row.score || 0,
+          myVote: row.my_vote === 1 || row.my_vote === -1 ? row.my_vote : 0,
+          commentCount: row.comment_count || 0,
+          createdAt: row.created_at,
+        });
+      })
+      .catch((error) => console.error("Failed to load post:", error));
+  }, [postId, listedPost, authHeaders]);
+
+  const handleVotePost = async (value: ForumVote) => {
+    if (!post) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    const updated = await votePost(post.id, value);
+    if (updated && !listedPost) {
+      setFetchedPost((prev) => (prev ? { ...prev, upvotes: updated.upvotes, downvotes: updated.downvotes, score: updated.score, myVote: updated.myVote } : prev));
+    }
+  };
+
+  const orderedComments = useMemo(() => orderCommentThread(comments), [comments]);
+
+  const resetComposer = () => {
+    setDraft("");
+    setReplyTo(null);
+    setEditing(null);
+  };
+
+  const handleSubmit = async () => {
+    const content = draft.trim();
+    if (!content || !user || isSubmitting) return;
+    setIsSubmitting(true);
+
+    try {
+      const response = editing
+        ? await fetch(new URL(`/api/forum/comments/${editing.id}`, getApiUrl()).toString(), {
+            method: "PUT",
+            headers: authHeaders(true),
+            body: JSON.stringify({ userId: user.id, content }),
+          })
+        : await fetch(new URL(`/api/forum/posts/${postId}/comments`, getApiUrl()).toString(), {
+            method: "POST",
+            headers: authHeaders(true),
+            body: JSON.stringify({
+              authorId: user.id,
+              authorData: { id: user.id, name: user.name, photos: user.photos || [] },
+              content,
+              parentId: replyTo?.id,
+            }),
+          });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        showAlert({ type: "error", title: "Comment Failed", message: data.error || "Could not save your comment." });
+        return;
+      }
+
+      const saved: ForumComment = data.comment;
+      setComments((prev) => (editing ? prev.map((c) => (c.id === saved.id ? saved : c)) : [...prev, saved]));
+      setForumCommentCount(postId, data.commentCount);
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      resetComposer();
+      if (saved.moderationStatus !== "visible") {
+        showAlert({
+          type: "info",
+          title: "Comment Under Review",
+          message: "Only you can see this comment until a moderator has checked it.",
+        });
+      }
+    } catch (error) {
+      console.error("Failed to save comment:", error);
+      showAlert({ type: "error", title: "Comment Failed", message: "Could not save your comment." });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleUpvoteComment = async (comment: ForumComment) => {
+    if (!user || comment.isDeleted) return;
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+    try {
+      const response = await fetch(new URL(`/api/forum/comments/${comment.id}/upvote`, getApiUrl()).toString(), {
+        method: "POST",
+        headers: authHeaders(true),
+        body: JSON.stringify({ userId: user.id }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const updated: ForumComment = await response.json();
+      setComments((prev) => prev.map((c) => (c.id === updated.id ? updated : c)));
+    } catch (error) {
+      console.error("Failed to upvote comment:", error);
+    }
+  };
+
+  const handleDeleteComment = (comment: ForumComment) => {
+    if (!user) return;
+    showAlert({
+      type: "confirm",
+      title: "Delete Comment?",
+      message: "Replies to this comment will stay in the thread.",
+      buttons: [
+        { text: "Cancel", style: "cancel" },
+        {
+          text: "Delete",
+          style: "destructive",
+          onPress: async () => {
+            try {
+              const deleteUrl = new URL(`/api/forum/comments/${comment.id}`, getApiUrl());
+              deleteUrl.searchParams.set("userId", user.id);
+              const response = await fetch(deleteUrl.toString(), { method: "DELETE", headers: authHeaders() });
+              const data = await response.json().catch(() => ({}));
+              if (!response.ok) throw new Error(data.error || `HTTP ${response.status}`);
+              setComments((prev) =>
+                prev.map((c) => (c.id === comment.id ? { ...c, isDeleted: true, content: "", author: undefined, authorId: undefined } : c))
+              );
+              setForumCommentCount(postId, data.commentCount);
+              if (editing?.id === comment.id || replyTo?.id === comment.id) resetComposer();
+            } catch (error) {
+              console.error("Failed to delete comment:", error);
+              showAlert({ type: "error", title: "Delete Failed", message: "Could not delete this comment." });
+            }
+          },
+        },
+      ],
+    });
+  };
+
+  const startReply = (comment: ForumComment) => {
+    setEditing(null);
+    setReplyTo(comment);
+  };
+
+  const startEdit = (comment: ForumComment) => {
+    setReplyTo(null);
+    setEditing(comment);
+    setDraft(comment.content);
+  };
+
+  const renderHeader = () => {
+    if (!post) return null;
+    const authorPhotoUrl = post.author.photos?.[0] || null;
+    return (
+      <View style={[styles.postCard, { backgroundColor: theme.cardBackground }]}>
+        <View style={[styles.categoryBadge, { backgroundColor: CATEGORY_COLORS[post.category] }]}>
+          <ThemedText style={styles.categoryText}>{CATEGORY_LABELS[post.category]}</ThemedText>
+        </View>
+        <ThemedText type="h3" style={styles.postTitle}>
+          {post.title}
+        </ThemedText>
+        <View style={styles.authorRow}>
+          <Image
+            source={authorPhotoUrl ? { uri: authorPhotoUrl } : require("../../assets/images/default-avatar.png")}
+            style={styles.authorAvatar}
+            contentFit="cover"
+          />
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {post.author.name} · {new Date(post.createdAt).toLocaleDateString()}
+          </ThemedText>
+        </View>
+        <ThemedText type="body" style={styles.postContent}>
+          {post.content}
+        </ThemedText>
+        <View style={styles.postStats}>
+          <View style={styles.statButton}>
+            <Pressable onPress={() => handleVotePost(post.myVote === 1 ? 0 : 1)} hitSlop={6} testID="button-upvote-post">
+              <Icon name="arrow-up" size={18} color={post.myVote === 1 ? AppColors.primary : theme.textSecondary} />
+            </Pressable>
+            <ThemedText style={[styles.statValue, styles.scoreValue, { color: post.myVote !== 0 ? AppColors.primary : theme.textSecondary }]}>
+              {post.score}
+            </ThemedText>
+            <Pressable onPress={() => handleVotePost(post.myVote === -1 ? 0 : -1)} hitSlop={6} testID="button-downvote-post">
+              <Icon name="arrow-down" size={18} color={post.myVote === -1 ? AppColors.primary : theme.textSecondary} />
+            </Pressable>
+          </View>
+          <View style={styles.statButton}>
+            <Icon name="message-circle" size={18} color={theme.textSecondary} />
+            <ThemedText style={[styles.statValue, { color: theme.textSecondary }]}>
+              {post.commentCount === 1 ? "1 comment" : `${post.commentCount} comments`}
+            </ThemedText>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  const renderComment = ({ item }: { item: ForumComment }) => {
+    const isOwn = !!user && item.authorId === user.id;
+    return (
+      <View
+        style={[
+          styles.comment,
+          { marginLeft: item.depth * INDENT_PER_DEPTH },
+          item.depth > 0 && { borderLeftColor: theme.border, borderLeftWidth: 2 },
+        ]}
+        testID={`forum-comment-${item.id}`}
+      >
+        <View style={styles.commentHeader}>
+          <ThemedText type="small" style={styles.commentAuthor}>
+            {item.isDeleted ? "Deleted" : isOwn ? "You" : item.author?.name || "Nomad"}
+          </ThemedText>
+          <ThemedText type="small" style={{ color: theme.textSecondary }}>
+            {formatCommentTime(item.createdAt)}
+            {item.isEdited && !item.isDeleted ? " · edited" : ""}
+            {item.moderationStatus === "held" ? " · pending review" : ""}
+            {item.moderationStatus === "hidden" ? " · hidden by moderation" : ""}
+          </ThemedText>
+        </View>
+
+        {item.isDeleted ? (
+          <ThemedText style={[styles.deletedText, { color: theme.textSecondary }]}>This comment was deleted</ThemedText>
+        ) : (
+          <ThemedText type="body" style={styles.commentContent}>
+            {item.content}
+          </ThemedText>
+        )}
+
+        {!item.isDeleted ? (
+          <View style={styles.commentActions}>
+            <Pressable onPress={() => handleUpvoteComment(item)} style={styles.commentAction} hitSlop={6}>
+              <Icon name="arrow-up" size={14} color={item.hasUpvoted ? AppColors.primary : theme.textSecondary} />
+              <ThemedText
+                type="small"
+                style={[styles.commentActionText, { color: item.hasUpvoted ? AppColors.primary : theme.textSecondary }]}
+              >
+                {item.upvotes}
+              </ThemedText>
+            </Pressable>
+            <Pressable onPress={() => startReply(item)} style={styles.commentAction} hitSlop={6}>
+              <Icon name="corner-up-left" size={14} color={theme.textSecondary} />
+              <ThemedText type="small" style={[styles.commentActionText, { color: theme.textSecondary }]}>
+                Reply
+              </ThemedText>
+            </Pressable>
+            {isOwn ? (
+              <>
+                <Pressable onPress={() => startEdit(item)} style={styles.commentAction} hitSlop={6}>
+                  <Icon name="edit-2" size={14} color={theme.textSecondary} />
+                  <ThemedText type="small" style={[styles.commentActionText, { color: theme.textSecondary }]}>
+                    Edit
+                  </ThemedText>
+                </Pressable>
+                <Pressable onPress={() => handleDeleteComment(item)} style={styles.commentAction} hitSlop={6}>
+                  <Icon name="trash-2" size={14} color={theme.textSecondary} />
+                  <ThemedText type="small" style={[styles.commentActionText, { color: theme.textSecondary }]}>
+                    Delete
+                  </ThemedText>
+                </Pressable>
+              </>
+            ) : null}
+          </View>
+        ) : null}
+      </View>
+    );
+  };
+
+  const composerTarget = editing
+    ? { title: "Editing comment", text: editing.content }
+    : replyTo
+      ? { title: `Replying to ${replyTo.authorId === user?.id ? "yourself" : replyTo.author?.name || "Nomad"}`, text: replyTo.content }
+      : null;
+
+  return (
+    <KeyboardAvoidingView
+      style={[styles.container, { backgroundColor: theme.backgroundRoot }]}
+      behavior="padding"
+      keyboardVerticalOffset={0}
+    >
+      <FlatList
+        data={orderedComments}
+        renderItem={renderComment}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={
+          !isLoading ? (
+            <ThemedText style={[styles.emptyText, { color: theme.textSecondary }]}>
+              No comments yet. Start the conversation!
+            </ThemedText>
+          ) : null
+        }
+        contentContainerStyle={[styles.listContent, { paddingTop: headerHeight + Spacing.md }]}
+        refreshControl={<RefreshControl refreshing={isLoading} onRefresh={fetchComments} tintColor={theme.text} />}
+        keyboardShouldPersistTaps="handled"
+      />
+
+      {user ? (
+        <View
+          style={[
+            styles.inputContainer,
+            {
+              backgroundColor: theme.backgroundRoot,
+              borderTopColor: theme.border,
+              paddingBottom: insets.bottom > 0 ? insets.bottom : Spacing.lg,
+            },
+          ]}
+        >
+          {composerTarget ? (
+            <View style={styles.replyBar}>
+              <View style={styles.replyBarLeft} />
+              <View style={styles.replyBarContent}>
+                <ThemedText style={styles.replyBarTitle}>{composerTarget.title}</ThemedText>
+                <ThemedText style={styles.replyBarText} numberOfLines={1}>
+                  {composerTarget.text}
+                </ThemedText>
+              </View>
+              <Pressable onPress={resetComposer} hitSlop={8}>
+                <Icon name="x" size={16} color={theme.textSecondary} />
+              </Pressable>
+            </View>
+          ) : null}
+          <View style={[styles.inputWrapper, { backgroundColor: theme.backgroundSecondary }]}>
+            <TextInput
+              style={[styles.input, { color: theme.text }]}
+              placeholder={replyTo ? "Write a reply..." : "Add a comment..."}
+              placeholderTextColor={theme.textSecondary}
+              value={draft}
+              onChangeText={setDraft}
+              multiline
+              maxLength={MAX_COMMENT_LENGTH}
+              testID="input-forum-comment"
+            />
+            <Pressable
+              onPress={handleSubmit}
+              disabled={!draft.trim() || isSubmitting}
+              style={[
+                styles.sendButton,
+                { backgroundColor: draft.trim() ? AppColors.primary : theme.backgroundTertiary },
+              ]}
+              testID="button-send-comment"
+            >
+              <Icon name={editing ? "check" : "send"} size={18} color={draft.trim() ? "#FFFFFF" : theme.textSecondary} />
+            </Pressable>
+          </View>
+        </View>
+      ) : null}
+    </KeyboardAvoidingView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingHorizontal: Spacing.lg,
+    paddingBottom: Spacing.xl,
+  },
+  postCard: {
+    padding: Spacing.lg,
+    borderRadius: BorderRadius.lg,
+    marginBottom: Spacing.lg,
+  },
+  categoryBadge: {
+    alignSelf: "flex-start",
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+    marginBottom: Spacing.md,
+  },
+  categoryText: {
+    fontSize: 12,
+    fontWeight: "700",
+    color: "#FFFFFF",
+    textTransform: "uppercase",
+  },
+  postTitle: {
+    marginBottom: Spacing.sm,
+  },
+  authorRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    marginBottom: Spacing.lg,
+  },
+  authorAvatar: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    marginRight: Spacing.xs,
+  },
+  postContent: {
+    lineHeight: 26,
+  },
+  postStats: {
+    flexDirection: "row",
+    marginTop: Spacing.xl,
+    gap: Spacing["2xl"],
+  },
+  statButton: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  statValue: {
+    marginLeft: Spacing.sm,
+    fontWeight: "500",
+  },
+  scoreValue: {
+    marginRight: Spacing.sm,
+  },
+  comment: {
+    paddingLeft: Spacing.md,
+    paddingVertical: Spacing.sm,
+  },
+  commentHeader: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.xs,
+  },
+  commentAuthor: {
+    fontWeight: "600",
+  },
+  commentContent: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  deletedText: {
+    fontSize: 14,
+    fontStyle: "italic",
+  },
+  commentActions: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.lg,
+    marginTop: Spacing.xs,
+  },
+  commentAction: {
+    flexDirection: "row",
+    alignItems: "center",
+  },
+  commentActionText: {
+    marginLeft: 4,
+    fontWeight: "500",
+  },
+  emptyText: {
+    textAlign: "center",
+    marginTop: Spacing.xl,
+  },
+  inputContainer: {
+    paddingTop: Spacing.md,
+    paddingHorizontal: Spacing.lg,
+    borderTopWidth: 1,
+  },
+  replyBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    marginBottom: Spacing.sm,
+    paddingHorizontal: Spacing.sm,
+    paddingVertical: Spacing.sm,
+    backgroundColor: "rgba(255,140,66,0.1)",
+    borderRadius: 10,
+  },
+  replyBarLeft: {
+    width: 3,
+    height: 32,
+    backgroundColor: AppColors.primary,
+    borderRadius: 999,
+  },
+  replyBarContent: {
+    flex: 1,
+  },
+  replyBarTitle: {
+    fontSize: 12,
+    fontWeight: "600",
+    color: AppColors.primary,
+  },
+  replyBarText: {
+    fontSize: 13,
+  },
+  inputWrapper: {
+    flexDirection: "row",
+    alignItems: "flex-end",
+    borderRadius: BorderRadius.lg,
+    paddingLeft: Spacing.md,
+    paddingRight: Spacing.xs,
+    paddingVertical: Spacing.xs,
+  },
+  input: {
+    flex: 1,
+    fontSize: 15,
+    maxHeight: 120,
+    paddingVertical: Spacing.sm,
+  },
+  sendButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: "center",
+    justifyContent: "center",
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState } from "react";
+import React, { useState, useEffect } from "react";
 import {
   StyleSheet,
   View,
@@ -7,10 +7,14 @@ import {
   Pressable,
   Modal,
   ScrollView,
+  TextInput,
+  ActivityIndicator,
 } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
+import { useNavigation } from "@react-navigation/native";
+import { NativeStackNavigationProp } from "@react-navigation/native-stack";
 import { Icon } from "@/components/Icon";
 import * as Haptics from "expo-haptics";
 import Animated, { FadeInDown } from "react-native-reanimated";
@@ -23,7 +27,9 @@ import { Input } from "@/components/Input";
 import { useTheme } from "@/hooks/useTheme";
 import { useData } from "@/context/DataContext";
 import { useAuth } from "@/context/AuthContext";
-import { ForumPost } from "@/types";
+import { useAlert } from "@/context/AlertContext";
+import { RootStackParamList } from "@/navigation/RootStackNavigator";
+import { ForumPost, ForumSort, ForumVote } from "@/types";
 import { AppColors, Spacing, BorderRadius, GradientPresets } from "@/constants/theme";
 import { LinearGradient } from "expo-linear-gradient";
 
@@ -36,45 +42,85 @@ const CATEGORIES: { category: ForumPost["category"]; label: string; color: strin
   { category: "general", label: "General", color: "#607D8B", icon: "message-circle" },
 ];
 
-type SortOption = "recent" | "popular" | "trending";
+const SORT_TABS: { sort: ForumSort; label: string; icon: string }[] = [
+  { sort: "hot", label: "Hot", icon: "zap" },
+  { sort: "top_week", label: "Top this week", icon: "trending-up" },
+  { sort: "new", label: "New", icon: "clock" },
+  { sort: "unanswered", label: "Unanswered", icon: "help-circle" },
+];
+
+const SEARCH_DEBOUNCE_MS = 400;
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
 export default function ForumScreen() {
   const insets = useSafeAreaInsets();
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
+  const navigation = useNavigation<NavigationProp>();
   const { theme, isDark } = useTheme();
-  const { forumPosts, isLoading, refreshData, createForumPost, upvotePost } = useData();
+  const { forumPosts, forumQuery, forumHasMore, loadForumPosts, loadMoreForumPosts, createForumPost, votePost } = useData();
   const { isAuthenticated } = useAuth();
+  const { showAlert } = useAlert();
 
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [showDetailModal, setShowDetailModal] = useState(false);
-  const [selectedPost, setSelectedPost] = useState<ForumPost | null>(null);
-  const [selectedFilter, setSelectedFilter] = useState<ForumPost["category"] | "all">("all");
-  const [sortBy, setSortBy] = useState<SortOption>("recent");
+  const [searchText, setSearchText] = useState(forumQuery.search || "");
+  const [isRefreshing, setIsRefreshing] = useState(false);
   const [newPost, setNewPost] = useState({
     title: "",
     content: "",
     category: "general" as ForumPost["category"],
+    tags: "",
   });
 
+  const selectedFilter = forumQuery.category || "all";
+  const isFiltered = !!(forumQuery.category || forumQuery.tag || forumQuery.search);
+
+  // Searching waits for a pause in typing so each keystroke does not hit the server.
+  useEffect(() => {
+    const search = searchText.trim();
+    if (search === (forumQuery.search || "")) return;
+    const timer = setTimeout(() => {
+      loadForumPosts({ ...forumQuery, search: search || undefined });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [searchText]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    await loadForumPosts(forumQuery);
+    setIsRefreshing(false);
+  };
+
   const handlePostPress = (post: ForumPost) => {
-    setSelectedPost(post);
-    setShowDetailModal(true);
+    navigation.navigate("ForumPost", { postId: post.id, postTitle: post.title });
   };
 
-  const handleUpvote = async (postId: string) => {
+  const handleVote = async (postId: string, value: ForumVote) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
-    await upvotePost(postId);
+    await votePost(postId, value);
   };
 
   const handleCreatePost = async () => {
     if (!newPost.title.trim() || !newPost.content.trim()) return;
 
     try {
-      await createForumPost(newPost);
+      const created = await createForumPost({
+        title: newPost.title,
+        content: newPost.content,
+        category: newPost.category,
+        tags: newPost.tags.split(",").map((tag) => tag.trim()).filter(Boolean),
+      });
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Success);
       setShowCreateModal(false);
-      setNewPost({ title: "", content: "", category: "general" });
+      setNewPost({ title: "", content: "", category: "general", tags: "" });
+      if (created.moderationStatus && created.moderationStatus !== "visible") {
+        showAlert({
+          type: "info",
+          title: "Post Under Review",
+          message: "Your post will appear in the forum once a moderator has checked it.",
+        });
+      }
     } catch (error) {
       Haptics.notificationAsync(Haptics.NotificationFeedbackType.Error);
     }
@@ -85,43 +131,16 @@ export default function ForumScreen() {
       <ForumPostCard
         post={item}
         onPress={() => handlePostPress(item)}
-        onUpvote={() => handleUpvote(item.id)}
+        onVote={(value) => handleVote(item.id, value)}
+        onTagPress={(tag) => loadForumPosts({ ...forumQuery, tag })}
       />
     </Animated.View>
   );
 
-  const filteredPosts =
-    selectedFilter === "all"
-      ? forumPosts
-      : forumPosts.filter((p) => p.category === selectedFilter);
-
-  const sortedPosts = [...filteredPosts].sort((a, b) => {
-    if (sortBy === "popular") {
-      return b.upvotes - a.upvotes;
-    }
-    if (sortBy === "trending") {
-      const aScore = a.upvotes + a.commentCount * 2;
-      const bScore = b.upvotes + b.commentCount * 2;
-      const aAge = (Date.now() - new Date(a.createdAt).getTime()) / (1000 * 60 * 60);
-      const bAge = (Date.now() - new Date(b.createdAt).getTime()) / (1000 * 60 * 60);
-      return (bScore / Math.max(bAge, 1)) - (aScore / Math.max(aAge, 1));
-    }
-    return new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime();
-  });
-
   const totalPosts = forumPosts.length;
   const totalUpvotes = forumPosts.reduce((sum, p) => sum + p.upvotes, 0);
   const totalComments = forumPosts.reduce((sum, p) => sum + p.commentCount, 0);
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleDateString("en-US", {
-      month: "long",
-      day: "numeric",
-      year: "numeric",
-    });
-  };
-
   const FilterChip = ({
     label,
     isSelected,
@@ -164,24 +183,25 @@ export default function ForumScreen() {
     icon,
   }: {
     label: string;
-    sortOption: SortOption;
+    sortOption: ForumSort;
     icon: string;
   }) => (
     <Pressable
-      onPress={() => setSortBy(sortOption)}
+      onPress={() => loadForumPosts({ ...forumQuery, sort: sortOption })}
       style={[
         styles.sortChip,
         {
-          backgroundColor: sortBy === sortOption ? theme.primary + "20" : "transparent",
-          borderColor: sortBy === sortOption ? theme.primary : theme.textSecondary + "30",
+          backgroundColor: forumQuery.sort === sortOption ? theme.primary + "20" : "transparent",
+          borderColor: forumQuery.sort === sortOption ? theme.primary : theme.textSecondary + "30",
         },
       ]}
+      testID={`tab-forum-sort-${sortOption}`}
     >
-      <Icon name={icon} size={14} color={sortBy === sortOption ? theme.primary : theme.textSecondary} />
+      <Icon name={icon} size={14} color={forumQuery.sort === sortOption ? theme.primary : theme.textSecondary} />
       <ThemedText
         type="small"
         style={{
-          color: sortBy === sortOption ? theme.primary : theme.textSecondary,
+          color: forumQuery.sort === sortOption ? theme.primary : theme.textSecondary,
           fontWeight: "500",
           marginLeft: 4,
         }}
@@ -200,6 +220,25 @@ export default function ForumScreen() {
         style={StyleSheet.absoluteFill}
       />
       <View style={[styles.filterContainer, { paddingTop: headerHeight + Spacing.sm }]}>
+        <View style={[styles.searchBar, { backgroundColor: theme.inputBackground, borderColor: theme.inputBorder }]}>
+          <Icon name="search" size={18} color={theme.textSecondary} />
+          <TextInput
+            style={[styles.searchInput, { color: theme.text }]}
+            placeholder="Search posts"
+            placeholderTextColor={theme.textSecondary}
+            value={searchText}
+            onChangeText={setSearchText}
+            autoCorrect={false}
+            returnKeyType="search"
+            testID="input-forum-search"
+          />
+          {searchText ? (
+            <Pressable onPress={() => setSearchText("")} hitSlop={8}>
+              <Icon name="x-circle" size={18} color={theme.textSecondary} />
+            </Pressable>
+          ) : null}
+        </View>
+
         <ScrollView
           horizontal
           showsHorizontalScrollIndicator={false}
@@ -208,29 +247,46 @@ export default function ForumScreen() {
           <FilterChip
             label="All"
             isSelected={selectedFilter === "all"}
-            onPress={() => setSelectedFilter("all")}
+            onPress={() => loadForumPosts({ ...forumQuery, category: undefined })}
           />
           {CATEGORIES.map((cat) => (
             <FilterChip
               key={cat.category}
               label={cat.label}
               isSelected={selectedFilter === cat.category}
-              onPress={() => setSelectedFilter(cat.category)}
+              onPress={() => loadForumPosts({ ...forumQuery, category: cat.category })}
               color={cat.color}
               icon={cat.icon}
             />
           ))}
         </ScrollView>
 
-        <View style={styles.sortContainer}>
-          <SortChip label="Recent" sortOption="recent" icon="clock" />
-          <SortChip label="Popular" sortOption="popular" icon="trending-up" />
-          <SortChip label="Trending" sortOption="trending" icon="zap" />
-        </View>
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.sortContainer}
+        >
+          {SORT_TABS.map((tab) => (
+            <SortChip key={tab.sort} label={tab.label} sortOption={tab.sort} icon={tab.icon} />
+          ))}
+        </ScrollView>
+
+        {forumQuery.tag ? (
+          <Pressable
+            onPress={() => loadForumPosts({ ...forumQuery, tag: undefined })}
+            style={[styles.activeTag, { backgroundColor: theme.primary + "20" }]}
+            testID="button-clear-forum-tag"
+          >
+            <ThemedText type="small" style={{ color: theme.primary, fontWeight: "600" }}>
+              #{forumQuery.tag}
+            </ThemedText>
+            <Icon name="x" size={14} color={theme.primary} />
+          </Pressable>
+        ) : null}
       </View>
 
       <FlatList
-        data={sortedPosts}
+        data={forumPosts}
         renderItem={renderItem}
         keyExtractor={(item) => item.id}
         contentContainerStyle={[
@@ -243,19 +299,32 @@ export default function ForumScreen() {
         scrollIndicatorInsets={{ bottom: insets.bottom }}
         refreshControl={
           <RefreshControl
-            refreshing={isLoading}
-            onRefresh={refreshData}
+            refreshing={isRefreshing}
+            onRefresh={handleRefresh}
             tintColor={theme.text}
           />
         }
+        onEndReached={loadMoreForumPosts}
+        onEndReachedThreshold={0.5}
+        ListFooterComponent={
+          forumHasMore ? <ActivityIndicator style={styles.listFooter} color={theme.textSecondary} /> : null
+        }
         ListEmptyComponent={
-          <EmptyState
-            image={require("../../assets/images/empty-forum.png")}
-            title="No Posts Yet"
-            description="Start a conversation! Share travel plans, ask questions, or give tips to the community."
-            actionLabel={isAuthenticated ? "Create Post" : undefined}
-            onAction={isAuthenticated ? () => setShowCreateModal(true) : undefined}
-          />
+          isFiltered || forumQuery.sort === "unanswered" ? (
+            <EmptyState
+              image={require("../../assets/images/empty-forum.png")}
+              title="No Matching Posts"
+              description="Try another search, category or tag."
+            />
+          ) : (
+            <EmptyState
+              image={require("../../assets/images/empty-forum.png")}
+              title="No Posts Yet"
+              description="Start a conversation! Share travel plans, ask questions, or give tips to the community."
+              actionLabel={isAuthenticated ? "Create Post" : undefined}
+              onAction={isAuthenticated ? () => setShowCreateModal(true) : undefined}
+            />
+          )
         }
       />
 
@@ -336,6 +405,16 @@ export default function ForumScreen() {
               testID="input-post-content"
             />
 
+            <Input
+              label="Tags"
+              placeholder="solar, off-grid, van-life"
+              value={newPost.tags}
+              onChangeText={(text) => setNewPost({ ...newPost, tags: text })}
+              autoCapitalize="none"
+              containerStyle={styles.modalInput}
+              testID="input-post-tags"
+            />
+
             <GradientButton
               onPress={handleCreatePost}
               disabled={!newPost.title.trim() || !newPost.content.trim()}
@@ -347,74 +426,6 @@ export default function ForumScreen() {
         </View>
       </Modal>
 
-      <Modal
-        visible={showDetailModal}
-        animationType="slide"
-        presentationStyle="pageSheet"
-        onRequestClose={() => setShowDetailModal(false)}
-      >
-        {selectedPost ? (
-          <View style={[styles.modalContainer, { backgroundColor: theme.backgroundRoot }]}>
-            <View style={styles.modalHeader}>
-              <View
-                style={[
-                  styles.detailCategoryBadge,
-                  {
-                    backgroundColor:
-                      CATEGORIES.find((c) => c.category === selectedPost.category)?.color ||
-                      "#607D8B",
-                  },
-                ]}
-              >
-                <ThemedText style={styles.detailCategoryText}>
-                  {CATEGORIES.find((c) => c.category === selectedPost.category)?.label}
-                </ThemedText>
-              </View>
-              <Pressable onPress={() => setShowDetailModal(false)}>
-                <Icon name="x" size={24} color={theme.text} />
-              </Pressable>
-            </View>
-
-            <ScrollView
-              style={styles.modalScroll}
-              contentContainerStyle={styles.modalContent}
-            >
-              <ThemedText type="h3" style={styles.postTitle}>
-                {selectedPost.title}
-              </ThemedText>
-
-              <View style={styles.postMeta}>
-                <ThemedText type="small" style={{ color: theme.textSecondary }}>
-                  Posted by {selectedPost.author.name} on {formatDate(selectedPost.createdAt)}
-                </ThemedText>
-              </View>
-
-              <ThemedText type="body" style={styles.postContent}>
-                {selectedPost.content}
-              </ThemedText>
-
-              <View style={styles.postStats}>
-                <Pressable
-                  onPress={() => handleUpvote(selectedPost.id)}
-                  style={styles.statButton}
-                >
-                  <Icon name="arrow-up" size={20} color={AppColors.primary} />
-                  <ThemedText style={[styles.statValue, { color: AppColors.primary }]}>
-                    {selectedPost.upvotes} upvotes
-                  </ThemedText>
-                </Pressable>
-
-                <View style={styles.statButton}>
-                  <Icon name="message-circle" size={20} color={theme.textSecondary} />
-                  <ThemedText style={[styles.statValue, { color: theme.textSecondary }]}>
-                    {selectedPost.commentCount} comments
-                  </ThemedText>
-                </View>
-              </View>
-            </ScrollView>
-          </View>
-        ) : null}
-      </Modal>
     </View>
   );
 }
@@ -428,6 +439,21 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: "rgba(0,0,0,0.05)",
   },
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    borderWidth: 1,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    height: 40,
+    marginHorizontal: Spacing.lg,
+    marginBottom: Spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 15,
+  },
   filterScroll: {
     paddingHorizontal: Spacing.lg,
     gap: Spacing.sm,
@@ -440,7 +466,6 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.full,
   },
   sortContainer: {
-    flexDirection: "row",
     paddingHorizontal: Spacing.lg,
     gap: Spacing.sm,
     marginTop: Spacing.sm,
@@ -453,10 +478,24 @@ const styles = StyleSheet.create({
     borderRadius: BorderRadius.full,
     borderWidth: 1,
   },
+  activeTag: {
+    flexDirection: "row",
+    alignItems: "center",
+    alignSelf: "flex-start",
+    gap: 4,
+    marginHorizontal: Spacing.lg,
+    marginTop: Spacing.sm,
+    paddingHorizontal: Spacing.md,
+    paddingVertical: Spacing.xs,
+    borderRadius: BorderRadius.full,
+  },
   listContent: {
     paddingHorizontal: Spacing.lg,
     paddingTop: Spacing.lg,
   },
+  listFooter: {
+    paddingVertical: Spacing.lg,
+  },
   emptyListContent: {
     flex: 1,
     justifyContent: "center",
@@ -515,37 +554,4 @@ const styles = StyleSheet.create({
   createButton: {
     marginTop: Spacing.lg,
   },
-  detailCategoryBadge: {
-    paddingHorizontal: Spacing.md,
-    paddingVertical: Spacing.xs,
-    borderRadius: BorderRadius.full,
-  },
-  detailCategoryText: {
-    fontSize: 12,
-    fontWeight: "700",
-    color: "#FFFFFF",
-    textTransform: "uppercase",
-  },
-  postTitle: {
-    marginBottom: Spacing.md,
-  },
-  postMeta: {
-    marginBottom: Spacing.xl,
-  },
-  postContent: {
-    lineHeight: 26,
-  },
-  postStats: {
-    flexDirection: "row",
-    marginTop: Spacing["2xl"],
-    gap: Spacing["2xl"],
-  },
-  statButton: {
-    flexDirection: "row",
-    alignItems: "center",
-  },
-  statValue: {
-    marginLeft: Spacing.sm,
-    fontWeight: "500",
-  },
 });
@@ -1,5 +1,5 @@
-import React, { useCallback, useMemo, useRef } from "react";
-import { StyleSheet, View, FlatList, RefreshControl, Pressable, ScrollView, Platform } from "react-native";
+import React, { useCallback, useMemo, useRef, useState } from "react";
+import { StyleSheet, View, FlatList, RefreshControl, Pressable, ScrollView, Platform, Alert } from "react-native";
 import { useSafeAreaInsets } from "react-native-safe-area-context";
 import { useHeaderHeight } from "@react-navigation/elements";
 import { useBottomTabBarHeight } from "@react-navigation/bottom-tabs";
@@ -13,14 +13,25 @@ import { LinearGradient } from "expo-linear-gradient";
 
 import { Icon } from "@/components/Icon";
 import { ThemedText } from "@/components/ThemedText";
+import { MessageSearchModal } from "@/components/MessageSearchModal";
 import { useTheme } from "@/hooks/useTheme";
 import { useData } from "@/context/DataContext";
-import { Match } from "@/types";
+import { Match, MessageSearchResult } from "@/types";
 import { Spacing, BorderRadius, AppColors, Shadows, GradientPresets } from "@/constants/theme";
 import { RootStackParamList } from "@/navigation/RootStackNavigator";
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+const MUTE_OPTIONS = [
+  { label: "1 hour", hours: 1 },
+  { label: "8 hours", hours: 8 },
+  { label: "1 week", hours: 24 * 7 },
+];
+
+function isMuted(match: Match) {
+  return !!match.mutedUntil && new Date(match.mutedUntil).getTime() > Date.now();
+}
+
 function formatTime(dateString: string) {
   const date = new Date(dateString);
   const now = new Date();
@@ -105,6 +116,9 @@ function ChatRow({ match, onPress, theme }: { match: Match; onPress: () => void;
           {match.isFavourite && !hasUnread && (
             <Icon name="star" size={14} color={AppColors.sunsetGold} />
           )}
+          {isMuted(match) && (
+            <Icon name="bell-off" size={14} color={theme.textSecondary} />
+          )}
         </View>
       </View>
     </Pressable>
@@ -116,9 +130,10 @@ export default function MatchesScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme, isDark } = useTheme();
-  const { matches, isLoading, refreshData, toggleFavourite, deleteMatch, markMatchAsRead } = useData();
+  const { matches, isLoading, refreshData, toggleFavourite, deleteMatch, markMatchAsRead, muteMatch } = useData();
   const navigation = useNavigation<NavigationProp>();
   const swipeableRefs = useRef<Map<string, Swipeable>>(new Map());
+  const [showSearch, setShowSearch] = useState(false);
 
   const dedupeMatches = useCallback((items: Match[]) => {
     const byId = new Map<string, Match>();
@@ -161,12 +176,55 @@ export default function MatchesScreen() {
     navigation.navigate("Chat", { matchId: match.id, matchName: match.matchedUser.name, matchPhoto: match.matchedUser.photos?.[0] });
   };
 
+  const handleSearchSelect = (result: MessageSearchResult) => {
+    if (result.kind === "activity") {
+      navigation.navigate("ActivityChat", {
+        activityId: result.conversationId,
+        activityTitle: result.conversationTitle,
+        focusMessageId: result.messageId,
+        focusThreadId: result.threadRootId,
+      });
+      return;
+    }
+    const match = matches.find((m) => m.id === result.conversationId);
+    navigation.navigate("Chat", {
+      matchId: result.conversationId,
+      matchName: match?.matchedUser.name || result.conversationTitle,
+      matchPhoto: match?.matchedUser.photos?.[0],
+      focusMessageId: result.messageId,
+    });
+  };
+
   const handleToggleFavourite = useCallback((matchId: string) => {
     Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
     toggleFavourite(matchId);
     swipeableRefs.current.get(matchId)?.close();
   }, [toggleFavourite]);
 
+  const handleToggleMute = useCallback((match: Match) => {
+    swipeableRefs.current.get(match.id)?.close();
+    if (isMuted(match)) {
+      Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+      muteMatch(match.id, null);
+      return;
+    }
+
+    Alert.alert(
+      `Mute ${match.matchedUser.name.split(" ")[0]}?`,
+      "You won't be notified about new messages in this chat.",
+      [
+        ...MUTE_OPTIONS.map((option) => ({
+          text: option.label,
+          onPress: () => {
+            Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+            muteMatch(match.id, new Date(Date.now() + option.hours * 60 * 60 * 1000).toISOString());
+          },
+        })),
+        { text: "Cancel", style: "cancel" as const },
+      ]
+    );
+  }, [muteMatch]);
+
   const handleDelete = useCallback((matchId: string) => {
     Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
     deleteMatch(matchId);
@@ -181,8 +239,14 @@ export default function MatchesScreen() {
       >
         <Icon name="star" size={20} color="#FFFFFF" />
       </Pressable>
+      <Pressable
+        style={[styles.swipeButton, { backgroundColor: isMuted(match) ? theme.textSecondary : AppColors.primary }]}
+        onPress={() => handleToggleMute(match)}
+      >
+        <Icon name={isMuted(match) ? "bell" : "bell-off"} size={20} color="#FFFFFF" />
+      </Pressable>
     </Animated.View>
-  ), [theme, handleToggleFavourite]);
+  ), [theme, handleToggleFavourite, handleToggleMute]);
 
   const renderRightActions = useCallback((matchId: string) => (
     <Animated.View entering={FadeIn.duration(200)} exiting={FadeOut.duration(200)} style={styles.swipeAction}>
@@ -214,6 +278,17 @@ export default function MatchesScreen() {
 
   const renderHeader = () => (
     <View>
+      <Pressable
+        style={[styles.searchBar, { backgroundColor: theme.cardBackground }]}
+        onPress={() => setShowSearch(true)}
+        testID="button-search-messages"
+      >
+        <Icon name="search" size={18} color={theme.textSecondary} />
+        <ThemedText style={[styles.searchPlaceholder, { color: theme.textSecondary }]}>
+          Search messages
+        </ThemedText>
+      </Pressable>
+
       {pendingMatches.length > 0 && (
         <Animated.View entering={FadeIn.duration(400)} style={styles.pendingSection}>
           <View style={styles.pendingSectionHeader}>
@@ -319,6 +394,12 @@ export default function MatchesScreen() {
           ) : null
         }
       />
+      <MessageSearchModal
+        visible={showSearch}
+        onClose={() => setShowSearch(false)}
+        onSelect={handleSearchSelect}
+        placeholder="Search chats and activities"
+      />
     </View>
   );
 }
@@ -357,6 +438,18 @@ const styles = StyleSheet.create({
     lineHeight: 22,
   },
 
+  searchBar: {
+    flexDirection: "row",
+    alignItems: "center",
+    gap: Spacing.sm,
+    height: 40,
+    borderRadius: BorderRadius.full,
+    paddingHorizontal: Spacing.md,
+    marginBottom: Spacing.lg,
+  },
+  searchPlaceholder: {
+    fontSize: 15,
+  },
   pendingSection: {
     marginBottom: Spacing.xl,
   },
@@ -505,7 +598,9 @@ const styles = StyleSheet.create({
   },
 
   swipeAction: {
-    justifyContent: "center",
+    flexDirection: "row",
+    alignItems: "center",
+    gap: 6,
     paddingHorizontal: 4,
   },
   swipeButton: {
@@ -21,6 +21,10 @@ import { GradientButton } from "@/components/GradientButton";
 import { Input } from "@/components/Input";
 import { KeyboardAwareScrollViewCompat } from "@/components/KeyboardAwareScrollViewCompat";
 import { PhotoPickerModal } from "@/components/PhotoPickerModal";
+import { DeviceSessionsModal } from "@/components/DeviceSessionsModal";
+import { TwoFactorModal } from "@/components/TwoFactorModal";
+import { AccountDataModal } from "@/components/AccountDataModal";
+import { EmailSettingsModal } from "@/components/EmailSettingsModal";
 import { useTheme } from "@/hooks/useTheme";
 import { useAuth } from "@/context/AuthContext";
 import { useAlert } from "@/context/AlertContext";
@@ -96,7 +100,7 @@ export default function ProfileScreen() {
   const headerHeight = useHeaderHeight();
   const tabBarHeight = useBottomTabBarHeight();
   const { theme, isDark } = useTheme();
-  const { user, logout, updateProfile, refreshProfile } = useAuth();
+  const { user, session, logout, updateProfile, refreshProfile, emailVerified } = useAuth();
   const { showAlert } = useAlert();
   const [isRefreshing, setIsRefreshing] = useState(false);
   const { customTheme, setCustomTheme, resetToDefault } = useThemeContext();
@@ -107,6 +111,7 @@ export default function ProfileScreen() {
   const [showFeedbackModal, setShowFeedbackModal] = useState(false);
   const [feedbackText, setFeedbackText] = useState("");
   const [isSubmittingFeedback, setIsSubmittingFeedback] = useState(false);
+  const [showLastSeen, setShowLastSeen] = useState(true);
   const [editData, setEditData] = useState({
     name: user?.name || "",
     bio: user?.bio || "",
@@ -122,6 +127,10 @@ export default function ProfileScreen() {
   
   const [showSafetyModal, setShowSafetyModal] = useState(false);
   const [showPhotoModal, setShowPhotoModal] = useState(false);
+  const [showDevicesModal, setShowDevicesModal] = useState(false);
+  const [showTwoFactorModal, setShowTwoFactorModal] = useState(false);
+  const [showAccountDataModal, setShowAccountDataModal] = useState(false);
+  const [showEmailModal, setShowEmailModal] = useState(false);
   const { tier: currentTier } = useSubscription();
   const [emergencyContact, setEmergencyContact] = useState({
     name: user?.emergencyContact?.name || "",
@@ -305,6 +314,46 @@ export default function ProfileScreen() {
     }
   };
 
+  useEffect(() => {
+    if (!user?.id || !session?.sessionToken) return;
+    const presenceUrl = new URL("/api/presence", getApiUrl());
+    presenceUrl.searchParams.set("viewerId", user.id);
+    presenceUrl.searchParams.set("userIds", user.id);
+    fetch(presenceUrl.toString(), { headers: { Authorization: `Bearer ${session.sessionToken}` } })
+      .then((response) => (response.ok ? response.json() : []))
+      .then((rows: { userId: string; showLastSeen?: boolean }[]) => {
+        const own = rows.find((row) => row.userId === user.id);
+        if (own) setShowLastSeen(own.showLastSeen !== false);
+      })
+      .catch((error) => console.error("Failed to load last-seen setting:", error));
+  }, [user?.id, session?.sessionToken]);
+
+  const handleToggleLastSeen = async () => {
+    if (!user?.id) return;
+    const next = !showLastSeen;
+    setShowLastSeen(next);
+    Haptics.impactAsync(Haptics.ImpactFeedbackStyle.Light);
+
+    try {
+      const headers: Record<string, string> = { "Content-Type": "application/json" };
+      if (session?.sessionToken) headers.Authorization = `Bearer ${session.sessionToken}`;
+      const response = await fetch(new URL("/api/presence/visibility", getApiUrl()).toString(), {
+        method: "POST",
+        headers,
+        body: JSON.stringify({ userId: user.id, showLastSeen: next }),
+      });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    } catch (error) {
+      console.error("Failed to update last-seen setting:", error);
+      setShowLastSeen(!next);
+      showAlert({
+        type: "error",
+        title: "Update Failed",
+        message: "Could not update your last-seen setting. Please try again.",
+      });
+    }
+  };
+
   const handleSubmitFeedback = async () => {
     const message = feedbackText.trim();
     if (!message) {
@@ -595,6 +644,97 @@ export default function ProfileScreen() {
               </View>
             </Pressable>
 
+            <Pressable
+              style={styles.settingsRow}
+              onPress={handleToggleLastSeen}
+              testID="button-toggle-last-seen"
+            >
+              <View style={styles.settingsLeft}>
+                <Icon name={showLastSeen ? "eye" : "eye-off"} size={20} color={theme.text} />
+                <ThemedText type="body" style={styles.settingsText}>
+                  Show Last Seen
+                </ThemedText>
+              </View>
+              <View style={styles.settingsRight}>
+                <ThemedText type="small" style={{ color: showLastSeen ? AppColors.success : theme.textSecondary }}>
+                  {showLastSeen ? "Visible" : "Hidden"}
+                </ThemedText>
+              </View>
+            </Pressable>
+
+            <Pressable
+              style={styles.settingsRow}
+              onPress={() => setShowDevicesModal(true)}
+              testID="button-devices"
+            >
+              <View style={styles.settingsLeft}>
+                <Icon name="smartphone" size={20} color={theme.text} />
+                <ThemedText type="body" style={styles.settingsText}>
+                  Signed-in Devices
+                </ThemedText>
+              </View>
+              <View style={styles.settingsRight}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Manage
+                </ThemedText>
+                <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+              </View>
+            </Pressable>
+
+            <Pressable
+              style={styles.settingsRow}
+              onPress={() => setShowTwoFactorModal(true)}
+              testID="button-two-factor"
+            >
+              <View style={styles.settingsLeft}>
+                <Icon name="shield" size={20} color={theme.text} />
+                <ThemedText type="body" style={styles.settingsText}>
+                  Two-Factor Authentication
+                </ThemedText>
+              </View>
+              <View style={styles.settingsRight}>
+                <ThemedText type="small" style={{ color: theme.textSecondary }}>
+                  Manage
+                </ThemedText>
+                <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+              </View>
+            </Pressable>
+
+            <Pressable
+              style={styles.settingsRow}
+              onPress={() => setShowEmailModal(true)}
+              testID="button-email-settings"
+            >
+              <View style={styles.settingsLeft}>
+                <Icon name="mail" size={20} color={theme.text} />
+                <ThemedText type="body" style={styles.settingsText}>
+                  Email Address
+                </ThemedText>
+              </View>
+              <View style={styles.settingsRight}>
+                <ThemedText type="small" style={{ color: emailVerified ? theme.textSecondary : theme.danger }}>
+                  {emailVerified ? "Verified" : "Verify"}
+                </ThemedText>
+                <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+              </View>
+            </Pressable>
+
+            <Pressable
+              style={styles.settingsRow}
+              onPress={() => setShowAccountDataModal(true)}
+              testID="button-account-data"
+            >
+              <View style={styles.settingsLeft}>
+                <Icon name="download" size={20} color={theme.text} />
+                <ThemedText type="body" style={styles.settingsText}>
+                  Your Data & Account
+                </ThemedText>
+              </View>
+              <View style={styles.settingsRight}>
+                <Icon name="chevron-right" size={20} color={theme.textSecondary} />
+              </View>
+            </Pressable>
+
             <Pressable
               style={styles.settingsRow}
               onPress={() => setShowFeedbackModal(true)}
@@ -1096,6 +1236,12 @@ export default function ProfileScreen() {
         </View>
       </Modal>
 
+      <DeviceSessionsModal visible={showDevicesModal} onClose={() => setShowDevicesModal(false)} />
+
+      <TwoFactorModal visible={showTwoFactorModal} onClose={() => setShowTwoFactorModal(false)} />
+      <AccountDataModal visible={showAccountDataModal} onClose={() => setShowAccountDataModal(false)} />
+      <EmailSettingsModal visible={showEmailModal} onClose={() => setShowEmailModal(false)} />
+
       <PhotoPickerModal
         visible={showPhotoModal}
         onClose={() => setShowPhotoModal(false)}
@@ -34,8 +34,8 @@ import * as Haptics from "expo-haptics";
 import * as Location from "expo-location";
 
 import { ThemedText } from "@/components/ThemedText";
+import { VerifyEmailBanner } from "@/components/VerifyEmailBanner";
 import { useAuth } from "@/context/AuthContext";
-import { useSubscription } from "@/context/SubscriptionContext";
 import { getApiUrl } from "@/lib/query-client";
 import AsyncStorage from "@react-native-async-storage/async-storage";
 
@@ -235,7 +235,6 @@ function ActivityCard({ activity, onPress }: { activity: NearbyActivity; onPress
 export default function SocialRadarScreen() {
   const insets = useSafeAreaInsets();
   const { user, session } = useAuth();
-  const { tier } = useSubscription();
   const navigation = useNavigation<any>();
 
   const [scanning, setScanning] = useState(false);
@@ -379,7 +378,6 @@ export default function SocialRadarScreen() {
           lat,
           lng,
           radiusKm: 50,
-          tier,
         }),
         signal: controller.signal,
       });
@@ -387,9 +385,14 @@ export default function SocialRadarScreen() {
       clearTimeout(timeoutId);
 
       if (response.status === 403) {
-        setLimitReached(true);
+        const denied = await response.json().catch(() => ({}));
         stopScanAnimation();
         setScanning(false);
+        if (denied?.emailVerificationRequired) {
+          Alert.alert("Verify Your Email", "Confirm your email address to use the radar.");
+          return;
+        }
+        setLimitReached(true);
         Haptics.notificationAsync(Haptics.NotificationFeedbackType.Warning);
         return;
       }
@@ -528,6 +531,8 @@ export default function SocialRadarScreen() {
         </View>
       </View>
 
+      <VerifyEmailBanner action="use the radar" />
+
       <ScrollView
         style={styles.scrollContent}
         contentContainerStyle={styles.scrollInner}
@@ -53,7 +53,7 @@ interface Props {
 
 export default function TravelVerificationScreen({ onVerified, onExit }: Props) {
   const { theme } = useTheme();
-  const { user } = useAuth();
+  const { user, session } = useAuth();
   const { showAlert } = useAlert();
   const insets = useSafeAreaInsets();
 
@@ -134,7 +134,7 @@ export default function TravelVerificationScreen({ onVerified, onExit }: Props)
       let secondaryUrl = secondaryPhoto;
 
       try {
-        const uploadResult = await uploadPhoto(primaryPhoto);
+        const uploadResult = await uploadPhoto(primaryPhoto, session?.sessionToken);
         primaryUrl = uploadResult.url;
       } catch {
         primaryUrl = `local_photo_${Date.now()}`;
@@ -142,7 +142,7 @@ export default function TravelVerificationScreen({ onVerified, onExit }: Props)
 
       if (secondaryPhoto) {
         try {
-          const uploadResult2 = await uploadPhoto(secondaryPhoto);
+          const uploadResult2 = await uploadPhoto(secondaryPhoto, session?.sessionToken);
           secondaryUrl = uploadResult2.url;
         } catch {
           secondaryUrl = `local_photo_secondary_${Date.now()}`;
@@ -156,7 +156,10 @@ export default function TravelVerificationScreen({ onVerified, onExit }: Props)
 
       const response = await fetch(url.toString(), {
         method: "POST",
-        headers: { "Content-Type": "application/json" },
+        headers: {
+          "Content-Type": "application/json",
+          ...(session?.sessionToken ? { Authorization: `Bearer ${session.sessionToken}` } : {}),
+        },
         body: JSON.stringify({
           userId: user?.id,
           photoUrl: primaryUrl,
@@ -67,9 +67,11 @@ export interface Match {
   lastMessage?: Message;
   isFavourite?: boolean;
   unreadCount?: number;
+  lastReadMessageId?: string | null;
+  mutedUntil?: string | null;
 }
 
-export type MessageStatus = "sent" | "delivered" | "read";
+export type MessageStatus = "scheduled" | "sent" | "delivered" | "read";
 export type ChatMessageType = "text" | "photo" | "location" | "file" | "audio";
 
 export interface Message {
@@ -97,7 +99,16 @@ export interface Message {
   };
   createdAt: string;
   status: MessageStatus;
+  deliveredAt?: string;
+  readAt?: string;
   editedAt?: string;
+  sendAt?: string;
+  expiresAt?: string;
+}
+
+export interface MessageTiming {
+  sendAt?: string;
+  expiresAt?: string;
 }
 
 export interface ActivityLocation {
@@ -145,18 +156,43 @@ export interface ForumPost {
   authorId: string;
   author: User;
   category: "builds" | "electrical" | "plumbing" | "insulation" | "tips" | "general";
+  tags?: string[];
   upvotes: number;
+  downvotes: number;
+  score: number;
+  // The signed-in user's own vote.
+  myVote: ForumVote;
   commentCount: number;
+  // Held posts are only returned to their author, right after posting.
+  moderationStatus?: "visible" | "held" | "hidden";
   createdAt: string;
 }
 
+export type ForumVote = 1 | 0 | -1;
+
+export type ForumSort = "hot" | "top_week" | "new" | "unanswered";
+
+export interface ForumPostQuery {
+  sort: ForumSort;
+  category?: ForumPost["category"];
+  tag?: string;
+  search?: string;
+}
+
 export interface ForumComment {
   id: string;
   postId: string;
-  authorId: string;
-  author: User;
+  parentId?: string;
+  // Deleted comments keep their place in the thread without an author or text.
+  authorId?: string;
+  author?: User;
   content: string;
+  depth: number;
   upvotes: number;
+  hasUpvoted: boolean;
+  isEdited: boolean;
+  isDeleted: boolean;
+  moderationStatus: "visible" | "held" | "hidden";
   createdAt: string;
 }
 
@@ -166,7 +202,26 @@ export interface SwipeCard {
 }
 
 // Activity Group Chat Types
-export type ActivityMessageType = "text" | "photo" | "location" | "file" | "audio" | "system";
+export type ActivityMessageType = "text" | "photo" | "location" | "file" | "audio" | "system" | "poll";
+
+export interface ActivityPollOption {
+  id: string;
+  text: string;
+  voteCount: number;
+  voterIds?: string[];
+}
+
+export interface ActivityPoll {
+  question: string;
+  options: ActivityPollOption[];
+  allowMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt?: string;
+  closedAt?: string;
+  isClosed: boolean;
+  totalVoters: number;
+  myOptionIds: string[];
+}
 
 export interface LocationData {
   latitude: number;
@@ -199,10 +254,42 @@ export interface ActivityChatMessage {
   isModeratorMessage: boolean;
   isEdited?: boolean;
   reactions?: Record<string, string[]>;
+  poll?: ActivityPoll;
+  threadRootId?: string;
+  threadReplyCount?: number;
+  threadLastReplyAt?: string;
+  // Held and hidden messages are only returned to their sender.
+  moderationStatus?: "visible" | "held" | "hidden";
   createdAt: string;
   deletedAt?: string;
 }
 
+export interface ThreadNotification {
+  activityId: string;
+  activityTitle: string;
+  threadRootId: string;
+  rootPreview: string;
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  preview: string;
+  createdAt: string;
+}
+
+export interface MessageSearchResult {
+  kind: "match" | "activity";
+  conversationId: string;
+  conversationTitle: string;
+  messageId: string;
+  senderId: string;
+  senderName: string;
+  type: string;
+  threadRootId?: string;
+  createdAt: string;
+  snippet: string;
+  highlights: { start: number; length: number }[];
+}
+
 export interface ActivityModerator {
   id: string;
   activityId: string;
@@ -236,3 +323,54 @@ export interface SOSIncident {
   resolved: boolean;
   notes?: string;
 }
+
+export type ReportReason =
+  | "harassment"
+  | "spam"
+  | "scam"
+  | "fake_profile"
+  | "inappropriate_content"
+  | "underage"
+  | "safety_concern"
+  | "other";
+
+export interface UserReportInput {
+  reportedUserId: string;
+  reason: ReportReason;
+  details?: string;
+  messageIds?: string[];
+  screenshotUrls?: string[];
+  block?: boolean;
+}
+
+// A device the user is signed in on, as listed by GET /api/auth/sessions.
+export interface DeviceSession {
+  id: string;
+  deviceName: string;
+  platform: string;
+  ipAddress: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  current: boolean;
+}
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  recoveryCodesRemaining: number;
+}
+
+export interface EmailStatus {
+  email: string;
+  verified: boolean;
+  // The address an unfinished change-email request is moving to.
+  pendingEmail: string | null;
+  // False for accounts made with Google/Apple; they confirm account changes with an emailed code instead.
+  hasPassword: boolean;
+}
+
+// Returned once when enrolment starts; the secret is for typing in by hand when the QR code cannot be scanned.
+export interface TwoFactorSetup {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
@@ -22,6 +22,13 @@ CREATE TABLE IF NOT EXISTS user_profiles (
   radar_scans_this_week INTEGER DEFAULT 0,
   last_reset_timestamp BIGINT DEFAULT 0,
   is_visible_on_radar BOOLEAN DEFAULT true,
+  show_last_seen BOOLEAN DEFAULT true,
+  last_seen_at TIMESTAMPTZ,
+  role TEXT DEFAULT 'user',
+  suspended_at TIMESTAMPTZ,
+  suspension_reason TEXT,
+  pending_bio TEXT,
+  moderation_strikes INTEGER DEFAULT 0,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
@@ -71,6 +78,12 @@ CREATE TABLE IF NOT EXISTS activity_chat_messages (
   is_pinned TEXT DEFAULT 'false',
   is_moderator_message TEXT DEFAULT 'false',
   reactions JSONB DEFAULT '{}'::jsonb,
+  poll JSONB,
+  poll_votes JSONB DEFAULT '{}'::jsonb,
+  thread_root_id TEXT,
+  thread_reply_count INTEGER DEFAULT 0,
+  thread_last_reply_at TIMESTAMPTZ,
+  moderation_status TEXT DEFAULT 'visible',
   created_at TIMESTAMPTZ DEFAULT NOW(),
   edited_at TIMESTAMPTZ,
   deleted_at TIMESTAMPTZ
@@ -112,6 +125,45 @@ CREATE TABLE IF NOT EXISTS compatibility_history (
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- RevenueCat webhook events, kept for auditing and to ignore redeliveries
+CREATE TABLE IF NOT EXISTS subscription_events (
+  id TEXT PRIMARY KEY,
+  user_id TEXT,
+  type TEXT NOT NULL,
+  product_id TEXT,
+  entitlement_ids JSONB DEFAULT '[]'::jsonb,
+  expires_at TIMESTAMPTZ,
+  event_at TIMESTAMPTZ NOT NULL,
+  environment TEXT,
+  payload JSONB,
+  -- Set once the event has been applied; a redelivery of an unapplied event is applied again
+  processed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+ALTER TABLE subscription_events ADD COLUMN IF NOT EXISTS processed_at TIMESTAMPTZ;
+CREATE INDEX IF NOT EXISTS idx_subscription_events_user ON subscription_events(user_id, event_at DESC);
+
+-- Current subscription per user, derived from the events above
+CREATE TABLE IF NOT EXISTS user_subscriptions (
+  user_id TEXT PRIMARY KEY,
+  tier TEXT NOT NULL DEFAULT 'starter',
+  product_id TEXT,
+  expires_at TIMESTAMPTZ,
+  last_event_id TEXT,
+  last_event_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One counter per user and meter (radar scans, AI chat, ...); see server/metering.ts
+CREATE TABLE IF NOT EXISTS usage_counters (
+  user_id TEXT NOT NULL,
+  meter TEXT NOT NULL,
+  window_start TIMESTAMPTZ NOT NULL,
+  used INTEGER NOT NULL DEFAULT 0,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, meter)
+);
+
 CREATE TABLE IF NOT EXISTS travel_verification (
   id TEXT PRIMARY KEY,
   user_id TEXT NOT NULL,
@@ -170,6 +222,8 @@ CREATE TABLE IF NOT EXISTS consultation_bookings (
 CREATE INDEX IF NOT EXISTS idx_ai_chat_sessions_user ON ai_chat_sessions(user_id);
 CREATE INDEX IF NOT EXISTS idx_activities_date ON activities(date);
 CREATE INDEX IF NOT EXISTS idx_activity_messages_activity ON activity_chat_messages(activity_id);
+CREATE INDEX IF NOT EXISTS idx_activity_messages_activity_created ON activity_chat_messages(activity_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_activity_messages_thread ON activity_chat_messages(thread_root_id, created_at, id);
 CREATE INDEX IF NOT EXISTS idx_swipes_swiper ON swipes(swiper_id);
 CREATE INDEX IF NOT EXISTS idx_swipes_swiped ON swipes(swiped_id);
 CREATE INDEX IF NOT EXISTS idx_matches_user_a ON matches(user_a_id);
@@ -251,6 +305,14 @@ CREATE TABLE IF NOT EXISTS activity_moderators (
   added_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+-- Who uploaded each file under /uploads; cleanup only deletes a user's own files
+CREATE TABLE IF NOT EXISTS uploads (
+  file_name TEXT PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_uploads_owner ON uploads(owner_id);
+
 -- Chat messages between matched users
 CREATE TABLE IF NOT EXISTS chat_messages (
   id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
@@ -267,10 +329,30 @@ CREATE TABLE IF NOT EXISTS chat_messages (
   location JSONB,
   reactions JSONB DEFAULT '{}'::jsonb,
   status TEXT DEFAULT 'sent',
+  delivered_at TIMESTAMPTZ,
+  read_at TIMESTAMPTZ,
+  send_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,
   edited_at TIMESTAMPTZ,
   created_at TIMESTAMPTZ DEFAULT NOW()
 );
 
+CREATE INDEX IF NOT EXISTS idx_chat_messages_match_created ON chat_messages(match_id, created_at, id);
+CREATE INDEX IF NOT EXISTS idx_chat_messages_send_at ON chat_messages(send_at) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_chat_messages_expires_at ON chat_messages(expires_at) WHERE expires_at IS NOT NULL;
+
+-- Per-user settings for a match (favourite, read position, mute)
+CREATE TABLE IF NOT EXISTS match_settings (
+  match_id TEXT NOT NULL,
+  user_id TEXT NOT NULL,
+  is_favourite BOOLEAN DEFAULT false,
+  last_read_message_id TEXT,
+  last_read_at TIMESTAMPTZ,
+  muted_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (match_id, user_id)
+);
+
 -- Forum posts
 CREATE TABLE IF NOT EXISTS forum_posts (
   id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
@@ -279,9 +361,211 @@ CREATE TABLE IF NOT EXISTS forum_posts (
   title TEXT NOT NULL,
   content TEXT DEFAULT '',
   category TEXT DEFAULT 'general',
+  tags TEXT[] DEFAULT '{}',
   upvotes INTEGER DEFAULT 0,
-  upvoted_by JSONB DEFAULT '[]'::jsonb,
+  downvotes INTEGER DEFAULT 0,
+  score INTEGER DEFAULT 0,
   comment_count INTEGER DEFAULT 0,
+  hot_score DOUBLE PRECISION DEFAULT 0,
+  moderation_status TEXT DEFAULT 'visible',
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(content, '')), 'B')
+  ) STORED,
   created_at TIMESTAMPTZ DEFAULT NOW(),
   updated_at TIMESTAMPTZ DEFAULT NOW()
 );
+CREATE INDEX IF NOT EXISTS idx_forum_posts_hot ON forum_posts(hot_score DESC) WHERE moderation_status = 'visible';
+CREATE INDEX IF NOT EXISTS idx_forum_posts_created ON forum_posts(created_at DESC, id DESC) WHERE moderation_status = 'visible';
+CREATE INDEX IF NOT EXISTS idx_forum_posts_tags ON forum_posts USING GIN (tags);
+CREATE INDEX IF NOT EXISTS idx_forum_posts_search ON forum_posts USING GIN (search_vector);
+
+-- "Hot" ranking: log-scaled vote score plus post age, so every 12.5 hours of age is worth ten times the score.
+-- The age term grows with created_at, which keeps stored scores comparable without periodic recomputation.
+CREATE OR REPLACE FUNCTION set_forum_post_hot_score() RETURNS trigger AS $$
+BEGIN
+  NEW.hot_score := SIGN(COALESCE(NEW.score, 0)) * log(GREATEST(ABS(COALESCE(NEW.score, 0)), 1))
+    + EXTRACT(EPOCH FROM COALESCE(NEW.created_at, NOW())) / 45000;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS forum_posts_hot_score ON forum_posts;
+CREATE TRIGGER forum_posts_hot_score
+  BEFORE INSERT OR UPDATE OF score, created_at ON forum_posts
+  FOR EACH ROW EXECUTE FUNCTION set_forum_post_hot_score();
+
+-- One vote per user per post: 1 is up, -1 is down, and a neutral vote deletes the row
+CREATE TABLE IF NOT EXISTS forum_post_votes (
+  post_id TEXT NOT NULL REFERENCES forum_posts(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  value SMALLINT NOT NULL CHECK (value IN (-1, 1)),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (post_id, user_id)
+);
+CREATE INDEX IF NOT EXISTS idx_forum_post_votes_user ON forum_post_votes(user_id, post_id);
+
+-- Moves forum_posts vote totals by the change in a single vote, inside the writing transaction
+CREATE OR REPLACE FUNCTION sync_forum_post_vote_totals() RETURNS trigger AS $$
+DECLARE
+  old_value INTEGER := 0;
+  new_value INTEGER := 0;
+  target_post TEXT;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    old_value := OLD.value;
+    target_post := OLD.post_id;
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    new_value := NEW.value;
+    target_post := NEW.post_id;
+  END IF;
+  IF old_value <> new_value THEN
+    UPDATE forum_posts SET
+      upvotes = upvotes + (new_value = 1)::int - (old_value = 1)::int,
+      downvotes = downvotes + (new_value = -1)::int - (old_value = -1)::int,
+      score = score + new_value - old_value
+    WHERE id = target_post;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS forum_post_votes_totals ON forum_post_votes;
+CREATE TRIGGER forum_post_votes_totals
+  AFTER INSERT OR UPDATE OF value OR DELETE ON forum_post_votes
+  FOR EACH ROW EXECUTE FUNCTION sync_forum_post_vote_totals();
+
+-- Moves votes out of the old forum_posts.upvoted_by array and recounts the totals from the votes table; safe to re-run
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'forum_posts' AND column_name = 'upvoted_by'
+  ) THEN
+    ALTER TABLE forum_posts ADD COLUMN IF NOT EXISTS downvotes INTEGER DEFAULT 0;
+    ALTER TABLE forum_posts ADD COLUMN IF NOT EXISTS score INTEGER DEFAULT 0;
+    INSERT INTO forum_post_votes (post_id, user_id, value)
+      SELECT id, jsonb_array_elements_text(upvoted_by), 1
+      FROM forum_posts
+      WHERE jsonb_typeof(upvoted_by) = 'array'
+      ON CONFLICT (post_id, user_id) DO NOTHING;
+    UPDATE forum_posts p SET
+      upvotes = COALESCE(v.up, 0),
+      downvotes = COALESCE(v.down, 0),
+      score = COALESCE(v.up, 0) - COALESCE(v.down, 0)
+    FROM forum_posts f
+    LEFT JOIN (
+      SELECT post_id,
+        COUNT(*) FILTER (WHERE value = 1) AS up,
+        COUNT(*) FILTER (WHERE value = -1) AS down
+      FROM forum_post_votes GROUP BY post_id
+    ) v ON v.post_id = f.id
+    WHERE p.id = f.id;
+    ALTER TABLE forum_posts DROP COLUMN upvoted_by;
+  END IF;
+END $$;
+
+-- Forum comments, nested through parent_id; deleted_at marks a soft delete
+CREATE TABLE IF NOT EXISTS forum_comments (
+  id TEXT PRIMARY KEY,
+  post_id TEXT NOT NULL REFERENCES forum_posts(id) ON DELETE CASCADE,
+  parent_id TEXT,
+  author_id TEXT NOT NULL,
+  author_data JSONB,
+  content TEXT NOT NULL,
+  depth INTEGER DEFAULT 0,
+  upvotes INTEGER DEFAULT 0,
+  upvoted_by JSONB DEFAULT '[]'::jsonb,
+  moderation_status TEXT DEFAULT 'visible',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  edited_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ
+);
+CREATE INDEX IF NOT EXISTS idx_forum_comments_post ON forum_comments(post_id, created_at, id);
+
+-- Keeps forum_posts.comment_count in step with live, visible comments inside the writing transaction
+CREATE OR REPLACE FUNCTION sync_forum_comment_count() RETURNS trigger AS $$
+DECLARE
+  was_counted BOOLEAN := false;
+  is_counted BOOLEAN := false;
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    was_counted := OLD.deleted_at IS NULL AND OLD.moderation_status = 'visible';
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    is_counted := NEW.deleted_at IS NULL AND NEW.moderation_status = 'visible';
+  END IF;
+  IF is_counted AND NOT was_counted THEN
+    UPDATE forum_posts SET comment_count = comment_count + 1 WHERE id = NEW.post_id;
+  ELSIF was_counted AND NOT is_counted THEN
+    UPDATE forum_posts SET comment_count = GREATEST(comment_count - 1, 0) WHERE id = OLD.post_id;
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS forum_comments_count ON forum_comments;
+CREATE TRIGGER forum_comments_count
+  AFTER INSERT OR UPDATE OF deleted_at, moderation_status OR DELETE ON forum_comments
+  FOR EACH ROW EXECUTE FUNCTION sync_forum_comment_count();
+
+-- Blocks apply both ways: neither user sees or can contact the other
+CREATE TABLE IF NOT EXISTS user_blocks (
+  blocker_id TEXT NOT NULL,
+  blocked_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (blocker_id, blocked_id)
+);
+CREATE INDEX IF NOT EXISTS idx_user_blocks_blocked ON user_blocks(blocked_id);
+
+-- Reports filed against users, worked through in the admin console
+CREATE TABLE IF NOT EXISTS user_reports (
+  id TEXT PRIMARY KEY,
+  reporter_id TEXT NOT NULL,
+  reported_user_id TEXT NOT NULL,
+  reason TEXT NOT NULL,
+  details TEXT,
+  evidence JSONB DEFAULT '{}'::jsonb,
+  status TEXT NOT NULL DEFAULT 'open',
+  resolution_note TEXT,
+  resolved_by TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_user_reports_status ON user_reports(status, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_user_reports_reported ON user_reports(reported_user_id, created_at DESC);
+
+-- Every change made through /api/admin
+CREATE TABLE IF NOT EXISTS admin_audit_log (
+  id TEXT PRIMARY KEY,
+  admin_id TEXT NOT NULL,
+  action TEXT NOT NULL,
+  target_type TEXT NOT NULL,
+  target_id TEXT,
+  details JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_created ON admin_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_admin_audit_log_target ON admin_audit_log(target_type, target_id, created_at DESC);
+
+-- Content held or hidden by automated moderation, waiting for a moderator
+CREATE TABLE IF NOT EXISTS moderation_queue (
+  id TEXT PRIMARY KEY,
+  content_type TEXT NOT NULL,
+  content_id TEXT NOT NULL,
+  author_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  action TEXT NOT NULL,
+  categories JSONB DEFAULT '[]'::jsonb,
+  scores JSONB DEFAULT '{}'::jsonb,
+  reasons JSONB DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'pending',
+  review_note TEXT,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+CREATE INDEX IF NOT EXISTS idx_moderation_queue_status ON moderation_queue(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_moderation_queue_content ON moderation_queue(content_type, content_id);
@@ -0,0 +1,56 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { USER_DATA_TABLES, collectOwnedUploads, collectUploadUrls, exportFileName } from "./account";
+
+function checkedSupabaseTables(): string[] {
+  const source = fs.readFileSync(path.join(__dirname, "routes.ts"), "utf8");
+  const list = source.match(/async function checkSupabaseTables\(\)[\s\S]*?const tables = \[([\s\S]*?)\];/);
+  assert.ok(list, "checkSupabaseTables table list not found in routes.ts");
+  return Array.from(list[1].matchAll(/'([a-z_]+)'/g), (match) => match[1]);
+}
+
+describe("user data tables", () => {
+  it("covers every table checked at startup", () => {
+    const covered = new Set(USER_DATA_TABLES.map((spec) => spec.table));
+    const missing = checkedSupabaseTables().filter((table) => !covered.has(table));
+    assert.deepEqual(missing, [], `Add these tables to USER_DATA_TABLES in server/account.ts: ${missing.join(", ")}`);
+  });
+
+  it("removes the account row only after everything else", () => {
+    assert.equal(USER_DATA_TABLES[USER_DATA_TABLES.length - 1].table, "app_users");
+  });
+
+  it("keeps the upload owner records until every file has been checked against them", () => {
+    const ownersAt = USER_DATA_TABLES.findIndex((spec) => spec.table === "uploads");
+    const lastWithFiles = USER_DATA_TABLES.map((spec) => !!spec.uploadColumns).lastIndexOf(true);
+    assert.ok(ownersAt > lastWithFiles);
+  });
+});
+
+describe("export helpers", () => {
+  it("collects upload urls from plain and array columns", () => {
+    const rows = [
+      { photos: ["/uploads/a.jpg", "/uploads/b.jpg"], file_url: null },
+      { photos: ["/uploads/a.jpg"], file_url: "/uploads/c.pdf" },
+    ];
+    assert.deepEqual(collectUploadUrls(rows, ["photos", "file_url"]), ["/uploads/a.jpg", "/uploads/b.jpg", "/uploads/c.pdf"]);
+  });
+
+  it("pairs each upload url with the user who sent the row", () => {
+    const rows = [
+      { sender_id: "user_a", photo_url: "/uploads/a.jpg", file_url: null },
+      { sender_id: "user_b", photo_url: "/uploads/b.jpg", file_url: "/uploads/c.pdf" },
+    ];
+    assert.deepEqual(collectOwnedUploads(rows, ["photo_url", "file_url"], "sender_id"), [
+      { url: "/uploads/a.jpg", ownerId: "user_a" },
+      { url: "/uploads/b.jpg", ownerId: "user_b" },
+      { url: "/uploads/c.pdf", ownerId: "user_b" },
+    ]);
+  });
+
+  it("names the archive after the export date", () => {
+    assert.equal(exportFileName(new Date("2026-03-04T23:00:00Z")), "explorex-data-2026-03-04.zip");
+  });
+});
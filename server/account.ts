@@ -0,0 +1,155 @@
+// Deletion requests wait this long before anything is removed; signing in again during it cancels the request.
+export const ACCOUNT_DELETION_GRACE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Rows that must outlive the account (reports, payments, audit entries, group chats) point at this id instead.
+export const DELETED_USER_ID = "deleted-user";
+export const DELETED_USER_NAME = "Deleted user";
+
+/**
+ * "postgres-first" tables are created by the ensure*Tables functions and read from Postgres when DATABASE_URL is set,
+ * otherwise from Supabase; "supabase" tables only exist there; "postgres" tables are the custom auth tables.
+ */
+export type UserDataSource = "postgres-first" | "supabase" | "postgres";
+
+export interface UserDataTable {
+  table: string;
+  source: UserDataSource;
+  // Columns holding a user id; a row belongs to the user when any of them matches.
+  userColumns: string[];
+  action: "delete" | "anonymize";
+  // Extra values written when a row is anonymized, next to the user column becoming DELETED_USER_ID.
+  anonymizeWith?: Record<string, unknown>;
+  // Columns with /uploads URLs (or arrays of them) whose files go with the user's rows.
+  uploadColumns?: string[];
+}
+
+/**
+ * Every table that holds user data, in purge order. Covers the tables checked in checkSupabaseTables plus the
+ * Postgres-only ones; app_users goes last so a failed purge can be retried.
+ */
+export const USER_DATA_TABLES: UserDataTable[] = [
+  { table: "ai_chat_sessions", source: "supabase", userColumns: ["user_id"], action: "delete" },
+  { table: "activity_moderators", source: "supabase", userColumns: ["user_id"], action: "delete" },
+  {
+    table: "activity_chat_messages",
+    source: "supabase",
+    userColumns: ["sender_id"],
+    action: "anonymize",
+    anonymizeWith: { sender_name: DELETED_USER_NAME, sender_photo: "", photo_url: null, file_url: null, audio_url: null },
+    uploadColumns: ["photo_url", "file_url", "audio_url"],
+  },
+  { table: "activities", source: "supabase", userColumns: ["host_id"], action: "delete", uploadColumns: ["image_url"] },
+  { table: "safety_ratings", source: "supabase", userColumns: ["rated_by_user_id"], action: "anonymize" },
+  { table: "sos_incidents", source: "supabase", userColumns: ["user_id"], action: "delete" },
+  {
+    table: "travel_verification",
+    source: "supabase",
+    userColumns: ["user_id"],
+    action: "delete",
+    uploadColumns: ["photo_url", "secondary_photo_url"],
+  },
+  {
+    table: "expert_applications",
+    source: "supabase",
+    userColumns: ["user_id"],
+    action: "delete",
+    uploadColumns: ["resume_url", "portfolio_urls", "intro_video_url"],
+  },
+  { table: "consultation_bookings", source: "supabase", userColumns: ["user_id", "expert_id"], action: "anonymize" },
+  { table: "forum_post_votes", source: "supabase", userColumns: ["user_id"], action: "delete" },
+  {
+    table: "forum_comments",
+    source: "supabase",
+    userColumns: ["author_id"],
+    action: "anonymize",
+    anonymizeWith: { author_data: null },
+  },
+  {
+    table: "forum_posts",
+    source: "supabase",
+    userColumns: ["author_id"],
+    action: "anonymize",
+    anonymizeWith: { author_data: null },
+  },
+  {
+    table: "chat_messages",
+    source: "postgres-first",
+    userColumns: ["sender_id"],
+    action: "delete",
+    uploadColumns: ["photo_url", "file_url", "audio_url"],
+  },
+  { table: "match_settings", source: "postgres-first", userColumns: ["user_id"], action: "delete" },
+  { table: "matches", source: "postgres-first", userColumns: ["user_a_id", "user_b_id"], action: "delete" },
+  { table: "swipes", source: "postgres-first", userColumns: ["swiper_id", "swiped_id"], action: "delete" },
+  { table: "radar_chat_requests", source: "postgres-first", userColumns: ["sender_id", "receiver_id"], action: "delete" },
+  { table: "compatibility_history", source: "postgres-first", userColumns: ["user_a", "user_b"], action: "delete" },
+  { table: "user_locations", source: "postgres-first", userColumns: ["user_id"], action: "delete" },
+  { table: "user_blocks", source: "postgres-first", userColumns: ["blocker_id", "blocked_id"], action: "delete" },
+  { table: "explorex_intents", source: "postgres-first", userColumns: ["user_id"], action: "delete" },
+  { table: "explorex_plan_cards", source: "postgres-first", userColumns: ["user_id"], action: "delete" },
+  { table: "explorex_meetups", source: "postgres-first", userColumns: ["user_a_id", "user_b_id"], action: "delete" },
+  { table: "explorex_journey_entries", source: "postgres-first", userColumns: ["user_a_id", "user_b_id"], action: "delete" },
+  {
+    table: "explorex_daily_serendipity",
+    source: "postgres-first",
+    userColumns: ["user_id", "target_user_id"],
+    action: "delete",
+  },
+  { table: "usage_counters", source: "postgres-first", userColumns: ["user_id"], action: "delete" },
+  { table: "user_subscriptions", source: "postgres-first", userColumns: ["user_id"], action: "delete" },
+  {
+    table: "subscription_events",
+    source: "postgres-first",
+    userColumns: ["user_id"],
+    action: "anonymize",
+    anonymizeWith: { payload: null },
+  },
+  { table: "moderation_queue", source: "postgres-first", userColumns: ["author_id"], action: "delete" },
+  { table: "user_reports", source: "postgres-first", userColumns: ["reporter_id", "reported_user_id"], action: "anonymize" },
+  { table: "admin_audit_log", source: "postgres-first", userColumns: ["admin_id", "target_id"], action: "anonymize" },
+  { table: "user_profiles", source: "postgres-first", userColumns: ["id"], action: "delete", uploadColumns: ["photos"] },
+  // After every table with uploadColumns: removing a file checks this record of who uploaded it.
+  { table: "uploads", source: "postgres-first", userColumns: ["owner_id"], action: "delete" },
+  { table: "auth_recovery_codes", source: "postgres", userColumns: ["user_id"], action: "delete" },
+  { table: "auth_two_factor", source: "postgres", userColumns: ["user_id"], action: "delete" },
+  { table: "auth_sessions", source: "postgres", userColumns: ["user_id"], action: "delete" },
+  { table: "auth_identities", source: "postgres", userColumns: ["user_id"], action: "delete" },
+  { table: "app_users", source: "postgres", userColumns: ["id"], action: "delete" },
+];
+
+export function findUserDataTable(table: string): UserDataTable {
+  const spec = USER_DATA_TABLES.find((entry) => entry.table === table);
+  if (!spec) throw new Error(`Unknown user data table ${table}`);
+  return spec;
+}
+
+// Collects the upload URLs named by a table's uploadColumns; array columns (photo lists) are flattened.
+export function collectUploadUrls(rows: any[], columns: string[] = []): string[] {
+  const urls = new Set<string>();
+  for (const row of rows) {
+    for (const column of columns) {
+      const value = row?.[column];
+      const values = Array.isArray(value) ? value : [value];
+      values.forEach((entry) => {
+        if (typeof entry === "string" && entry) urls.add(entry);
+      });
+    }
+  }
+  return Array.from(urls);
+}
+
+export interface OwnedUpload {
+  url: string;
+  ownerId: string;
+}
+
+// collectUploadUrls for rows written by several users; each URL is paired with the user in ownerColumn.
+export function collectOwnedUploads(rows: any[], columns: string[] = [], ownerColumn: string): OwnedUpload[] {
+  return rows.flatMap((row) =>
+    collectUploadUrls([row], columns).map((url) => ({ url, ownerId: String(row?.[ownerColumn] ?? "") }))
+  );
+}
+
+export function exportFileName(date: Date = new Date()): string {
+  return `explorex-data-${date.toISOString().slice(0, 10)}.zip`;
+}
@@ -0,0 +1,259 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AddressInfo } from "node:net";
+import type { Server } from "node:http";
+import express from "express";
+import { createAuthorizer, findRoutePolicy, MUTATING_METHODS, type HttpMethod, type RoutePolicy } from "./authorization";
+import { ROUTE_POLICIES } from "./policies";
+
+const OWNER_ID = "user_owner";
+const OTHER_ID = "user_other";
+const ADMIN_ID = "user_admin";
+const UNVERIFIED_ID = "user_unverified";
+
+// Test tokens are "token:<userId>"; anything else is rejected.
+function tokenFor(userId: string): string {
+  return `token:${userId}`;
+}
+
+function registeredRoutes(): { method: HttpMethod; path: string }[] {
+  const source = fs.readFileSync(path.join(__dirname, "routes.ts"), "utf8");
+  const routes: { method: HttpMethod; path: string }[] = [];
+  for (const match of source.matchAll(/app\.(get|post|put|patch|delete)\(\s*"(\/api\/[^"]+)"/g)) {
+    routes.push({ method: match[1].toUpperCase() as HttpMethod, path: match[2] });
+  }
+  return routes;
+}
+
+// Builds a request for a policy whose actor field names `actorId`; other path params get placeholder values.
+function buildRequest(policy: RoutePolicy, actorId: string): { url: string; body?: Record<string, unknown> } {
+  const [source, ...keys] = (policy.actor || "body.userId").split(".");
+  let url = policy.path
+    .split("/")
+    .map((segment) => {
+      if (!segment.startsWith(":")) return segment;
+      return source === "params" && segment.slice(1) === keys[0] ? encodeURIComponent(actorId) : "item_1";
+    })
+    .join("/");
+
+  if (source === "query") url += `?${keys[0]}=${encodeURIComponent(actorId)}`;
+
+  let body: Record<string, unknown> | undefined;
+  if (source === "body") {
+    body = {};
+    let cursor = body;
+    keys.slice(0, -1).forEach((key) => {
+      cursor[key] = {};
+      cursor = cursor[key] as Record<string, unknown>;
+    });
+    cursor[keys[keys.length - 1]] = actorId;
+  }
+  return { url, body };
+}
+
+describe("route policy table", () => {
+  const routes = registeredRoutes();
+
+  it("finds the routes in routes.ts", () => {
+    assert.ok(routes.length > 50, `only found ${routes.length} routes`);
+  });
+
+  it("lists every mutating route", () => {
+    const missing = routes
+      .filter((route) => MUTATING_METHODS.includes(route.method))
+      .filter((route) => findRoutePolicy(ROUTE_POLICIES, route.method, route.path)?.path !== route.path)
+      .map((route) => `${route.method} ${route.path}`);
+    assert.deepEqual(missing, []);
+  });
+
+  it("lists every read of one user's data", () => {
+    const unguarded = routes
+      .filter((route) => route.method === "GET" && /\/:(userId|expertId)(\/|$)/.test(route.path))
+      .filter((route) => {
+        const policy = findRoutePolicy(ROUTE_POLICIES, route.method, route.path);
+        return policy?.access !== "admin" && !policy?.actor;
+      })
+      .map((route) => `${route.method} ${route.path}`);
+    assert.deepEqual(unguarded, []);
+  });
+
+  it("has no policies for routes that do not exist", () => {
+    const registered = new Set(routes.map((route) => `${route.method} ${route.path}`));
+    const stale = ROUTE_POLICIES.map((policy) => `${policy.method} ${policy.path}`).filter((key) => !registered.has(key));
+    assert.deepEqual(stale, []);
+  });
+
+  it("gives a reason for every public mutating route", () => {
+    const unexplained = ROUTE_POLICIES.filter(
+      (policy) => policy.access === "public" && MUTATING_METHODS.includes(policy.method) && !policy.reason?.trim()
+    ).map((policy) => `${policy.method} ${policy.path}`);
+    assert.deepEqual(unexplained, []);
+  });
+
+  it("only names an actor on user routes", () => {
+    const misplaced = ROUTE_POLICIES.filter((policy) => policy.actor && policy.access !== "user").map(
+      (policy) => `${policy.method} ${policy.path}`
+    );
+    assert.deepEqual(misplaced, []);
+  });
+
+  it("only requires a verified email on user routes", () => {
+    const misplaced = ROUTE_POLICIES.filter((policy) => policy.requiresVerifiedEmail && policy.access !== "user").map(
+      (policy) => `${policy.method} ${policy.path}`
+    );
+    assert.deepEqual(misplaced, []);
+  });
+});
+
+describe("authorizer", () => {
+  let server: Server;
+  let baseUrl = "";
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use(
+      createAuthorizer(ROUTE_POLICIES, {
+        verifyToken: async (token) =>
+          token.startsWith("token:")
+            ? { valid: true, userId: token.slice("token:".length), sessionId: `sess_${token.slice("token:".length)}` }
+            : { valid: false },
+        isAdmin: async (userId) => userId === ADMIN_ID,
+        isEmailVerified: async (userId) => userId !== UNVERIFIED_ID,
+      })
+    );
+    app.use((req, res) => {
+      res.json({
+        userId: res.locals.userId ?? null,
+        sessionId: res.locals.sessionId ?? null,
+        adminId: res.locals.adminId ?? null,
+      });
+    });
+    server = app.listen(0);
+    await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  function send(method: string, url: string, options: { token?: string; body?: unknown } = {}) {
+    const headers: Record<string, string> = {};
+    if (options.body !== undefined) headers["Content-Type"] = "application/json";
+    if (options.token) headers.Authorization = `Bearer ${options.token}`;
+    return fetch(`${baseUrl}${url}`, {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+    });
+  }
+
+  const actorPolicies = ROUTE_POLICIES.filter((policy) => policy.actor);
+
+  it("rejects mutating requests made for another user", async () => {
+    const accepted: string[] = [];
+    for (const policy of actorPolicies.filter((entry) => MUTATING_METHODS.includes(entry.method))) {
+      const { url, body } = buildRequest(policy, OWNER_ID);
+      const res = await send(policy.method, url, { token: tokenFor(OTHER_ID), body });
+      if (res.status !== 401) accepted.push(`${policy.method} ${policy.path} -> ${res.status}`);
+    }
+    assert.deepEqual(accepted, []);
+  });
+
+  it("rejects reads of another user's data", async () => {
+    const accepted: string[] = [];
+    for (const policy of actorPolicies.filter((entry) => entry.method === "GET")) {
+      const { url } = buildRequest(policy, OWNER_ID);
+      const res = await send(policy.method, url, { token: tokenFor(OTHER_ID) });
+      if (res.status !== 401) accepted.push(`${policy.method} ${policy.path} -> ${res.status}`);
+    }
+    assert.deepEqual(accepted, []);
+  });
+
+  it("lets the named user through and records who they are", async () => {
+    const rejected: string[] = [];
+    for (const policy of actorPolicies) {
+      const { url, body } = buildRequest(policy, OWNER_ID);
+      const res = await send(policy.method, url, { token: tokenFor(OWNER_ID), body });
+      const payload = res.ok ? await res.json() : null;
+      if (payload?.userId !== OWNER_ID) rejected.push(`${policy.method} ${policy.path} -> ${res.status}`);
+    }
+    assert.deepEqual(rejected, []);
+  });
+
+  it("requires the acting user id", async () => {
+    const res = await send("POST", "/api/forum/posts", { token: tokenFor(OWNER_ID), body: { title: "Hi" } });
+    assert.equal(res.status, 400);
+  });
+
+  it("requires a session on user routes", async () => {
+    const missing = await send("PUT", "/api/ai/sessions/chat_1", { body: { title: "Trip" } });
+    assert.equal(missing.status, 401);
+
+    const forged = await send("PUT", "/api/ai/sessions/chat_1", { token: "forged", body: { title: "Trip" } });
+    assert.equal(forged.status, 401);
+
+    const res = await send("PUT", "/api/ai/sessions/chat_1", { token: tokenFor(OWNER_ID), body: { title: "Trip" } });
+    assert.equal(res.status, 200);
+    const payload = await res.json();
+    assert.equal(payload.userId, OWNER_ID);
+    assert.equal(payload.sessionId, `sess_${OWNER_ID}`);
+  });
+
+  it("limits admin routes to admins", async () => {
+    const anonymous = await send("GET", "/api/admin/users");
+    assert.equal(anonymous.status, 401);
+
+    const member = await send("GET", "/api/admin/users", { token: tokenFor(OWNER_ID) });
+    assert.equal(member.status, 403);
+
+    const admin = await send("PATCH", "/api/admin/users/user_1", { token: tokenFor(ADMIN_ID), body: { role: "user" } });
+    assert.equal(admin.status, 200);
+    assert.equal((await admin.json()).adminId, ADMIN_ID);
+  });
+
+  it("matches paths without regard to case, like Express does", async () => {
+    const anonymousAdmin = await send("PATCH", "/API/Admin/users/user_1", { body: { role: "admin" } });
+    assert.equal(anonymousAdmin.status, 401);
+
+    const memberAdmin = await send("GET", "/Api/admin/USERS", { token: tokenFor(OWNER_ID) });
+    assert.equal(memberAdmin.status, 403);
+
+    const anonymousPost = await send("POST", "/API/forum/posts", { body: { authorId: OWNER_ID, title: "Hi" } });
+    assert.equal(anonymousPost.status, 401);
+
+    const otherUser = await send("POST", "/api/Forum/Posts", { token: tokenFor(OTHER_ID), body: { authorId: OWNER_ID } });
+    assert.equal(otherUser.status, 401);
+  });
+
+  it("keeps messaging and radar from unverified accounts", async () => {
+    const gated = ROUTE_POLICIES.filter((policy) => policy.requiresVerifiedEmail);
+    assert.ok(gated.some((policy) => policy.path === "/api/messages/:matchId"));
+
+    const accepted: string[] = [];
+    for (const policy of gated) {
+      const { url, body } = buildRequest(policy, UNVERIFIED_ID);
+      const res = await send(policy.method, url, { token: tokenFor(UNVERIFIED_ID), body });
+      if (res.status !== 403 || !(await res.json()).emailVerificationRequired) {
+        accepted.push(`${policy.method} ${policy.path} -> ${res.status}`);
+      }
+    }
+    assert.deepEqual(accepted, []);
+  });
+
+  it("refuses mutating requests to routes without a policy", async () => {
+    const res = await send("POST", "/api/not-a-route", { token: tokenFor(OWNER_ID), body: {} });
+    assert.equal(res.status, 403);
+  });
+
+  it("leaves public routes and unlisted reads open", async () => {
+    const login = await send("POST", "/api/auth/login", { body: { email: "a@b.c" } });
+    assert.equal(login.status, 200);
+
+    const posts = await send("GET", "/api/forum/posts");
+    assert.equal(posts.status, 200);
+  });
+});
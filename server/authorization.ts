@@ -0,0 +1,153 @@
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+
+export type HttpMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+// public: anyone; user: a valid session; admin: a session whose account has the admin role.
+export type RouteAccess = "public" | "user" | "admin";
+
+// Where a request names the user it acts for, e.g. "body.userId", "body.user.id", "query.userId" or "params.userId".
+export type ActorField = `${"body" | "query" | "params"}.${string}`;
+
+export interface RoutePolicy {
+  method: HttpMethod;
+  // Express-style path, e.g. "/api/forum/posts/:postId/vote".
+  path: string;
+  access: RouteAccess;
+  // Only for "user" routes: the named user must be the session's user.
+  actor?: ActorField;
+  // Only for "user" routes: the session's user must have confirmed their email address.
+  requiresVerifiedEmail?: boolean;
+  // Why a mutating route is open to anyone.
+  reason?: string;
+}
+
+export interface AuthorizerOptions {
+  verifyToken: (token: string) => Promise<{ valid: boolean; userId?: string; sessionId?: string }>;
+  isAdmin: (userId: string) => Promise<boolean>;
+  isEmailVerified: (userId: string) => Promise<boolean>;
+}
+
+interface CompiledPolicy {
+  policy: RoutePolicy;
+  pattern: RegExp;
+  paramNames: string[];
+}
+
+export const MUTATING_METHODS: HttpMethod[] = ["POST", "PUT", "PATCH", "DELETE"];
+
+export function extractBearerToken(req: Request): string {
+  const auth = String(req.headers.authorization || "");
+  if (!auth.toLowerCase().startsWith("bearer ")) return "";
+  return auth.slice(7).trim();
+}
+
+function compilePolicy(policy: RoutePolicy): CompiledPolicy {
+  const paramNames: string[] = [];
+  const source = policy.path
+    .split("/")
+    .map((segment) => {
+      if (segment.startsWith(":")) {
+        paramNames.push(segment.slice(1));
+        return "([^/]+)";
+      }
+      return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("/");
+  // Express matches paths without regard to case, so the policies must too or "/API/..." would slip past them.
+  return { policy, pattern: new RegExp(`^${source}/?$`, "i"), paramNames };
+}
+
+function matchPolicy(
+  compiled: CompiledPolicy[],
+  method: string,
+  path: string
+): { policy: RoutePolicy; params: Record<string, string> } | null {
+  for (const entry of compiled) {
+    if (entry.policy.method !== method) continue;
+    const match = entry.pattern.exec(path);
+    if (!match) continue;
+    const params: Record<string, string> = {};
+    entry.paramNames.forEach((name, index) => {
+      params[name] = decodeURIComponent(match[index + 1]);
+    });
+    return { policy: entry.policy, params };
+  }
+  return null;
+}
+
+// First matching policy wins, the same way Express picks the first matching route.
+export function findRoutePolicy(policies: RoutePolicy[], method: string, path: string): RoutePolicy | null {
+  return matchPolicy(policies.map(compilePolicy), method.toUpperCase(), path)?.policy || null;
+}
+
+function readActor(field: ActorField, req: Request, params: Record<string, string>): string {
+  const [source, ...keys] = field.split(".");
+  let value: any = source === "params" ? params : source === "query" ? req.query : req.body;
+  for (const key of keys) value = value?.[key];
+  if (Array.isArray(value)) value = value[0];
+  return String(value ?? "").trim();
+}
+
+/**
+ * Checks every /api request against the policy table before it reaches a route. The acting user comes from the
+ * session token and is left in res.locals.userId, with its session in res.locals.sessionId (and res.locals.adminId
+ * on admin routes). Reads without a policy stay open; mutating requests without one are refused, so a new route
+ * cannot ship unguarded by accident.
+ */
+export function createAuthorizer(policies: RoutePolicy[], options: AuthorizerOptions): RequestHandler {
+  const compiled = policies.map(compilePolicy);
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.path.toLowerCase().startsWith("/api/") || req.method === "OPTIONS") return next();
+
+    const matched = matchPolicy(compiled, req.method, req.path);
+    if (!matched) {
+      if (!(MUTATING_METHODS as string[]).includes(req.method)) return next();
+      console.error(`[Auth] No route policy for ${req.method} ${req.path}`);
+      return res.status(403).json({ error: "Forbidden" });
+    }
+
+    const { policy, params } = matched;
+    if (policy.access === "public") return next();
+
+    const expectedUserId = policy.actor ? readActor(policy.actor, req, params) : "";
+    if (policy.actor && !expectedUserId) {
+      return res.status(400).json({ error: "User ID is required" });
+    }
+
+    const verified = await options.verifyToken(extractBearerToken(req));
+    if (!verified.valid || !verified.userId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    if (policy.actor && verified.userId !== expectedUserId) {
+      return res.status(401).json({ error: "Unauthorized" });
+    }
+    res.locals.userId = verified.userId;
+    res.locals.sessionId = verified.sessionId;
+
+    if (policy.requiresVerifiedEmail) {
+      try {
+        if (!(await options.isEmailVerified(verified.userId))) {
+          return res.status(403).json({ error: "Please verify your email address first", emailVerificationRequired: true });
+        }
+      } catch (error) {
+        console.error("Failed to check email verification:", error);
+        return res.status(500).json({ error: "Failed to check email verification" });
+      }
+    }
+
+    if (policy.access === "admin") {
+      try {
+        if (!(await options.isAdmin(verified.userId))) {
+          return res.status(403).json({ error: "Admin access required" });
+        }
+      } catch (error) {
+        console.error("Failed to check admin role:", error);
+        return res.status(500).json({ error: "Failed to check admin role" });
+      }
+      res.locals.adminId = verified.userId;
+    }
+
+    next();
+  };
+}
@@ -0,0 +1,207 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  parseRevenueCatEvent,
+  nextSubscriptionState,
+  transferSubscriptionStates,
+  handleEntitlementEvent,
+  effectiveTier,
+  type EntitlementEvent,
+  type SubscriptionState,
+} from "./entitlements";
+
+function entitlementEvent(overrides: Partial<EntitlementEvent> = {}): EntitlementEvent {
+  return {
+    id: "evt_1",
+    type: "INITIAL_PURCHASE",
+    userId: "user_1",
+    productId: "explorer_monthly",
+    entitlementIds: ["explorer"],
+    expiresAt: "2030-02-01T00:00:00.000Z",
+    eventAt: "2030-01-01T00:00:00.000Z",
+    environment: "PRODUCTION",
+    transferredFrom: [],
+    transferredTo: [],
+    ...overrides,
+  };
+}
+
+const explorer: SubscriptionState = {
+  tier: "explorer",
+  productId: "explorer_monthly",
+  expiresAt: "2030-02-01T00:00:00.000Z",
+  lastEventAt: "2030-01-01T00:00:00.000Z",
+};
+
+// In-memory stand-in for the subscription_events table and the subscription it drives.
+function fakeStore(options: { failApplies?: number } = {}) {
+  const processed = new Set<string>();
+  const seen = new Set<string>();
+  let failures = options.failApplies || 0;
+  let state: SubscriptionState | null = null;
+  let applies = 0;
+
+  return {
+    store: {
+      record: async (event: EntitlementEvent) => {
+        seen.add(event.id);
+        return { processed: processed.has(event.id) };
+      },
+      apply: async (event: EntitlementEvent) => {
+        applies += 1;
+        if (failures > 0) {
+          failures -= 1;
+          throw new Error("database unavailable");
+        }
+        state = nextSubscriptionState(state, event) ?? state;
+      },
+      markProcessed: async (eventId: string) => {
+        processed.add(eventId);
+      },
+    },
+    state: () => state,
+    applies: () => applies,
+    seen: () => seen,
+  };
+}
+
+describe("RevenueCat events", () => {
+  it("parses the fields entitlement tracking needs", () => {
+    const event = parseRevenueCatEvent({
+      event: {
+        id: "evt_9",
+        type: "RENEWAL",
+        app_user_id: "$RCAnonymousID:abc",
+        aliases: ["$RCAnonymousID:abc", "user_7"],
+        product_id: "adventurer_yearly",
+        entitlement_id: "adventurer",
+        expiration_at_ms: Date.UTC(2031, 0, 1),
+        event_timestamp_ms: Date.UTC(2030, 0, 1),
+        environment: "SANDBOX",
+      },
+    });
+
+    assert.equal(event?.userId, "user_7");
+    assert.deepEqual(event?.entitlementIds, ["adventurer"]);
+    assert.equal(event?.expiresAt, "2031-01-01T00:00:00.000Z");
+    assert.equal(event?.environment, "SANDBOX");
+    assert.equal(parseRevenueCatEvent({ event: { type: "RENEWAL" } }), null);
+  });
+});
+
+describe("subscription state", () => {
+  it("grants the purchased tier until it expires", () => {
+    const state = nextSubscriptionState(null, entitlementEvent());
+    assert.deepEqual(state, explorer);
+    assert.equal(effectiveTier(state, Date.UTC(2030, 0, 15)), "explorer");
+    assert.equal(effectiveTier(state, Date.UTC(2030, 2, 1)), "starter");
+  });
+
+  it("ignores events older than the last one applied", () => {
+    const stale = entitlementEvent({ type: "EXPIRATION", eventAt: "2029-12-01T00:00:00.000Z" });
+    assert.equal(nextSubscriptionState(explorer, stale), null);
+  });
+
+  it("keeps access through the period after a cancellation and drops it on expiry", () => {
+    const cancelled = nextSubscriptionState(
+      explorer,
+      entitlementEvent({ type: "CANCELLATION", eventAt: "2030-01-10T00:00:00.000Z" })
+    );
+    assert.equal(cancelled?.tier, "explorer");
+    assert.equal(cancelled?.expiresAt, explorer.expiresAt);
+
+    const expired = nextSubscriptionState(
+      cancelled,
+      entitlementEvent({ type: "EXPIRATION", eventAt: "2030-02-01T00:00:00.000Z" })
+    );
+    assert.equal(expired?.tier, "starter");
+  });
+
+  it("keeps a lifetime purchase over lower tiers and their expiry", () => {
+    const lifetime = nextSubscriptionState(
+      explorer,
+      entitlementEvent({ productId: "lifetime", entitlementIds: ["lifetime"], eventAt: "2030-01-05T00:00:00.000Z" })
+    );
+    assert.equal(lifetime?.tier, "lifetime");
+    assert.equal(lifetime?.expiresAt, null);
+
+    assert.equal(nextSubscriptionState(lifetime, entitlementEvent({ eventAt: "2030-01-06T00:00:00.000Z" })), null);
+    assert.equal(
+      nextSubscriptionState(lifetime, entitlementEvent({ type: "EXPIRATION", eventAt: "2030-02-01T00:00:00.000Z" })),
+      null
+    );
+  });
+});
+
+describe("transfers", () => {
+  const transfer = (overrides: Partial<EntitlementEvent> = {}) =>
+    entitlementEvent({
+      type: "TRANSFER",
+      userId: null,
+      transferredFrom: ["user_old"],
+      transferredTo: ["user_new"],
+      eventAt: "2030-01-10T00:00:00.000Z",
+      ...overrides,
+    });
+
+  it("moves the purchase to the new user and resets the old one", () => {
+    const next = transferSubscriptionStates(transfer(), new Map([["user_old", explorer], ["user_new", null]]));
+    assert.deepEqual(next.get("user_new"), { ...explorer, lastEventAt: "2030-01-10T00:00:00.000Z" });
+    assert.equal(next.get("user_old")?.tier, "starter");
+  });
+
+  it("leaves users whose state is newer than a late transfer alone", () => {
+    const renewed = { ...explorer, expiresAt: "2030-03-01T00:00:00.000Z", lastEventAt: "2030-02-01T00:00:00.000Z" };
+    const expired: SubscriptionState = { tier: "starter", productId: null, expiresAt: null, lastEventAt: "2030-02-01T00:00:00.000Z" };
+
+    const staleTarget = transferSubscriptionStates(transfer(), new Map([["user_old", explorer], ["user_new", expired]]));
+    assert.equal(staleTarget.has("user_new"), false);
+
+    const staleSource = transferSubscriptionStates(transfer(), new Map([["user_old", renewed], ["user_new", null]]));
+    assert.deepEqual(Array.from(staleSource.keys()), []);
+  });
+
+  it("moves the best tier any previous owner held", () => {
+    const adventurer = { ...explorer, tier: "adventurer" as const, productId: "adventurer_monthly" };
+    const next = transferSubscriptionStates(
+      transfer({ transferredFrom: ["user_old", "user_older"] }),
+      new Map([["user_old", explorer], ["user_older", adventurer], ["user_new", null]])
+    );
+    assert.equal(next.get("user_new")?.tier, "adventurer");
+    assert.equal(next.get("user_older")?.tier, "starter");
+  });
+});
+
+describe("webhook handling", () => {
+  it("applies a redelivered event when the first attempt failed", async () => {
+    const fake = fakeStore({ failApplies: 1 });
+    const event = entitlementEvent();
+
+    await assert.rejects(handleEntitlementEvent(event, fake.store, { allowSandbox: false }));
+    assert.equal(fake.state(), null);
+
+    assert.equal(await handleEntitlementEvent(event, fake.store, { allowSandbox: false }), "applied");
+    assert.equal(fake.state()?.tier, "explorer");
+  });
+
+  it("skips an event that was already applied", async () => {
+    const fake = fakeStore();
+    const event = entitlementEvent();
+
+    assert.equal(await handleEntitlementEvent(event, fake.store, { allowSandbox: false }), "applied");
+    assert.equal(await handleEntitlementEvent(event, fake.store, { allowSandbox: false }), "duplicate");
+    assert.equal(fake.applies(), 1);
+  });
+
+  it("ignores sandbox purchases unless they are allowed", async () => {
+    const fake = fakeStore();
+    const event = entitlementEvent({ environment: "SANDBOX" });
+
+    assert.equal(await handleEntitlementEvent(event, fake.store, { allowSandbox: false }), "ignored_sandbox");
+    assert.equal(fake.state(), null);
+    assert.equal(fake.seen().size, 0);
+
+    assert.equal(await handleEntitlementEvent(event, fake.store, { allowSandbox: true }), "applied");
+    assert.equal(fake.state()?.tier, "explorer");
+  });
+});
@@ -0,0 +1,209 @@
+import { timingSafeEqual } from "crypto";
+
+export type SubscriptionTier = "starter" | "explorer" | "adventurer" | "lifetime";
+
+// A RevenueCat webhook event reduced to the fields entitlement tracking needs.
+export interface EntitlementEvent {
+  id: string;
+  type: string;
+  userId: string | null;
+  productId: string | null;
+  entitlementIds: string[];
+  expiresAt: string | null;
+  eventAt: string;
+  environment: string | null;
+  transferredFrom: string[];
+  transferredTo: string[];
+}
+
+export interface SubscriptionState {
+  tier: SubscriptionTier;
+  productId: string | null;
+  expiresAt: string | null;
+  lastEventAt: string | null;
+}
+
+const GRANTING_EVENTS = new Set([
+  "INITIAL_PURCHASE",
+  "RENEWAL",
+  "UNCANCELLATION",
+  "NON_RENEWING_PURCHASE",
+  "SUBSCRIPTION_EXTENDED",
+  "TEMPORARY_ENTITLEMENT_GRANT",
+]);
+
+const ANONYMOUS_ID_PREFIX = "$RCAnonymousID:";
+
+const TIER_RANK: Record<SubscriptionTier, number> = { starter: 0, explorer: 1, adventurer: 2, lifetime: 3 };
+
+function includesAny(values: string[], keywords: string[]): boolean {
+  const normalized = values.map((value) => value.toLowerCase());
+  return keywords.some((keyword) => normalized.some((value) => value.includes(keyword)));
+}
+
+// Same keyword matching the app uses on RevenueCat customer info, so both sides agree on a tier.
+export function tierFromEntitlements(entitlementIds: string[], productId?: string | null): SubscriptionTier {
+  const values = [...entitlementIds, ...(productId ? [productId] : [])];
+  if (includesAny(values, ["lifetime", "forever"])) return "lifetime";
+  if (includesAny(values, ["adventurer", "expert", "premium"])) return "adventurer";
+  if (includesAny(values, ["explorer", "pro"])) return "explorer";
+  return "starter";
+}
+
+export function isValidWebhookAuthorization(header: unknown, secret: string): boolean {
+  if (!secret) return false;
+  const received = Buffer.from(String(header || "").replace(/^Bearer\s+/i, "").trim());
+  const expected = Buffer.from(secret);
+  return received.length === expected.length && timingSafeEqual(received, expected);
+}
+
+function toIsoFromMs(value: unknown): string | null {
+  const ms = Number(value);
+  return Number.isFinite(ms) && ms > 0 ? new Date(ms).toISOString() : null;
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.map(String).filter(Boolean) : [];
+}
+
+// Purchases made before login carry an anonymous app user id; the app's own id is then one of the aliases.
+function resolveAppUserId(event: any): string | null {
+  const candidates = [event?.app_user_id, event?.original_app_user_id, ...stringList(event?.aliases)]
+    .filter(Boolean)
+    .map(String);
+  return candidates.find((id) => !id.startsWith(ANONYMOUS_ID_PREFIX)) || null;
+}
+
+export function parseRevenueCatEvent(body: any): EntitlementEvent | null {
+  const event = body?.event;
+  if (!event?.id || !event?.type) return null;
+  const entitlementIds = stringList(event.entitlement_ids);
+  if (event.entitlement_id && !entitlementIds.includes(String(event.entitlement_id))) {
+    entitlementIds.push(String(event.entitlement_id));
+  }
+  return {
+    id: String(event.id),
+    type: String(event.type),
+    userId: resolveAppUserId(event),
+    productId: event.product_id ? String(event.product_id) : null,
+    entitlementIds,
+    expiresAt: toIsoFromMs(event.expiration_at_ms),
+    eventAt: toIsoFromMs(event.event_timestamp_ms) || new Date().toISOString(),
+    environment: event.environment ? String(event.environment) : null,
+    transferredFrom: stringList(event.transferred_from).filter((id) => !id.startsWith(ANONYMOUS_ID_PREFIX)),
+    transferredTo: stringList(event.transferred_to).filter((id) => !id.startsWith(ANONYMOUS_ID_PREFIX)),
+  };
+}
+
+function isStaleFor(state: SubscriptionState | null, event: EntitlementEvent): boolean {
+  return !!state?.lastEventAt && new Date(event.eventAt).getTime() < new Date(state.lastEventAt).getTime();
+}
+
+/**
+ * Works out a user's subscription after an event, or null when the event does not change it.
+ * Events can arrive out of order, so anything older than the last applied event is ignored.
+ */
+export function nextSubscriptionState(current: SubscriptionState | null, event: EntitlementEvent): SubscriptionState | null {
+  if (isStaleFor(current, event)) return null;
+
+  if (GRANTING_EVENTS.has(event.type)) {
+    const tier = tierFromEntitlements(event.entitlementIds, event.productId);
+    // A lower tier bought on top of a lifetime purchase never replaces it.
+    if (current?.tier === "lifetime" && tier !== "lifetime") return null;
+    return {
+      tier,
+      productId: event.productId,
+      expiresAt: tier === "lifetime" ? null : event.expiresAt,
+      lastEventAt: event.eventAt,
+    };
+  }
+
+  if (event.type === "CANCELLATION") {
+    // Cancelling stops renewal; access lasts until the period (or a refund's expiry) ends.
+    if (!current || tierFromEntitlements(event.entitlementIds, event.productId) !== current.tier) return null;
+    // Lifetime purchases have no period, so cancelling one can only mean a refund.
+    if (current.tier === "lifetime") {
+      return { tier: "starter", productId: null, expiresAt: null, lastEventAt: event.eventAt };
+    }
+    return { ...current, expiresAt: event.expiresAt ?? current.expiresAt, lastEventAt: event.eventAt };
+  }
+
+  if (event.type === "EXPIRATION") {
+    // Expiry of a product the user already moved off (e.g. after an upgrade) leaves the current one alone.
+    if (!current || current.tier === "lifetime" || tierFromEntitlements(event.entitlementIds, event.productId) !== current.tier) {
+      return null;
+    }
+    return { tier: "starter", productId: null, expiresAt: null, lastEventAt: event.eventAt };
+  }
+
+  return null;
+}
+
+/**
+ * What a TRANSFER leaves each affected user with, keyed by user id; users it does not change are left out. The
+ * purchase moves to the new app user ids with the best tier any previous owner held when it happened, and the
+ * previous owners drop to starter. Like other events, it is ignored for a user whose state has seen a newer one.
+ */
+export function transferSubscriptionStates(
+  event: EntitlementEvent,
+  states: Map<string, SubscriptionState | null>
+): Map<string, SubscriptionState> {
+  const eventMs = new Date(event.eventAt).getTime();
+  const next = new Map<string, SubscriptionState>();
+
+  let moved: SubscriptionState | null = null;
+  for (const userId of event.transferredFrom) {
+    const state = states.get(userId) ?? null;
+    if (isStaleFor(state, event)) continue;
+    if (state && effectiveTier(state, eventMs) !== "starter") {
+      if (!moved || TIER_RANK[state.tier] > TIER_RANK[moved.tier]) moved = state;
+    }
+    next.set(userId, { tier: "starter", productId: null, expiresAt: null, lastEventAt: event.eventAt });
+  }
+
+  if (!moved) return next;
+  for (const userId of event.transferredTo) {
+    const state = states.get(userId) ?? null;
+    if (isStaleFor(state, event)) continue;
+    // Never trade a better tier the new owner already holds for the transferred one.
+    if (TIER_RANK[effectiveTier(state, eventMs)] > TIER_RANK[moved.tier]) continue;
+    next.set(userId, { ...moved, lastEventAt: event.eventAt });
+  }
+  return next;
+}
+
+export interface EntitlementEventStore {
+  // Saves the raw event if it is new; processed is true once an earlier delivery of it was fully applied.
+  record: (event: EntitlementEvent) => Promise<{ processed: boolean }>;
+  apply: (event: EntitlementEvent) => Promise<void>;
+  markProcessed: (eventId: string) => Promise<void>;
+}
+
+export type EntitlementEventOutcome = "applied" | "duplicate" | "ignored_sandbox";
+
+/**
+ * Handles one webhook delivery. The event only counts as processed after it has been applied, so when applying
+ * fails the error reaches RevenueCat, its retry applies the event again rather than being skipped as a duplicate.
+ * Applying twice is harmless: nextSubscriptionState lands on the same state. Test-store purchases are ignored
+ * unless allowSandbox is set, so they never grant a paid tier in production.
+ */
+export async function handleEntitlementEvent(
+  event: EntitlementEvent,
+  store: EntitlementEventStore,
+  options: { allowSandbox: boolean }
+): Promise<EntitlementEventOutcome> {
+  if (event.environment?.toUpperCase() === "SANDBOX" && !options.allowSandbox) return "ignored_sandbox";
+
+  const { processed } = await store.record(event);
+  if (processed) return "duplicate";
+
+  await store.apply(event);
+  await store.markProcessed(event.id);
+  return "applied";
+}
+
+export function effectiveTier(state: SubscriptionState | null, now = Date.now()): SubscriptionTier {
+  if (!state) return "starter";
+  if (state.tier !== "lifetime" && state.expiresAt && new Date(state.expiresAt).getTime() <= now) return "starter";
+  return state.tier;
+}
@@ -0,0 +1,75 @@
+export type ForumSort = "hot" | "top_week" | "new" | "unanswered";
+
+export const FORUM_SORTS: ForumSort[] = ["hot", "top_week", "new", "unanswered"];
+
+export const FORUM_CATEGORIES = ["builds", "electrical", "plumbing", "insulation", "tips", "general"] as const;
+
+export type ForumCategory = (typeof FORUM_CATEGORIES)[number];
+
+export interface ForumPostQuery {
+  sort: ForumSort;
+  category: ForumCategory | null;
+  tags: string[];
+  search: string;
+  limit: number;
+  offset: number;
+}
+
+export const MAX_FORUM_TAGS = 5;
+const MIN_TAG_LENGTH = 2;
+const MAX_TAG_LENGTH = 24;
+const MAX_SEARCH_LENGTH = 200;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 50;
+
+// "Top this week" looks back a rolling seven days rather than to the start of the calendar week.
+export const TOP_WEEK_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+export function isForumSort(value: unknown): value is ForumSort {
+  return typeof value === "string" && (FORUM_SORTS as string[]).includes(value);
+}
+
+export function isForumCategory(value: unknown): value is ForumCategory {
+  return typeof value === "string" && (FORUM_CATEGORIES as readonly string[]).includes(value);
+}
+
+// Tags are free-form but stored as lowercase slugs ("#Solar Panels" -> "solar-panels") so filters match exactly.
+export function normalizeForumTag(raw: unknown): string | null {
+  const tag = String(raw ?? "")
+    .trim()
+    .toLowerCase()
+    .replace(/^#+/, "")
+    .replace(/[\s_]+/g, "-")
+    .replace(/[^a-z0-9-]/g, "")
+    .replace(/-{2,}/g, "-")
+    .replace(/^-|-$/g, "");
+  if (tag.length < MIN_TAG_LENGTH) return null;
+  return tag.slice(0, MAX_TAG_LENGTH).replace(/-$/, "");
+}
+
+// Accepts an array or a comma-separated string; drops invalid tags and duplicates.
+export function normalizeForumTags(input: unknown): string[] {
+  const raw = Array.isArray(input) ? input : typeof input === "string" ? input.split(",") : [];
+  const tags = raw.map(normalizeForumTag).filter((tag): tag is string => !!tag);
+  return Array.from(new Set(tags)).slice(0, MAX_FORUM_TAGS);
+}
+
+// Parses the list endpoint's query string; unknown sorts and categories are rejected rather than ignored.
+export function parseForumPostQuery(query: Record<string, unknown>): { query: ForumPostQuery } | { error: string } {
+  const sort = query.sort === undefined || query.sort === "" ? "hot" : query.sort;
+  if (!isForumSort(sort)) return { error: `sort must be one of ${FORUM_SORTS.join(", ")}` };
+
+  const category = query.category === undefined || query.category === "" || query.category === "all" ? null : query.category;
+  if (category !== null && !isForumCategory(category)) return { error: "Unknown category" };
+
+  return {
+    query: {
+      sort,
+      category,
+      tags: normalizeForumTags(query.tags ?? query.tag),
+      search: String(query.q ?? "").trim().slice(0, MAX_SEARCH_LENGTH),
+      limit: Math.min(Math.max(Number(query.limit) || DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE),
+      offset: Math.max(Number(query.offset) || 0, 0),
+    },
+  };
+}
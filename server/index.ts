@@ -30,9 +30,13 @@ function setupSecurityHeaders(app: express.Application) {
     next();
   });
 
+  // In memory per instance: it runs on every request, so it must not wait on the database. The route limiters in
+  // routes.ts share their counts through Postgres.
   app.use(
     "/api",
     createRateLimiter({
+      name: "api",
+      algorithm: "token-bucket",
       windowMs: 60_000,
       max: 240,
       message: "Too many API requests. Slow down and try again.",
@@ -74,3 +74,110 @@ export async function sendOTPEmail(toEmail: string, code: string): Promise<boole
     return false;
   }
 }
+
+export type EmailCodePurpose = 'verify' | 'change-old' | 'change-new' | 'reauth';
+
+const EMAIL_CODE_COPY: Record<EmailCodePurpose, { subject: string; heading: string; intro: string }> = {
+  verify: {
+    subject: 'Confirm your ExploreX email',
+    heading: 'Confirm your email',
+    intro: 'Welcome to ExploreX! Confirm this is your email address to start messaging and using the radar.',
+  },
+  'change-old': {
+    subject: 'Confirm your ExploreX email change',
+    heading: 'Email change requested',
+    intro: 'Someone asked to move your ExploreX account to a new email address. If that was you, confirm it from this address.',
+  },
+  'change-new': {
+    subject: 'Confirm your new ExploreX email',
+    heading: 'Confirm your new email',
+    intro: 'Confirm this address to finish moving your ExploreX account to it.',
+  },
+  reauth: {
+    subject: 'Your ExploreX security code',
+    heading: "Confirm it's you",
+    intro: 'Someone asked to delete your ExploreX account. If that was you, enter this code to confirm.',
+  },
+};
+
+export async function sendEmailCodeEmail(
+  toEmail: string,
+  purpose: EmailCodePurpose,
+  code: string,
+  confirmUrl?: string
+): Promise<boolean> {
+  const copy = EMAIL_CODE_COPY[purpose];
+  try {
+    const { client } = await getResendClient();
+
+    const { error } = await client.emails.send({
+      from: 'ExploreX <onboarding@resend.dev>',
+      to: toEmail,
+      subject: copy.subject,
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #E8744F;">${copy.heading}</h2>
+          <p>${copy.intro}</p>
+          <p>Enter this code in the app:</p>
+          <div style="background: #f5f5f5; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
+            <span style="font-size: 32px; font-weight: bold; letter-spacing: 8px; color: #333;">${code}</span>
+          </div>
+          ${confirmUrl ? `<p>Or <a href="${confirmUrl}" style="color: #E8744F;">confirm with one tap</a>.</p>` : ''}
+          <p>This code expires in 30 minutes.</p>
+          <p>If you didn't request this, please ignore this email.</p>
+          <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+          <p style="color: #888; font-size: 12px;">ExploreX - Connect with fellow travelers</p>
+        </div>
+      `
+    });
+
+    if (error) {
+      console.error('Resend email error:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Failed to send email code:', error);
+    return false;
+  }
+}
+
+export async function sendMagicLinkEmail(toEmail: string, code: string, signInUrl: string): Promise<boolean> {
+  try {
+    const { client } = await getResendClient();
+
+    const { error } = await client.emails.send({
+      from: 'ExploreX <onboarding@resend.dev>',
+      to: toEmail,
+      subject: 'Your ExploreX sign-in link',
+      html: `
+        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <h2 style="color: #E8744F;">Sign in to ExploreX</h2>
+          <p>Tap the button on your phone to sign in, no password needed.</p>
+          <p style="text-align: center; margin: 24px 0;">
+            <a href="${signInUrl}" style="background: #E8744F; color: #fff; padding: 14px 28px; border-radius: 8px; text-decoration: none; font-weight: bold;">Sign in</a>
+          </p>
+          <p>Or enter this code in the app:</p>
+          <div style="background: #f5f5f5; padding: 20px; text-align: center; border-radius: 8px; margin: 20px 0;">
+            <span style="font-size: 32px; font-weight: bold; letter-spacing: 8px; color: #333;">${code}</span>
+          </div>
+          <p>The link and code work once and expire in 15 minutes.</p>
+          <p>If you didn't request this, please ignore this email.</p>
+          <hr style="border: none; border-top: 1px solid #eee; margin: 20px 0;">
+          <p style="color: #888; font-size: 12px;">ExploreX - Connect with fellow travelers</p>
+        </div>
+      `
+    });
+
+    if (error) {
+      console.error('Resend email error:', error);
+      return false;
+    }
+
+    return true;
+  } catch (error) {
+    console.error('Failed to send magic link email:', error);
+    return false;
+  }
+}
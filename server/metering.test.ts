@@ -0,0 +1,74 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { METERS, buildMeterUsage, parseQuotaOverrides, quotaFor, windowBounds, windowResetsAt, type MeterWindow } from "./metering";
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Sunday 2030-03-10, mid-afternoon UTC.
+const SUNDAY = new Date("2030-03-10T15:30:00.000Z");
+
+const week: MeterWindow = { kind: "calendar", unit: "week" };
+const month: MeterWindow = { kind: "calendar", unit: "month" };
+
+describe("meter windows", () => {
+  it("opens rolling windows now and lets them lapse after their duration", () => {
+    const { freshStart, staleBefore } = windowBounds({ kind: "rolling", durationMs: DAY }, SUNDAY);
+    assert.equal(freshStart.toISOString(), SUNDAY.toISOString());
+    assert.equal(staleBefore.toISOString(), "2030-03-09T15:30:00.000Z");
+    assert.equal(windowResetsAt({ kind: "rolling", durationMs: DAY }, SUNDAY).toISOString(), "2030-03-11T15:30:00.000Z");
+  });
+
+  it("starts calendar days at UTC midnight and weeks on Monday", () => {
+    assert.equal(windowBounds({ kind: "calendar", unit: "day" }, SUNDAY).freshStart.toISOString(), "2030-03-10T00:00:00.000Z");
+
+    const sundayWeek = windowBounds(week, SUNDAY);
+    assert.equal(sundayWeek.freshStart.toISOString(), "2030-03-04T00:00:00.000Z");
+    assert.equal(sundayWeek.staleBefore.toISOString(), sundayWeek.freshStart.toISOString());
+    assert.equal(windowBounds(week, new Date("2030-03-11T00:00:00.000Z")).freshStart.toISOString(), "2030-03-11T00:00:00.000Z");
+    assert.equal(windowResetsAt(week, sundayWeek.freshStart).toISOString(), "2030-03-11T00:00:00.000Z");
+  });
+
+  it("rolls months over at the start of the next month, across a year end", () => {
+    const start = windowBounds(month, new Date("2030-12-31T23:59:59.000Z")).freshStart;
+    assert.equal(start.toISOString(), "2030-12-01T00:00:00.000Z");
+    assert.equal(windowResetsAt(month, start).toISOString(), "2031-01-01T00:00:00.000Z");
+    assert.equal(windowResetsAt(month, new Date("2031-01-01T00:00:00.000Z")).toISOString(), "2031-02-01T00:00:00.000Z");
+  });
+});
+
+describe("meter usage", () => {
+  it("counts a stored window until it lapses", () => {
+    const windowStart = new Date(SUNDAY.getTime() - 2 * HOUR);
+    const active = buildMeterUsage("radar_scan", "starter", { used: 2, windowStart }, SUNDAY);
+    assert.equal(active.used, 2);
+    assert.equal(active.resetsAt, new Date(windowStart.getTime() + DAY).toISOString());
+
+    const lapsed = buildMeterUsage("radar_scan", "starter", { used: 2, windowStart }, new Date(SUNDAY.getTime() + DAY));
+    assert.equal(lapsed.used, 0);
+    assert.equal(lapsed.windowStart, null);
+  });
+
+  it("shows the current calendar window even before first use", () => {
+    const usage = buildMeterUsage("cost_estimate", "starter", null, SUNDAY);
+    assert.equal(usage.windowStart, "2030-03-01T00:00:00.000Z");
+    assert.equal(usage.resetsAt, "2030-04-01T00:00:00.000Z");
+  });
+});
+
+describe("quotas", () => {
+  it("applies USAGE_QUOTAS overrides and ignores invalid values", () => {
+    const overrides = parseQuotaOverrides('{"ai_chat":{"starter":50,"explorer":-1,"adventurer":2.5},"radar_scan":{"starter":-4}}');
+    assert.equal(quotaFor("ai_chat", "starter", overrides), 50);
+    assert.equal(quotaFor("ai_chat", "explorer", overrides), -1);
+    assert.equal(quotaFor("ai_chat", "adventurer", overrides), METERS.ai_chat.quotas.adventurer);
+    assert.equal(quotaFor("radar_scan", "starter", overrides), METERS.radar_scan.quotas.starter);
+    assert.equal(quotaFor("ai_chat", "lifetime", overrides), METERS.ai_chat.quotas.lifetime);
+  });
+
+  it("falls back to the defaults when USAGE_QUOTAS is missing or not JSON", () => {
+    assert.deepEqual(parseQuotaOverrides(undefined), {});
+    assert.deepEqual(parseQuotaOverrides("{starter: 50"), {});
+    assert.equal(quotaFor("cost_estimate", "starter", {}), 3);
+  });
+});
@@ -0,0 +1,131 @@
+import type { SubscriptionTier } from "./entitlements";
+
+export type MeterName = "radar_scan" | "compatibility_check" | "ai_chat" | "cost_estimate" | "verification_attempt";
+
+// Rolling windows open on first use and last a fixed time; calendar windows follow UTC days, weeks (from Monday) or months.
+export type MeterWindow =
+  | { kind: "rolling"; durationMs: number }
+  | { kind: "calendar"; unit: "day" | "week" | "month" };
+
+export interface MeterDefinition {
+  label: string;
+  window: MeterWindow;
+  // -1 means unlimited.
+  quotas: Record<SubscriptionTier, number>;
+}
+
+export interface MeterUsage {
+  meter: MeterName;
+  label: string;
+  used: number;
+  limit: number;
+  windowStart: string | null;
+  resetsAt: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const METERS: Record<MeterName, MeterDefinition> = {
+  radar_scan: {
+    label: "Radar scans",
+    window: { kind: "rolling", durationMs: DAY_MS },
+    quotas: { starter: 2, explorer: 15, adventurer: -1, lifetime: -1 },
+  },
+  compatibility_check: {
+    label: "Compatibility checks",
+    window: { kind: "rolling", durationMs: DAY_MS },
+    quotas: { starter: -1, explorer: -1, adventurer: -1, lifetime: -1 },
+  },
+  ai_chat: {
+    label: "AI Advisor messages",
+    window: { kind: "calendar", unit: "day" },
+    quotas: { starter: 20, explorer: 100, adventurer: -1, lifetime: -1 },
+  },
+  cost_estimate: {
+    label: "Cost estimates",
+    window: { kind: "calendar", unit: "month" },
+    quotas: { starter: 3, explorer: 20, adventurer: -1, lifetime: -1 },
+  },
+  verification_attempt: {
+    label: "Verification attempts",
+    window: { kind: "rolling", durationMs: 7 * DAY_MS },
+    quotas: { starter: 3, explorer: 3, adventurer: 3, lifetime: 3 },
+  },
+};
+
+export const METER_NAMES = Object.keys(METERS) as MeterName[];
+
+export type QuotaOverrides = Partial<Record<MeterName, Partial<Record<SubscriptionTier, number>>>>;
+
+// Optional overrides, e.g. USAGE_QUOTAS={"ai_chat":{"starter":50}}, so quotas can change without a deploy.
+export function parseQuotaOverrides(raw: string | undefined): QuotaOverrides {
+  if (!raw) return {};
+  try {
+    return JSON.parse(raw);
+  } catch {
+    console.error("[Usage] Ignoring USAGE_QUOTAS: not valid JSON");
+    return {};
+  }
+}
+
+const quotaOverrides = parseQuotaOverrides(process.env.USAGE_QUOTAS);
+
+export function isMeterName(value: unknown): value is MeterName {
+  return typeof value === "string" && value in METERS;
+}
+
+export function quotaFor(meter: MeterName, tier: SubscriptionTier, overrides: QuotaOverrides = quotaOverrides): number {
+  const override = Number(overrides[meter]?.[tier]);
+  return Number.isInteger(override) && override >= -1 ? override : METERS[meter].quotas[tier];
+}
+
+function startOfCalendarWindow(unit: "day" | "week" | "month", now: Date): Date {
+  const start = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  if (unit === "week") start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  if (unit === "month") start.setUTCDate(1);
+  return start;
+}
+
+/**
+ * Where a new window would start right now, and the cutoff before which a stored window has
+ * lapsed and its count starts over.
+ */
+export function windowBounds(window: MeterWindow, now = new Date()): { freshStart: Date; staleBefore: Date } {
+  if (window.kind === "rolling") {
+    return { freshStart: now, staleBefore: new Date(now.getTime() - window.durationMs) };
+  }
+  const start = startOfCalendarWindow(window.unit, now);
+  return { freshStart: start, staleBefore: start };
+}
+
+export function windowResetsAt(window: MeterWindow, windowStart: Date): Date {
+  if (window.kind === "rolling") return new Date(windowStart.getTime() + window.durationMs);
+  const next = new Date(windowStart);
+  if (window.unit === "day") next.setUTCDate(next.getUTCDate() + 1);
+  if (window.unit === "week") next.setUTCDate(next.getUTCDate() + 7);
+  if (window.unit === "month") next.setUTCMonth(next.getUTCMonth() + 1);
+  return next;
+}
+
+// Shapes a stored counter (or its absence) for a meter, treating a lapsed window as unused.
+export function buildMeterUsage(
+  meter: MeterName,
+  tier: SubscriptionTier,
+  counter: { used: number; windowStart: Date } | null,
+  now = new Date()
+): MeterUsage {
+  const definition = METERS[meter];
+  const { staleBefore } = windowBounds(definition.window, now);
+  const active = counter && counter.windowStart.getTime() >= staleBefore.getTime() ? counter : null;
+  // A rolling window only opens on first use, so an unused one has nothing to reset.
+  const calendarStart = definition.window.kind === "calendar" ? windowBounds(definition.window, now).freshStart : null;
+  const windowStart = active?.windowStart || calendarStart;
+  return {
+    meter,
+    label: definition.label,
+    used: active?.used || 0,
+    limit: quotaFor(meter, tier),
+    windowStart: windowStart ? windowStart.toISOString() : null,
+    resetsAt: windowStart ? windowResetsAt(definition.window, windowStart).toISOString() : null,
+  };
+}
@@ -0,0 +1,86 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  createModerator,
+  decideAction,
+  reachesSuspension,
+  rulesClassifier,
+  STRIKES_BEFORE_SUSPENSION,
+  type ModerationClassifier,
+  type ModerationScores,
+} from "./moderation";
+
+function scores(overrides: Partial<ModerationScores> = {}): ModerationScores {
+  return { harassment: 0, scam: 0, minor_location: 0, ...overrides };
+}
+
+// Stands in for the LLM classifier: always gives the same scores and may hide.
+function fixedClassifier(result: Partial<ModerationScores>): ModerationClassifier {
+  return {
+    name: "fixed",
+    canHide: true,
+    classify: async () => ({ scores: result, reasons: ["Classifier: fixed"] }),
+  };
+}
+
+const rulesOnly = createModerator([rulesClassifier]);
+
+async function actionFor(text: string) {
+  return (await rulesOnly.review({ contentType: "forum_post", text })).action;
+}
+
+describe("decideAction", () => {
+  it("allows, holds and hides by category threshold", () => {
+    assert.equal(decideAction(scores({ scam: 0.2 })), "allow");
+    assert.equal(decideAction(scores({ harassment: 0.6 })), "hold");
+    assert.equal(decideAction(scores({ harassment: 0.9 })), "hide");
+    assert.equal(decideAction(scores({ minor_location: 0.4 })), "hold");
+  });
+
+  it("only hides on scores from classifiers allowed to hide", () => {
+    assert.equal(decideAction(scores({ harassment: 0.95 }), scores()), "hold");
+    assert.equal(decideAction(scores({ harassment: 0.95 }), scores({ harassment: 0.9 })), "hide");
+  });
+});
+
+describe("rules classifier", () => {
+  it("lets ordinary family and campground posts through or holds them, never hides them", async () => {
+    assert.equal(await actionFor("We're at campsite 12 with our kids this weekend"), "hold");
+    assert.equal(await actionFor("Our son is 8 years old and loves the lot 4 playground"), "hold");
+    assert.equal(await actionFor("Paid the campground with venmo, I'll send the $30 tonight"), "allow");
+    assert.equal(await actionFor("Our kids loved the hike to the falls"), "allow");
+  });
+
+  it("holds clear violations for a moderator instead of hiding them", async () => {
+    const verdict = await rulesOnly.review({ contentType: "forum_comment", text: "I will find you and hurt you" });
+    assert.equal(verdict.action, "hold");
+    assert.deepEqual(verdict.categories, ["harassment"]);
+
+    assert.equal(await actionFor("Stranded at the border, please send me money through western union"), "hold");
+  });
+
+  it("hides when a classifier that reads context agrees", async () => {
+    const moderator = createModerator([rulesClassifier, fixedClassifier({ harassment: 0.9 })]);
+    const verdict = await moderator.review({ contentType: "forum_comment", text: "I will find you and hurt you" });
+    assert.equal(verdict.action, "hide");
+    assert.deepEqual(verdict.classifiers, ["rules", "fixed"]);
+  });
+
+  it("does not hide on the rules' score when the other classifier finds the text harmless", async () => {
+    const moderator = createModerator([rulesClassifier, fixedClassifier({ minor_location: 0.1 })]);
+    const verdict = await moderator.review({ contentType: "forum_post", text: "Our daughter is home alone at campsite 14" });
+    assert.equal(verdict.action, "hold");
+  });
+});
+
+describe("strikes", () => {
+  it("suspends on reaching the limit, once", () => {
+    assert.equal(reachesSuspension(STRIKES_BEFORE_SUSPENSION - 1, 1, false), false);
+    assert.equal(reachesSuspension(STRIKES_BEFORE_SUSPENSION, 1, false), true);
+    assert.equal(reachesSuspension(STRIKES_BEFORE_SUSPENSION + 1, 1, true), false);
+  });
+
+  it("never suspends when a strike is taken back", () => {
+    assert.equal(reachesSuspension(STRIKES_BEFORE_SUSPENSION, -1, false), false);
+  });
+});
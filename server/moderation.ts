@@ -0,0 +1,302 @@
+export type ModerationCategory = "harassment" | "scam" | "minor_location";
+
+export type ModerationContentType = "forum_post" | "forum_comment" | "activity_message" | "profile_bio";
+
+// allow publishes as normal, hold keeps content back until a moderator approves it, hide removes it until a moderator
+// restores it. Neither costs the author a strike until a moderator confirms the removal.
+export type ModerationAction = "allow" | "hold" | "hide";
+
+export type ModerationStatus = "visible" | "held" | "hidden";
+
+export type ModerationScores = Record<ModerationCategory, number>;
+
+export interface ModerationInput {
+  contentType: ModerationContentType;
+  text: string;
+}
+
+// Scores run from 0 (clean) to 1 (certain violation); categories a classifier has no opinion on are left out.
+export interface ClassifierResult {
+  scores: Partial<ModerationScores>;
+  reasons: string[];
+}
+
+export interface ModerationClassifier {
+  name: string;
+  // Whether this classifier's scores alone may hide content. Keyword rules cannot tell "our kids at campsite 12"
+  // from a threat to them, so their hits only ever hold content for review.
+  canHide: boolean;
+  classify(input: ModerationInput): Promise<ClassifierResult | null>;
+}
+
+export interface ModerationVerdict {
+  action: ModerationAction;
+  scores: ModerationScores;
+  categories: ModerationCategory[];
+  reasons: string[];
+  classifiers: string[];
+}
+
+export interface Moderator {
+  review(input: ModerationInput): Promise<ModerationVerdict>;
+}
+
+export const MODERATION_CATEGORIES: ModerationCategory[] = ["harassment", "scam", "minor_location"];
+
+// Strikes only come from content a moderator removes, whatever the classifiers decided.
+export const STRIKES_BEFORE_SUSPENSION = 3;
+
+const THRESHOLDS: Record<ModerationCategory, { hold: number; hide: number }> = {
+  harassment: { hold: 0.5, hide: 0.85 },
+  scam: { hold: 0.5, hide: 0.85 },
+  // A child's whereabouts are held back on much weaker evidence than the other categories.
+  minor_location: { hold: 0.35, hide: 0.7 },
+};
+
+interface KeywordRule {
+  pattern: RegExp;
+  weight: number;
+  reason: string;
+}
+
+const HARASSMENT_RULES: KeywordRule[] = [
+  { pattern: /\b(kill|hang|shoot) (yourself|urself|yourselves)\b|\bkys\b|\bgo die\b/, weight: 0.95, reason: "Tells someone to harm themselves" },
+  {
+    pattern: /\b(ill|i will|im going to|im gonna|i am going to|i am gonna|gonna) (find|hurt|kill|rape|beat|stab|end) (you|u)\b/,
+    weight: 0.95,
+    reason: "Threatens violence",
+  },
+  { pattern: /\b(faggot|retard|tranny|nigger|kike|spic|chink)s?\b/, weight: 0.75, reason: "Uses a slur" },
+  { pattern: /\b(stupid|dumb|ugly|fat|fucking) (bitch|whore|slut|cunt)\b/, weight: 0.8, reason: "Abusive name-calling" },
+  {
+    pattern: /\b(you|u|youre|ur) (are |r )?(such )?(a |an )?(worthless|pathetic|disgusting|ugly|stupid|idiot|moron|loser|whore|slut|bitch|cunt)\b/,
+    weight: 0.6,
+    reason: "Insults a person directly",
+  },
+  { pattern: /\bnobody (likes|wants|cares about) (you|u)\b|\bno one (likes|wants) (you|u)\b/, weight: 0.5, reason: "Demeans a person" },
+  { pattern: /\bshut (the fuck )?up\b/, weight: 0.3, reason: "Hostile language" },
+];
+
+const SCAM_RULES: KeywordRule[] = [
+  { pattern: /\b(western union|moneygram)\b/, weight: 0.6, reason: "Asks for an untraceable money transfer" },
+  { pattern: /\b(gift ?cards?|itunes cards?|steam cards?|google play cards?)\b/, weight: 0.55, reason: "Mentions paying with gift cards" },
+  {
+    pattern: /\b(invest\w*|trading|profits?|returns?|double)\b.{0,60}\b(bitcoin|btc|crypto|usdt|forex)\b|\b(bitcoin|btc|crypto|usdt|forex)\b.{0,60}\b(invest\w*|trading|profits?|returns?|double)\b/,
+    weight: 0.6,
+    reason: "Pitches a crypto or trading investment",
+  },
+  { pattern: /\b(guaranteed|risk[- ]free) (profits?|returns?|income)\b/, weight: 0.6, reason: "Promises guaranteed returns" },
+  {
+    pattern: /\b(stranded|stuck|emergency|hospital)\b.{0,80}\b(send|lend|loan|need)( me)? (some )?(money|cash|funds|\$)/,
+    weight: 0.6,
+    reason: "Asks for money in an emergency",
+  },
+  // Only money sent to the writer: "I'll send the $30 to the campground" is a payment, not a request.
+  { pattern: /\b(send|wire|transfer) me (the |some )?(money|cash|funds|\$\s?\d+)/, weight: 0.45, reason: "Asks for money" },
+  { pattern: /\b(verify|confirm) (your )?(account|identity|card)\b.{0,40}\b(link|click|code)\b/, weight: 0.6, reason: "Phishing for account details" },
+  { pattern: /\b(customs|shipping|release|processing) fee\b/, weight: 0.5, reason: "Asks for an upfront fee" },
+  { pattern: /\b(bit\.ly|tinyurl\.com|cutt\.ly|t\.me|wa\.me)\//, weight: 0.45, reason: "Links through a shortener or messenger" },
+  { pattern: /\b(cash ?app|venmo|zelle|paypal)\b/, weight: 0.25, reason: "Mentions a payment app" },
+  { pattern: /\b(text|message|add|contact) me on (whatsapp|telegram|signal|wechat|kik)\b/, weight: 0.35, reason: "Moves the conversation off the app" },
+];
+
+const MINOR_RULES: KeywordRule[] = [
+  { pattern: /\b(my|our|her|his|their) (kids?|children|son|daughter|boy|girl|baby|toddler|child|teen)\b/, weight: 0.9, reason: "a child" },
+  { pattern: /\b([1-9]|1[0-7])[- ](years?|yrs?)[- ]old\b|\b([1-9]|1[0-7]) ?yo\b/, weight: 0.9, reason: "a child's age" },
+  { pattern: /\b(kids?|children|child|minors?|teens?|teenagers?|toddlers?|little ones)\b/, weight: 0.6, reason: "children" },
+];
+
+const LOCATION_RULES: KeywordRule[] = [
+  { pattern: /-?\d{1,2}\.\d{3,}\s*,\s*-?\d{1,3}\.\d{3,}/, weight: 1, reason: "exact coordinates" },
+  { pattern: /(maps\.google\.|goo\.gl\/maps|maps\.apple\.com|what3words\.com|w3w\.co)/, weight: 1, reason: "a map link" },
+  {
+    pattern: /\b\d{1,5}\s+([a-z0-9]+\s+){0,3}(street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|terrace)\b/,
+    weight: 0.95,
+    reason: "a street address",
+  },
+  { pattern: /\b(site|campsite|pitch|spot|lot|room|space|cabin|unit|apt|apartment)\s*#?\s*\d+\b/, weight: 0.85, reason: "a site or room number" },
+  { pattern: /\b[a-z]+ (elementary|primary|middle|high) school\b/, weight: 0.8, reason: "a named school" },
+  { pattern: /\b(parked|staying|camped|camping) (at|by|next to|behind)\b/, weight: 0.55, reason: "where they are staying" },
+  { pattern: /\bschool\b/, weight: 0.45, reason: "a school" },
+];
+
+// Mentioning that children are on their own makes a shared location more dangerous, not less.
+const UNSUPERVISED_PATTERN = /\b(alone|home alone|by (them|him|her)sel(f|ves)|unsupervised|without (us|me|an adult))\b/;
+
+// Lowercased with whitespace collapsed; digits and punctuation stay so addresses and coordinates can be matched.
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[‘’]/g, "'").replace(/\s+/g, " ").trim();
+}
+
+// Undoes common character swaps and drops punctuation, for the word lists ("k1ll y0urself", "i'll").
+function foldText(text: string): string {
+  return normalizeText(text)
+    .replace(/'/g, "")
+    .replace(/0/g, "o")
+    .replace(/1/g, "i")
+    .replace(/3/g, "e")
+    .replace(/4|@/g, "a")
+    .replace(/5|\$/g, "s")
+    .replace(/[^a-z\s]/g, " ")
+    .replace(/\s+/g, " ");
+}
+
+// Independent signals combine like probabilities, so several weak hits can add up to a strong one.
+function scoreRules(text: string, rules: KeywordRule[]): { score: number; reasons: string[] } {
+  let clean = 1;
+  const reasons: string[] = [];
+  for (const rule of rules) {
+    if (!rule.pattern.test(text)) continue;
+    clean *= 1 - rule.weight;
+    reasons.push(rule.reason);
+  }
+  return { score: 1 - clean, reasons };
+}
+
+function strongestRule(text: string, rules: KeywordRule[]): KeywordRule | null {
+  let best: KeywordRule | null = null;
+  for (const rule of rules) {
+    if (rule.pattern.test(text) && (!best || rule.weight > best.weight)) best = rule;
+  }
+  return best;
+}
+
+export const rulesClassifier: ModerationClassifier = {
+  name: "rules",
+  canHide: false,
+  async classify(input) {
+    const normalized = normalizeText(input.text);
+    const folded = foldText(input.text);
+    const harassment = scoreRules(folded, HARASSMENT_RULES);
+    const scam = scoreRules(normalized, SCAM_RULES);
+    const reasons = [...harassment.reasons, ...scam.reasons];
+
+    // Children and places are both fine on their own; only the two together are a risk.
+    let minorLocation = 0;
+    const minor = strongestRule(normalized, MINOR_RULES);
+    const place = strongestRule(normalized, LOCATION_RULES);
+    if (minor && place) {
+      minorLocation = minor.weight * place.weight;
+      if (UNSUPERVISED_PATTERN.test(normalized)) minorLocation = Math.min(1, minorLocation + 0.2);
+      reasons.push(`Mentions ${minor.reason} together with ${place.reason}`);
+    }
+
+    return {
+      scores: { harassment: harassment.score, scam: scam.score, minor_location: minorLocation },
+      reasons,
+    };
+  },
+};
+
+const LLM_SYSTEM_PROMPT = `You are a safety classifier for a community app for travellers and van lifers.
+Rate the user content for each category from 0 (clearly fine) to 1 (clearly a violation):
+- harassment: insults, threats, slurs, or encouraging self-harm aimed at people
+- scam: requests for money, fake investments, phishing, or pushing people to pay or move off the app
+- minor_location: revealing where a specific child can be found (address, campsite, school, coordinates, schedule)
+Reply with JSON only, for example {"harassment":0,"scam":0,"minor_location":0,"reason":"short explanation"}.`;
+
+function clampScore(value: unknown): number | undefined {
+  const score = Number(value);
+  return Number.isFinite(score) ? Math.min(Math.max(score, 0), 1) : undefined;
+}
+
+/**
+ * Wraps a chat completion function as a classifier. Replies that are not the expected JSON count
+ * as no opinion, so a flaky model never blocks content on its own.
+ */
+export function createLlmClassifier(complete: (messages: { role: string; content: string }[]) => Promise<string>): ModerationClassifier {
+  return {
+    name: "llm",
+    canHide: true,
+    async classify(input) {
+      const reply = await complete([
+        { role: "system", content: LLM_SYSTEM_PROMPT },
+        { role: "user", content: `Content type: ${input.contentType}\n\n"""${input.text.slice(0, 4000)}"""` },
+      ]);
+      const json = reply.match(/\{[\s\S]*\}/);
+      if (!json) return null;
+      let parsed: any;
+      try {
+        parsed = JSON.parse(json[0]);
+      } catch {
+        return null;
+      }
+
+      const scores: Partial<ModerationScores> = {};
+      for (const category of MODERATION_CATEGORIES) {
+        const score = clampScore(parsed?.[category]);
+        if (score !== undefined) scores[category] = score;
+      }
+      const flagged = MODERATION_CATEGORIES.some((category) => (scores[category] || 0) >= THRESHOLDS[category].hold);
+      const reason = typeof parsed?.reason === "string" ? parsed.reason.trim().slice(0, 200) : "";
+      return { scores, reasons: flagged && reason ? [`Classifier: ${reason}`] : [] };
+    },
+  };
+}
+
+/**
+ * hideScores are the scores from classifiers allowed to hide (see ModerationClassifier.canHide); anything else
+ * over a threshold is held, however high it scored.
+ */
+export function decideAction(scores: ModerationScores, hideScores: ModerationScores = scores): ModerationAction {
+  if (MODERATION_CATEGORIES.some((category) => hideScores[category] >= THRESHOLDS[category].hide)) return "hide";
+  if (MODERATION_CATEGORIES.some((category) => scores[category] >= THRESHOLDS[category].hold)) return "hold";
+  return "allow";
+}
+
+// Whether a strike change should suspend the account; only new strikes do, and never twice.
+export function reachesSuspension(strikes: number, delta: 1 | -1, alreadySuspended: boolean): boolean {
+  return delta > 0 && strikes >= STRIKES_BEFORE_SUSPENSION && !alreadySuspended;
+}
+
+export function moderationStatusFor(action: ModerationAction): ModerationStatus {
+  if (action === "hide") return "hidden";
+  if (action === "hold") return "held";
+  return "visible";
+}
+
+// Runs every classifier and keeps the highest score per category. A classifier that throws is skipped.
+export function createModerator(classifiers: ModerationClassifier[]): Moderator {
+  return {
+    async review(input) {
+      const scores: ModerationScores = { harassment: 0, scam: 0, minor_location: 0 };
+      const hideScores: ModerationScores = { harassment: 0, scam: 0, minor_location: 0 };
+      if (!input.text.trim()) {
+        return { action: "allow", scores, categories: [], reasons: [], classifiers: [] };
+      }
+
+      const results = await Promise.all(
+        classifiers.map(async (classifier) => {
+          const { name, canHide } = classifier;
+          try {
+            return { name, canHide, result: await classifier.classify(input) };
+          } catch (error) {
+            console.error(`[Moderation] ${name} classifier failed:`, error);
+            return { name, canHide, result: null };
+          }
+        })
+      );
+
+      const reasons: string[] = [];
+      const used: string[] = [];
+      for (const { name, result, canHide } of results) {
+        if (!result) continue;
+        used.push(name);
+        reasons.push(...result.reasons);
+        for (const category of MODERATION_CATEGORIES) {
+          scores[category] = Math.max(scores[category], result.scores[category] || 0);
+          if (canHide) hideScores[category] = Math.max(hideScores[category], result.scores[category] || 0);
+        }
+      }
+
+      for (const category of MODERATION_CATEGORIES) scores[category] = Math.round(scores[category] * 100) / 100;
+      return {
+        action: decideAction(scores, hideScores),
+        scores,
+        categories: MODERATION_CATEGORIES.filter((category) => scores[category] >= THRESHOLDS[category].hold),
+        reasons: Array.from(new Set(reasons)),
+        classifiers: used,
+      };
+    },
+  };
+}
@@ -0,0 +1,93 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { generateKeyPairSync, sign } from "crypto";
+import { createIdTokenVerifier, parseClientIds, type JsonWebKey } from "./oauth";
+
+const NOW = 1_800_000_000_000;
+const CLIENT_ID = "web-client.apps.googleusercontent.com";
+
+const { privateKey, publicKey } = generateKeyPairSync("rsa", { modulusLength: 2048 });
+const jwk: JsonWebKey = { ...publicKey.export({ format: "jwk" }), kid: "key-1", alg: "RS256", use: "sig" };
+
+function encode(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+function idToken(claims: Record<string, unknown> = {}, kid = "key-1"): string {
+  const body = `${encode({ alg: "RS256", kid })}.${encode({
+    iss: "https://accounts.google.com",
+    aud: CLIENT_ID,
+    sub: "google-123",
+    email: "Camper@Example.com",
+    email_verified: true,
+    iat: NOW / 1000 - 10,
+    exp: NOW / 1000 + 3600,
+    ...claims,
+  })}`;
+  return `${body}.${sign("RSA-SHA256", Buffer.from(body), privateKey).toString("base64url")}`;
+}
+
+function verifier(clock = { now: NOW }) {
+  let fetches = 0;
+  const verifyIdToken = createIdTokenVerifier({
+    audiences: { google: [CLIENT_ID], apple: [] },
+    fetchJwks: async () => {
+      fetches += 1;
+      return { keys: [jwk] };
+    },
+    now: () => clock.now,
+  });
+  return { verifyIdToken, fetches: () => fetches };
+}
+
+describe("ID token verification", () => {
+  it("accepts a signed token and normalizes the email", async () => {
+    const { verifyIdToken } = verifier();
+    const result = await verifyIdToken("google", idToken());
+    assert.deepEqual(result, {
+      identity: { provider: "google", subject: "google-123", email: "camper@example.com", emailVerified: true, name: null },
+    });
+  });
+
+  it("rejects tampered, foreign and expired tokens", async () => {
+    const { verifyIdToken } = verifier();
+    const [header, , signature] = idToken().split(".");
+    const tampered = `${header}.${encode({ sub: "someone-else", aud: CLIENT_ID })}.${signature}`;
+
+    assert.ok("error" in (await verifyIdToken("google", tampered)));
+    assert.ok("error" in (await verifyIdToken("google", idToken({ aud: "another-app" }))));
+    assert.ok("error" in (await verifyIdToken("google", idToken({ iss: "https://evil.example" }))));
+    assert.ok("error" in (await verifyIdToken("google", idToken({ exp: NOW / 1000 - 3600 }))));
+  });
+
+  it("caches keys and refuses providers without client ids", async () => {
+    const { verifyIdToken, fetches } = verifier();
+    await verifyIdToken("google", idToken());
+    await verifyIdToken("google", idToken());
+    assert.equal(fetches(), 1);
+
+    assert.deepEqual(await verifyIdToken("apple", idToken()), { error: "apple sign-in is not configured" });
+  });
+
+  it("refetches keys for an unknown kid at most once a minute", async () => {
+    const clock = { now: NOW };
+    const { verifyIdToken, fetches } = verifier(clock);
+    await verifyIdToken("google", idToken());
+
+    clock.now += 1000;
+    for (const kid of ["forged-1", "forged-2", "forged-3"]) {
+      assert.deepEqual(await verifyIdToken("google", idToken({}, kid)), { error: "Unknown ID token signing key" });
+    }
+    assert.equal(fetches(), 1);
+
+    clock.now += 60 * 1000;
+    await verifyIdToken("google", idToken({}, "forged-4"));
+    assert.equal(fetches(), 2);
+    assert.ok("identity" in (await verifyIdToken("google", idToken())));
+    assert.equal(fetches(), 2);
+  });
+
+  it("reads comma-separated client ids", () => {
+    assert.deepEqual(parseClientIds(" a.apps , b.apps,, "), ["a.apps", "b.apps"]);
+  });
+});
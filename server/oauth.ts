@@ -0,0 +1,149 @@
+import { createPublicKey, verify, type webcrypto } from "crypto";
+
+export type OAuthProvider = "google" | "apple";
+
+export const OAUTH_PROVIDERS: OAuthProvider[] = ["google", "apple"];
+
+interface ProviderConfig {
+  issuers: string[];
+  jwksUrl: string;
+}
+
+const PROVIDERS: Record<OAuthProvider, ProviderConfig> = {
+  google: {
+    issuers: ["https://accounts.google.com", "accounts.google.com"],
+    jwksUrl: "https://www.googleapis.com/oauth2/v3/certs",
+  },
+  apple: {
+    issuers: ["https://appleid.apple.com"],
+    jwksUrl: "https://appleid.apple.com/auth/keys",
+  },
+};
+
+// Providers rotate signing keys every few weeks; an unknown kid also forces a refetch,
+// but at most once a minute per provider so forged kids cannot hammer the JWKS endpoint.
+const JWKS_CACHE_MS = 60 * 60 * 1000;
+const JWKS_REFETCH_MS = 60 * 1000;
+const CLOCK_SKEW_MS = 60 * 1000;
+
+export interface VerifiedIdentity {
+  provider: OAuthProvider;
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  name: string | null;
+}
+
+export type IdTokenResult = { identity: VerifiedIdentity } | { error: string };
+
+// A provider signing key as published in its JWKS; kid names the key an ID token header points at.
+export type JsonWebKey = webcrypto.JsonWebKey & { kid?: string };
+
+export type JwksFetcher = (url: string) => Promise<{ keys: JsonWebKey[] }>;
+
+export interface IdTokenVerifierOptions {
+  // Client ids the tokens must be issued to (Google web/iOS/Android client ids, Apple bundle and service ids).
+  audiences: Record<OAuthProvider, string[]>;
+  fetchJwks?: JwksFetcher;
+  now?: () => number;
+}
+
+export function isOAuthProvider(value: unknown): value is OAuthProvider {
+  return OAUTH_PROVIDERS.includes(value as OAuthProvider);
+}
+
+// Comma-separated client ids from an env var such as GOOGLE_CLIENT_IDS.
+export function parseClientIds(value: string | undefined): string[] {
+  return String(value || "")
+    .split(",")
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+async function fetchJwksOverHttp(url: string): Promise<{ keys: JsonWebKey[] }> {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`JWKS request to ${url} failed with ${response.status}`);
+  return response.json();
+}
+
+function decodeSegment(segment: string): Record<string, any> | null {
+  try {
+    const value = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+    return value && typeof value === "object" ? value : null;
+  } catch {
+    return null;
+  }
+}
+
+// Apple sends email_verified as the string "true"; Google as a boolean.
+function isTrue(value: unknown): boolean {
+  return value === true || value === "true";
+}
+
+/**
+ * Checks Google and Apple ID tokens: RS256 signature against the provider's published keys, issuer, audience and
+ * expiry. The caller decides what an unverified email means; this only reports it.
+ */
+export function createIdTokenVerifier(options: IdTokenVerifierOptions) {
+  const fetchJwks = options.fetchJwks || fetchJwksOverHttp;
+  const now = options.now || Date.now;
+  const keyCache = new Map<OAuthProvider, { keys: JsonWebKey[]; fetchedAt: number }>();
+
+  async function findKey(provider: OAuthProvider, kid: string): Promise<JsonWebKey | null> {
+    const cached = keyCache.get(provider);
+    const fresh = cached && now() - cached.fetchedAt < JWKS_CACHE_MS;
+    const hit = fresh ? cached.keys.find((key) => key.kid === kid) : undefined;
+    if (hit) return hit;
+    if (fresh && now() - cached.fetchedAt < JWKS_REFETCH_MS) return null;
+
+    const { keys } = await fetchJwks(PROVIDERS[provider].jwksUrl);
+    keyCache.set(provider, { keys: Array.isArray(keys) ? keys : [], fetchedAt: now() });
+    return keyCache.get(provider)!.keys.find((key) => key.kid === kid) || null;
+  }
+
+  return async function verifyIdToken(provider: OAuthProvider, idToken: string): Promise<IdTokenResult> {
+    const audiences = options.audiences[provider] || [];
+    if (audiences.length === 0) return { error: `${provider} sign-in is not configured` };
+
+    const [encodedHeader, encodedPayload, signature] = String(idToken || "").split(".");
+    const header = encodedHeader ? decodeSegment(encodedHeader) : null;
+    const payload = encodedPayload ? decodeSegment(encodedPayload) : null;
+    if (!header || !payload || !signature) return { error: "Malformed ID token" };
+    if (header.alg !== "RS256" || typeof header.kid !== "string") return { error: "Unsupported ID token algorithm" };
+
+    const jwk = await findKey(provider, header.kid);
+    if (!jwk) return { error: "Unknown ID token signing key" };
+
+    const signatureOk = verify(
+      "RSA-SHA256",
+      Buffer.from(`${encodedHeader}.${encodedPayload}`),
+      createPublicKey({ key: jwk, format: "jwk" }),
+      Buffer.from(signature, "base64url")
+    );
+    if (!signatureOk) return { error: "Invalid ID token signature" };
+
+    if (!PROVIDERS[provider].issuers.includes(payload.iss)) return { error: "Unexpected ID token issuer" };
+
+    const tokenAudiences = Array.isArray(payload.aud) ? payload.aud : [payload.aud];
+    if (!tokenAudiences.some((aud) => audiences.includes(aud))) return { error: "ID token was issued to another app" };
+
+    const current = now();
+    if (typeof payload.exp !== "number" || payload.exp * 1000 + CLOCK_SKEW_MS < current) {
+      return { error: "ID token has expired" };
+    }
+    if (typeof payload.iat === "number" && payload.iat * 1000 - CLOCK_SKEW_MS > current) {
+      return { error: "ID token is not valid yet" };
+    }
+    if (!payload.sub) return { error: "ID token has no subject" };
+
+    return {
+      identity: {
+        provider,
+        subject: String(payload.sub),
+        email: typeof payload.email === "string" ? payload.email.trim().toLowerCase() : null,
+        emailVerified: isTrue(payload.email_verified),
+        name: typeof payload.name === "string" && payload.name.trim() ? payload.name.trim() : null,
+      },
+    };
+  };
+}
@@ -0,0 +1,183 @@
+import type { RoutePolicy } from "./authorization";
+
+/**
+ * Who may call each API route. Every mutating route must be listed here (the authorizer refuses unlisted ones);
+ * reads are listed when they return one user's data. "actor" names the request field that says which user the
+ * call acts for, and it must match the signed-in user. Ownership of existing records (an AI session, a booking)
+ * is still checked by the route against res.locals.userId. "requiresVerifiedEmail" keeps accounts that have not
+ * confirmed their email address out of messaging and the radar.
+ */
+export const ROUTE_POLICIES: RoutePolicy[] = [
+  // Uploads, auth and AI
+  { method: "POST", path: "/api/uploads", access: "public", reason: "Anonymous uploads are accepted; a session token, when sent, records the caller as the file's owner" },
+  { method: "POST", path: "/api/auth/signup", access: "public", reason: "Creates the account and its first session" },
+  { method: "POST", path: "/api/auth/login", access: "public", reason: "Starts a session" },
+  { method: "POST", path: "/api/auth/login/2fa", access: "public", reason: "Authenticated by the login challenge token; failed codes lock the account out" },
+  { method: "POST", path: "/api/auth/magic-link", access: "public", reason: "Passwordless sign-in for signed-out users; same answer for unknown emails; rate limited per address" },
+  { method: "POST", path: "/api/auth/magic-link/verify", access: "public", reason: "Authenticated by the single-use emailed link or code; wrong codes burn the link" },
+  { method: "POST", path: "/api/auth/oauth/:provider", access: "public", reason: "Authenticated by a Google or Apple ID token checked against the provider's keys" },
+  { method: "POST", path: "/api/auth/refresh", access: "public", reason: "Authenticated by the refresh token in the body" },
+  { method: "POST", path: "/api/auth/logout", access: "public", reason: "Authenticated by the refresh token in the body; ends only that session" },
+  { method: "GET", path: "/api/auth/sessions", access: "user" },
+  { method: "DELETE", path: "/api/auth/sessions", access: "user" },
+  { method: "DELETE", path: "/api/auth/sessions/:sessionId", access: "user" },
+  { method: "GET", path: "/api/auth/2fa", access: "user" },
+  { method: "POST", path: "/api/auth/2fa/setup", access: "user" },
+  { method: "POST", path: "/api/auth/2fa/enable", access: "user" },
+  { method: "POST", path: "/api/auth/2fa/disable", access: "user" },
+  { method: "POST", path: "/api/auth/2fa/recovery-codes", access: "user" },
+  { method: "GET", path: "/api/auth/email", access: "user" },
+  { method: "POST", path: "/api/auth/reauth", access: "user" },
+  { method: "POST", path: "/api/auth/email/verification", access: "user" },
+  { method: "POST", path: "/api/auth/email/verify", access: "user" },
+  { method: "POST", path: "/api/auth/email/change", access: "user" },
+  { method: "POST", path: "/api/auth/email/change/confirm", access: "user" },
+  { method: "POST", path: "/api/account/export", access: "user" },
+  { method: "DELETE", path: "/api/account", access: "user" },
+  { method: "POST", path: "/api/ai/chat", access: "user", actor: "body.userId" },
+  { method: "POST", path: "/api/ai/analyze-photo", access: "public", reason: "Not available in this build; always answers 410 or 501" },
+  { method: "POST", path: "/api/ai/estimate-cost", access: "user", actor: "body.userId" },
+  { method: "POST", path: "/api/ai/generate-van-image", access: "public", reason: "Not available in this build; always answers 410 or 501" },
+
+  // AI chat sessions
+  { method: "GET", path: "/api/ai/sessions/:userId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/ai/sessions", access: "user", actor: "body.userId" },
+  { method: "PUT", path: "/api/ai/sessions/:sessionId", access: "user" },
+  { method: "DELETE", path: "/api/ai/sessions/:sessionId", access: "user" },
+
+  // Activities and activity chat
+  { method: "POST", path: "/api/activities", access: "user", actor: "body.user.id" },
+  { method: "POST", path: "/api/activities/:activityId/join", access: "user", actor: "body.user.id" },
+  { method: "DELETE", path: "/api/activities/:activityId", access: "user", actor: "body.userId" },
+  { method: "GET", path: "/api/activities/:activityId/messages", access: "user", actor: "query.userId" },
+  { method: "GET", path: "/api/activities/:activityId/threads", access: "user", actor: "query.userId" },
+  { method: "GET", path: "/api/activities/:activityId/threads/:rootId", access: "user", actor: "query.userId" },
+  { method: "POST", path: "/api/activities/:activityId/messages", access: "user", actor: "body.senderId", requiresVerifiedEmail: true },
+  { method: "PATCH", path: "/api/activities/:activityId/messages/:messageId/pin", access: "user", actor: "body.userId" },
+  { method: "PUT", path: "/api/activities/:activityId/messages/:messageId", access: "user", actor: "body.userId" },
+  { method: "POST", path: "/api/activities/:activityId/messages/:messageId/react", access: "user", actor: "body.userId" },
+  { method: "POST", path: "/api/activities/:activityId/messages/:messageId/vote", access: "user", actor: "body.userId" },
+  { method: "POST", path: "/api/activities/:activityId/messages/:messageId/close", access: "user", actor: "body.userId" },
+  { method: "DELETE", path: "/api/activities/:activityId/messages/:messageId", access: "user", actor: "query.userId" },
+  { method: "GET", path: "/api/activities/:activityId/moderators", access: "user", actor: "query.userId" },
+  { method: "POST", path: "/api/activities/:activityId/moderators", access: "user", actor: "body.requesterId" },
+  { method: "DELETE", path: "/api/activities/:activityId/moderators/:userId", access: "user", actor: "query.requesterId" },
+  { method: "POST", path: "/api/activities/:activityId/init-chat", access: "user", actor: "body.hostId" },
+
+  // Safety, SOS, feedback and password reset
+  { method: "POST", path: "/api/safety-ratings", access: "user", actor: "body.ratedByUserId" },
+  { method: "POST", path: "/api/sos/log", access: "user", actor: "body.userId" },
+  { method: "GET", path: "/api/sos/incidents", access: "user", actor: "query.userId" },
+  { method: "POST", path: "/api/feedback", access: "public", reason: "Support form that only sends an email; rate limited" },
+  { method: "POST", path: "/api/password-reset/send-otp", access: "public", reason: "Account recovery for signed-out users; rate limited" },
+  { method: "POST", path: "/api/password-reset/verify-otp", access: "public", reason: "Account recovery for signed-out users; rate limited" },
+  { method: "POST", path: "/api/password-reset/update-password", access: "public", reason: "Account recovery for signed-out users; rate limited" },
+
+  // User profiles
+  { method: "POST", path: "/api/user-profiles/upsert", access: "user", actor: "body.id" },
+  { method: "GET", path: "/api/user-profiles/:userId", access: "user", actor: "params.userId" },
+
+  // ExploreX
+  { method: "POST", path: "/api/explorex/intent/:userId", access: "user", actor: "params.userId" },
+  { method: "GET", path: "/api/explorex/intent/:userId", access: "user", actor: "params.userId" },
+  { method: "GET", path: "/api/explorex/plans/:userId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/explorex/plans/:userId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/explorex/plans/:userId/:planId/activate", access: "user", actor: "params.userId" },
+  { method: "DELETE", path: "/api/explorex/plans/:userId/:planId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/explorex/chat-starters", access: "public", reason: "Returns canned prompts without reading or writing user data" },
+  { method: "POST", path: "/api/explorex/meet-now/suggest", access: "user", actor: "body.userId" },
+  { method: "POST", path: "/api/explorex/journey/log", access: "user" },
+  { method: "GET", path: "/api/explorex/journey/:userId", access: "user", actor: "params.userId" },
+  { method: "GET", path: "/api/explorex/serendipity/:userId", access: "user", actor: "params.userId" },
+
+  // Subscriptions
+  { method: "POST", path: "/api/webhooks/revenuecat", access: "public", reason: "Authenticated by the RevenueCat webhook secret" },
+  { method: "GET", path: "/api/subscription/:userId", access: "user", actor: "params.userId" },
+
+  // Compatibility
+  { method: "POST", path: "/api/compatibility/check", access: "user", actor: "body.userAId" },
+  { method: "GET", path: "/api/compatibility/history/:userId", access: "user", actor: "params.userId" },
+
+  // Radar
+  { method: "POST", path: "/api/radar/update-location", access: "user", actor: "body.userId", requiresVerifiedEmail: true },
+  { method: "POST", path: "/api/radar/scan", access: "user", actor: "body.userId", requiresVerifiedEmail: true },
+  { method: "POST", path: "/api/radar/toggle-visibility", access: "user", actor: "body.userId", requiresVerifiedEmail: true },
+
+  // Presence
+  { method: "GET", path: "/api/presence", access: "user", actor: "query.viewerId" },
+  { method: "POST", path: "/api/presence/visibility", access: "user", actor: "body.userId" },
+
+  // Radar chat requests
+  { method: "POST", path: "/api/radar/chat-request", access: "user", actor: "body.senderId", requiresVerifiedEmail: true },
+  { method: "GET", path: "/api/radar/chat-requests/:userId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/radar/chat-request/:requestId/respond", access: "user", actor: "body.responderId", requiresVerifiedEmail: true },
+
+  // Usage
+  { method: "GET", path: "/api/usage/:userId", access: "user", actor: "params.userId" },
+
+  // Travel verification
+  { method: "POST", path: "/api/verification/verify-travel", access: "user", actor: "body.userId" },
+  { method: "GET", path: "/api/verification/status/:userId", access: "user", actor: "params.userId" },
+
+  // Discover, swipes, matches and experts
+  { method: "GET", path: "/api/discover/profiles/:userId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/swipes", access: "user", actor: "body.swiperId" },
+  { method: "GET", path: "/api/matches/:userId", access: "user", actor: "params.userId" },
+  { method: "DELETE", path: "/api/matches/:matchId", access: "user", actor: "query.userId" },
+  { method: "GET", path: "/api/matches/:matchId/settings", access: "user", actor: "query.userId" },
+  { method: "PATCH", path: "/api/matches/:matchId/settings", access: "user", actor: "body.userId" },
+  { method: "GET", path: "/api/swipes/liked/:userId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/seed/mock-swipes", access: "admin" },
+  { method: "POST", path: "/api/swipes/reset/:userId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/expert/apply", access: "user", actor: "body.userId" },
+  { method: "GET", path: "/api/expert/status/:userId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/expert/verify/:applicationId", access: "user" },
+  { method: "POST", path: "/api/consultations/book", access: "user", actor: "body.userId" },
+  { method: "PATCH", path: "/api/consultations/:bookingId/payment", access: "user" },
+  { method: "GET", path: "/api/consultations/user/:userId", access: "user", actor: "params.userId" },
+  { method: "GET", path: "/api/consultations/expert/:expertId", access: "user", actor: "params.expertId" },
+
+  // Message search
+  { method: "GET", path: "/api/search/messages", access: "user", actor: "query.userId" },
+
+  // Chat messages
+  { method: "GET", path: "/api/messages/:matchId", access: "user", actor: "query.userId" },
+  { method: "POST", path: "/api/messages/:matchId", access: "user", actor: "body.senderId", requiresVerifiedEmail: true },
+  { method: "POST", path: "/api/messages/:matchId/receipts", access: "user", actor: "body.userId" },
+  { method: "PATCH", path: "/api/messages/:messageId", access: "user", actor: "body.userId" },
+  { method: "DELETE", path: "/api/messages/:messageId", access: "user", actor: "query.userId" },
+  { method: "PATCH", path: "/api/messages/:messageId/reactions", access: "user", actor: "body.userId" },
+
+  // Forum
+  { method: "POST", path: "/api/forum/posts", access: "user", actor: "body.authorId" },
+  { method: "POST", path: "/api/forum/posts/:postId/vote", access: "user", actor: "body.userId" },
+  { method: "POST", path: "/api/forum/posts/:postId/comments", access: "user", actor: "body.authorId" },
+  { method: "PUT", path: "/api/forum/comments/:commentId", access: "user", actor: "body.userId" },
+  { method: "DELETE", path: "/api/forum/comments/:commentId", access: "user", actor: "query.userId" },
+  { method: "POST", path: "/api/forum/comments/:commentId/upvote", access: "user", actor: "body.userId" },
+
+  // Blocks and reports
+  { method: "POST", path: "/api/blocks", access: "user", actor: "body.userId" },
+  { method: "DELETE", path: "/api/blocks/:blockedUserId", access: "user", actor: "query.userId" },
+  { method: "GET", path: "/api/blocks/:userId", access: "user", actor: "params.userId" },
+  { method: "POST", path: "/api/reports", access: "user", actor: "body.userId" },
+
+  // Admin
+  { method: "GET", path: "/api/admin/users", access: "admin" },
+  { method: "GET", path: "/api/admin/users/:userId", access: "admin" },
+  { method: "PATCH", path: "/api/admin/users/:userId", access: "admin" },
+  { method: "GET", path: "/api/admin/reports", access: "admin" },
+  { method: "PATCH", path: "/api/admin/reports/:reportId", access: "admin" },
+  { method: "GET", path: "/api/admin/expert-applications", access: "admin" },
+  { method: "POST", path: "/api/admin/expert-applications/:applicationId/decision", access: "admin" },
+  { method: "GET", path: "/api/admin/sos-incidents", access: "admin" },
+  { method: "PATCH", path: "/api/admin/sos-incidents/:incidentId", access: "admin" },
+  { method: "GET", path: "/api/admin/forum-posts", access: "admin" },
+  { method: "DELETE", path: "/api/admin/forum-posts/:postId", access: "admin" },
+  { method: "DELETE", path: "/api/admin/forum-comments/:commentId", access: "admin" },
+  { method: "GET", path: "/api/admin/activities", access: "admin" },
+  { method: "DELETE", path: "/api/admin/activities/:activityId", access: "admin" },
+  { method: "GET", path: "/api/admin/moderation", access: "admin" },
+  { method: "POST", path: "/api/admin/moderation/:itemId/decision", access: "admin" },
+  { method: "GET", path: "/api/admin/audit-log", access: "admin" },
+];
@@ -0,0 +1,120 @@
+export interface PollOption {
+  id: string;
+  text: string;
+}
+
+// How a poll is stored on its message row; votes live next to it as { optionId: userId[] }.
+export interface StoredPoll {
+  question: string;
+  options: PollOption[];
+  allowMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt?: string | null;
+  closedAt?: string | null;
+  closedBy?: string | null;
+}
+
+export type PollVotes = Record<string, string[]>;
+
+export interface PollView {
+  question: string;
+  options: { id: string; text: string; voteCount: number; voterIds?: string[] }[];
+  allowMultiple: boolean;
+  isAnonymous: boolean;
+  closesAt?: string;
+  closedAt?: string;
+  isClosed: boolean;
+  totalVoters: number;
+  myOptionIds: string[];
+}
+
+const MIN_POLL_OPTIONS = 2;
+const MAX_POLL_OPTIONS = 10;
+const MAX_QUESTION_LENGTH = 300;
+const MAX_OPTION_LENGTH = 100;
+
+// Validates a poll sent by a client; returns the poll to store or an error message.
+export function normalizePollInput(input: any): { poll: StoredPoll } | { error: string } {
+  const question = String(input?.question || "").trim();
+  if (!question) return { error: "Poll question is required" };
+  if (question.length > MAX_QUESTION_LENGTH) return { error: "Poll question is too long" };
+
+  const texts: string[] = Array.isArray(input?.options)
+    ? input.options.map((option: any) => String(typeof option === "string" ? option : option?.text || "").trim()).filter(Boolean)
+    : [];
+  const unique = Array.from(new Set(texts));
+  if (unique.length < MIN_POLL_OPTIONS) return { error: `A poll needs at least ${MIN_POLL_OPTIONS} different options` };
+  if (unique.length > MAX_POLL_OPTIONS) return { error: `A poll can have at most ${MAX_POLL_OPTIONS} options` };
+  if (unique.some((text) => text.length > MAX_OPTION_LENGTH)) return { error: "Poll option is too long" };
+
+  let closesAt: string | null = null;
+  if (input?.closesAt) {
+    const time = new Date(input.closesAt).getTime();
+    if (!Number.isFinite(time) || time <= Date.now()) return { error: "Poll close time must be in the future" };
+    closesAt = new Date(time).toISOString();
+  }
+
+  return {
+    poll: {
+      question,
+      options: unique.map((text, index) => ({ id: `opt_${index + 1}`, text })),
+      allowMultiple: !!input?.allowMultiple,
+      isAnonymous: !!input?.isAnonymous,
+      closesAt,
+      closedAt: null,
+      closedBy: null,
+    },
+  };
+}
+
+export function isPollClosed(poll: StoredPoll, now = Date.now()): boolean {
+  if (poll.closedAt) return true;
+  return !!poll.closesAt && new Date(poll.closesAt).getTime() <= now;
+}
+
+// Replaces a user's choices; an empty list takes their vote back.
+export function applyPollVote(poll: StoredPoll, votes: PollVotes, userId: string, optionIds: string[]): { votes: PollVotes } | { error: string } {
+  const chosen = Array.from(new Set(optionIds.map(String)));
+  const validIds = new Set(poll.options.map((option) => option.id));
+  if (chosen.some((id) => !validIds.has(id))) return { error: "Unknown poll option" };
+  if (!poll.allowMultiple && chosen.length > 1) return { error: "This poll allows only one choice" };
+
+  const next: PollVotes = {};
+  for (const option of poll.options) {
+    const voters = (votes[option.id] || []).filter((id) => id !== userId);
+    if (chosen.includes(option.id)) voters.push(userId);
+    if (voters.length > 0) next[option.id] = voters;
+  }
+  return { votes: next };
+}
+
+/**
+ * Shapes a stored poll for clients. Anonymous polls only expose counts, so the viewer's own
+ * choices are filled in per request and left empty in broadcasts.
+ */
+export function buildPollView(poll: StoredPoll, votes: PollVotes | null | undefined, viewerId?: string): PollView {
+  const safeVotes = votes || {};
+  const voters = new Set<string>();
+  const options = poll.options.map((option) => {
+    const optionVoters = safeVotes[option.id] || [];
+    optionVoters.forEach((id) => voters.add(id));
+    return {
+      id: option.id,
+      text: option.text,
+      voteCount: optionVoters.length,
+      ...(poll.isAnonymous ? {} : { voterIds: optionVoters }),
+    };
+  });
+
+  return {
+    question: poll.question,
+    options,
+    allowMultiple: poll.allowMultiple,
+    isAnonymous: poll.isAnonymous,
+    closesAt: poll.closesAt || undefined,
+    closedAt: poll.closedAt || undefined,
+    isClosed: isPollClosed(poll),
+    totalVoters: voters.size,
+    myOptionIds: viewerId ? poll.options.filter((option) => (safeVotes[option.id] || []).includes(viewerId)).map((option) => option.id) : [],
+  };
+}
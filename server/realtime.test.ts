@@ -0,0 +1,108 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { WebSocket } from "ws";
+import { createRealtimeHub } from "./realtime";
+
+const CHANNEL = "match:m1";
+
+// Connects as the user named by the token and collects every frame the hub sends.
+async function connect(baseUrl: string, userId: string) {
+  const socket = new WebSocket(`${baseUrl}/api/realtime?token=${userId}`);
+  const frames: any[] = [];
+  socket.on("message", (data) => frames.push(JSON.parse(data.toString())));
+  await new Promise<void>((resolve, reject) => {
+    socket.once("open", () => resolve());
+    socket.once("error", reject);
+  });
+
+  const waitFor = async (predicate: (frame: any) => boolean) => {
+    for (let i = 0; i < 100; i++) {
+      const frame = frames.find(predicate);
+      if (frame) return frame;
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    }
+    throw new Error("frame never arrived");
+  };
+  const send = (frame: Record<string, unknown>) => socket.send(JSON.stringify(frame));
+  return { socket, frames, waitFor, send };
+}
+
+const settle = (ms = 50) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Every user may read every channel; tokens are user ids.
+async function startHub(options: { heartbeatMs?: number; backlogTtlMs?: number } = {}) {
+  const server = createServer();
+  const hub = createRealtimeHub(server, {
+    path: "/api/realtime",
+    authenticate: async (token) => (token ? { userId: token, sessionId: `sess_${token}` } : null),
+    authorize: async () => true,
+    ...options,
+  });
+  server.listen(0);
+  await new Promise<void>((resolve) => server.once("listening", () => resolve()));
+  return {
+    hub,
+    baseUrl: `ws://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    stop: async () => {
+      hub.close();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
+
+describe("realtime channels", () => {
+  it("stops events and typing for a user whose access to the channel was revoked", async () => {
+    const { hub, baseUrl, stop } = await startHub();
+    const owner = await connect(baseUrl, "owner");
+    const other = await connect(baseUrl, "other");
+    owner.send({ type: "subscribe", channel: CHANNEL });
+    other.send({ type: "subscribe", channel: CHANNEL });
+    await owner.waitFor((frame) => frame.type === "subscribed");
+    await other.waitFor((frame) => frame.type === "subscribed");
+
+    hub.revokeChannel(CHANNEL, "other");
+    await other.waitFor((frame) => frame.type === "unsubscribed" && frame.revoked);
+
+    other.send({ type: "typing", channel: CHANNEL, isTyping: true });
+    hub.publish(CHANNEL, "message.created", { id: "msg_1" });
+    await owner.waitFor((frame) => frame.event === "message.created");
+    await settle();
+
+    assert.equal(owner.frames.some((frame) => frame.event === "typing"), false);
+    assert.equal(other.frames.some((frame) => frame.type === "event"), false);
+
+    owner.socket.close();
+    other.socket.close();
+    await stop();
+  });
+
+  it("drops idle channel logs and still resyncs cursors from before", async () => {
+    const { hub, baseUrl, stop } = await startHub({ heartbeatMs: 20, backlogTtlMs: 200 });
+    const client = await connect(baseUrl, "owner");
+    client.send({ type: "subscribe", channel: CHANNEL });
+    const before = (await client.waitFor((frame) => frame.type === "subscribed")).cursor;
+    hub.publish(CHANNEL, "message.created", { id: "msg_1" });
+    const seen = (await client.waitFor((frame) => frame.event === "message.created")).cursor;
+
+    client.send({ type: "unsubscribe", channel: CHANNEL });
+    await client.waitFor((frame) => frame.type === "unsubscribed");
+    await settle(400);
+    hub.publish(CHANNEL, "message.created", { id: "msg_2" });
+
+    client.frames.length = 0;
+    client.send({ type: "subscribe", channel: CHANNEL, cursor: before });
+    assert.equal((await client.waitFor((frame) => frame.type === "subscribed")).resync, true);
+    client.send({ type: "unsubscribe", channel: CHANNEL });
+    await client.waitFor((frame) => frame.type === "unsubscribed");
+
+    client.frames.length = 0;
+    client.send({ type: "subscribe", channel: CHANNEL, cursor: seen });
+    assert.equal((await client.waitFor((frame) => frame.type === "subscribed")).resync, undefined);
+    assert.equal((await client.waitFor((frame) => frame.event === "message.created")).payload.id, "msg_2");
+
+    client.socket.close();
+    await stop();
+  });
+});
@@ -0,0 +1,337 @@
+import type { Server, IncomingMessage } from "node:http";
+import { randomBytes } from "node:crypto";
+import { WebSocketServer, WebSocket, type RawData } from "ws";
+
+export type PresenceStatus = "online" | "away" | "offline";
+
+interface RealtimeOptions {
+  path: string;
+  authenticate: (token: string) => Promise<{ userId: string; sessionId: string } | null>;
+  // Checked on each heartbeat so sockets of a session revoked through another server instance get closed too.
+  isSessionRevoked?: (sessionId: string) => Promise<boolean>;
+  authorize: (userId: string, channel: string) => Promise<boolean>;
+  onPresenceChange?: (userId: string, status: PresenceStatus) => void;
+  heartbeatMs?: number;
+  backlogSize?: number;
+  backlogTtlMs?: number;
+}
+
+interface ClientState {
+  userId: string;
+  sessionId: string;
+  channels: Set<string>;
+  alive: boolean;
+  status: Exclude<PresenceStatus, "offline">;
+}
+
+interface ChannelLog {
+  seq: number;
+  // Cursors at or past this sequence can resume; older events were trimmed from the backlog.
+  resumableFrom: number;
+  updatedAt: number;
+  events: { seq: number; frame: Record<string, unknown> }[];
+}
+
+type ClientFrame =
+  | { type: "subscribe"; channel: string; cursor?: string }
+  | { type: "unsubscribe"; channel: string }
+  | { type: "typing"; channel: string; isTyping: boolean }
+  | { type: "presence"; status: "online" | "away" }
+  | { type: "ping" };
+
+export interface RealtimeHub {
+  publish: (channel: string, event: string, payload: unknown) => void;
+  getPresence: (userId: string) => PresenceStatus;
+  closeSessions: (sessionIds: string[]) => void;
+  // Drops a user's sockets (or every socket, without userId) from a channel they may no longer read.
+  revokeChannel: (channel: string, userId?: string) => void;
+  close: () => void;
+}
+
+function readToken(req: IncomingMessage): string {
+  const auth = String(req.headers.authorization || "");
+  if (auth.toLowerCase().startsWith("bearer ")) {
+    return auth.slice(7).trim();
+  }
+  const url = new URL(req.url || "/", "http://localhost");
+  return String(url.searchParams.get("token") || "").trim();
+}
+
+function parseFrame(data: RawData): ClientFrame | null {
+  try {
+    const frame = JSON.parse(data.toString());
+    if (!frame || typeof frame.type !== "string") return null;
+    if (frame.type === "ping") return { type: "ping" };
+    if (frame.type === "subscribe" && typeof frame.channel === "string" && frame.channel) {
+      return { type: "subscribe", channel: frame.channel, cursor: typeof frame.cursor === "string" ? frame.cursor : undefined };
+    }
+    if (frame.type === "unsubscribe" && typeof frame.channel === "string" && frame.channel) {
+      return { type: "unsubscribe", channel: frame.channel };
+    }
+    if (frame.type === "typing" && typeof frame.channel === "string" && frame.channel) {
+      return { type: "typing", channel: frame.channel, isTyping: frame.isTyping !== false };
+    }
+    if (frame.type === "presence" && (frame.status === "online" || frame.status === "away")) {
+      return { type: "presence", status: frame.status };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+function send(socket: WebSocket, frame: Record<string, unknown>) {
+  if (socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(frame));
+  }
+}
+
+export function createRealtimeHub(server: Server, options: RealtimeOptions): RealtimeHub {
+  const wss = new WebSocketServer({ noServer: true });
+  const clients = new Map<WebSocket, ClientState>();
+  const subscribers = new Map<string, Set<WebSocket>>();
+  const logs = new Map<string, ChannelLog>();
+  const backlogSize = Math.max(0, options.backlogSize ?? 200);
+  const backlogTtlMs = options.backlogTtlMs ?? 15 * 60 * 1000;
+  // Cursors are "<epoch>.<seq>"; a new epoch per process tells clients that a restart lost the backlog.
+  const epoch = randomBytes(4).toString("hex");
+  // One sequence for every channel, so a channel whose idle log was dropped never reuses a number an old cursor holds.
+  let lastSeq = 0;
+  // Highest sequence of any dropped log: a channel without a log can only resume cursors at or past it.
+  let forgottenThrough = 0;
+  const presence = new Map<string, PresenceStatus>();
+
+  // A user is online if any of their sockets is in the foreground, away if all are backgrounded.
+  const computePresence = (userId: string): PresenceStatus => {
+    let status: PresenceStatus = "offline";
+    for (const state of clients.values()) {
+      if (state.userId !== userId) continue;
+      if (state.status === "online") return "online";
+      status = "away";
+    }
+    return status;
+  };
+
+  const refreshPresence = (userId: string) => {
+    const next = computePresence(userId);
+    if ((presence.get(userId) || "offline") === next) return;
+    if (next === "offline") presence.delete(userId);
+    else presence.set(userId, next);
+    options.onPresenceChange?.(userId, next);
+  };
+
+  const replay = (ws: WebSocket, channel: string, cursor: string | undefined) => {
+    const log = logs.get(channel);
+    const current = `${epoch}.${lastSeq}`;
+    if (!cursor) {
+      send(ws, { type: "subscribed", channel, cursor: current });
+      return;
+    }
+
+    const [cursorEpoch, rawSeq] = cursor.split(".");
+    const since = Number(rawSeq);
+    const resumableFrom = log ? log.resumableFrom : forgottenThrough;
+    const canResume = cursorEpoch === epoch && Number.isFinite(since) && since >= resumableFrom && since <= lastSeq;
+    if (!canResume) {
+      send(ws, { type: "subscribed", channel, cursor: current, resync: true });
+      return;
+    }
+
+    send(ws, { type: "subscribed", channel, cursor: current });
+    for (const entry of log?.events || []) {
+      if (entry.seq > since) send(ws, entry.frame);
+    }
+  };
+
+  const unsubscribe = (socket: WebSocket, channel: string) => {
+    const state = clients.get(socket);
+    state?.channels.delete(channel);
+    const set = subscribers.get(channel);
+    if (!set) return;
+    set.delete(socket);
+    if (set.size === 0) subscribers.delete(channel);
+  };
+
+  // Reconnecting with a revoked session's token fails at the upgrade, so closing its sockets ends its realtime access.
+  const closeRevoked = (sessionIds: Set<string>) => {
+    for (const [ws, state] of clients.entries()) {
+      if (sessionIds.has(state.sessionId)) ws.close(4001, "Session revoked");
+    }
+  };
+
+  server.on("upgrade", async (req, socket, head) => {
+    const pathname = new URL(req.url || "/", "http://localhost").pathname;
+    if (pathname !== options.path) return;
+
+    let session: { userId: string; sessionId: string } | null = null;
+    try {
+      session = await options.authenticate(readToken(req));
+    } catch (error) {
+      console.error("[Realtime] Authentication failed:", error);
+    }
+    if (!session) {
+      socket.write("HTTP/1.1 401 Unauthorized\r\n\r\n");
+      socket.destroy();
+      return;
+    }
+
+    const { userId, sessionId } = session;
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      clients.set(ws, { userId, sessionId, channels: new Set(), alive: true, status: "online" });
+      wss.emit("connection", ws, req);
+      refreshPresence(userId);
+    });
+  });
+
+  wss.on("connection", (ws: WebSocket) => {
+    const state = clients.get(ws);
+    if (!state) return;
+
+    ws.on("pong", () => {
+      state.alive = true;
+    });
+
+    ws.on("message", async (data) => {
+      const frame = parseFrame(data);
+      if (!frame) {
+        send(ws, { type: "error", error: "Invalid frame" });
+        return;
+      }
+
+      if (frame.type === "ping") {
+        send(ws, { type: "pong", at: new Date().toISOString() });
+        return;
+      }
+
+      if (frame.type === "unsubscribe") {
+        unsubscribe(ws, frame.channel);
+        send(ws, { type: "unsubscribed", channel: frame.channel });
+        return;
+      }
+
+      if (frame.type === "presence") {
+        state.status = frame.status;
+        refreshPresence(state.userId);
+        return;
+      }
+
+      if (frame.type === "typing") {
+        // Typing is ephemeral: relayed to the other subscribers only, never logged or replayed.
+        if (!state.channels.has(frame.channel)) return;
+        const typingFrame = {
+          type: "event",
+          channel: frame.channel,
+          event: "typing",
+          payload: { userId: state.userId, isTyping: frame.isTyping },
+          at: new Date().toISOString(),
+        };
+        for (const peer of subscribers.get(frame.channel) || []) {
+          if (clients.get(peer)?.userId !== state.userId) send(peer, typingFrame);
+        }
+        return;
+      }
+
+      try {
+        const allowed = await options.authorize(state.userId, frame.channel);
+        if (!allowed) {
+          send(ws, { type: "error", channel: frame.channel, error: "Forbidden" });
+          return;
+        }
+        state.channels.add(frame.channel);
+        const set = subscribers.get(frame.channel) || new Set<WebSocket>();
+        set.add(ws);
+        subscribers.set(frame.channel, set);
+        replay(ws, frame.channel, frame.cursor);
+      } catch (error) {
+        console.error("[Realtime] Subscribe failed:", error);
+        send(ws, { type: "error", channel: frame.channel, error: "Subscribe failed" });
+      }
+    });
+
+    ws.on("close", () => {
+      for (const channel of Array.from(state.channels)) {
+        unsubscribe(ws, channel);
+      }
+      clients.delete(ws);
+      refreshPresence(state.userId);
+    });
+
+    ws.on("error", (error) => {
+      console.error("[Realtime] Socket error:", error);
+    });
+  });
+
+  // Drop sockets that stopped answering pings (phones going offline rarely send a close frame).
+  const heartbeat = setInterval(() => {
+    for (const [ws, state] of clients.entries()) {
+      if (!state.alive) {
+        ws.terminate();
+        continue;
+      }
+      state.alive = false;
+      ws.ping();
+    }
+
+    const now = Date.now();
+    for (const [channel, log] of logs.entries()) {
+      if (subscribers.has(channel) || now - log.updatedAt <= backlogTtlMs) continue;
+      logs.delete(channel);
+      forgottenThrough = Math.max(forgottenThrough, log.seq);
+    }
+
+    const isSessionRevoked = options.isSessionRevoked;
+    if (isSessionRevoked) {
+      const sessionIds = new Set(Array.from(clients.values(), (state) => state.sessionId));
+      Promise.all(Array.from(sessionIds, async (sessionId) => ((await isSessionRevoked(sessionId)) ? sessionId : null)))
+        .then((revoked) => closeRevoked(new Set(revoked.filter((sessionId): sessionId is string => !!sessionId))))
+        .catch((error) => console.error("[Realtime] Session check failed:", error));
+    }
+  }, options.heartbeatMs || 30_000);
+  heartbeat.unref();
+
+  return {
+    publish: (channel, event, payload) => {
+      const log = logs.get(channel) || { seq: 0, resumableFrom: forgottenThrough, updatedAt: 0, events: [] };
+      lastSeq += 1;
+      log.seq = lastSeq;
+      log.updatedAt = Date.now();
+      const frame = {
+        type: "event",
+        channel,
+        event,
+        payload,
+        cursor: `${epoch}.${log.seq}`,
+        at: new Date().toISOString(),
+      };
+      if (backlogSize > 0) {
+        log.events.push({ seq: log.seq, frame });
+        if (log.events.length > backlogSize) log.resumableFrom = log.events.shift()?.seq ?? log.resumableFrom;
+      } else {
+        log.resumableFrom = log.seq;
+      }
+      logs.set(channel, log);
+
+      const set = subscribers.get(channel);
+      if (!set) return;
+      for (const ws of set) {
+        send(ws, frame);
+      }
+    },
+    getPresence: (userId) => presence.get(userId) || "offline",
+    closeSessions: (sessionIds) => closeRevoked(new Set(sessionIds)),
+    revokeChannel: (channel, userId) => {
+      for (const ws of Array.from(subscribers.get(channel) || [])) {
+        if (userId && clients.get(ws)?.userId !== userId) continue;
+        unsubscribe(ws, channel);
+        send(ws, { type: "unsubscribed", channel, revoked: true });
+      }
+    },
+    close: () => {
+      clearInterval(heartbeat);
+      for (const ws of clients.keys()) {
+        ws.terminate();
+      }
+      wss.close();
+    },
+  };
+}
@@ -0,0 +1,72 @@
+export interface SearchHighlight {
+  start: number;
+  length: number;
+}
+
+export interface SearchSnippet {
+  snippet: string;
+  highlights: SearchHighlight[];
+}
+
+const MAX_SEARCH_TERMS = 5;
+const MIN_TERM_LENGTH = 2;
+
+export function tokenizeSearchQuery(query: string): string[] {
+  const terms = String(query || "")
+    .toLowerCase()
+    .split(/\s+/)
+    .map((term) => term.trim())
+    .filter((term) => term.length >= MIN_TERM_LENGTH);
+  return Array.from(new Set(terms)).slice(0, MAX_SEARCH_TERMS);
+}
+
+// Turns a term into an ILIKE pattern, escaping the wildcard characters a user might type.
+export function toLikePattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, (ch) => `\\${ch}`)}%`;
+}
+
+function findHighlights(text: string, terms: string[]): SearchHighlight[] {
+  const lower = text.toLowerCase();
+  const ranges: SearchHighlight[] = [];
+  for (const term of terms) {
+    let index = lower.indexOf(term);
+    while (index >= 0) {
+      ranges.push({ start: index, length: term.length });
+      index = lower.indexOf(term, index + term.length);
+    }
+  }
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: SearchHighlight[] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.start + last.length) {
+      last.length = Math.max(last.length, range.start + range.length - last.start);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// Cuts a window of text around the first match and reports where each term appears inside it.
+export function buildSearchSnippet(content: string, terms: string[], radius = 60): SearchSnippet {
+  const text = String(content || "").replace(/\s+/g, " ").trim();
+  const lower = text.toLowerCase();
+  const hits = terms.map((term) => lower.indexOf(term)).filter((index) => index >= 0);
+  const firstHit = hits.length > 0 ? Math.min(...hits) : 0;
+
+  let start = Math.max(0, firstHit - radius);
+  let end = Math.min(text.length, firstHit + radius * 2);
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    if (space >= 0 && space < firstHit) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    if (space > firstHit) end = space;
+  }
+
+  const snippet = `${start > 0 ? "..." : ""}${text.slice(start, end)}${end < text.length ? "..." : ""}`;
+  return { snippet, highlights: findHighlights(snippet, terms) };
+}
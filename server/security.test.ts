@@ -0,0 +1,157 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { Request, Response } from "express";
+import type { Pool, PoolClient } from "pg";
+import {
+  consumeRateLimit,
+  createLockout,
+  createMemoryRateLimitStore,
+  createPostgresRateLimitStore,
+  createRateLimiter,
+  type RateLimitRule,
+  type RateLimitStore,
+} from "./security";
+
+const MINUTE = 60_000;
+
+function fakeClock(start = 10 * MINUTE) {
+  let now = start;
+  return {
+    now: () => now,
+    advance: (ms: number) => {
+      now += ms;
+    },
+  };
+}
+
+async function hits(store: ReturnType<typeof createMemoryRateLimitStore>, key: string, rule: RateLimitRule, count: number) {
+  const allowed: boolean[] = [];
+  for (let i = 0; i < count; i++) allowed.push((await consumeRateLimit(store, key, rule)).allowed);
+  return allowed;
+}
+
+describe("sliding window", () => {
+  const rule: RateLimitRule = { algorithm: "sliding-window", windowMs: MINUTE, max: 5 };
+
+  it("allows max requests per window and keys limits separately", async () => {
+    const clock = fakeClock();
+    const store = createMemoryRateLimitStore(clock.now);
+
+    assert.deepEqual(await hits(store, "a", rule, 6), [true, true, true, true, true, false]);
+    assert.equal((await consumeRateLimit(store, "b", rule)).allowed, true);
+  });
+
+  it("weights the previous window so a burst at the boundary is not doubled", async () => {
+    const clock = fakeClock();
+    const store = createMemoryRateLimitStore(clock.now);
+    clock.advance(MINUTE - 1000);
+    await hits(store, "a", rule, 5);
+
+    clock.advance(2000);
+    const denied = await consumeRateLimit(store, "a", rule);
+    assert.equal(denied.allowed, false);
+    assert.ok(denied.retryAfterMs > 0 && denied.retryAfterMs <= MINUTE, `retry after ${denied.retryAfterMs}`);
+
+    clock.advance(denied.retryAfterMs);
+    assert.equal((await consumeRateLimit(store, "a", rule)).allowed, true);
+  });
+});
+
+describe("token bucket", () => {
+  const rule: RateLimitRule = { algorithm: "token-bucket", windowMs: MINUTE, max: 4 };
+
+  it("allows a burst up to capacity and refills over time", async () => {
+    const clock = fakeClock();
+    const store = createMemoryRateLimitStore(clock.now);
+
+    assert.deepEqual(await hits(store, "a", rule, 5), [true, true, true, true, false]);
+
+    const denied = await consumeRateLimit(store, "a", rule);
+    assert.equal(denied.retryAfterMs, MINUTE / 4);
+
+    clock.advance(MINUTE / 2);
+    assert.deepEqual(await hits(store, "a", rule, 3), [true, true, false]);
+  });
+});
+
+describe("lockout", () => {
+  it("locks after repeated failures and forgets them on success", async () => {
+    const clock = fakeClock();
+    const store = createMemoryRateLimitStore(clock.now);
+    const lockout = createLockout({ name: "login", maxFailures: 3, lockMs: 15 * MINUTE, store });
+
+    await lockout.recordFailure("user");
+    await lockout.recordFailure("user");
+    await lockout.clear("user");
+    await lockout.recordFailure("user");
+    assert.equal((await lockout.check("user")).locked, false);
+
+    await lockout.recordFailure("user");
+    await lockout.recordFailure("user");
+    const locked = await lockout.check("user");
+    assert.equal(locked.locked, true);
+    assert.equal(locked.remainingMs, 15 * MINUTE);
+    assert.equal((await lockout.check("other")).locked, false);
+
+    clock.advance(15 * MINUTE);
+    assert.equal((await lockout.check("user")).locked, false);
+  });
+});
+
+// A pool whose clients are all checked out: connect() only resolves when release() hands one back.
+function exhaustedPool() {
+  let handOut: ((client: PoolClient) => void) | null = null;
+  let released = 0;
+  const pool = {
+    connect: () => new Promise<PoolClient>((resolve) => (handOut = resolve)),
+    query: async () => ({ rows: [] }),
+  } as unknown as Pool;
+  return {
+    pool,
+    freeClient: () => handOut?.({ release: () => (released += 1) } as unknown as PoolClient),
+    released: () => released,
+  };
+}
+
+function unavailableStore(): RateLimitStore {
+  return {
+    update: async () => {
+      throw new Error("timed out");
+    },
+  };
+}
+
+async function runLimiter(failClosed: boolean) {
+  const limiter = createRateLimiter({ name: "test", windowMs: MINUTE, max: 5, store: unavailableStore(), failClosed });
+  let status = 200;
+  let passed = false;
+  const res = {
+    setHeader: () => {},
+    status: (code: number) => {
+      status = code;
+      return res;
+    },
+    json: () => res,
+  } as unknown as Response;
+  await limiter({ headers: {}, ip: "10.0.0.1" } as Request, res, () => {
+    passed = true;
+  });
+  return { status, passed };
+}
+
+describe("store outages", () => {
+  it("gives up on a connection after the timeout and returns a late client", async () => {
+    const fake = exhaustedPool();
+    const store = createPostgresRateLimitStore(fake.pool, createMemoryRateLimitStore(), 20);
+
+    await assert.rejects(consumeRateLimit(store, "a", { windowMs: MINUTE, max: 5 }), { code: "RATE_LIMIT_STORE_TIMEOUT" });
+    fake.freeClient();
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(fake.released(), 1);
+  });
+
+  it("lets requests through by default and refuses them when the limiter fails closed", async () => {
+    assert.deepEqual(await runLimiter(false), { status: 200, passed: true });
+    assert.deepEqual(await runLimiter(true), { status: 503, passed: false });
+  });
+});
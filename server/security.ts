@@ -1,19 +1,82 @@
 import type { Request, Response, NextFunction, RequestHandler } from "express";
+import type { Pool, PoolClient } from "pg";
 
-type KeyGenerator = (req: Request) => string;
+type KeyGenerator = (req: Request, res: Response) => string;
 
-interface RateLimitOptions {
+export type RateLimitAlgorithm = "sliding-window" | "token-bucket";
+
+/**
+ * sliding-window allows `max` requests in any `windowMs` span (weighted over the current and previous window);
+ * token-bucket holds up to `max` tokens and refills `max` of them every `windowMs`, so short bursts are fine.
+ */
+export interface RateLimitRule {
+  algorithm?: RateLimitAlgorithm;
   windowMs: number;
   max: number;
+}
+
+interface RateLimitOptions extends RateLimitRule {
+  // Namespaces the keys, so limiters sharing a store never count against each other.
+  name: string;
   keyGenerator?: KeyGenerator;
   message?: string;
+  store?: RateLimitStore;
+  // Refuse requests when the store cannot answer (sign-in and code checks); other limiters let them through.
+  failClosed?: boolean;
 }
 
-interface Bucket {
-  count: number;
+export interface RateLimitDecision {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
   resetAt: number;
+  retryAfterMs: number;
+}
+
+export interface StoreUpdate<S, T> {
+  result: T;
+  // Leave `state` out to keep what is stored; null deletes the key.
+  state?: S | null;
+  ttlMs?: number;
+}
+
+/**
+ * Expiring key/value state with atomic read-modify-write. Limiters and lockouts keep their counters here, and
+ * password-reset codes their short-lived state.
+ */
+export interface RateLimitStore {
+  update<S, T>(key: string, apply: (state: S | null, now: number) => StoreUpdate<S, T>): Promise<T>;
+}
+
+export interface Lockout {
+  check: (key: string) => Promise<{ locked: boolean; remainingMs: number }>;
+  recordFailure: (key: string) => Promise<void>;
+  clear: (key: string) => Promise<void>;
 }
 
+interface SlidingWindowState {
+  windowStart: number;
+  count: number;
+  previousCount: number;
+}
+
+interface TokenBucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+interface LockoutState {
+  failures: number;
+  lockedUntil: number;
+}
+
+const STORE_WARNING_INTERVAL_MS = 60_000;
+const STORE_CLEANUP_INTERVAL_MS = 5 * 60_000;
+const STORE_TIMEOUT_MS = 2_000;
+const STORE_TIMEOUT_CODE = "RATE_LIMIT_STORE_TIMEOUT";
+// Postgres cancels a statement that runs past statement_timeout with query_canceled.
+const QUERY_CANCELED_CODE = "57014";
+
 function getClientIp(req: Request): string {
   const header = req.headers["x-forwarded-for"];
   const first = Array.isArray(header) ? header[0] : header;
@@ -23,48 +86,291 @@ function getClientIp(req: Request): string {
   return req.ip || req.socket.remoteAddress || "unknown";
 }
 
-export function createRateLimiter(options: RateLimitOptions): RequestHandler {
-  const buckets = new Map<string, Bucket>();
-  const windowMs = Math.max(1000, options.windowMs);
-  const max = Math.max(1, options.max);
-  const keyGenerator = options.keyGenerator || ((req: Request) => getClientIp(req));
+export function keyByIp(req: Request): string {
+  return `ip:${getClientIp(req)}`;
+}
+
+// For routes behind a "user" policy, where the authorizer has already put the caller in res.locals.
+export function keyByUserOrIp(req: Request, res: Response): string {
+  return res.locals.userId ? `user:${res.locals.userId}` : keyByIp(req);
+}
+
+export function createMemoryRateLimitStore(clock: () => number = Date.now): RateLimitStore {
+  const entries = new Map<string, { state: unknown; expiresAt: number }>();
 
   setInterval(() => {
-    const now = Date.now();
-    for (const [key, bucket] of buckets.entries()) {
-      if (bucket.resetAt <= now) buckets.delete(key);
+    const now = clock();
+    for (const [key, entry] of entries.entries()) {
+      if (entry.expiresAt <= now) entries.delete(key);
     }
-  }, Math.min(windowMs, 60_000)).unref();
-
-  return (req: Request, res: Response, next: NextFunction) => {
-    const now = Date.now();
-    const key = keyGenerator(req);
-
-    const existing = buckets.get(key);
-    if (!existing || existing.resetAt <= now) {
-      buckets.set(key, { count: 1, resetAt: now + windowMs });
-      res.setHeader("X-RateLimit-Limit", String(max));
-      res.setHeader("X-RateLimit-Remaining", String(max - 1));
-      res.setHeader("X-RateLimit-Reset", String(Math.ceil((now + windowMs) / 1000)));
+  }, 60_000).unref();
+
+  return {
+    update: async <S, T>(key: string, apply: (state: S | null, now: number) => StoreUpdate<S, T>) => {
+      const now = clock();
+      const entry = entries.get(key);
+      const current = entry && entry.expiresAt > now ? (entry.state as S) : null;
+      const next = apply(current, now);
+
+      if (next.state === null) {
+        entries.delete(key);
+      } else if (next.state !== undefined) {
+        entries.set(key, { state: next.state, expiresAt: now + (next.ttlMs ?? 0) });
+      }
+      return next.result;
+    },
+  };
+}
+
+function isStoreTimeout(error: unknown): boolean {
+  const code = (error as { code?: string } | null)?.code;
+  return code === STORE_TIMEOUT_CODE || code === QUERY_CANCELED_CODE;
+}
+
+// pool.connect() waits for a free client for as long as it takes; give up after timeoutMs and return a late client.
+function connectWithin(pool: Pool, timeoutMs: number): Promise<PoolClient> {
+  return new Promise((resolve, reject) => {
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      reject(Object.assign(new Error(`No database connection within ${timeoutMs}ms`), { code: STORE_TIMEOUT_CODE }));
+    }, timeoutMs);
+
+    pool.connect().then(
+      (client) => {
+        clearTimeout(timer);
+        if (timedOut) client.release();
+        else resolve(client);
+      },
+      (error) => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Shares counts between server instances and across restarts through the rate_limits table. If Postgres cannot be
+ * reached the update runs against the in-memory fallback instead, so limits keep working per process. An update that
+ * waits longer than `timeoutMs` for a connection or a statement is rejected instead, and the caller decides whether
+ * to let the request through (see `failClosed`).
+ */
+export function createPostgresRateLimitStore(
+  pool: Pool,
+  fallback: RateLimitStore = createMemoryRateLimitStore(),
+  timeoutMs: number = STORE_TIMEOUT_MS
+): RateLimitStore {
+  let warnedAt = 0;
+
+  const warn = (error: unknown) => {
+    if (Date.now() - warnedAt < STORE_WARNING_INTERVAL_MS) return;
+    warnedAt = Date.now();
+    console.error("Rate limit store unavailable:", error);
+  };
+
+  setInterval(() => {
+    pool.query("DELETE FROM rate_limits WHERE expires_at <= NOW()").catch(() => {});
+  }, STORE_CLEANUP_INTERVAL_MS).unref();
+
+  return {
+    update: async <S, T>(key: string, apply: (state: S | null, now: number) => StoreUpdate<S, T>) => {
+      let client: PoolClient;
+      try {
+        client = await connectWithin(pool, timeoutMs);
+      } catch (error) {
+        warn(error);
+        if (isStoreTimeout(error)) throw error;
+        return fallback.update(key, apply);
+      }
+
+      try {
+        await client.query("BEGIN");
+        // Also bounds the wait for the advisory lock when many requests share a key.
+        await client.query("SELECT set_config('statement_timeout', $1, true)", [`${timeoutMs}ms`]);
+        // The advisory lock also covers keys that have no row yet, which SELECT ... FOR UPDATE would not.
+        await client.query("SELECT pg_advisory_xact_lock(hashtext($1))", [key]);
+        // Database time, so instances with drifting clocks still agree on windows.
+        const current = await client.query(
+          `SELECT (EXTRACT(EPOCH FROM NOW()) * 1000)::float8 AS now,
+                  (SELECT state FROM rate_limits WHERE key = $1 AND expires_at > NOW()) AS state`,
+          [key]
+        );
+        const now = Number(current.rows[0].now);
+        const next = apply((current.rows[0].state as S) ?? null, now);
+
+        if (next.state === null) {
+          await client.query("DELETE FROM rate_limits WHERE key = $1", [key]);
+        } else if (next.state !== undefined) {
+          await client.query(
+            `INSERT INTO rate_limits (key, state, expires_at) VALUES ($1, $2, to_timestamp($3 / 1000.0))
+             ON CONFLICT (key) DO UPDATE SET state = EXCLUDED.state, expires_at = EXCLUDED.expires_at`,
+            [key, JSON.stringify(next.state), now + (next.ttlMs ?? 0)]
+          );
+        }
+        await client.query("COMMIT");
+        return next.result;
+      } catch (error) {
+        await client.query("ROLLBACK").catch(() => {});
+        warn(error);
+        if (isStoreTimeout(error)) throw error;
+        return fallback.update(key, apply);
+      } finally {
+        client.release();
+      }
+    },
+  };
+}
+
+// When the next request would be allowed if nothing else arrives; previous-window hits fade out linearly.
+function slidingWindowRetryAt(state: SlidingWindowState, max: number, windowMs: number): number {
+  const windowEnd = state.windowStart + windowMs;
+  if (state.count <= max - 1 && state.previousCount > 0) {
+    return state.windowStart + windowMs * (1 - (max - 1 - state.count) / state.previousCount);
+  }
+  if (state.count <= max - 1) return state.windowStart;
+  return windowEnd + windowMs * (1 - (max - 1) / state.count);
+}
+
+function applySlidingWindow(
+  stored: SlidingWindowState | null,
+  rule: RateLimitRule,
+  now: number
+): StoreUpdate<SlidingWindowState, RateLimitDecision> {
+  const windowStart = Math.floor(now / rule.windowMs) * rule.windowMs;
+  let state: SlidingWindowState;
+  if (stored?.windowStart === windowStart) {
+    state = { ...stored };
+  } else if (stored?.windowStart === windowStart - rule.windowMs) {
+    state = { windowStart, count: 0, previousCount: stored.count };
+  } else {
+    state = { windowStart, count: 0, previousCount: 0 };
+  }
+
+  const previousWeight = 1 - (now - windowStart) / rule.windowMs;
+  const used = state.previousCount * previousWeight + state.count;
+  const ttlMs = windowStart + 2 * rule.windowMs - now;
+
+  if (used + 1 > rule.max) {
+    const retryAt = slidingWindowRetryAt(state, rule.max, rule.windowMs);
+    return {
+      state,
+      ttlMs,
+      result: { allowed: false, limit: rule.max, remaining: 0, resetAt: retryAt, retryAfterMs: Math.max(0, retryAt - now) },
+    };
+  }
+
+  state.count += 1;
+  return {
+    state,
+    ttlMs,
+    result: {
+      allowed: true,
+      limit: rule.max,
+      remaining: Math.max(0, Math.floor(rule.max - used - 1)),
+      resetAt: windowStart + rule.windowMs,
+      retryAfterMs: 0,
+    },
+  };
+}
+
+function applyTokenBucket(
+  stored: TokenBucketState | null,
+  rule: RateLimitRule,
+  now: number
+): StoreUpdate<TokenBucketState, RateLimitDecision> {
+  const refillPerMs = rule.max / rule.windowMs;
+  const refilled = stored ? stored.tokens + Math.max(0, now - stored.updatedAt) * refillPerMs : rule.max;
+  const tokens = Math.min(rule.max, refilled);
+  const allowed = tokens >= 1;
+  const next = { tokens: allowed ? tokens - 1 : tokens, updatedAt: now };
+  // Once the bucket would be full again the row carries no information, so it can expire.
+  const fullInMs = Math.ceil((rule.max - next.tokens) / refillPerMs);
+
+  return {
+    state: next,
+    ttlMs: fullInMs,
+    result: {
+      allowed,
+      limit: rule.max,
+      remaining: Math.floor(next.tokens),
+      resetAt: now + fullInMs,
+      retryAfterMs: allowed ? 0 : Math.ceil((1 - tokens) / refillPerMs),
+    },
+  };
+}
+
+function normalizeRule(rule: RateLimitRule): Required<RateLimitRule> {
+  return {
+    algorithm: rule.algorithm || "sliding-window",
+    windowMs: Math.max(1000, rule.windowMs),
+    max: Math.max(1, rule.max),
+  };
+}
+
+// Counts one request against `key` and says whether it may go ahead.
+export function consumeRateLimit(store: RateLimitStore, key: string, rule: RateLimitRule): Promise<RateLimitDecision> {
+  const normalized = normalizeRule(rule);
+  return normalized.algorithm === "token-bucket"
+    ? store.update<TokenBucketState, RateLimitDecision>(key, (state, now) => applyTokenBucket(state, normalized, now))
+    : store.update<SlidingWindowState, RateLimitDecision>(key, (state, now) => applySlidingWindow(state, normalized, now));
+}
+
+export function createRateLimiter(options: RateLimitOptions): RequestHandler {
+  const store = options.store || createMemoryRateLimitStore();
+  const rule = normalizeRule(options);
+  const keyGenerator = options.keyGenerator || keyByIp;
+
+  return async (req: Request, res: Response, next: NextFunction) => {
+    let decision: RateLimitDecision;
+    try {
+      decision = await consumeRateLimit(store, `rl:${options.name}:${keyGenerator(req, res)}`, rule);
+    } catch (error) {
+      console.error("Rate limit check failed:", error);
+      if (options.failClosed) {
+        res.setHeader("Retry-After", "5");
+        return res.status(503).json({ error: "We could not check this request right now. Please try again in a moment." });
+      }
       return next();
     }
 
-    if (existing.count >= max) {
-      const retryAfterSeconds = Math.max(1, Math.ceil((existing.resetAt - now) / 1000));
-      res.setHeader("Retry-After", String(retryAfterSeconds));
-      res.setHeader("X-RateLimit-Limit", String(max));
-      res.setHeader("X-RateLimit-Remaining", "0");
-      res.setHeader("X-RateLimit-Reset", String(Math.ceil(existing.resetAt / 1000)));
+    res.setHeader("X-RateLimit-Limit", String(decision.limit));
+    res.setHeader("X-RateLimit-Remaining", String(decision.remaining));
+    res.setHeader("X-RateLimit-Reset", String(Math.ceil(decision.resetAt / 1000)));
+
+    if (!decision.allowed) {
+      res.setHeader("Retry-After", String(Math.max(1, Math.ceil(decision.retryAfterMs / 1000))));
       return res.status(429).json({
         error: options.message || "Too many requests. Please try again later.",
       });
     }
-
-    existing.count += 1;
-    buckets.set(key, existing);
-    res.setHeader("X-RateLimit-Limit", String(max));
-    res.setHeader("X-RateLimit-Remaining", String(Math.max(0, max - existing.count)));
-    res.setHeader("X-RateLimit-Reset", String(Math.ceil(existing.resetAt / 1000)));
     next();
   };
 }
+
+/**
+ * Locks a key for `lockMs` after `maxFailures` failures. Failures are forgotten `lockMs` after the last one, and the
+ * count starts again once a lock is imposed.
+ */
+export function createLockout(options: { name: string; maxFailures: number; lockMs: number; store?: RateLimitStore }): Lockout {
+  const store = options.store || createMemoryRateLimitStore();
+  const storeKey = (key: string) => `lock:${options.name}:${key}`;
+
+  return {
+    check: (key) =>
+      store.update<LockoutState, { locked: boolean; remainingMs: number }>(storeKey(key), (state, now) => {
+        const remainingMs = state ? state.lockedUntil - now : 0;
+        return { result: remainingMs > 0 ? { locked: true, remainingMs } : { locked: false, remainingMs: 0 } };
+      }),
+    recordFailure: (key) =>
+      store.update<LockoutState, void>(storeKey(key), (state, now) => {
+        const failures = (state?.failures || 0) + 1;
+        const lockedUntil = state?.lockedUntil || 0;
+        if (failures >= options.maxFailures) {
+          return { state: { failures: 0, lockedUntil: now + options.lockMs }, ttlMs: options.lockMs, result: undefined };
+        }
+        return { state: { failures, lockedUntil }, ttlMs: Math.max(options.lockMs, lockedUntil - now), result: undefined };
+      }),
+    clear: (key) => store.update<LockoutState, void>(storeKey(key), () => ({ state: null, result: undefined })),
+  };
+}
@@ -0,0 +1,53 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createRevocationList } from "./sessions";
+
+// Stands in for auth_sessions, which every server instance reads.
+function sharedSessions(live: string[]) {
+  const sessions = new Set(live);
+  let lookups = 0;
+  return {
+    isSessionLive: async (sessionId: string) => {
+      lookups += 1;
+      return sessions.has(sessionId);
+    },
+    revokeElsewhere: (sessionId: string) => sessions.delete(sessionId),
+    lookups: () => lookups,
+  };
+}
+
+describe("session revocation", () => {
+  it("refuses a session revoked through another instance once the cached answer expires", async () => {
+    const shared = sharedSessions(["sess_1"]);
+    const revocations = createRevocationList({ isSessionLive: shared.isSessionLive, cacheMs: 0 });
+
+    assert.equal(await revocations.isRevoked("sess_1"), false);
+    shared.revokeElsewhere("sess_1");
+    assert.equal(await revocations.isRevoked("sess_1"), true);
+    assert.equal(await revocations.isRevoked("sess_unknown"), true);
+  });
+
+  it("caches live sessions and applies its own revocations at once", async () => {
+    const shared = sharedSessions(["sess_1", "sess_2"]);
+    const revocations = createRevocationList({ isSessionLive: shared.isSessionLive, cacheMs: 60_000 });
+    const notified: string[][] = [];
+    revocations.onRevoke((sessionIds) => notified.push(sessionIds));
+
+    assert.equal(await revocations.isRevoked("sess_1"), false);
+    assert.equal(await revocations.isRevoked("sess_1"), false);
+    assert.equal(shared.lookups(), 1);
+
+    revocations.revoke(["sess_1", "sess_2"]);
+    assert.equal(await revocations.isRevoked("sess_1"), true);
+    assert.deepEqual(notified, [["sess_1", "sess_2"]]);
+  });
+
+  it("counts a failed lookup as revoked", async () => {
+    const revocations = createRevocationList({
+      isSessionLive: async () => {
+        throw new Error("database unavailable");
+      },
+    });
+    assert.equal(await revocations.isRevoked("sess_1"), true);
+  });
+});
@@ -0,0 +1,133 @@
+import { createHash, randomBytes } from "crypto";
+
+// Access tokens are stateless and short-lived; the refresh token is the long-lived credential and lives in auth_sessions.
+export const ACCESS_TOKEN_TTL_MS = 15 * 60 * 1000;
+export const REFRESH_TOKEN_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+const MAX_DEVICE_NAME_LENGTH = 80;
+
+export type SessionRevokeReason =
+  | "logout"
+  | "revoked"
+  | "password_reset"
+  | "refresh_reuse"
+  | "suspended"
+  | "account_deleted";
+
+export interface DeviceInfo {
+  deviceName: string;
+  platform: string;
+}
+
+export interface RevocationList {
+  revoke: (sessionIds: string[]) => void;
+  isRevoked: (sessionId: string) => Promise<boolean>;
+  onRevoke: (listener: (sessionIds: string[]) => void) => void;
+}
+
+interface RevocationListOptions {
+  // Reads the shared record (auth_sessions); false once any server instance revoked the session or it was deleted.
+  isSessionLive: (sessionId: string) => Promise<boolean>;
+  cacheMs?: number;
+}
+
+export function generateSessionId(): string {
+  return `sess_${Date.now()}_${randomBytes(6).toString("hex")}`;
+}
+
+export function generateRefreshToken(): string {
+  return randomBytes(32).toString("base64url");
+}
+
+// Only the hash is stored, so a leaked sessions table cannot be replayed.
+export function hashRefreshToken(token: string): string {
+  return createHash("sha256").update(token).digest("hex");
+}
+
+function platformFromUserAgent(userAgent: string): string {
+  if (/iphone|ipad|ios|darwin/i.test(userAgent)) return "ios";
+  if (/android|okhttp/i.test(userAgent)) return "android";
+  if (/mozilla/i.test(userAgent)) return "web";
+  return "unknown";
+}
+
+function browserFromUserAgent(userAgent: string): string | null {
+  if (/edg\//i.test(userAgent)) return "Edge";
+  if (/firefox\//i.test(userAgent)) return "Firefox";
+  if (/chrome\//i.test(userAgent)) return "Chrome";
+  if (/safari\//i.test(userAgent)) return "Safari";
+  return null;
+}
+
+function osFromUserAgent(userAgent: string): string | null {
+  if (/iphone/i.test(userAgent)) return "iPhone";
+  if (/ipad/i.test(userAgent)) return "iPad";
+  if (/android/i.test(userAgent)) return "Android";
+  if (/macintosh|mac os x/i.test(userAgent)) return "Mac";
+  if (/windows/i.test(userAgent)) return "Windows";
+  if (/linux/i.test(userAgent)) return "Linux";
+  return null;
+}
+
+// The app sends its own device name and platform; browsers and older builds fall back to the user agent.
+export function describeDevice(userAgent: unknown, deviceName?: unknown, platform?: unknown): DeviceInfo {
+  const agent = String(userAgent || "");
+  const claimedPlatform = String(platform || "").trim().toLowerCase();
+  const resolvedPlatform = ["ios", "android", "web"].includes(claimedPlatform) ? claimedPlatform : platformFromUserAgent(agent);
+
+  const claimedName = String(deviceName || "").trim().slice(0, MAX_DEVICE_NAME_LENGTH);
+  if (claimedName) return { deviceName: claimedName, platform: resolvedPlatform };
+
+  const browser = browserFromUserAgent(agent);
+  const os = osFromUserAgent(agent);
+  const described = browser && os ? `${browser} on ${os}` : os || browser || "Unknown device";
+  return { deviceName: described, platform: resolvedPlatform };
+}
+
+/**
+ * Which sessions are revoked. The answer comes from the shared record, so a session revoked through any server
+ * instance stops working on all of them; it is cached for a few seconds to spare the database a query per request,
+ * which bounds how long another instance keeps accepting the token. Revocations made here apply at once, and a
+ * failed lookup counts as revoked.
+ */
+export function createRevocationList(options: RevocationListOptions): RevocationList {
+  const cacheMs = options.cacheMs ?? 10_000;
+  const cached = new Map<string, { revoked: boolean; until: number }>();
+  const listeners: ((sessionIds: string[]) => void)[] = [];
+
+  setInterval(() => {
+    const now = Date.now();
+    for (const [sessionId, entry] of cached.entries()) {
+      if (entry.until <= now) cached.delete(sessionId);
+    }
+  }, 60_000).unref();
+
+  return {
+    revoke: (sessionIds) => {
+      if (sessionIds.length === 0) return;
+      // A revoked session never comes back, so remembering it for one access-token lifetime covers every token it issued.
+      const until = Date.now() + ACCESS_TOKEN_TTL_MS;
+      sessionIds.forEach((sessionId) => cached.set(sessionId, { revoked: true, until }));
+      listeners.forEach((listener) => listener(sessionIds));
+    },
+    isRevoked: async (sessionId) => {
+      const entry = cached.get(sessionId);
+      if (entry && entry.until > Date.now()) return entry.revoked;
+
+      let revoked: boolean;
+      try {
+        revoked = !(await options.isSessionLive(sessionId));
+      } catch (error) {
+        console.error("Failed to check session revocation:", error);
+        return true;
+      }
+      if (!cached.get(sessionId)?.revoked) {
+        cached.set(sessionId, { revoked, until: Date.now() + (revoked ? ACCESS_TOKEN_TTL_MS : cacheMs) });
+      }
+      return revoked;
+    },
+    onRevoke: (listener) => {
+      listeners.push(listener);
+    },
+  };
+}
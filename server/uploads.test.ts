@@ -0,0 +1,46 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createUploadRemover, uploadFileName } from "./uploads";
+
+const OWNER_ID = "user_owner";
+const OTHER_ID = "user_other";
+
+function remover(owners: Record<string, string>) {
+  const unlinked: string[] = [];
+  const removeOwnedUpload = createUploadRemover({
+    rootDir: "/srv/uploads",
+    findOwner: async (fileName) => owners[fileName] ?? null,
+    unlink: async (filePath) => {
+      unlinked.push(filePath);
+    },
+  });
+  return { removeOwnedUpload, unlinked };
+}
+
+describe("upload cleanup", () => {
+  it("removes the user's own upload", async () => {
+    const { removeOwnedUpload, unlinked } = remover({ "photo_1.jpg": OWNER_ID });
+    assert.equal(await removeOwnedUpload("https://app.example/uploads/photo_1.jpg", OWNER_ID), true);
+    assert.deepEqual(unlinked, ["/srv/uploads/photo_1.jpg"]);
+  });
+
+  it("leaves another user's upload alone when a message points at it", async () => {
+    const { removeOwnedUpload, unlinked } = remover({ "photo_1.jpg": OWNER_ID });
+    assert.equal(await removeOwnedUpload("https://app.example/uploads/photo_1.jpg", OTHER_ID), false);
+    assert.equal(await removeOwnedUpload("https://elsewhere.example/uploads/photo_1.jpg", OTHER_ID), false);
+    assert.deepEqual(unlinked, []);
+  });
+
+  it("leaves files with no owner on record and URLs outside /uploads", async () => {
+    const { removeOwnedUpload, unlinked } = remover({});
+    assert.equal(await removeOwnedUpload("/uploads/anonymous.jpg", OWNER_ID), false);
+    assert.equal(await removeOwnedUpload("https://cdn.example/photo.jpg", OWNER_ID), false);
+    assert.deepEqual(unlinked, []);
+  });
+
+  it("never resolves a path outside the uploads folder", () => {
+    assert.equal(uploadFileName("/uploads/../../etc/passwd"), null);
+    assert.equal(uploadFileName("/uploads/%2e%2e%2fsecrets"), "%2e%2e%2fsecrets");
+    assert.equal(uploadFileName("not a url at all"), null);
+  });
+});
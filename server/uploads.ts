@@ -0,0 +1,41 @@
+import path from "node:path";
+
+// Name of the stored file behind a /uploads URL; null for anything this server did not serve.
+export function uploadFileName(url: string | null | undefined): string | null {
+  if (!url) return null;
+  let pathname: string;
+  try {
+    pathname = new URL(url, "http://localhost").pathname;
+  } catch {
+    return null;
+  }
+  if (!pathname.startsWith("/uploads/")) return null;
+  const name = path.basename(pathname);
+  return name && name !== "uploads" ? name : null;
+}
+
+interface UploadRemoverOptions {
+  rootDir: string;
+  // Who uploaded the file, from the record written by POST /api/uploads; null when nobody is on record.
+  findOwner: (fileName: string) => Promise<string | null>;
+  unlink: (filePath: string) => Promise<void>;
+}
+
+/**
+ * Deletes uploads on behalf of a user. A message or profile can point at any /uploads URL, including
+ * another user's file, so a file is only removed when the record says this user uploaded it.
+ */
+export function createUploadRemover(options: UploadRemoverOptions) {
+  return async function removeOwnedUpload(url: string | null | undefined, ownerId: string): Promise<boolean> {
+    const fileName = uploadFileName(url);
+    if (!fileName || !ownerId) return false;
+    if ((await options.findOwner(fileName)) !== ownerId) return false;
+
+    try {
+      await options.unlink(path.join(options.rootDir, fileName));
+    } catch (error: any) {
+      if (error?.code !== "ENOENT") throw error;
+    }
+    return true;
+  };
+}